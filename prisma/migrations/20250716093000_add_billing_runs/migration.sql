@@ -0,0 +1,47 @@
+-- CreateEnum
+CREATE TYPE "BillingRunStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateEnum
+CREATE TYPE "BillingTrigger" AS ENUM ('CRON', 'MANUAL');
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "billingDate" DATE,
+ADD COLUMN     "billingRunId" TEXT,
+ADD COLUMN     "chargeKey" TEXT;
+
+-- CreateTable
+CREATE TABLE "billing_runs" (
+    "id" TEXT NOT NULL,
+    "billingDate" DATE NOT NULL,
+    "status" "BillingRunStatus" NOT NULL DEFAULT 'RUNNING',
+    "trigger" "BillingTrigger" NOT NULL,
+    "total" INTEGER NOT NULL DEFAULT 0,
+    "successful" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "skipped" INTEGER NOT NULL DEFAULT 0,
+    "totalAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "triggeredById" TEXT,
+
+    CONSTRAINT "billing_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "billing_runs_companyId_billingDate_key" ON "billing_runs"("companyId", "billingDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payments_chargeKey_key" ON "payments"("chargeKey");
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_billingRunId_fkey" FOREIGN KEY ("billingRunId") REFERENCES "billing_runs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "billing_runs" ADD CONSTRAINT "billing_runs_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "billing_runs" ADD CONSTRAINT "billing_runs_triggeredById_fkey" FOREIGN KEY ("triggeredById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
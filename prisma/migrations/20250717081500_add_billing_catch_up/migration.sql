@@ -0,0 +1,7 @@
+-- AlterEnum
+ALTER TYPE "BillingTrigger" ADD VALUE 'STARTUP';
+
+-- AlterTable
+ALTER TABLE "billing_runs" ADD COLUMN     "caughtUp" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "caughtUpAmount" DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN     "details" JSONB;
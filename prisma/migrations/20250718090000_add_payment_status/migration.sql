@@ -0,0 +1,16 @@
+-- CreateEnum
+CREATE TYPE "PaymentStatus" AS ENUM ('PENDING', 'SUCCEEDED', 'FAILED', 'REVERSED');
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "failureReason" TEXT,
+ADD COLUMN     "retryCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "status" "PaymentStatus" NOT NULL DEFAULT 'SUCCEEDED';
+
+-- Backfill: неудачные списания раньше помечались префиксом "ОШИБКА" в описании
+UPDATE "payments"
+SET "status" = 'FAILED',
+    "failureReason" = COALESCE(substring("description" from '^ОШИБКА: [^.]*\. (.*)$'), "description")
+WHERE "description" LIKE 'ОШИБКА%';
+
+-- CreateIndex
+CREATE INDEX "payments_companyId_status_idx" ON "payments"("companyId", "status");
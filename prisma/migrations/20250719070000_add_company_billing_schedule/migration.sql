@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "companies" ADD COLUMN     "billingHour" INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN     "timezone" TEXT NOT NULL DEFAULT 'Asia/Bishkek';
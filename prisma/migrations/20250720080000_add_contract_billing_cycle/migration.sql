@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "BillingCycle" AS ENUM ('DAILY', 'WEEKLY', 'MONTHLY');
+
+-- AlterTable
+ALTER TABLE "contracts" ADD COLUMN     "billingAnchorDay" INTEGER,
+ADD COLUMN     "billingCycle" "BillingCycle" NOT NULL DEFAULT 'DAILY',
+ADD COLUMN     "cycleAmount" DECIMAL(10,2);
@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "ProrationMode" AS ENUM ('FULL_DAY', 'HALF_DAY_AFTER_CUTOFF', 'HOURLY');
+
+-- AlterTable
+ALTER TABLE "companies" ADD COLUMN     "prorationCutoffHour" INTEGER NOT NULL DEFAULT 12,
+ADD COLUMN     "prorationMode" "ProrationMode" NOT NULL DEFAULT 'FULL_DAY';
@@ -0,0 +1,17 @@
+-- CreateEnum
+CREATE TYPE "StatusChangeSource" AS ENUM ('USER', 'SYSTEM');
+
+-- AlterTable
+ALTER TABLE "companies" ADD COLUMN     "debtSuspensionDays" INTEGER,
+ADD COLUMN     "debtWarningDays" INTEGER;
+
+-- AlterTable
+ALTER TABLE "contracts" ADD COLUMN     "billingResumedAt" TIMESTAMP(3),
+ADD COLUMN     "debtWarningSentAt" TIMESTAMP(3),
+ADD COLUMN     "statusChangeSource" "StatusChangeSource",
+ADD COLUMN     "statusChangedAt" TIMESTAMP(3),
+ADD COLUMN     "statusChangedById" TEXT,
+ADD COLUMN     "statusReason" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "contracts" ADD CONSTRAINT "contracts_statusChangedById_fkey" FOREIGN KEY ("statusChangedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,57 @@
+-- CreateEnum
+CREATE TYPE "LateFeeMode" AS ENUM ('NONE', 'FLAT', 'DAILY_PERCENT');
+
+-- CreateEnum
+CREATE TYPE "LateFeeStatus" AS ENUM ('APPLIED', 'WAIVED');
+
+-- AlterTable
+ALTER TABLE "companies" ADD COLUMN     "lateFeeFlatAmount" DECIMAL(10,2),
+ADD COLUMN     "lateFeeGraceDays" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lateFeeMode" "LateFeeMode" NOT NULL DEFAULT 'NONE',
+ADD COLUMN     "lateFeePercent" DECIMAL(5,2);
+
+-- AlterTable
+ALTER TABLE "contracts" ADD COLUMN     "debtSince" TIMESTAMP(3),
+ADD COLUMN     "lateFeeAppliedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "late_fees" (
+    "id" TEXT NOT NULL,
+    "mode" "LateFeeMode" NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "debtAmount" DECIMAL(10,2) NOT NULL,
+    "accrualDate" DATE NOT NULL,
+    "status" "LateFeeStatus" NOT NULL DEFAULT 'APPLIED',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "waivedAt" TIMESTAMP(3),
+    "waiveReason" TEXT,
+    "waivedById" TEXT,
+    "paymentId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "driverId" TEXT NOT NULL,
+    "contractId" TEXT NOT NULL,
+
+    CONSTRAINT "late_fees_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "late_fees_paymentId_key" ON "late_fees"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "late_fees_companyId_status_idx" ON "late_fees"("companyId", "status");
+
+-- AddForeignKey
+ALTER TABLE "late_fees" ADD CONSTRAINT "late_fees_waivedById_fkey" FOREIGN KEY ("waivedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "late_fees" ADD CONSTRAINT "late_fees_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "late_fees" ADD CONSTRAINT "late_fees_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "late_fees" ADD CONSTRAINT "late_fees_driverId_fkey" FOREIGN KEY ("driverId") REFERENCES "drivers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "late_fees" ADD CONSTRAINT "late_fees_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "contracts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,31 @@
+-- AlterEnum
+ALTER TYPE "PaymentType" ADD VALUE 'DEPOSIT_OFFSET';
+
+-- CreateTable
+CREATE TABLE "contract_settlements" (
+    "id" TEXT NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "rentCharged" DECIMAL(10,2) NOT NULL,
+    "rentCredited" DECIMAL(10,2) NOT NULL,
+    "balanceBefore" DECIMAL(10,2) NOT NULL,
+    "rentOwed" DECIMAL(10,2) NOT NULL,
+    "finesOwed" DECIMAL(10,2) NOT NULL,
+    "deposit" DECIMAL(10,2) NOT NULL,
+    "depositUsed" DECIMAL(10,2) NOT NULL,
+    "refunded" DECIMAL(10,2) NOT NULL,
+    "remainingDebt" DECIMAL(10,2) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdById" TEXT,
+    "contractId" TEXT NOT NULL,
+
+    CONSTRAINT "contract_settlements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "contract_settlements_contractId_key" ON "contract_settlements"("contractId");
+
+-- AddForeignKey
+ALTER TABLE "contract_settlements" ADD CONSTRAINT "contract_settlements_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "contract_settlements" ADD CONSTRAINT "contract_settlements_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "contracts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
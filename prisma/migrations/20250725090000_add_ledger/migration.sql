@@ -0,0 +1,153 @@
+-- CreateEnum
+CREATE TYPE "LedgerAccountType" AS ENUM ('DRIVER_RECEIVABLE', 'DRIVER_DEPOSIT', 'DRIVER_DEPOSIT_BLOCKED', 'COMPANY_REVENUE', 'COMPANY_CASH', 'OPENING_BALANCE');
+
+-- CreateEnum
+CREATE TYPE "LedgerTransactionType" AS ENUM ('OPENING_BALANCE', 'RENT', 'FINE', 'FINE_WAIVER', 'TOP_UP', 'BONUS', 'REFUND', 'DEPOSIT_TOP_UP', 'DEPOSIT_DEDUCTION', 'DEPOSIT_BLOCK', 'DEPOSIT_OFFSET', 'DEPOSIT_RELEASE');
+
+-- CreateEnum
+CREATE TYPE "LedgerSide" AS ENUM ('DEBIT', 'CREDIT');
+
+-- CreateTable
+CREATE TABLE "ledger_accounts" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "type" "LedgerAccountType" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "companyId" TEXT NOT NULL,
+    "driverId" TEXT,
+
+    CONSTRAINT "ledger_accounts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ledger_transactions" (
+    "id" TEXT NOT NULL,
+    "type" "LedgerTransactionType" NOT NULL,
+    "description" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "companyId" TEXT NOT NULL,
+    "driverId" TEXT NOT NULL,
+    "contractId" TEXT,
+    "paymentId" TEXT,
+    "createdById" TEXT,
+
+    CONSTRAINT "ledger_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ledger_entries" (
+    "id" TEXT NOT NULL,
+    "side" "LedgerSide" NOT NULL,
+    "amount" DECIMAL(12,2) NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+
+    CONSTRAINT "ledger_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ledger_accounts_key_key" ON "ledger_accounts"("key");
+
+-- CreateIndex
+CREATE INDEX "ledger_accounts_driverId_idx" ON "ledger_accounts"("driverId");
+
+-- CreateIndex
+CREATE INDEX "ledger_transactions_driverId_createdAt_idx" ON "ledger_transactions"("driverId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ledger_transactions_paymentId_idx" ON "ledger_transactions"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_accountId_idx" ON "ledger_entries"("accountId");
+
+-- CreateIndex
+CREATE INDEX "ledger_entries_transactionId_idx" ON "ledger_entries"("transactionId");
+
+-- AddForeignKey
+ALTER TABLE "ledger_accounts" ADD CONSTRAINT "ledger_accounts_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_accounts" ADD CONSTRAINT "ledger_accounts_driverId_fkey" FOREIGN KEY ("driverId") REFERENCES "drivers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_transactions" ADD CONSTRAINT "ledger_transactions_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_transactions" ADD CONSTRAINT "ledger_transactions_driverId_fkey" FOREIGN KEY ("driverId") REFERENCES "drivers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_transactions" ADD CONSTRAINT "ledger_transactions_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "contracts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_transactions" ADD CONSTRAINT "ledger_transactions_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_transactions" ADD CONSTRAINT "ledger_transactions_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "ledger_transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ledger_entries" ADD CONSTRAINT "ledger_entries_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "ledger_accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Начальные остатки: текущие баланс, доступный и заблокированный депозит водителей
+-- переносятся в журнал против счета OPENING_BALANCE компании
+CREATE TEMPORARY TABLE "ledger_opening" AS
+SELECT
+    d."id" AS "driverId",
+    d."companyId",
+    d."balance",
+    d."deposit",
+    COALESCE((
+        SELECT SUM(c."deposit")
+        FROM "contracts" c
+        WHERE c."driverId" = d."id" AND c."status" NOT IN ('COMPLETED', 'TERMINATED')
+    ), 0) AS "blocked",
+    gen_random_uuid()::text AS "transactionId"
+FROM "drivers" d;
+
+INSERT INTO "ledger_accounts" ("id", "key", "type", "companyId")
+SELECT gen_random_uuid()::text, c."id" || ':OPENING_BALANCE', 'OPENING_BALANCE', c."id"
+FROM "companies" c;
+
+INSERT INTO "ledger_accounts" ("id", "key", "type", "companyId", "driverId")
+SELECT gen_random_uuid()::text, o."companyId" || ':' || t."type" || ':' || o."driverId", t."type"::"LedgerAccountType", o."companyId", o."driverId"
+FROM "ledger_opening" o
+CROSS JOIN (VALUES ('DRIVER_RECEIVABLE'), ('DRIVER_DEPOSIT'), ('DRIVER_DEPOSIT_BLOCKED')) AS t("type");
+
+INSERT INTO "ledger_transactions" ("id", "type", "description", "companyId", "driverId")
+SELECT o."transactionId", 'OPENING_BALANCE', 'Opening balance', o."companyId", o."driverId"
+FROM "ledger_opening" o
+WHERE o."balance" <> 0 OR o."deposit" <> 0 OR o."blocked" <> 0;
+
+-- Записи по счетам водителя: положительный остаток - кредит, отрицательный (долг) - дебет
+INSERT INTO "ledger_entries" ("id", "side", "amount", "transactionId", "accountId")
+SELECT
+    gen_random_uuid()::text,
+    (CASE WHEN v."amount" > 0 THEN 'CREDIT' ELSE 'DEBIT' END)::"LedgerSide",
+    ABS(v."amount"),
+    o."transactionId",
+    a."id"
+FROM "ledger_opening" o
+CROSS JOIN LATERAL (VALUES
+    ('DRIVER_RECEIVABLE', o."balance"),
+    ('DRIVER_DEPOSIT', o."deposit"),
+    ('DRIVER_DEPOSIT_BLOCKED', o."blocked")
+) AS v("type", "amount")
+JOIN "ledger_accounts" a ON a."key" = o."companyId" || ':' || v."type" || ':' || o."driverId"
+WHERE v."amount" <> 0;
+
+-- Встречные записи по счету начальных остатков
+INSERT INTO "ledger_entries" ("id", "side", "amount", "transactionId", "accountId")
+SELECT
+    gen_random_uuid()::text,
+    (CASE WHEN v."amount" > 0 THEN 'DEBIT' ELSE 'CREDIT' END)::"LedgerSide",
+    ABS(v."amount"),
+    o."transactionId",
+    a."id"
+FROM "ledger_opening" o
+CROSS JOIN LATERAL (VALUES (o."balance"), (o."deposit"), (o."blocked")) AS v("amount")
+JOIN "ledger_accounts" a ON a."key" = o."companyId" || ':OPENING_BALANCE'
+WHERE v."amount" <> 0;
+
+DROP TABLE "ledger_opening";
@@ -0,0 +1,17 @@
+-- AlterEnum
+ALTER TYPE "LedgerTransactionType" ADD VALUE 'REVERSAL';
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "reversalOfId" TEXT,
+ADD COLUMN     "reversalReason" TEXT,
+ADD COLUMN     "reversedAt" TIMESTAMP(3),
+ADD COLUMN     "reversedById" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payments_reversalOfId_key" ON "payments"("reversalOfId");
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_reversedById_fkey" FOREIGN KEY ("reversedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_reversalOfId_fkey" FOREIGN KEY ("reversalOfId") REFERENCES "payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "PaymentMethod" AS ENUM ('CASH', 'CARD', 'BANK_TRANSFER', 'QR');
+
+-- CreateEnum
+CREATE TYPE "CashShiftStatus" AS ENUM ('OPEN', 'CLOSED');
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "cashShiftId" TEXT,
+ADD COLUMN     "method" "PaymentMethod";
+
+-- CreateTable
+CREATE TABLE "cash_shifts" (
+    "id" TEXT NOT NULL,
+    "status" "CashShiftStatus" NOT NULL DEFAULT 'OPEN',
+    "openingCash" DECIMAL(10,2) NOT NULL,
+    "expectedCash" DECIMAL(10,2),
+    "countedCash" DECIMAL(10,2),
+    "discrepancy" DECIMAL(10,2),
+    "openNote" TEXT,
+    "closeNote" TEXT,
+    "openedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "closedAt" TIMESTAMP(3),
+    "cashierOpenKey" TEXT,
+    "cashierId" TEXT NOT NULL,
+    "closedById" TEXT,
+    "companyId" TEXT NOT NULL,
+
+    CONSTRAINT "cash_shifts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "payments_cashShiftId_idx" ON "payments"("cashShiftId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cash_shifts_cashierOpenKey_key" ON "cash_shifts"("cashierOpenKey");
+
+-- CreateIndex
+CREATE INDEX "cash_shifts_companyId_status_idx" ON "cash_shifts"("companyId", "status");
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_cashShiftId_fkey" FOREIGN KEY ("cashShiftId") REFERENCES "cash_shifts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cash_shifts" ADD CONSTRAINT "cash_shifts_cashierId_fkey" FOREIGN KEY ("cashierId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cash_shifts" ADD CONSTRAINT "cash_shifts_closedById_fkey" FOREIGN KEY ("closedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cash_shifts" ADD CONSTRAINT "cash_shifts_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
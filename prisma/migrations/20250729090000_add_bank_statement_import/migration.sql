@@ -0,0 +1,86 @@
+-- CreateEnum
+CREATE TYPE "BankStatementFormat" AS ENUM ('CSV', 'MT940');
+
+-- CreateEnum
+CREATE TYPE "BankStatementLineStatus" AS ENUM ('MATCHED', 'UNMATCHED', 'ASSIGNED', 'IGNORED');
+
+-- CreateEnum
+CREATE TYPE "BankMatchMethod" AS ENUM ('CONTRACT', 'LICENSE', 'PHONE', 'MANUAL');
+
+-- CreateTable
+CREATE TABLE "bank_statement_imports" (
+    "id" TEXT NOT NULL,
+    "format" "BankStatementFormat" NOT NULL,
+    "fileName" TEXT,
+    "totalLines" INTEGER NOT NULL DEFAULT 0,
+    "matchedLines" INTEGER NOT NULL DEFAULT 0,
+    "unmatchedLines" INTEGER NOT NULL DEFAULT 0,
+    "duplicateLines" INTEGER NOT NULL DEFAULT 0,
+    "skippedLines" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "importedById" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+
+    CONSTRAINT "bank_statement_imports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bank_statement_lines" (
+    "id" TEXT NOT NULL,
+    "lineNumber" INTEGER NOT NULL,
+    "bookingDate" TIMESTAMP(3) NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "reference" TEXT NOT NULL,
+    "payerName" TEXT,
+    "bankRef" TEXT,
+    "fingerprint" TEXT NOT NULL,
+    "status" "BankStatementLineStatus" NOT NULL,
+    "matchedBy" "BankMatchMethod",
+    "note" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "importId" TEXT NOT NULL,
+    "driverId" TEXT,
+    "contractId" TEXT,
+    "paymentId" TEXT,
+    "resolvedById" TEXT,
+    "companyId" TEXT NOT NULL,
+
+    CONSTRAINT "bank_statement_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bank_statement_imports_companyId_createdAt_idx" ON "bank_statement_imports"("companyId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bank_statement_lines_paymentId_key" ON "bank_statement_lines"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "bank_statement_lines_companyId_status_idx" ON "bank_statement_lines"("companyId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bank_statement_lines_companyId_fingerprint_key" ON "bank_statement_lines"("companyId", "fingerprint");
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_imports" ADD CONSTRAINT "bank_statement_imports_importedById_fkey" FOREIGN KEY ("importedById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_imports" ADD CONSTRAINT "bank_statement_imports_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_lines" ADD CONSTRAINT "bank_statement_lines_importId_fkey" FOREIGN KEY ("importId") REFERENCES "bank_statement_imports"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_lines" ADD CONSTRAINT "bank_statement_lines_driverId_fkey" FOREIGN KEY ("driverId") REFERENCES "drivers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_lines" ADD CONSTRAINT "bank_statement_lines_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "contracts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_lines" ADD CONSTRAINT "bank_statement_lines_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_lines" ADD CONSTRAINT "bank_statement_lines_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_lines" ADD CONSTRAINT "bank_statement_lines_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "OnlinePaymentStatus" AS ENUM ('PENDING', 'SUCCEEDED', 'FAILED', 'EXPIRED');
+
+-- CreateTable
+CREATE TABLE "online_payments" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "externalId" TEXT NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "method" "PaymentMethod" NOT NULL,
+    "status" "OnlinePaymentStatus" NOT NULL DEFAULT 'PENDING',
+    "paymentUrl" TEXT NOT NULL,
+    "qrPayload" TEXT,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "paidAt" TIMESTAMP(3),
+    "failureReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "driverId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "paymentId" TEXT,
+
+    CONSTRAINT "online_payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "online_payments_paymentId_key" ON "online_payments"("paymentId");
+
+-- CreateIndex
+CREATE INDEX "online_payments_status_expiresAt_idx" ON "online_payments"("status", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "online_payments_driverId_createdAt_idx" ON "online_payments"("driverId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "online_payments_provider_externalId_key" ON "online_payments"("provider", "externalId");
+
+-- AddForeignKey
+ALTER TABLE "online_payments" ADD CONSTRAINT "online_payments_driverId_fkey" FOREIGN KEY ("driverId") REFERENCES "drivers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "online_payments" ADD CONSTRAINT "online_payments_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "online_payments" ADD CONSTRAINT "online_payments_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
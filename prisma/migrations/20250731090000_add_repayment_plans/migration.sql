@@ -0,0 +1,80 @@
+-- AlterEnum
+ALTER TYPE "LedgerAccountType" ADD VALUE 'DRIVER_REPAYMENT_PLAN';
+
+-- AlterEnum
+ALTER TYPE "LedgerTransactionType" ADD VALUE 'REPAYMENT_PLAN';
+ALTER TYPE "LedgerTransactionType" ADD VALUE 'INSTALLMENT';
+
+-- CreateEnum
+CREATE TYPE "RepaymentPlanStatus" AS ENUM ('ACTIVE', 'COMPLETED', 'DEFAULTED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "InstallmentStatus" AS ENUM ('PENDING', 'PAID', 'MISSED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "repayment_plans" (
+    "id" TEXT NOT NULL,
+    "status" "RepaymentPlanStatus" NOT NULL DEFAULT 'ACTIVE',
+    "totalAmount" DECIMAL(10,2) NOT NULL,
+    "chargedAmount" DECIMAL(10,2) NOT NULL DEFAULT 0,
+    "installmentCount" INTEGER NOT NULL,
+    "frequency" "BillingCycle" NOT NULL,
+    "maxMissedInstallments" INTEGER NOT NULL DEFAULT 3,
+    "missedCount" INTEGER NOT NULL DEFAULT 0,
+    "note" TEXT,
+    "closeReason" TEXT,
+    "closedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "activePlanKey" TEXT,
+    "driverId" TEXT NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "createdById" TEXT,
+    "closedById" TEXT,
+
+    CONSTRAINT "repayment_plans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "repayment_installments" (
+    "id" TEXT NOT NULL,
+    "number" INTEGER NOT NULL,
+    "dueDate" DATE NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "status" "InstallmentStatus" NOT NULL DEFAULT 'PENDING',
+    "chargedAt" TIMESTAMP(3),
+    "balanceAfter" DECIMAL(10,2),
+    "planId" TEXT NOT NULL,
+
+    CONSTRAINT "repayment_installments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "repayment_plans_activePlanKey_key" ON "repayment_plans"("activePlanKey");
+
+-- CreateIndex
+CREATE INDEX "repayment_plans_companyId_status_idx" ON "repayment_plans"("companyId", "status");
+
+-- CreateIndex
+CREATE INDEX "repayment_plans_driverId_status_idx" ON "repayment_plans"("driverId", "status");
+
+-- CreateIndex
+CREATE INDEX "repayment_installments_status_dueDate_idx" ON "repayment_installments"("status", "dueDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "repayment_installments_planId_number_key" ON "repayment_installments"("planId", "number");
+
+-- AddForeignKey
+ALTER TABLE "repayment_plans" ADD CONSTRAINT "repayment_plans_driverId_fkey" FOREIGN KEY ("driverId") REFERENCES "drivers"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "repayment_plans" ADD CONSTRAINT "repayment_plans_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "repayment_plans" ADD CONSTRAINT "repayment_plans_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "repayment_plans" ADD CONSTRAINT "repayment_plans_closedById_fkey" FOREIGN KEY ("closedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "repayment_installments" ADD CONSTRAINT "repayment_installments_planId_fkey" FOREIGN KEY ("planId") REFERENCES "repayment_plans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "ExchangeRateSource" AS ENUM ('MANUAL', 'IMPORT');
+
+-- AlterTable
+ALTER TABLE "companies" ADD COLUMN     "baseCurrency" CHAR(3) NOT NULL DEFAULT 'KGS';
+
+-- AlterTable
+ALTER TABLE "contracts" ADD COLUMN     "currency" CHAR(3) NOT NULL DEFAULT 'KGS';
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN     "currency" CHAR(3) NOT NULL DEFAULT 'KGS';
+
+-- AlterTable
+ALTER TABLE "expenses" ADD COLUMN     "currency" CHAR(3) NOT NULL DEFAULT 'KGS';
+
+-- CreateTable
+CREATE TABLE "exchange_rates" (
+    "id" TEXT NOT NULL,
+    "currency" CHAR(3) NOT NULL,
+    "baseCurrency" CHAR(3) NOT NULL,
+    "rate" DECIMAL(18,6) NOT NULL,
+    "date" DATE NOT NULL,
+    "source" "ExchangeRateSource" NOT NULL DEFAULT 'MANUAL',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "companyId" TEXT NOT NULL,
+    "createdById" TEXT,
+
+    CONSTRAINT "exchange_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exchange_rates_companyId_currency_baseCurrency_date_key" ON "exchange_rates"("companyId", "currency", "baseCurrency", "date");
+
+-- AddForeignKey
+ALTER TABLE "exchange_rates" ADD CONSTRAINT "exchange_rates_companyId_fkey" FOREIGN KEY ("companyId") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "exchange_rates" ADD CONSTRAINT "exchange_rates_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "drivers" ALTER COLUMN "totalRevenue" SET DATA TYPE DECIMAL(12,2) USING ROUND("totalRevenue"::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "vehicles" ALTER COLUMN "purchasePrice" SET DATA TYPE DECIMAL(12,2) USING ROUND("purchasePrice"::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "contracts" ALTER COLUMN "totalRevenue" SET DATA TYPE DECIMAL(12,2) USING ROUND("totalRevenue"::numeric, 2),
+ALTER COLUMN "expectedRevenue" SET DATA TYPE DECIMAL(12,2) USING ROUND("expectedRevenue"::numeric, 2);
+
+-- AlterTable
+ALTER TABLE "expenses" ALTER COLUMN "amount" SET DATA TYPE DECIMAL(10,2) USING ROUND("amount"::numeric, 2);
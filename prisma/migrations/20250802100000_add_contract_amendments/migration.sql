@@ -0,0 +1,41 @@
+-- CreateTable
+CREATE TABLE "contract_amendments" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "effectiveFrom" DATE NOT NULL,
+    "dailyRate" DECIMAL(8,2) NOT NULL,
+    "cycleAmount" DECIMAL(10,2),
+    "previousDailyRate" DECIMAL(8,2),
+    "previousCycleAmount" DECIMAL(10,2),
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdById" TEXT,
+    "contractId" TEXT NOT NULL,
+
+    CONSTRAINT "contract_amendments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "contract_amendments_contractId_version_key" ON "contract_amendments"("contractId", "version");
+
+-- CreateIndex
+CREATE INDEX "contract_amendments_contractId_effectiveFrom_idx" ON "contract_amendments"("contractId", "effectiveFrom");
+
+-- AddForeignKey
+ALTER TABLE "contract_amendments" ADD CONSTRAINT "contract_amendments_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "contract_amendments" ADD CONSTRAINT "contract_amendments_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "contracts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Начальные условия существующих контрактов - версия 1 с дня начала контракта
+INSERT INTO "contract_amendments" ("id", "version", "effectiveFrom", "dailyRate", "cycleAmount", "createdAt", "contractId")
+SELECT
+    'amd_' || ct."id",
+    1,
+    (ct."startDate" AT TIME ZONE 'UTC' AT TIME ZONE co."timezone")::date,
+    ct."dailyRate",
+    ct."cycleAmount",
+    ct."createdAt",
+    ct."id"
+FROM "contracts" ct
+JOIN "companies" co ON co."id" = ct."companyId";
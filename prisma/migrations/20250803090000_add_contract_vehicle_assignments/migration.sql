@@ -0,0 +1,40 @@
+-- CreateTable
+CREATE TABLE "contract_vehicle_assignments" (
+    "id" TEXT NOT NULL,
+    "fromDay" DATE NOT NULL,
+    "toDay" DATE,
+    "releasedStatus" "VehicleStatus",
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdById" TEXT,
+    "contractId" TEXT NOT NULL,
+    "vehicleId" TEXT NOT NULL,
+
+    CONSTRAINT "contract_vehicle_assignments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "contract_vehicle_assignments_contractId_fromDay_idx" ON "contract_vehicle_assignments"("contractId", "fromDay");
+
+-- CreateIndex
+CREATE INDEX "contract_vehicle_assignments_vehicleId_idx" ON "contract_vehicle_assignments"("vehicleId");
+
+-- AddForeignKey
+ALTER TABLE "contract_vehicle_assignments" ADD CONSTRAINT "contract_vehicle_assignments_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "contract_vehicle_assignments" ADD CONSTRAINT "contract_vehicle_assignments_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "contracts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "contract_vehicle_assignments" ADD CONSTRAINT "contract_vehicle_assignments_vehicleId_fkey" FOREIGN KEY ("vehicleId") REFERENCES "vehicles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Автомобиль существующих контрактов закреплен за ними с дня начала контракта
+INSERT INTO "contract_vehicle_assignments" ("id", "fromDay", "createdAt", "contractId", "vehicleId")
+SELECT
+    'cva_' || ct."id",
+    (ct."startDate" AT TIME ZONE 'UTC' AT TIME ZONE co."timezone")::date,
+    ct."createdAt",
+    ct."id",
+    ct."vehicleId"
+FROM "contracts" ct
+JOIN "companies" co ON co."id" = ct."companyId";
@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "ContractStatus" ADD VALUE 'SCHEDULED';
+
+-- AlterEnum
+ALTER TYPE "VehicleStatus" ADD VALUE 'RESERVED';
+
+-- AlterTable
+ALTER TABLE "companies" ADD COLUMN     "contractExpiryReminderDays" INTEGER DEFAULT 3;
+
+-- AlterTable
+ALTER TABLE "contracts" ADD COLUMN     "expiryReminderSentAt" TIMESTAMP(3);
@@ -0,0 +1,12 @@
+-- Новые значения перечислений можно использовать только после фиксации предыдущей миграции
+
+-- Контракты, аренда по которым еще не началась, ждут активации планировщиком
+UPDATE "contracts"
+SET "status" = 'SCHEDULED'
+WHERE "status" = 'ACTIVE' AND "startDate" > CURRENT_TIMESTAMP;
+
+-- Их автомобили до начала аренды только зарезервированы
+UPDATE "vehicles" v
+SET "status" = 'RESERVED'
+FROM "contracts" ct
+WHERE ct."vehicleId" = v."id" AND ct."status" = 'SCHEDULED' AND v."status" = 'RENTED';
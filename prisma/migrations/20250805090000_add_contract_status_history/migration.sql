@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "contract_status_history" (
+    "id" TEXT NOT NULL,
+    "fromStatus" "ContractStatus",
+    "toStatus" "ContractStatus" NOT NULL,
+    "reason" TEXT,
+    "source" "StatusChangeSource" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "changedById" TEXT,
+    "contractId" TEXT NOT NULL,
+
+    CONSTRAINT "contract_status_history_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "contract_status_history_contractId_createdAt_idx" ON "contract_status_history"("contractId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "contract_status_history" ADD CONSTRAINT "contract_status_history_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "contract_status_history" ADD CONSTRAINT "contract_status_history_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "contracts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Статус при создании: до запланированных контрактов все создавались активными
+INSERT INTO "contract_status_history" ("id", "fromStatus", "toStatus", "source", "createdAt", "contractId")
+SELECT
+    'csh_' || ct."id",
+    NULL,
+    CASE WHEN ct."status" = 'SCHEDULED' THEN 'SCHEDULED'::"ContractStatus" ELSE 'ACTIVE'::"ContractStatus" END,
+    'USER',
+    ct."createdAt",
+    ct."id"
+FROM "contracts" ct;
+
+-- Последняя известная смена статуса. Промежуточные переходы до появления журнала не сохранялись
+INSERT INTO "contract_status_history" ("id", "fromStatus", "toStatus", "reason", "source", "createdAt", "changedById", "contractId")
+SELECT
+    'csh_last_' || ct."id",
+    'ACTIVE',
+    ct."status",
+    ct."statusReason",
+    COALESCE(ct."statusChangeSource", 'USER'),
+    ct."statusChangedAt",
+    ct."statusChangedById",
+    ct."id"
+FROM "contracts" ct
+WHERE ct."statusChangedAt" IS NOT NULL AND ct."status" NOT IN ('ACTIVE', 'SCHEDULED');
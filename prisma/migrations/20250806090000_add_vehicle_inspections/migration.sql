@@ -0,0 +1,98 @@
+-- CreateEnum
+CREATE TYPE "InspectionType" AS ENUM ('HANDOVER', 'RETURN');
+
+-- CreateEnum
+CREATE TYPE "InspectionStatus" AS ENUM ('DRAFT', 'SIGNED');
+
+-- CreateEnum
+CREATE TYPE "VehicleBodyZone" AS ENUM ('FRONT_BUMPER', 'REAR_BUMPER', 'HOOD', 'ROOF', 'TRUNK', 'WINDSHIELD', 'REAR_WINDOW', 'FRONT_LEFT_FENDER', 'FRONT_RIGHT_FENDER', 'REAR_LEFT_FENDER', 'REAR_RIGHT_FENDER', 'FRONT_LEFT_DOOR', 'FRONT_RIGHT_DOOR', 'REAR_LEFT_DOOR', 'REAR_RIGHT_DOOR', 'MIRRORS', 'WHEELS', 'LIGHTS', 'INTERIOR');
+
+-- CreateEnum
+CREATE TYPE "DamageType" AS ENUM ('SCRATCH', 'DENT', 'CHIP', 'CRACK', 'BROKEN', 'MISSING', 'STAIN');
+
+-- AlterTable
+ALTER TABLE "companies" ADD COLUMN     "fuelChargePerPercent" DECIMAL(8,2);
+
+-- AlterTable
+ALTER TABLE "contract_settlements" ADD COLUMN     "inspectionCharged" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "vehicle_inspections" (
+    "id" TEXT NOT NULL,
+    "type" "InspectionType" NOT NULL,
+    "status" "InspectionStatus" NOT NULL DEFAULT 'DRAFT',
+    "odometer" INTEGER NOT NULL,
+    "fuelLevel" INTEGER NOT NULL,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "driverSignatureKey" TEXT,
+    "managerSignatureKey" TEXT,
+    "signedAt" TIMESTAMP(3),
+    "signedById" TEXT,
+    "chargedAt" TIMESTAMP(3),
+    "createdById" TEXT,
+    "contractId" TEXT NOT NULL,
+    "vehicleId" TEXT NOT NULL,
+
+    CONSTRAINT "vehicle_inspections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "inspection_damages" (
+    "id" TEXT NOT NULL,
+    "zone" "VehicleBodyZone" NOT NULL,
+    "type" "DamageType" NOT NULL,
+    "description" TEXT,
+    "repairCost" DECIMAL(10,2),
+    "inspectionId" TEXT NOT NULL,
+
+    CONSTRAINT "inspection_damages_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "inspection_photos" (
+    "id" TEXT NOT NULL,
+    "zone" "VehicleBodyZone",
+    "storageKey" TEXT NOT NULL,
+    "contentType" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "uploadedById" TEXT,
+    "inspectionId" TEXT NOT NULL,
+
+    CONSTRAINT "inspection_photos_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vehicle_inspections_contractId_vehicleId_type_key" ON "vehicle_inspections"("contractId", "vehicleId", "type");
+
+-- CreateIndex
+CREATE INDEX "inspection_damages_inspectionId_idx" ON "inspection_damages"("inspectionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inspection_photos_storageKey_key" ON "inspection_photos"("storageKey");
+
+-- CreateIndex
+CREATE INDEX "inspection_photos_inspectionId_idx" ON "inspection_photos"("inspectionId");
+
+-- AddForeignKey
+ALTER TABLE "vehicle_inspections" ADD CONSTRAINT "vehicle_inspections_signedById_fkey" FOREIGN KEY ("signedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vehicle_inspections" ADD CONSTRAINT "vehicle_inspections_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vehicle_inspections" ADD CONSTRAINT "vehicle_inspections_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "contracts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vehicle_inspections" ADD CONSTRAINT "vehicle_inspections_vehicleId_fkey" FOREIGN KEY ("vehicleId") REFERENCES "vehicles"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inspection_damages" ADD CONSTRAINT "inspection_damages_inspectionId_fkey" FOREIGN KEY ("inspectionId") REFERENCES "vehicle_inspections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inspection_photos" ADD CONSTRAINT "inspection_photos_uploadedById_fkey" FOREIGN KEY ("uploadedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inspection_photos" ADD CONSTRAINT "inspection_photos_inspectionId_fkey" FOREIGN KEY ("inspectionId") REFERENCES "vehicle_inspections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "contract_settlements" ADD COLUMN     "repaymentPlanDebt" DECIMAL(10,2) NOT NULL DEFAULT 0;
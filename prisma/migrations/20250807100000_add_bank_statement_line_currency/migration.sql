@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "bank_statement_lines" ADD COLUMN     "currency" CHAR(3);
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "contracts" ADD COLUMN     "scheduleFailedAt" TIMESTAMP(3),
+ADD COLUMN     "scheduleFailureReason" TEXT;
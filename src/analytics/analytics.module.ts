@@ -1,6 +1,7 @@
 import { Module } from '@nestjs/common';
 import { ScheduleModule } from '@nestjs/schedule';
 import { PrismaModule } from '../prisma/prisma.module';
+import { CurrencyModule } from '../currency/currency.module';
 import { AnalyticsService } from './analytics.service';
 import { AnalyticsController } from './analytics.controller';
 import { FinancialAnalyticsService } from './financial-analytics.service';
@@ -11,7 +12,7 @@ import { ExpenseController } from './expense.controller';
 import { AnalyticsListener } from './listeners/analytics.listener';
 
 @Module({
-  imports: [PrismaModule, ScheduleModule.forRoot()],
+  imports: [PrismaModule, CurrencyModule, ScheduleModule.forRoot()],
   controllers: [AnalyticsController, ExpenseController],
   providers: [
     AnalyticsService,
@@ -2,6 +2,7 @@ import { Injectable, Logger } from '@nestjs/common';
 import { Cron } from '@nestjs/schedule';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { PrismaService } from '../prisma/prisma.service';
+import { moneyToNumber, sumMoney } from '../currency/utils/money.util';
 import { AnalyticsType } from '@prisma/client';
 
 @Injectable()
@@ -207,13 +208,14 @@ export class AnalyticsService {
         type: {
           in: ['PAYMENT', 'DAILY_RENT'], // Только доходы автопарка
         },
+        status: 'SUCCEEDED',
       },
       _sum: {
         amount: true,
       },
     });
 
-    return result._sum.amount ? Number(result._sum.amount) : 0;
+    return moneyToNumber(result._sum.amount);
   }
 
   private async calculateFleetUtilization(companyId: string, date: Date): Promise<number> {
@@ -255,7 +257,7 @@ export class AnalyticsService {
       },
     });
 
-    return result._sum.amount ? Number(result._sum.amount) : 0;
+    return moneyToNumber(result._sum.amount);
   }
 
   private async calculateDriverDailyKPIs(companyId: string, date: Date) {
@@ -275,13 +277,14 @@ export class AnalyticsService {
           type: {
             in: ['PAYMENT', 'DAILY_RENT'],
           },
+          status: 'SUCCEEDED',
         },
         _sum: {
           amount: true,
         },
       });
 
-      const revenueAmount = revenue._sum.amount ? Number(revenue._sum.amount) : 0;
+      const revenueAmount = moneyToNumber(revenue._sum.amount);
       
       if (revenueAmount > 0) {
         await this.saveMetric(
@@ -317,7 +320,9 @@ export class AnalyticsService {
         },
       });
 
-      const dailyRevenue = contracts.reduce((sum, contract) => sum + Number(contract.dailyRate), 0);
+      const dailyRevenue = moneyToNumber(
+        sumMoney(contracts.map((contract) => contract.dailyRate)),
+      );
       const isActive = contracts.length > 0;
 
       await this.saveMetric(
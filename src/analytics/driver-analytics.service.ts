@@ -2,7 +2,13 @@ import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { AnalyticsQueryDto } from './dto/analytics-query.dto';
 import { DriverKPI, AnalyticsInsights, AnalyticsAlert } from './interfaces/analytics.interface';
-import { PaymentType } from '@prisma/client';
+import { PaymentStatus, PaymentType, Prisma } from '@prisma/client';
+import {
+  divideMoney,
+  moneyToNumber,
+  sumMoney,
+  toMoney,
+} from '../currency/utils/money.util';
 
 @Injectable()
 export class DriverAnalyticsService {
@@ -42,7 +48,9 @@ export class DriverAnalyticsService {
       : 0;
 
     const averageBalance = Number(balance.averageBalance) || 0;
-    const currentDebt = Math.max(0, -Number(driver.balance));
+    const currentDebt = driver.balance.isNegative()
+      ? moneyToNumber(driver.balance.neg())
+      : 0;
 
     return {
       driverId,
@@ -111,6 +119,8 @@ export class DriverAnalyticsService {
         where: {
           companyId,
           driverId,
+          // Неудачные попытки и сторнированные платежи не являются активностью водителя
+          status: PaymentStatus.SUCCEEDED,
           createdAt: {
             gte: startDate,
             lte: endDate,
@@ -153,7 +163,7 @@ export class DriverAnalyticsService {
       timeline.push({
         date: payment.createdAt.toISOString().split('T')[0],
         activity: payment.type,
-        amount: Number(payment.amount),
+        amount: moneyToNumber(payment.amount),
         description: payment.description || `${payment.type} payment`,
       });
     }
@@ -202,6 +212,7 @@ export class DriverAnalyticsService {
         type: {
           in: [PaymentType.PAYMENT, PaymentType.DAILY_RENT],
         },
+        status: PaymentStatus.SUCCEEDED,
       },
       orderBy: { createdAt: 'asc' },
       select: {
@@ -210,41 +221,43 @@ export class DriverAnalyticsService {
       },
     });
 
-    const totalPaid = payments.reduce((sum, p) => sum + Number(p.amount), 0);
+    const totalPaid = sumMoney(payments.map((p) => p.amount));
     const currentDriver = await this.prisma.driver.findUnique({
       where: { id: driverId },
       select: { balance: true },
     });
 
-    const currentBalance = Number(currentDriver?.balance || 0);
-    const totalDebt = Math.max(0, -currentBalance);
+    const currentBalance = toMoney(currentDriver?.balance);
+    const totalDebt = currentBalance.isNegative() ? currentBalance.neg() : toMoney(0);
     const monthsDiff = Math.max(1, Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24 * 30)));
-    const averageMonthlyPayment = totalPaid / monthsDiff;
+    const averageMonthlyPayment = divideMoney(totalPaid, monthsDiff);
 
     // Группируем платежи по месяцам
-    const paymentsByMonth = new Map<string, number>();
+    const paymentsByMonth = new Map<string, Prisma.Decimal>();
     for (const payment of payments) {
       const monthKey = payment.createdAt.toISOString().substring(0, 7); // YYYY-MM
-      const currentAmount = paymentsByMonth.get(monthKey) || 0;
-      paymentsByMonth.set(monthKey, currentAmount + Number(payment.amount));
+      paymentsByMonth.set(
+        monthKey,
+        payment.amount.add(paymentsByMonth.get(monthKey) ?? 0),
+      );
     }
 
     const paymentHistory = Array.from(paymentsByMonth.entries()).map(([month, amount]) => ({
       month,
-      amount,
+      amount: moneyToNumber(amount),
     }));
 
     const debtHistory = [
       {
         date: endDate.toISOString().split('T')[0],
-        balance: currentBalance,
+        balance: moneyToNumber(currentBalance),
       },
     ];
 
     return {
-      totalPaid,
-      totalDebt,
-      averageMonthlyPayment,
+      totalPaid: moneyToNumber(totalPaid),
+      totalDebt: moneyToNumber(totalDebt),
+      averageMonthlyPayment: moneyToNumber(averageMonthlyPayment),
       paymentHistory,
       debtHistory,
     };
@@ -262,13 +275,14 @@ export class DriverAnalyticsService {
         type: {
           in: [PaymentType.PAYMENT, PaymentType.DAILY_RENT],
         },
+        status: PaymentStatus.SUCCEEDED,
       },
       _sum: {
         amount: true,
       },
     });
 
-    return { total: Number(result._sum.amount || 0) };
+    return { total: moneyToNumber(result._sum.amount) };
   }
 
   private async getDriverContracts(driverId: string, startDate: Date, endDate: Date) {
@@ -300,6 +314,13 @@ export class DriverAnalyticsService {
           lt: 0,
         },
         type: PaymentType.DAILY_RENT,
+        status: PaymentStatus.SUCCEEDED,
+        // Сторнирующие записи и возвраты при перерасчете аренды - не просрочки
+        reversalOfId: null,
+        OR: [
+          { chargeKey: null },
+          { NOT: { chargeKey: { startsWith: 'RENT_ADJUSTMENT:' } } },
+        ],
       },
     });
 
@@ -370,7 +391,7 @@ export class DriverAnalyticsService {
         message: `Driver ${driver.firstName} ${driver.lastName} has critical debt`,
         entityId: driver.id,
         entityType: 'DRIVER',
-        value: Math.abs(Number(driver.balance)),
+        value: moneyToNumber(driver.balance.abs()),
         threshold: 2000,
       });
     }
@@ -1,6 +1,14 @@
-import { IsEnum, IsNumber, IsOptional, IsString } from 'class-validator';
+import {
+  IsEnum,
+  IsISO4217CurrencyCode,
+  IsNumber,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
 import { ApiProperty } from '@nestjs/swagger';
 import { ExpenseType, ExpensePayer } from '@prisma/client';
+import { normalizeCurrency } from '../../currency/utils/currency.util';
 
 export class CreateExpenseDto {
   @ApiProperty({ 
@@ -18,10 +26,20 @@ export class CreateExpenseDto {
   @IsString()
   category: string;
 
-  @ApiProperty({ description: 'Сумма расхода в сомах' })
-  @IsNumber()
+  @ApiProperty({ description: 'Сумма расхода в валюте currency' })
+  @IsNumber({ maxDecimalPlaces: 2 })
   amount: number;
 
+  @ApiProperty({
+    required: false,
+    example: 'USD',
+    description: 'Код валюты ISO 4217, по умолчанию - базовая валюта компании',
+  })
+  @IsOptional()
+  @Transform(({ value }) => normalizeCurrency(value))
+  @IsISO4217CurrencyCode()
+  currency?: string;
+
   @ApiProperty({ required: false })
   @IsOptional()
   @IsString()
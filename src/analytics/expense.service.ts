@@ -1,16 +1,29 @@
 import { Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { CurrencyService } from '../currency/currency.service';
+import {
+  divideMoney,
+  moneyToNumber,
+  sumMoney,
+} from '../currency/utils/money.util';
 import { CreateExpenseDto } from './dto/create-expense.dto';
 import { AnalyticsQueryDto } from './dto/analytics-query.dto';
 
 @Injectable()
 export class ExpenseService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private currencyService: CurrencyService,
+  ) {}
 
   async create(companyId: string, createExpenseDto: CreateExpenseDto) {
     return this.prisma.expense.create({
       data: {
         ...createExpenseDto,
+        currency:
+          createExpenseDto.currency ??
+          (await this.currencyService.getBaseCurrency(this.prisma, companyId)),
         companyId,
         date: createExpenseDto.date || new Date(),
       },
@@ -93,24 +106,25 @@ export class ExpenseService {
       this.getMonthlyExpenses(companyId, startDate, endDate),
     ]);
 
-    const totalAmount = totalByType.reduce((sum, item) => sum + (item._sum.amount || 0), 0);
-    const averageMonthlyExpense = monthlyExpenses.length > 0 
-      ? monthlyExpenses.reduce((sum, item) => sum + item.amount, 0) / monthlyExpenses.length 
-      : 0;
+    const totalAmount = sumMoney(totalByType.map((item) => item._sum.amount));
+    const averageMonthlyExpense = divideMoney(
+      sumMoney(monthlyExpenses.map((item) => item.amount)),
+      monthlyExpenses.length,
+    );
 
     return {
-      totalAmount,
-      averageMonthlyExpense,
+      totalAmount: moneyToNumber(totalAmount),
+      averageMonthlyExpense: moneyToNumber(averageMonthlyExpense),
       totalByType: totalByType.reduce((acc, item) => {
         acc[item.type] = {
-          amount: item._sum.amount || 0,
+          amount: moneyToNumber(item._sum.amount),
           count: item._count,
         };
         return acc;
       }, {}),
       totalByCategory: totalByCategory.reduce((acc, item) => {
         acc[item.category] = {
-          amount: item._sum.amount || 0,
+          amount: moneyToNumber(item._sum.amount),
           count: item._count,
         };
         return acc;
@@ -150,16 +164,19 @@ export class ExpenseService {
       orderBy: { date: 'asc' },
     });
 
-    const monthlyData = new Map<string, number>();
+    const monthlyData = new Map<string, Prisma.Decimal>();
     
     for (const expense of expenses) {
       const monthKey = expense.date.toISOString().substring(0, 7); // YYYY-MM
-      monthlyData.set(monthKey, (monthlyData.get(monthKey) || 0) + expense.amount);
+      monthlyData.set(
+        monthKey,
+        expense.amount.add(monthlyData.get(monthKey) ?? 0),
+      );
     }
 
     return Array.from(monthlyData.entries()).map(([month, amount]) => ({
       month,
-      amount,
+      amount: moneyToNumber(amount),
     }));
   }
 
@@ -1,12 +1,30 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { CurrencyService } from '../currency/currency.service';
+import { CurrencyConverter } from '../currency/utils/currency-converter';
+import {
+  divideMoney,
+  moneyToNumber,
+  percentOf,
+  sumMoney,
+  toMoney,
+} from '../currency/utils/money.util';
+import { splitRentByVehicle } from '../billing/common/utils/vehicle-assignment.util';
 import { AnalyticsQueryDto, DateRange } from './dto/analytics-query.dto';
 import { FinancialSummary, TimeSeriesData } from './interfaces/analytics.interface';
-import { PaymentType } from '@prisma/client';
+import { PaymentStatus, PaymentType, Prisma } from '@prisma/client';
 
+/**
+ * Все суммы отчетов приводятся к базовой валюте компании.
+ * Временные ряды, доход и расходы по автомобилям пересчитываются по курсу на дату операции,
+ * сводные итоги за период (сводка, доход по водителям) - по курсу на конец периода
+ */
 @Injectable()
 export class FinancialAnalyticsService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private currencyService: CurrencyService,
+  ) {}
 
   async getFinancialSummary(
     companyId: string,
@@ -24,12 +42,14 @@ export class FinancialAnalyticsService {
 
     // Параллельные запросы для оптимизации
     const [
+      converter,
       revenueData,
       expenseData,
       driverDebts,
       driverCount,
       vehicleCount,
     ] = await Promise.all([
+      this.currencyService.getConverter(companyId),
       this.getRevenueData(whereClause),
       this.getExpenseData(whereClause),
       this.getDriverDebts(companyId),
@@ -37,26 +57,38 @@ export class FinancialAnalyticsService {
       this.getActiveVehicleCount(companyId),
     ]);
 
-    const totalRevenue = revenueData.reduce((sum, item) => {
-      return sum + Number(item._sum?.amount || 0);
-    }, 0);
-    
-    const totalExpenses = expenseData.reduce((sum, item) => {
-      return sum + Number(item._sum?.amount || 0);
-    }, 0);
-    const profit = totalRevenue - totalExpenses;
-    const profitMargin = totalRevenue > 0 ? (profit / totalRevenue) * 100 : 0;
+    // Суммы по видам и категориям уже в базовой валюте. Итоги складываются в Decimal,
+    // поэтому totalRevenue в точности равен сумме revenueByType
+    const revenueByType = this.groupRevenueByType(
+      revenueData,
+      converter,
+      endDate,
+    );
+    const expensesByCategory = this.groupExpensesByCategory(
+      expenseData,
+      converter,
+      endDate,
+    );
+
+    const totalRevenue = sumMoney(Object.values(revenueByType));
+    const totalExpenses = sumMoney(Object.values(expensesByCategory));
+    const profit = totalRevenue.sub(totalExpenses);
 
     return {
-      totalRevenue,
-      totalExpenses,
-      profit,
-      profitMargin,
-      revenueByType: this.groupRevenueByType(revenueData),
-      expensesByCategory: this.groupExpensesByCategory(expenseData),
-      outstandingDebts: driverDebts,
-      averageRevenuePerDriver: driverCount > 0 ? totalRevenue / driverCount : 0,
-      averageRevenuePerVehicle: vehicleCount > 0 ? totalRevenue / vehicleCount : 0,
+      currency: converter.baseCurrency,
+      totalRevenue: moneyToNumber(totalRevenue),
+      totalExpenses: moneyToNumber(totalExpenses),
+      profit: moneyToNumber(profit),
+      profitMargin: percentOf(profit, totalRevenue),
+      revenueByType: this.toNumbers(revenueByType),
+      expensesByCategory: this.toNumbers(expensesByCategory),
+      outstandingDebts: moneyToNumber(driverDebts),
+      averageRevenuePerDriver: moneyToNumber(
+        divideMoney(totalRevenue, driverCount),
+      ),
+      averageRevenuePerVehicle: moneyToNumber(
+        divideMoney(totalRevenue, vehicleCount),
+      ),
     };
   }
 
@@ -65,9 +97,10 @@ export class FinancialAnalyticsService {
     query: AnalyticsQueryDto,
   ): Promise<TimeSeriesData[]> {
     const { startDate, endDate } = this.getDateRange(query);
+    const converter = await this.currencyService.getConverter(companyId);
     
     const dailyRevenue = await this.prisma.payment.groupBy({
-      by: ['createdAt'],
+      by: ['createdAt', 'currency'],
       where: {
         companyId,
         createdAt: {
@@ -77,6 +110,7 @@ export class FinancialAnalyticsService {
         type: {
           in: [PaymentType.PAYMENT, PaymentType.DAILY_RENT], // Только доходы
         },
+        status: PaymentStatus.SUCCEEDED, // Неудачные и сторнированные платежи не являются доходом
       },
       _sum: {
         amount: true,
@@ -87,7 +121,7 @@ export class FinancialAnalyticsService {
     });
 
     const dailyExpenses = await this.prisma.expense.groupBy({
-      by: ['date'],
+      by: ['date', 'currency'],
       where: {
         companyId,
         paidBy: 'COMPANY', // Только расходы автопарка
@@ -105,7 +139,7 @@ export class FinancialAnalyticsService {
     });
 
     // Объединяем данные по дням
-    const result = this.mergeDailyData(dailyRevenue, dailyExpenses, startDate, endDate);
+    const result = this.mergeDailyData(dailyRevenue, dailyExpenses, startDate, endDate, converter);
     
     // Добавляем данные об активных авто и водителях
     for (const item of result) {
@@ -128,9 +162,11 @@ export class FinancialAnalyticsService {
     query: AnalyticsQueryDto,
   ): Promise<Array<{ driverId: string; name: string; revenue: number; contracts: number }>> {
     const { startDate, endDate } = this.getDateRange(query);
+    const converter = await this.currencyService.getConverter(companyId);
 
+    // Платежи в разных валютах пересчитываются по курсу на конец периода
     const revenueByDriver = await this.prisma.payment.groupBy({
-      by: ['driverId'],
+      by: ['driverId', 'currency'],
       where: {
         companyId,
         createdAt: {
@@ -140,6 +176,7 @@ export class FinancialAnalyticsService {
         type: {
           in: [PaymentType.PAYMENT, PaymentType.DAILY_RENT], // Только доходы
         },
+        status: PaymentStatus.SUCCEEDED, // Неудачные и сторнированные платежи не являются доходом
         driverId: {
           not: undefined,
         },
@@ -147,32 +184,40 @@ export class FinancialAnalyticsService {
       _sum: {
         amount: true,
       },
-      orderBy: {
-        _sum: {
-          amount: 'desc',
-        },
-      },
     });
 
+    const revenueMap = new Map<string, Prisma.Decimal>();
+    for (const item of revenueByDriver) {
+      const revenue = converter.convert(
+        item._sum?.amount,
+        item.currency,
+        endDate,
+      );
+      revenueMap.set(
+        item.driverId,
+        revenue.add(revenueMap.get(item.driverId) ?? 0),
+      );
+    }
+
     const result: Array<{ driverId: string; name: string; revenue: number; contracts: number }> = [];
     
-    for (const item of revenueByDriver) {
+    for (const [driverId, revenue] of revenueMap) {
       const driver = await this.prisma.driver.findUnique({
-        where: { id: item.driverId },
+        where: { id: driverId },
         select: { firstName: true, lastName: true, totalContracts: true },
       });
 
       if (driver) {
         result.push({
-          driverId: item.driverId,
+          driverId,
           name: `${driver.firstName} ${driver.lastName}`,
-          revenue: Number(item._sum?.amount || 0),
+          revenue: moneyToNumber(revenue),
           contracts: driver.totalContracts,
         });
       }
     }
 
-    return result;
+    return result.sort((a, b) => b.revenue - a.revenue);
   }
 
   async getRevenueByVehicle(
@@ -180,39 +225,75 @@ export class FinancialAnalyticsService {
     query: AnalyticsQueryDto,
   ): Promise<Array<{ vehicleId: string; model: string; plateNumber: string; revenue: number; expenses: number; profit: number }>> {
     const { startDate, endDate } = this.getDateRange(query);
+    const converter = await this.currencyService.getConverter(companyId);
 
-    // Доходы по авто через контракты
-    const revenueByVehicle = await this.prisma.contract.groupBy({
-      by: ['vehicleId'],
+    // Доход по авто - списания аренды, разнесенные по дням закрепления автомобилей за контрактом:
+    // после замены автомобиля каждый день периода относится к автомобилю, на котором ездил водитель
+    const rentPayments = await this.prisma.payment.findMany({
       where: {
         companyId,
         createdAt: {
           gte: startDate,
           lte: endDate,
         },
+        type: PaymentType.DAILY_RENT,
+        status: PaymentStatus.SUCCEEDED,
+        contractId: { not: null },
       },
-      _sum: {
-        totalRevenue: true,
-      },
-      orderBy: {
-        _sum: {
-          totalRevenue: 'desc',
+      select: {
+        amount: true,
+        currency: true,
+        metadata: true,
+        billingDate: true,
+        createdAt: true,
+        contract: {
+          select: {
+            vehicleId: true,
+            vehicleAssignments: {
+              select: { vehicleId: true, fromDay: true, toDay: true },
+              orderBy: { fromDay: 'asc' },
+            },
+          },
         },
       },
     });
 
+    const revenueMap = new Map<string, Prisma.Decimal>();
+    for (const payment of rentPayments) {
+      if (!payment.contract) continue;
+
+      const amount = converter.convert(
+        payment.amount,
+        payment.currency,
+        payment.createdAt,
+      );
+      const shares = splitRentByVehicle(
+        { ...payment, amount },
+        payment.contract.vehicleAssignments,
+        payment.contract.vehicleId,
+      );
+
+      for (const share of shares) {
+        revenueMap.set(
+          share.vehicleId,
+          share.amount.add(revenueMap.get(share.vehicleId) ?? 0),
+        );
+      }
+    }
+
     const result: Array<{ vehicleId: string; model: string; plateNumber: string; revenue: number; expenses: number; profit: number }> = [];
     
-    for (const item of revenueByVehicle) {
+    for (const [vehicleId, revenue] of revenueMap) {
       const [vehicle, expenses] = await Promise.all([
         this.prisma.vehicle.findUnique({
-          where: { id: item.vehicleId },
+          where: { id: vehicleId },
           select: { model: true, plateNumber: true },
         }),
-        this.prisma.expense.aggregate({
+        this.prisma.expense.groupBy({
+          by: ['date', 'currency'],
           where: {
             companyId,
-            vehicleId: item.vehicleId,
+            vehicleId,
             paidBy: 'COMPANY', // Только расходы автопарка
             date: {
               gte: startDate,
@@ -226,27 +307,38 @@ export class FinancialAnalyticsService {
       ]);
 
       if (vehicle) {
-        const revenue = Number(item._sum?.totalRevenue || 0);
-        const expenseAmount = Number(expenses._sum?.amount || 0);
+        const expenseAmount = sumMoney(
+          expenses.map((expense) =>
+            converter.convert(
+              expense._sum?.amount,
+              expense.currency,
+              expense.date,
+            ),
+          ),
+        );
         
         result.push({
-          vehicleId: item.vehicleId,
+          vehicleId,
           model: vehicle.model,
           plateNumber: vehicle.plateNumber,
-          revenue,
-          expenses: expenseAmount,
-          profit: revenue - expenseAmount,
+          revenue: moneyToNumber(revenue),
+          expenses: moneyToNumber(expenseAmount),
+          profit: moneyToNumber(revenue.sub(expenseAmount)),
         });
       }
     }
 
-    return result;
+    return result.sort((a, b) => b.revenue - a.revenue);
   }
 
   async getCashFlowForecast(
     companyId: string,
     days: number = 30,
   ): Promise<Array<{ date: string; expectedRevenue: number; expectedExpenses: number; cashFlow: number }>> {
+    // Прогноз в базовой валюте по текущим курсам
+    const converter = await this.currencyService.getConverter(companyId);
+    const today = new Date();
+
     // Получаем активные контракты
     const activeContracts = await this.prisma.contract.findMany({
       where: {
@@ -255,13 +347,14 @@ export class FinancialAnalyticsService {
       },
       select: {
         dailyRate: true,
+        currency: true,
         endDate: true,
       },
     });
 
     // Получаем исторические данные по расходам для прогноза
     const historicalExpenses = await this.prisma.expense.groupBy({
-      by: ['date'],
+      by: ['date', 'currency'],
       where: {
         companyId,
         paidBy: 'COMPANY',
@@ -274,9 +367,27 @@ export class FinancialAnalyticsService {
       },
     });
 
-    const avgDailyExpenses = historicalExpenses.length > 0 
-      ? historicalExpenses.reduce((sum, item) => sum + Number(item._sum?.amount || 0), 0) / historicalExpenses.length
-      : 0;
+    // Среднее по дням с расходами, а не по строкам группировки в разных валютах
+    const expenseDays = new Set(
+      historicalExpenses.map((item) => item.date.toISOString().split('T')[0]),
+    );
+    const avgDailyExpenses = divideMoney(
+      sumMoney(
+        historicalExpenses.map((item) =>
+          converter.convert(item._sum?.amount, item.currency, item.date),
+        ),
+      ),
+      expenseDays.size,
+    );
+
+    const dailyRates = activeContracts.map((contract) => ({
+      endDate: contract.endDate,
+      dailyRate: converter.convert(
+        contract.dailyRate,
+        contract.currency,
+        today,
+      ),
+    }));
 
     const forecast: Array<{ date: string; expectedRevenue: number; expectedExpenses: number; cashFlow: number }> = [];
     
@@ -285,17 +396,19 @@ export class FinancialAnalyticsService {
       date.setDate(date.getDate() + i);
       
       // Рассчитываем ожидаемый доход с активных контрактов
-      const expectedRevenue = activeContracts
-        .filter(contract => !contract.endDate || contract.endDate > date)
-        .reduce((sum, contract) => sum + Number(contract.dailyRate), 0);
+      const expectedRevenue = sumMoney(
+        dailyRates
+          .filter((contract) => !contract.endDate || contract.endDate > date)
+          .map((contract) => contract.dailyRate),
+      );
       
       const expectedExpenses = avgDailyExpenses;
       
       forecast.push({
         date: date.toISOString().split('T')[0],
-        expectedRevenue,
-        expectedExpenses,
-        cashFlow: expectedRevenue - expectedExpenses,
+        expectedRevenue: moneyToNumber(expectedRevenue),
+        expectedExpenses: moneyToNumber(expectedExpenses),
+        cashFlow: moneyToNumber(expectedRevenue.sub(expectedExpenses)),
       });
     }
 
@@ -305,12 +418,13 @@ export class FinancialAnalyticsService {
   // Приватные методы
   private async getRevenueData(whereClause: any) {
     return this.prisma.payment.groupBy({
-      by: ['type'],
+      by: ['type', 'currency'],
       where: {
         ...whereClause,
         type: {
           in: [PaymentType.PAYMENT, PaymentType.DAILY_RENT], // Только доходы
         },
+        status: PaymentStatus.SUCCEEDED, // Неудачные и сторнированные платежи не являются доходом
       },
       _sum: {
         amount: true,
@@ -320,7 +434,7 @@ export class FinancialAnalyticsService {
 
   private async getExpenseData(whereClause: any) {
     return this.prisma.expense.groupBy({
-      by: ['category'],
+      by: ['category', 'currency'],
       where: {
         companyId: whereClause.companyId,
         paidBy: 'COMPANY', // Только расходы автопарка
@@ -332,7 +446,7 @@ export class FinancialAnalyticsService {
     });
   }
 
-  private async getDriverDebts(companyId: string): Promise<number> {
+  private async getDriverDebts(companyId: string): Promise<Prisma.Decimal> {
     const result = await this.prisma.driver.aggregate({
       where: {
         companyId,
@@ -345,7 +459,7 @@ export class FinancialAnalyticsService {
       },
     });
 
-    return Math.abs(Number(result._sum?.balance || 0));
+    return toMoney(result._sum?.balance).abs();
   }
 
   private async getActiveDriverCount(companyId: string): Promise<number> {
@@ -409,53 +523,87 @@ export class FinancialAnalyticsService {
     });
   }
 
-  private groupRevenueByType(data: any[]): Record<string, number> {
+  private groupRevenueByType(
+    data: any[],
+    converter: CurrencyConverter,
+    date: Date,
+  ): Record<string, Prisma.Decimal> {
     return data.reduce((acc, item) => {
-      acc[item.type] = Number(item._sum?.amount || 0);
+      acc[item.type] = converter
+        .convert(item._sum?.amount, item.currency, date)
+        .add(acc[item.type] ?? 0);
       return acc;
     }, {});
   }
 
-  private groupExpensesByCategory(data: any[]): Record<string, number> {
+  private groupExpensesByCategory(
+    data: any[],
+    converter: CurrencyConverter,
+    date: Date,
+  ): Record<string, Prisma.Decimal> {
     return data.reduce((acc, item) => {
-      acc[item.category] = Number(item._sum?.amount || 0);
+      acc[item.category] = converter
+        .convert(item._sum?.amount, item.currency, date)
+        .add(acc[item.category] ?? 0);
       return acc;
     }, {});
   }
 
+  private toNumbers(
+    amounts: Record<string, Prisma.Decimal>,
+  ): Record<string, number> {
+    return Object.fromEntries(
+      Object.entries(amounts).map(([key, amount]) => [
+        key,
+        moneyToNumber(amount),
+      ]),
+    );
+  }
+
   private mergeDailyData(
     revenueData: any[],
     expenseData: any[],
     startDate: Date,
     endDate: Date,
+    converter: CurrencyConverter,
   ): TimeSeriesData[] {
     const result: TimeSeriesData[] = [];
-    const revenueMap = new Map<string, number>();
-    const expenseMap = new Map<string, number>();
+    const revenueMap = new Map<string, Prisma.Decimal>();
+    const expenseMap = new Map<string, Prisma.Decimal>();
 
     // Создаем карты для быстрого доступа
     revenueData.forEach(item => {
       const dateKey = item.createdAt.toISOString().split('T')[0];
-      revenueMap.set(dateKey, Number(item._sum?.amount || 0));
+      const amount = converter.convert(
+        item._sum?.amount,
+        item.currency,
+        dateKey,
+      );
+      revenueMap.set(dateKey, amount.add(revenueMap.get(dateKey) ?? 0));
     });
 
     expenseData.forEach(item => {
       const dateKey = item.date.toISOString().split('T')[0];
-      expenseMap.set(dateKey, Number(item._sum?.amount || 0));
+      const amount = converter.convert(
+        item._sum?.amount,
+        item.currency,
+        dateKey,
+      );
+      expenseMap.set(dateKey, amount.add(expenseMap.get(dateKey) ?? 0));
     });
 
     // Генерируем данные для каждого дня в диапазоне
     const currentDate = new Date(startDate);
     while (currentDate <= endDate) {
       const dateKey = currentDate.toISOString().split('T')[0];
-      const revenue = revenueMap.get(dateKey) || 0;
-      const expenses = expenseMap.get(dateKey) || 0;
+      const revenue = toMoney(revenueMap.get(dateKey));
+      const expenses = toMoney(expenseMap.get(dateKey));
 
       result.push({
         date: dateKey,
-        revenue,
-        expenses,
-        profit: revenue - expenses,
+        revenue: moneyToNumber(revenue),
+        expenses: moneyToNumber(expenses),
+        profit: moneyToNumber(revenue.sub(expenses)),
         activeVehicles: 0, // Будет заполнено позже
         activeDrivers: 0, // Будет заполнено позже
         utilization: 0, // Будет заполнено позже
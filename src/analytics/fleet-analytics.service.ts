@@ -1,8 +1,15 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import {
+  divideMoney,
+  moneyToNumber,
+  sumMoney,
+  toMoney,
+} from '../currency/utils/money.util';
+import { splitRentByVehicle } from '../billing/common/utils/vehicle-assignment.util';
 import { AnalyticsQueryDto, DateRange } from './dto/analytics-query.dto';
 import { FleetKPI, VehicleKPI } from './interfaces/analytics.interface';
-import { VehicleStatus } from '@prisma/client';
+import { PaymentStatus, PaymentType, VehicleStatus } from '@prisma/client';
 
 @Injectable()
 export class FleetAnalyticsService {
@@ -29,9 +36,11 @@ export class FleetAnalyticsService {
 
     const utilization = totalVehicles > 0 ? (activeVehicles / totalVehicles) * 100 : 0;
     const averageRentalDuration = contractData.avgDuration || 0;
-    const totalRevenue = revenueData.totalRevenue || 0;
-    const revenuePerVehicle = totalVehicles > 0 ? totalRevenue / totalVehicles : 0;
-    const maintenanceCosts = maintenanceData.totalCost || 0;
+    const totalRevenue = moneyToNumber(revenueData.totalRevenue);
+    const revenuePerVehicle = moneyToNumber(
+      divideMoney(revenueData.totalRevenue, totalVehicles),
+    );
+    const maintenanceCosts = moneyToNumber(maintenanceData.totalCost);
     const idleTime = this.calculateIdleTime(utilizationData);
 
     const [topPerformingVehicles, underPerformingVehicles] = await Promise.all([
@@ -77,9 +86,11 @@ export class FleetAnalyticsService {
     const totalDaysInPeriod = Math.ceil((endDate.getTime() - startDate.getTime()) / (1000 * 60 * 60 * 24));
     const totalDaysRented = contracts.reduce((sum, contract) => sum + (contract.actualDuration || 0), 0);
     const utilization = totalDaysInPeriod > 0 ? (totalDaysRented / totalDaysInPeriod) * 100 : 0;
-    const totalRevenue = revenue.total || 0;
-    const totalExpenses = expenses.total || 0;
-    const averageDailyRate = totalDaysRented > 0 ? totalRevenue / totalDaysRented : 0;
+    const totalRevenue = moneyToNumber(revenue.total);
+    const totalExpenses = moneyToNumber(expenses.total);
+    const averageDailyRate = moneyToNumber(
+      divideMoney(revenue.total, totalDaysRented),
+    );
 
     return {
       vehicleId,
@@ -88,7 +99,7 @@ export class FleetAnalyticsService {
       utilization,
       revenue: totalRevenue,
       expenses: totalExpenses,
-      profit: totalRevenue - totalExpenses,
+      profit: moneyToNumber(revenue.total.sub(expenses.total)),
       totalDaysRented,
       averageDailyRate,
     };
@@ -261,7 +272,7 @@ export class FleetAnalyticsService {
       },
     });
 
-    return { totalRevenue: Number(result._sum?.totalRevenue || 0) };
+    return { totalRevenue: toMoney(result._sum?.totalRevenue) };
   }
 
   private async getMaintenanceCosts(companyId: string, startDate: Date, endDate: Date) {
@@ -280,7 +291,7 @@ export class FleetAnalyticsService {
       },
     });
 
-    return { totalCost: Number(result._sum?.amount || 0) };
+    return { totalCost: toMoney(result._sum?.amount) };
   }
 
   private async getContractData(companyId: string, startDate: Date, endDate: Date) {
@@ -319,20 +330,52 @@ export class FleetAnalyticsService {
   }
 
   private async getVehicleRevenue(vehicleId: string, startDate: Date, endDate: Date) {
-    const result = await this.prisma.contract.aggregate({
+    // Списания аренды по контрактам, в которых автомобиль был закреплен хотя бы часть срока.
+    // Автомобилю относится доля списания за дни, когда водитель ездил на нем
+    const rentPayments = await this.prisma.payment.findMany({
       where: {
-        vehicleId,
         createdAt: {
           gte: startDate,
           lte: endDate,
         },
+        type: PaymentType.DAILY_RENT,
+        status: PaymentStatus.SUCCEEDED,
+        contract: {
+          OR: [{ vehicleId }, { vehicleAssignments: { some: { vehicleId } } }],
+        },
       },
-      _sum: {
-        totalRevenue: true,
+      select: {
+        amount: true,
+        metadata: true,
+        billingDate: true,
+        createdAt: true,
+        contract: {
+          select: {
+            vehicleId: true,
+            vehicleAssignments: {
+              select: { vehicleId: true, fromDay: true, toDay: true },
+              orderBy: { fromDay: 'asc' },
+            },
+          },
+        },
       },
     });
 
-    return { total: Number(result._sum?.totalRevenue || 0) };
+    const total = sumMoney(
+      rentPayments.flatMap((payment) =>
+        payment.contract
+          ? splitRentByVehicle(
+              payment,
+              payment.contract.vehicleAssignments,
+              payment.contract.vehicleId,
+            )
+              .filter((share) => share.vehicleId === vehicleId)
+              .map((share) => share.amount)
+          : [],
+      ),
+    );
+
+    return { total };
   }
 
   private async getVehicleExpenses(vehicleId: string, startDate: Date, endDate: Date) {
@@ -350,7 +393,7 @@ export class FleetAnalyticsService {
       },
     });
 
-    return { total: Number(result._sum?.amount || 0) };
+    return { total: toMoney(result._sum?.amount) };
   }
 
   private async getTopPerformingVehicles(
@@ -1,4 +1,5 @@
 export interface FinancialSummary {
+  currency: string; // Базовая валюта компании, в которой посчитаны суммы
   totalRevenue: number;
   totalExpenses: number;
   profit: number;
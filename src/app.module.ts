@@ -10,6 +10,15 @@ import { DriverModule } from './driver/driver.module';
 import { VehicleModule } from './vehicle/vehicle.module';
 import { ContractModule } from './contract/contract.module';
 import { BillingModule } from './billing/billing.module';
+import { DebtModule } from './debt/debt.module';
+import { RepaymentPlanModule } from './repayment-plan/repayment-plan.module';
+import { LedgerModule } from './ledger/ledger.module';
+import { CurrencyModule } from './currency/currency.module';
+import { PaymentModule } from './payment/payment.module';
+import { CashDeskModule } from './cash-desk/cash-desk.module';
+import { BankImportModule } from './bank-import/bank-import.module';
+import { PaymentGatewayModule } from './payment-gateway/payment-gateway.module';
+import { InspectionModule } from './inspection/inspection.module';
 import { AnalyticsModule } from './analytics/analytics.module'; // Добавлен модуль аналитики
 import { JwtAuthGuard } from './auth/guards/jwt-auth.guard';
 import { RolesGuard } from './auth/guards/roles.guard';
@@ -23,12 +32,21 @@ import { RolesGuard } from './auth/guards/roles.guard';
     ScheduleModule.forRoot(),
     EventEmitterModule.forRoot(),
     PrismaModule,
+    LedgerModule,
+    CurrencyModule,
     AuthModule,
     CompanyModule,
     DriverModule,
+    PaymentModule,
+    CashDeskModule,
+    BankImportModule,
+    PaymentGatewayModule,
     VehicleModule,
     ContractModule,
+    InspectionModule,
     BillingModule,
+    DebtModule,
+    RepaymentPlanModule,
     AnalyticsModule, // ← Добавлен модуль аналитики
   ],
   controllers: [],
@@ -0,0 +1,171 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  MaxFileSizeValidator,
+  Param,
+  ParseFilePipe,
+  Post,
+  Query,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { BankImportService } from './bank-import.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { User, CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CompanyFilter } from '../billing/common/decorators/company-filter.decorator';
+import { ImportStatementDto } from './dto/import-statement.dto';
+import { AssignStatementLineDto } from './dto/assign-statement-line.dto';
+import { IgnoreStatementLineDto } from './dto/ignore-statement-line.dto';
+import { StatementLineQueryDto } from './dto/statement-line-query.dto';
+
+const MAX_STATEMENT_SIZE = 5 * 1024 * 1024;
+
+@ApiTags('🏦 Bank Import - Банковские выписки')
+@ApiBearerAuth()
+@Controller('bank-import')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class BankImportController {
+  constructor(private readonly bankImportService: BankImportService) {}
+
+  @Post('statements')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: { fileSize: MAX_STATEMENT_SIZE, files: 1 },
+    }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'Выписка в CSV или MT940',
+        },
+        format: { type: 'string', enum: ['CSV', 'MT940'] },
+        companyId: {
+          type: 'string',
+          description: 'Обязательно для SUPER_ADMIN',
+        },
+      },
+    },
+  })
+  @ApiOperation({
+    summary: '📥 Импорт выписки',
+    description:
+      'Входящие платежи сопоставляются с водителями по ID контракта, номеру удостоверения или телефону ' +
+      'в назначении платежа и зачисляются на баланс. Несопоставленные строки попадают в очередь на разбор. ' +
+      'Повторно загруженные операции пропускаются',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Итоги импорта',
+    schema: {
+      example: {
+        importId: 'import_id',
+        totalLines: 42,
+        matchedLines: 37,
+        unmatchedLines: 3,
+        duplicateLines: 2,
+        skippedLines: 5,
+      },
+    },
+  })
+  async importStatement(
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [new MaxFileSizeValidator({ maxSize: MAX_STATEMENT_SIZE })],
+      }),
+    )
+    file: Express.Multer.File,
+    @Body() importStatementDto: ImportStatementDto,
+    @User() user: CurrentUser,
+  ) {
+    return await this.bankImportService.importStatement(
+      file,
+      importStatementDto,
+      user,
+    );
+  }
+
+  @Get('statements')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @ApiOperation({ summary: '📋 Загруженные выписки' })
+  async findImports(@CompanyFilter() companyId: string) {
+    return await this.bankImportService.findImports(companyId);
+  }
+
+  @Get('statements/:id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @ApiOperation({
+    summary: '🧾 Выписка',
+    description: 'Выписка со всеми строками и результатом сопоставления',
+  })
+  async findImport(@Param('id') id: string, @User() user: CurrentUser) {
+    return await this.bankImportService.findImport(id, user);
+  }
+
+  @Get('lines')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @ApiOperation({
+    summary: '🔍 Очередь на разбор',
+    description: 'Строки выписок; по умолчанию - несопоставленные (UNMATCHED)',
+  })
+  async findLines(
+    @CompanyFilter() companyId: string,
+    @Query() query: StatementLineQueryDto,
+  ) {
+    return await this.bankImportService.findLines(companyId, query);
+  }
+
+  @Post('lines/:id/assign')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '👤 Назначить водителю',
+    description: 'Зачисляет платеж на баланс выбранного водителя',
+  })
+  @ApiResponse({ status: 400, description: 'Строка уже разобрана' })
+  async assignLine(
+    @Param('id') id: string,
+    @Body() assignDto: AssignStatementLineDto,
+    @User() user: CurrentUser,
+  ) {
+    return await this.bankImportService.assignLine(id, assignDto, user);
+  }
+
+  @Post('lines/:id/ignore')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '🚫 Отклонить строку',
+    description: 'Поступление не относится к водителям',
+  })
+  @ApiResponse({ status: 400, description: 'Строка уже разобрана' })
+  async ignoreLine(
+    @Param('id') id: string,
+    @Body() ignoreDto: IgnoreStatementLineDto,
+    @User() user: CurrentUser,
+  ) {
+    return await this.bankImportService.ignoreLine(id, ignoreDto.reason, user);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { BankImportService } from './bank-import.service';
+import { BankImportController } from './bank-import.controller';
+import { BankImportEventListener } from './listeners/bank-import.listener';
+import { PrismaModule } from '../prisma/prisma.module';
+import { DriverModule } from '../driver/driver.module';
+
+@Module({
+  imports: [PrismaModule, DriverModule],
+  controllers: [BankImportController],
+  providers: [BankImportService, BankImportEventListener],
+})
+export class BankImportModule {}
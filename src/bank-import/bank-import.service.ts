@@ -0,0 +1,591 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  BankMatchMethod,
+  BankStatementFormat,
+  BankStatementImport,
+  BankStatementLineStatus,
+  PaymentMethod,
+  PaymentType,
+  Prisma,
+  UserRole,
+} from '@prisma/client';
+import { createHash } from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { DriverService } from '../driver/driver.service';
+import { ImportStatementDto } from './dto/import-statement.dto';
+import { AssignStatementLineDto } from './dto/assign-statement-line.dto';
+import { StatementLineQueryDto } from './dto/statement-line-query.dto';
+import {
+  BankStatementImportResult,
+  MatchCandidates,
+  ParsedStatementLine,
+  StatementLineMatch,
+} from './interfaces/bank-import.interface';
+import { parseCsvStatement } from './parsers/csv-statement.parser';
+import { parseMt940Statement } from './parsers/mt940-statement.parser';
+import {
+  extractRecordIds,
+  getMatchText,
+  matchStatementLine,
+} from './utils/statement-matcher.util';
+import {
+  BankPaymentMatchedEvent,
+  BankStatementImportedEvent,
+} from './events/bank-import.events';
+
+const statementLineInclude = {
+  driver: {
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      licenseNumber: true,
+      phone: true,
+    },
+  },
+  contract: {
+    select: { id: true, status: true },
+  },
+  payment: {
+    select: { id: true, status: true, currency: true },
+  },
+  resolvedBy: {
+    select: { id: true, firstName: true, lastName: true },
+  },
+} satisfies Prisma.BankStatementLineInclude;
+
+type StatementLineWithRelations = Prisma.BankStatementLineGetPayload<{
+  include: typeof statementLineInclude;
+}>;
+
+@Injectable()
+export class BankImportService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly driverService: DriverService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Импорт выписки: входящие платежи сопоставляются с водителями и зачисляются на баланс,
+   * несопоставленные попадают в очередь на ручной разбор.
+   * Повторная загрузка той же выписки не зачисляет платежи второй раз
+   */
+  async importStatement(
+    file: Express.Multer.File,
+    importStatementDto: ImportStatementDto,
+    currentUser: CurrentUser,
+  ): Promise<BankStatementImportResult> {
+    const companyId = await this.resolveCompanyId(
+      importStatementDto.companyId,
+      currentUser,
+    );
+    const content = file.buffer.toString('utf8').replace(/^\uFEFF/, '');
+    const format = importStatementDto.format ?? this.detectFormat(content);
+
+    const parsed =
+      format === BankStatementFormat.MT940
+        ? parseMt940Statement(content)
+        : parseCsvStatement(content);
+
+    // Списания со счета компании к водителям не относятся
+    const incoming = this.fingerprintLines(
+      parsed.filter((line) => line.amount > 0),
+    );
+
+    const known = await this.prisma.bankStatementLine.findMany({
+      where: {
+        companyId,
+        fingerprint: { in: incoming.map((item) => item.fingerprint) },
+      },
+      select: { fingerprint: true },
+    });
+    const knownFingerprints = new Set(known.map((line) => line.fingerprint));
+    const fresh = incoming.filter(
+      (item) => !knownFingerprints.has(item.fingerprint),
+    );
+
+    const candidates = await this.loadCandidates(
+      companyId,
+      fresh.map((item) => item.line),
+    );
+    const { baseCurrency } = await this.prisma.company.findUniqueOrThrow({
+      where: { id: companyId },
+      select: { baseCurrency: true },
+    });
+
+    const statementImport = await this.prisma.bankStatementImport.create({
+      data: {
+        format,
+        fileName: file.originalname,
+        totalLines: incoming.length,
+        skippedLines: parsed.length - incoming.length,
+        companyId,
+        importedById: currentUser.id,
+      },
+    });
+
+    const result: BankStatementImportResult = {
+      importId: statementImport.id,
+      totalLines: incoming.length,
+      matchedLines: 0,
+      unmatchedLines: 0,
+      duplicateLines: incoming.length - fresh.length,
+      skippedLines: statementImport.skippedLines,
+    };
+
+    try {
+      // Каждая строка - отдельная транзакция: ошибка в одной строке не откатывает уже зачисленные
+      for (const { line, fingerprint } of fresh) {
+        // Баланс водителя ведется в базовой валюте: платеж в другой валюте разбирается вручную
+        const match: StatementLineMatch =
+          line.currency && line.currency !== baseCurrency
+            ? {
+                driverId: null,
+                note: `Currency ${line.currency} differs from company base currency ${baseCurrency}`,
+              }
+            : matchStatementLine(line, candidates);
+
+        try {
+          const created = await this.createLine(
+            statementImport,
+            line,
+            fingerprint,
+            match,
+            currentUser.id,
+          );
+
+          if (created.status === BankStatementLineStatus.MATCHED) {
+            result.matchedLines++;
+            this.emitMatched(created);
+          } else {
+            result.unmatchedLines++;
+          }
+        } catch (error) {
+          // Та же выписка загружается параллельно
+          if (
+            error instanceof Prisma.PrismaClientKnownRequestError &&
+            error.code === 'P2002'
+          ) {
+            result.duplicateLines++;
+            continue;
+          }
+          throw error;
+        }
+      }
+    } finally {
+      await this.prisma.bankStatementImport.update({
+        where: { id: statementImport.id },
+        data: {
+          matchedLines: result.matchedLines,
+          unmatchedLines: result.unmatchedLines,
+          duplicateLines: result.duplicateLines,
+        },
+      });
+    }
+
+    this.eventEmitter.emit(
+      'bank-import.completed',
+      new BankStatementImportedEvent(
+        statementImport.id,
+        companyId,
+        currentUser.id,
+        result.matchedLines,
+        result.unmatchedLines,
+        result.duplicateLines,
+      ),
+    );
+
+    return result;
+  }
+
+  async findImports(companyId: string | undefined) {
+    return this.prisma.bankStatementImport.findMany({
+      where: companyId ? { companyId } : {},
+      include: {
+        importedBy: {
+          select: { id: true, firstName: true, lastName: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async findImport(id: string, currentUser: CurrentUser) {
+    const statementImport = await this.prisma.bankStatementImport.findUnique({
+      where: { id },
+      include: {
+        importedBy: {
+          select: { id: true, firstName: true, lastName: true },
+        },
+        lines: {
+          include: statementLineInclude,
+          orderBy: { lineNumber: 'asc' },
+        },
+      },
+    });
+
+    if (!statementImport) {
+      throw new NotFoundException(`Statement import with ID ${id} not found`);
+    }
+
+    this.checkCompanyAccess(statementImport, currentUser, 'statement import');
+
+    return statementImport;
+  }
+
+  /**
+   * Строки выписок; по умолчанию - очередь на ручной разбор
+   */
+  async findLines(companyId: string | undefined, query: StatementLineQueryDto) {
+    const whereClause: Prisma.BankStatementLineWhereInput = {
+      status: query.status ?? BankStatementLineStatus.UNMATCHED,
+    };
+
+    if (companyId) whereClause.companyId = companyId;
+    if (query.importId) whereClause.importId = query.importId;
+
+    return this.prisma.bankStatementLine.findMany({
+      where: whereClause,
+      include: statementLineInclude,
+      orderBy: [{ bookingDate: 'desc' }, { lineNumber: 'asc' }],
+    });
+  }
+
+  /**
+   * Ручное назначение строки водителю: платеж зачисляется так же, как при автоматическом сопоставлении
+   */
+  async assignLine(
+    id: string,
+    assignDto: AssignStatementLineDto,
+    currentUser: CurrentUser,
+  ) {
+    const line = await this.findPendingLine(id, currentUser);
+
+    if (line.currency) {
+      const { baseCurrency } = await this.prisma.company.findUniqueOrThrow({
+        where: { id: line.companyId },
+        select: { baseCurrency: true },
+      });
+
+      if (line.currency !== baseCurrency) {
+        throw new BadRequestException(
+          `Statement line currency ${line.currency} differs from company base currency ${baseCurrency}`,
+        );
+      }
+    }
+
+    const driver = await this.prisma.driver.findUnique({
+      where: { id: assignDto.driverId },
+    });
+
+    if (!driver || driver.companyId !== line.companyId) {
+      throw new NotFoundException(
+        `Driver with ID ${assignDto.driverId} not found`,
+      );
+    }
+
+    if (assignDto.contractId) {
+      const contract = await this.prisma.contract.findUnique({
+        where: { id: assignDto.contractId },
+      });
+
+      if (!contract || contract.driverId !== driver.id) {
+        throw new BadRequestException(
+          'Contract does not belong to this driver',
+        );
+      }
+    }
+
+    const assigned = await this.prisma.$transaction(async (tx) => {
+      // Захватываем строку: параллельное назначение той же строки не зачислит платеж дважды
+      const { count } = await tx.bankStatementLine.updateMany({
+        where: { id, status: BankStatementLineStatus.UNMATCHED },
+        data: {
+          status: BankStatementLineStatus.ASSIGNED,
+          matchedBy: BankMatchMethod.MANUAL,
+          driverId: driver.id,
+          contractId: assignDto.contractId,
+          note: null,
+          resolvedById: currentUser.id,
+          resolvedAt: new Date(),
+        },
+      });
+
+      if (count === 0) {
+        throw new BadRequestException('Statement line is already resolved');
+      }
+
+      const payment = await this.creditDriver(
+        tx,
+        line,
+        driver.id,
+        assignDto.contractId ?? null,
+        currentUser.id,
+      );
+
+      return await tx.bankStatementLine.update({
+        where: { id },
+        data: { paymentId: payment.id },
+        include: statementLineInclude,
+      });
+    });
+
+    this.emitMatched(assigned);
+
+    return assigned;
+  }
+
+  async ignoreLine(id: string, reason: string, currentUser: CurrentUser) {
+    await this.findPendingLine(id, currentUser);
+
+    const { count } = await this.prisma.bankStatementLine.updateMany({
+      where: { id, status: BankStatementLineStatus.UNMATCHED },
+      data: {
+        status: BankStatementLineStatus.IGNORED,
+        note: reason,
+        resolvedById: currentUser.id,
+        resolvedAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('Statement line is already resolved');
+    }
+
+    return this.prisma.bankStatementLine.findUniqueOrThrow({
+      where: { id },
+      include: statementLineInclude,
+    });
+  }
+
+  private async createLine(
+    statementImport: BankStatementImport,
+    line: ParsedStatementLine,
+    fingerprint: string,
+    match: StatementLineMatch,
+    importedById: string,
+  ): Promise<StatementLineWithRelations> {
+    return await this.prisma.$transaction(async (tx) => {
+      const payment =
+        match.driverId !== null
+          ? await this.creditDriver(
+              tx,
+              { ...line, companyId: statementImport.companyId },
+              match.driverId,
+              match.contractId,
+              importedById,
+            )
+          : null;
+
+      return await tx.bankStatementLine.create({
+        data: {
+          lineNumber: line.lineNumber,
+          bookingDate: line.bookingDate,
+          amount: line.amount,
+          currency: line.currency,
+          reference: line.reference,
+          payerName: line.payerName,
+          bankRef: line.bankRef,
+          fingerprint,
+          importId: statementImport.id,
+          companyId: statementImport.companyId,
+          ...(match.driverId !== null
+            ? {
+                status: BankStatementLineStatus.MATCHED,
+                matchedBy: match.matchedBy,
+                driverId: match.driverId,
+                contractId: match.contractId,
+                paymentId: payment?.id,
+                resolvedAt: new Date(),
+              }
+            : {
+                status: BankStatementLineStatus.UNMATCHED,
+                note: match.note,
+              }),
+        },
+        include: statementLineInclude,
+      });
+    });
+  }
+
+  /**
+   * Зачисление банковского платежа на баланс водителя через общую логику изменения баланса
+   */
+  private async creditDriver(
+    tx: Prisma.TransactionClient,
+    line: {
+      amount: Prisma.Decimal | number;
+      reference: string;
+      bookingDate: Date;
+      companyId: string;
+    },
+    driverId: string,
+    contractId: string | null,
+    createdById: string,
+  ) {
+    return await this.driverService.postBalancePayment(tx, {
+      driverId,
+      companyId: line.companyId,
+      contractId,
+      amount: Number(line.amount),
+      type: PaymentType.PAYMENT,
+      method: PaymentMethod.BANK_TRANSFER,
+      description: line.reference
+        ? `Bank transfer: ${line.reference}`
+        : 'Bank transfer',
+      date: line.bookingDate,
+      createdById,
+    });
+  }
+
+  private emitMatched(line: StatementLineWithRelations) {
+    if (!line.payment || !line.driverId || !line.matchedBy) {
+      return;
+    }
+
+    this.eventEmitter.emit(
+      'bank-import.payment.matched',
+      new BankPaymentMatchedEvent(
+        line.id,
+        line.payment.id,
+        line.companyId,
+        line.driverId,
+        line.amount.toNumber(),
+        line.matchedBy,
+        line.payment.currency,
+      ),
+    );
+  }
+
+  /**
+   * Отпечаток операции для защиты от повторной загрузки. Одинаковые операции внутри одного файла
+   * (два перевода на ту же сумму с тем же назначением) различаются порядковым номером
+   */
+  private fingerprintLines(lines: ParsedStatementLine[]) {
+    const occurrences = new Map<string, number>();
+
+    return lines.map((line) => {
+      const key = [
+        line.bookingDate.toISOString().split('T')[0],
+        line.amount.toFixed(2),
+        line.bankRef ?? '',
+        line.reference,
+        line.payerName ?? '',
+      ].join('|');
+      const occurrence = (occurrences.get(key) ?? 0) + 1;
+      occurrences.set(key, occurrence);
+
+      return {
+        line,
+        fingerprint: createHash('sha256')
+          .update(`${key}|${occurrence}`)
+          .digest('hex'),
+      };
+    });
+  }
+
+  private async loadCandidates(
+    companyId: string,
+    lines: ParsedStatementLine[],
+  ): Promise<MatchCandidates> {
+    const contractIds = [
+      ...new Set(lines.flatMap((line) => extractRecordIds(getMatchText(line)))),
+    ];
+
+    const [drivers, contracts] = await Promise.all([
+      this.prisma.driver.findMany({
+        where: { companyId },
+        select: { id: true, licenseNumber: true, phone: true },
+      }),
+      contractIds.length
+        ? this.prisma.contract.findMany({
+            where: { companyId, id: { in: contractIds } },
+            select: { id: true, driverId: true },
+          })
+        : [],
+    ]);
+
+    return {
+      drivers,
+      contracts: new Map(
+        contracts.map((contract) => [contract.id, contract] as const),
+      ),
+    };
+  }
+
+  private detectFormat(content: string): BankStatementFormat {
+    return /^:(20|61):/m.test(content)
+      ? BankStatementFormat.MT940
+      : BankStatementFormat.CSV;
+  }
+
+  private async resolveCompanyId(
+    companyId: string | undefined,
+    currentUser: CurrentUser,
+  ): Promise<string> {
+    if (currentUser.role !== UserRole.SUPER_ADMIN) {
+      if (!currentUser.companyId) {
+        throw new BadRequestException(
+          'User must belong to a company to import statements',
+        );
+      }
+      return currentUser.companyId;
+    }
+
+    if (!companyId) {
+      throw new BadRequestException(
+        'Company ID is required when importing as Super Admin',
+      );
+    }
+
+    const company = await this.prisma.company.findUnique({
+      where: { id: companyId },
+    });
+
+    if (!company) {
+      throw new NotFoundException(`Company with ID ${companyId} not found`);
+    }
+
+    return company.id;
+  }
+
+  private async findPendingLine(id: string, currentUser: CurrentUser) {
+    const line = await this.prisma.bankStatementLine.findUnique({
+      where: { id },
+    });
+
+    if (!line) {
+      throw new NotFoundException(`Statement line with ID ${id} not found`);
+    }
+
+    this.checkCompanyAccess(line, currentUser, 'statement line');
+
+    if (line.status !== BankStatementLineStatus.UNMATCHED) {
+      throw new BadRequestException('Statement line is already resolved');
+    }
+
+    return line;
+  }
+
+  private checkCompanyAccess(
+    record: { companyId: string },
+    currentUser: CurrentUser,
+    entity: string,
+  ) {
+    if (currentUser.role === UserRole.SUPER_ADMIN) {
+      return;
+    }
+
+    if (record.companyId !== currentUser.companyId) {
+      throw new ForbiddenException(`Access denied to this ${entity}`);
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { IsNotEmpty, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class AssignStatementLineDto {
+  @ApiProperty({ example: 'driver_id' })
+  @IsNotEmpty()
+  @IsString()
+  driverId: string;
+
+  @ApiProperty({
+    required: false,
+    example: 'contract_id',
+    description: 'Контракт водителя, к которому относится платеж',
+  })
+  @IsOptional()
+  @IsString()
+  contractId?: string;
+}
@@ -0,0 +1,10 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class IgnoreStatementLineDto {
+  @ApiProperty({ example: 'Возврат поставщика, не платеж водителя' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+}
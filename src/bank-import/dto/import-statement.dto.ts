@@ -0,0 +1,19 @@
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { BankStatementFormat } from '@prisma/client';
+
+export class ImportStatementDto {
+  @ApiProperty({
+    required: false,
+    enum: BankStatementFormat,
+    description: 'По умолчанию определяется по содержимому файла',
+  })
+  @IsOptional()
+  @IsEnum(BankStatementFormat)
+  format?: BankStatementFormat;
+
+  @ApiProperty({ required: false, description: 'Обязательно для SUPER_ADMIN' })
+  @IsOptional()
+  @IsString()
+  companyId?: string;
+}
@@ -0,0 +1,24 @@
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { BankStatementLineStatus } from '@prisma/client';
+
+export class StatementLineQueryDto {
+  @ApiProperty({
+    required: false,
+    enum: BankStatementLineStatus,
+    description: 'По умолчанию - UNMATCHED (очередь на разбор)',
+  })
+  @IsOptional()
+  @IsEnum(BankStatementLineStatus)
+  status?: BankStatementLineStatus;
+
+  @ApiProperty({ required: false, description: 'Фильтр по импорту' })
+  @IsOptional()
+  @IsString()
+  importId?: string;
+
+  @ApiProperty({ required: false, description: 'Только для SUPER_ADMIN' })
+  @IsOptional()
+  @IsString()
+  companyId?: string;
+}
@@ -0,0 +1,26 @@
+import { BankMatchMethod } from '@prisma/client';
+
+export class BankStatementImportedEvent {
+  constructor(
+    public readonly importId: string,
+    public readonly companyId: string,
+    public readonly importedById: string,
+    public readonly matchedLines: number,
+    public readonly unmatchedLines: number,
+    public readonly duplicateLines: number,
+    public readonly timestamp: Date = new Date(),
+  ) {}
+}
+
+export class BankPaymentMatchedEvent {
+  constructor(
+    public readonly lineId: string,
+    public readonly paymentId: string,
+    public readonly companyId: string,
+    public readonly driverId: string,
+    public readonly amount: number,
+    public readonly matchedBy: BankMatchMethod,
+    public readonly currency: string,
+    public readonly timestamp: Date = new Date(),
+  ) {}
+}
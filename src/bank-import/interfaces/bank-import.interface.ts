@@ -0,0 +1,30 @@
+import { BankMatchMethod } from '@prisma/client';
+
+// Операция из выписки. Положительная сумма - поступление на счет, отрицательная - списание
+export interface ParsedStatementLine {
+  lineNumber: number;
+  bookingDate: Date;
+  amount: number;
+  reference: string;
+  payerName?: string;
+  bankRef?: string;
+  currency?: string; // ISO 4217, если валюта указана в выписке
+}
+
+export interface MatchCandidates {
+  drivers: { id: string; licenseNumber: string; phone: string }[];
+  contracts: Map<string, { id: string; driverId: string }>;
+}
+
+export type StatementLineMatch =
+  | { driverId: string; contractId: string | null; matchedBy: BankMatchMethod }
+  | { driverId: null; note: string };
+
+export interface BankStatementImportResult {
+  importId: string;
+  totalLines: number;
+  matchedLines: number;
+  unmatchedLines: number;
+  duplicateLines: number;
+  skippedLines: number;
+}
@@ -0,0 +1,39 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import {
+  BankPaymentMatchedEvent,
+  BankStatementImportedEvent,
+} from '../events/bank-import.events';
+import { formatMoney } from '../../currency/utils/currency.util';
+
+@Injectable()
+export class BankImportEventListener {
+  private readonly logger = new Logger(BankImportEventListener.name);
+
+  @OnEvent('bank-import.completed')
+  handleStatementImported(event: BankStatementImportedEvent) {
+    this.logger.log(
+      `🏦 Импорт выписки ${event.importId} (компания ${event.companyId}): ` +
+        `зачислено ${event.matchedLines}, на разбор ${event.unmatchedLines}, повторов ${event.duplicateLines}`,
+    );
+
+    if (event.unmatchedLines > 0) {
+      // Здесь можно добавить:
+      // - Уведомление менеджеров о строках в очереди на разбор
+      this.logger.warn(
+        `📥 ${event.unmatchedLines} строк выписки ${event.importId} ждут ручного разбора`,
+      );
+    }
+  }
+
+  @OnEvent('bank-import.payment.matched')
+  handlePaymentMatched(event: BankPaymentMatchedEvent) {
+    this.logger.log(
+      `✅ Банковский платеж ${formatMoney(event.amount, event.currency)} зачислен водителю ${event.driverId} ` +
+        `(${event.matchedBy}, платеж ${event.paymentId})`,
+    );
+
+    // Здесь можно добавить:
+    // - Push уведомление водителю о зачислении
+  }
+}
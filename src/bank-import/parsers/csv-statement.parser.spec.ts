@@ -0,0 +1,114 @@
+import { BadRequestException } from '@nestjs/common';
+import { parseCsvStatement } from './csv-statement.parser';
+
+describe('parseCsvStatement', () => {
+  it('parses a semicolon separated statement with a signed amount column', () => {
+    const lines = parseCsvStatement(
+      [
+        'Дата;Сумма;Назначение платежа;Плательщик;Номер документа',
+        '28.07.2025;1 500,00;Оплата аренды;Асанов Б.;DOC-1',
+        '29.07.2025;-200,00;Комиссия банка;;',
+      ].join('\n'),
+    );
+
+    expect(lines).toEqual([
+      {
+        lineNumber: 2,
+        bookingDate: new Date('2025-07-28T00:00:00.000Z'),
+        amount: 1500,
+        reference: 'Оплата аренды',
+        payerName: 'Асанов Б.',
+        bankRef: 'DOC-1',
+      },
+      {
+        lineNumber: 3,
+        bookingDate: new Date('2025-07-29T00:00:00.000Z'),
+        amount: -200,
+        reference: 'Комиссия банка',
+        payerName: undefined,
+        bankRef: undefined,
+      },
+    ]);
+  });
+
+  it('detects comma and tab delimiters', () => {
+    const comma = parseCsvStatement(
+      'date,amount,description\n2025-07-28,"1,234.56","Rent, July"\n',
+    );
+    const tab = parseCsvStatement(
+      'date\tamount\tdescription\n2025-07-28\t100\tRent\n',
+    );
+
+    expect(comma[0]).toMatchObject({
+      amount: 1234.56,
+      reference: 'Rent, July',
+    });
+    expect(tab[0]).toMatchObject({ amount: 100, reference: 'Rent' });
+  });
+
+  it('supports quoted fields with escaped quotes and line breaks', () => {
+    const [line] = parseCsvStatement(
+      'Дата;Сумма;Назначение\r\n28.07.2025;100;"Оплата ""аренды""\r\nза июль"\r\n',
+    );
+
+    expect(line.reference).toBe('Оплата "аренды"\r\nза июль');
+  });
+
+  it('uses separate credit and debit columns', () => {
+    const lines = parseCsvStatement(
+      [
+        'Дата;Приход;Расход;Назначение',
+        '28.07.2025;500;;Оплата',
+        '28.07.2025;;300;Списание',
+      ].join('\n'),
+    );
+
+    expect(lines.map((line) => line.amount)).toEqual([500, -300]);
+  });
+
+  it('matches headers case-insensitively and ignores extra spaces', () => {
+    const [line] = parseCsvStatement(
+      '  Booking   Date ;AMOUNT;Details\n2025-07-28;10;Rent\n',
+    );
+
+    expect(line.bookingDate.toISOString()).toBe('2025-07-28T00:00:00.000Z');
+  });
+
+  it('reads the optional currency column', () => {
+    const [withCurrency] = parseCsvStatement(
+      'Дата;Сумма;Валюта;Назначение\n28.07.2025;100;usd;Оплата аренды\n',
+    );
+    const [withoutCurrency] = parseCsvStatement(
+      'date;amount;description\n2025-07-28;100;Rent\n',
+    );
+
+    expect(withCurrency.currency).toBe('USD');
+    expect(withoutCurrency.currency).toBeUndefined();
+  });
+
+  it('skips blank lines', () => {
+    const lines = parseCsvStatement(
+      'date;amount;reference\n\n2025-07-28;10;A\n;;\n2025-07-29;20;B\n',
+    );
+
+    expect(lines.map((line) => line.reference)).toEqual(['A', 'B']);
+  });
+
+  it('reports the line number of an invalid value', () => {
+    expect(() =>
+      parseCsvStatement(
+        'date;amount;reference\n2025-07-28;10;A\n2025-07-29;abc;B\n',
+      ),
+    ).toThrow('Invalid amount "abc" on line 3');
+  });
+
+  it('requires date, reference and amount columns', () => {
+    expect(() => parseCsvStatement('')).toThrow('Statement file is empty');
+    expect(() => parseCsvStatement('date;amount\n2025-07-28;10\n')).toThrow(
+      'CSV statement must have date and reference columns',
+    );
+    expect(() =>
+      parseCsvStatement('date;reference;debit\n2025-07-28;A;10\n'),
+    ).toThrow(BadRequestException);
+  });
+});
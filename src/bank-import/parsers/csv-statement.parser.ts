@@ -0,0 +1,182 @@
+import { BadRequestException } from '@nestjs/common';
+import { ParsedStatementLine } from '../interfaces/bank-import.interface';
+import {
+  parseStatementAmount,
+  parseStatementDate,
+} from './statement-value.util';
+
+/**
+ * Выписка в CSV с заголовком. Разделитель (";", "," или табуляция) определяется по заголовку.
+ * Сумма - одной колонкой со знаком или двумя колонками "приход"/"расход".
+ * Необязательная колонка "валюта" - код ISO 4217 операции
+ */
+
+type StatementColumn =
+  | 'date'
+  | 'amount'
+  | 'credit'
+  | 'debit'
+  | 'reference'
+  | 'payer'
+  | 'bankRef'
+  | 'currency';
+
+const COLUMN_ALIASES: Record<StatementColumn, string[]> = {
+  date: [
+    'date',
+    'booking date',
+    'value date',
+    'дата',
+    'дата операции',
+    'дата проводки',
+  ],
+  amount: ['amount', 'sum', 'сумма'],
+  credit: ['credit', 'приход', 'поступление', 'кредит'],
+  debit: ['debit', 'расход', 'списание', 'дебет'],
+  reference: [
+    'reference',
+    'description',
+    'details',
+    'purpose',
+    'comment',
+    'назначение',
+    'назначение платежа',
+    'комментарий',
+    'описание',
+  ],
+  payer: ['payer', 'sender', 'name', 'плательщик', 'отправитель'],
+  bankRef: [
+    'id',
+    'transaction id',
+    'bank ref',
+    'document',
+    'номер',
+    'номер документа',
+    'документ',
+  ],
+  currency: ['currency', 'ccy', 'валюта'],
+};
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function detectDelimiter(headerLine: string): string {
+  const candidates = [';', ',', '\t'];
+  return candidates.reduce((best, delimiter) =>
+    headerLine.split(delimiter).length > headerLine.split(best).length
+      ? delimiter
+      : best,
+  );
+}
+
+/**
+ * Разбор CSV с учетом кавычек: поля в кавычках могут содержать разделитель и переводы строк
+ */
+function parseCsvRows(content: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+export function parseCsvStatement(content: string): ParsedStatementLine[] {
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const [header, ...rows] = parseCsvRows(content, detectDelimiter(firstLine));
+
+  if (!header) {
+    throw new BadRequestException('Statement file is empty');
+  }
+
+  const columns = new Map<StatementColumn, number>();
+  header.forEach((cell, index) => {
+    const name = normalizeHeader(cell);
+    for (const [column, aliases] of Object.entries(COLUMN_ALIASES) as [
+      StatementColumn,
+      string[],
+    ][]) {
+      if (!columns.has(column) && aliases.includes(name)) {
+        columns.set(column, index);
+      }
+    }
+  });
+
+  if (!columns.has('date') || !columns.has('reference')) {
+    throw new BadRequestException(
+      'CSV statement must have date and reference columns',
+    );
+  }
+  if (!columns.has('amount') && !columns.has('credit')) {
+    throw new BadRequestException(
+      'CSV statement must have an amount or credit column',
+    );
+  }
+
+  const cell = (cells: string[], column: StatementColumn) => {
+    const index = columns.get(column);
+    return index === undefined ? '' : (cells[index] ?? '').trim();
+  };
+
+  return rows.map((cells, index) => {
+    // Номер строки в файле с учетом заголовка
+    const lineNumber = index + 2;
+    let amount: number;
+
+    if (columns.has('amount')) {
+      amount = parseStatementAmount(cell(cells, 'amount'), lineNumber);
+    } else {
+      const credit = cell(cells, 'credit');
+      const debit = cell(cells, 'debit');
+      amount = credit
+        ? parseStatementAmount(credit, lineNumber)
+        : -Math.abs(parseStatementAmount(debit || '0', lineNumber));
+    }
+
+    return {
+      lineNumber,
+      bookingDate: parseStatementDate(cell(cells, 'date'), lineNumber),
+      amount,
+      reference: cell(cells, 'reference'),
+      payerName: cell(cells, 'payer') || undefined,
+      bankRef: cell(cells, 'bankRef') || undefined,
+      currency: cell(cells, 'currency').toUpperCase() || undefined,
+    };
+  });
+}
@@ -0,0 +1,130 @@
+import { BadRequestException } from '@nestjs/common';
+import { parseMt940Statement } from './mt940-statement.parser';
+
+const statement = (...transactions: string[]) =>
+  [
+    '{1:F01BANKKGXXAXXX0000000000}{2:I940BANKKGXXXXXXN}{4:',
+    ':20:STMT-0728',
+    ':25:1234567890123456',
+    ':28C:00145/001',
+    ':60F:C250727KGS100000,00',
+    ...transactions,
+    ':62F:C250728KGS104500,00',
+    '-}',
+  ].join('\r\n');
+
+describe('parseMt940Statement', () => {
+  it('parses credit lines with unstructured information', () => {
+    const [line] = parseMt940Statement(
+      statement(
+        ':61:2507280728C1500,50NTRFNONREF//BANK-001',
+        ':86:Оплата аренды, водитель Асанов',
+      ),
+    );
+
+    expect(line).toEqual({
+      lineNumber: 1,
+      bookingDate: new Date('2025-07-28T00:00:00.000Z'),
+      amount: 1500.5,
+      reference: 'Оплата аренды, водитель Асанов',
+      bankRef: 'BANK-001',
+      currency: 'KGS',
+    });
+  });
+
+  it('treats debits as negative amounts', () => {
+    const [line] = parseMt940Statement(statement(':61:250728D250,NCHGNONREF'));
+
+    expect(line.amount).toBe(-250);
+    expect(line.bankRef).toBeUndefined();
+  });
+
+  it('treats reversal of a debit as incoming and reversal of a credit as outgoing', () => {
+    const lines = parseMt940Statement(
+      statement(':61:250728RD100,00NTRFNONREF', ':61:250728RC200,00NTRFNONREF'),
+    );
+
+    expect(lines.map((line) => line.amount)).toEqual([100, -200]);
+  });
+
+  it('skips the funds code before the amount', () => {
+    const [line] = parseMt940Statement(
+      statement(':61:250728CR3000,NTRFNONREF'),
+    );
+
+    expect(line.amount).toBe(3000);
+  });
+
+  it('joins multi-line information fields', () => {
+    const [line] = parseMt940Statement(
+      statement(
+        ':61:250728C700,NTRFNONREF',
+        ':86:Оплата по договору',
+        'аренды автомобиля',
+      ),
+    );
+
+    expect(line.reference).toBe('Оплата по договору аренды автомобиля');
+  });
+
+  it('extracts purpose and payer from structured information', () => {
+    const [line] = parseMt940Statement(
+      statement(
+        ':61:250728C2000,NTRFNONREF',
+        ':86:166?00ZAHLUNG?20Оплата аренды?21 ID 12345',
+        '?32Асанов Бакыт?33 Маратович',
+      ),
+    );
+
+    expect(line.reference).toBe('Оплата аренды ID 12345');
+    expect(line.payerName).toBe('Асанов Бакыт Маратович');
+  });
+
+  it('numbers transactions in statement order', () => {
+    const lines = parseMt940Statement(
+      statement(
+        ':61:250727C100,NTRFNONREF',
+        ':86:Первый',
+        ':61:250728C200,NTRFNONREF',
+        ':86:Второй',
+      ),
+    );
+
+    expect(lines.map((line) => [line.lineNumber, line.reference])).toEqual([
+      [1, 'Первый'],
+      [2, 'Второй'],
+    ]);
+    expect(lines[0].bookingDate.toISOString()).toBe('2025-07-27T00:00:00.000Z');
+  });
+
+  it('takes the currency from the opening balance of the page', () => {
+    const lines = parseMt940Statement(
+      statement(
+        ':61:250728C100,NTRFNONREF',
+        ':62M:C250728KGS100100,00',
+        ':60M:C250728USD5000,00',
+        ':61:250728C200,NTRFNONREF',
+      ),
+    );
+
+    expect(lines.map((line) => line.currency)).toEqual(['KGS', 'USD']);
+  });
+
+  it('leaves the currency empty without an opening balance', () => {
+    const [line] = parseMt940Statement(
+      [':20:STMT', ':61:250728C100,NTRFNONREF', '-}'].join('\n'),
+    );
+
+    expect(line.currency).toBeUndefined();
+  });
+
+  it('rejects a malformed statement line', () => {
+    expect(() => parseMt940Statement(statement(':61:2507C100,NTRF'))).toThrow(
+      'Invalid :61: field in transaction 1',
+    );
+  });
+
+  it('rejects a statement without transactions', () => {
+    expect(() => parseMt940Statement(statement())).toThrow(BadRequestException);
+  });
+});
@@ -0,0 +1,114 @@
+import { BadRequestException } from '@nestjs/common';
+import { ParsedStatementLine } from '../interfaces/bank-import.interface';
+import { parseStatementAmount } from './statement-value.util';
+
+/**
+ * Выписка SWIFT MT940. Операции - поля :61:, назначение платежа - следующее за ним поле :86:.
+ * Валюта операций - валюта начального остатка :60F: (:60M: - на промежуточной странице).
+ * В структурированном :86: (подполя ?20-?29 - назначение, ?32-?33 - плательщик)
+ * подполя разбираются, в остальных случаях назначением считается весь текст
+ */
+
+interface Mt940Field {
+  tag: string;
+  value: string;
+}
+
+// :61:ГГММДД[ММДД]<C|D|RC|RD>[код средств]<сумма>N<тип><референс клиента>[//референс банка]
+const STATEMENT_LINE =
+  /^(\d{2})(\d{2})(\d{2})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+(?:,\d*)?)(.*)$/;
+
+// :60F:<C|D>ГГММДД<валюта><сумма>
+const OPENING_BALANCE = /^[CD]\d{6}([A-Z]{3})/;
+
+function splitFields(content: string): Mt940Field[] {
+  const fields: Mt940Field[] = [];
+
+  for (const line of content.split(/\r?\n/)) {
+    const match = line.match(/^:(\d{2}[A-Z]?):(.*)$/);
+
+    if (match) {
+      fields.push({ tag: match[1], value: match[2] });
+    } else if (fields.length && line.trim() && !line.startsWith('-}')) {
+      // Продолжение многострочного поля
+      fields[fields.length - 1].value += '\n' + line;
+    }
+  }
+
+  return fields;
+}
+
+function parseInformation(value: string): {
+  reference: string;
+  payerName?: string;
+} {
+  if (!/\?\d{2}/.test(value)) {
+    return { reference: value.replace(/\n/g, ' ').trim() };
+  }
+
+  const subfields = new Map<number, string>();
+  for (const match of value.replace(/\n/g, '').matchAll(/\?(\d{2})([^?]*)/g)) {
+    subfields.set(
+      Number(match[1]),
+      (subfields.get(Number(match[1])) ?? '') + match[2],
+    );
+  }
+
+  const join = (from: number, to: number) =>
+    Array.from(subfields.entries())
+      .filter(([code]) => code >= from && code <= to)
+      .map(([, text]) => text.trim())
+      .join(' ')
+      .trim();
+
+  return {
+    reference: join(20, 29),
+    payerName: join(32, 33) || undefined,
+  };
+}
+
+export function parseMt940Statement(content: string): ParsedStatementLine[] {
+  const lines: ParsedStatementLine[] = [];
+  let currency: string | undefined;
+
+  for (const field of splitFields(content)) {
+    if (field.tag === '60F' || field.tag === '60M') {
+      currency = field.value.match(OPENING_BALANCE)?.[1] ?? currency;
+    } else if (field.tag === '61') {
+      const lineNumber = lines.length + 1;
+      const [firstLine] = field.value.split('\n');
+      const match = firstLine.match(STATEMENT_LINE);
+
+      if (!match) {
+        throw new BadRequestException(
+          `Invalid :61: field in transaction ${lineNumber}`,
+        );
+      }
+
+      const [, year, month, day, , mark, , rawAmount, rest] = match;
+      const amount = parseStatementAmount(rawAmount, lineNumber);
+      // Сторно списания (RD) - поступление, сторно поступления (RC) - списание
+      const incoming = mark === 'C' || mark === 'RD';
+      const bankRef = rest.split('//')[1]?.trim();
+
+      lines.push({
+        lineNumber,
+        bookingDate: new Date(
+          Date.UTC(2000 + Number(year), Number(month) - 1, Number(day)),
+        ),
+        amount: incoming ? amount : -amount,
+        reference: '',
+        bankRef: bankRef || undefined,
+        currency,
+      });
+    } else if (field.tag === '86' && lines.length) {
+      Object.assign(lines[lines.length - 1], parseInformation(field.value));
+    }
+  }
+
+  if (!lines.length) {
+    throw new BadRequestException('MT940 statement has no transactions');
+  }
+
+  return lines;
+}
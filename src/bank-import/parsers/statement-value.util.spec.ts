@@ -0,0 +1,56 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  parseStatementAmount,
+  parseStatementDate,
+} from './statement-value.util';
+
+describe('statement-value.util', () => {
+  describe('parseStatementAmount', () => {
+    it.each([
+      ['1234.56', 1234.56],
+      ['1234,56', 1234.56],
+      ['1 234,56', 1234.56],
+      ['1,234.56', 1234.56],
+      ["1'234.56", 1234.56],
+      ['-500', -500],
+      ['500,', 500],
+      ['0.005', 0.01],
+    ])('parses "%s"', (raw, expected) => {
+      expect(parseStatementAmount(raw, 1)).toBe(expected);
+    });
+
+    it.each(['', '  ', 'abc', '-', '12a'])(
+      'rejects "%s" with the line number',
+      (raw) => {
+        expect(() => parseStatementAmount(raw, 7)).toThrow(BadRequestException);
+        expect(() => parseStatementAmount(raw, 7)).toThrow('on line 7');
+      },
+    );
+  });
+
+  describe('parseStatementDate', () => {
+    it.each([
+      ['2025-07-28', '2025-07-28'],
+      ['28.07.2025', '2025-07-28'],
+      ['28/07/2025', '2025-07-28'],
+      ['2025-07-28T23:59:00+06:00', '2025-07-28'],
+      ['28.07.2025 23:59', '2025-07-28'],
+      [' 29.02.2024 ', '2024-02-29'],
+    ])('parses "%s" as a UTC calendar day', (raw, expected) => {
+      expect(parseStatementDate(raw, 1).toISOString()).toBe(
+        `${expected}T00:00:00.000Z`,
+      );
+    });
+
+    it.each([
+      '31.02.2025',
+      '29.02.2025',
+      '2025-13-01',
+      '07/28/2025',
+      '28.07.25',
+      '',
+    ])('rejects "%s"', (raw) => {
+      expect(() => parseStatementDate(raw, 3)).toThrow('on line 3');
+    });
+  });
+});
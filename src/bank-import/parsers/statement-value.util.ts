@@ -0,0 +1,60 @@
+import { BadRequestException } from '@nestjs/common';
+
+/**
+ * Разбор сумм и дат в форматах, которые встречаются в банковских выписках
+ */
+
+/**
+ * Сумма: "1234.56", "1 234,56", "1,234.56", "-500"
+ */
+export function parseStatementAmount(raw: string, lineNumber: number): number {
+  let value = raw.replace(/[\s']/g, '');
+
+  if (value.includes(',') && value.includes('.')) {
+    // Запятая - разделитель тысяч
+    value = value.replace(/,/g, '');
+  } else {
+    value = value.replace(',', '.');
+  }
+
+  const amount = Number(value);
+
+  if (!value || !Number.isFinite(amount)) {
+    throw new BadRequestException(
+      `Invalid amount "${raw}" on line ${lineNumber}`,
+    );
+  }
+
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Дата: "2025-07-28", "28.07.2025", "28/07/2025", время после даты отбрасывается
+ */
+export function parseStatementDate(raw: string, lineNumber: number): Date {
+  const value = raw.trim();
+  let match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  let year: number, month: number, day: number;
+
+  if (match) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else {
+    match = value.match(/^(\d{2})[./](\d{2})[./](\d{4})/);
+    if (!match) {
+      throw new BadRequestException(
+        `Invalid date "${raw}" on line ${lineNumber}`,
+      );
+    }
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  }
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    throw new BadRequestException(
+      `Invalid date "${raw}" on line ${lineNumber}`,
+    );
+  }
+
+  return date;
+}
@@ -0,0 +1,100 @@
+import { BankMatchMethod } from '@prisma/client';
+import { MatchCandidates } from '../interfaces/bank-import.interface';
+import {
+  extractRecordIds,
+  getMatchText,
+  matchStatementLine,
+} from './statement-matcher.util';
+
+const CONTRACT_ID = 'clx1a2b3c4d5e6f7g8h9i0jk';
+const OTHER_CONTRACT_ID = 'clx9z8y7x6w5v4u3t2s1r0qp';
+
+const candidates: MatchCandidates = {
+  drivers: [
+    {
+      id: 'driver-1',
+      licenseNumber: 'AB 123-456',
+      phone: '+996 (555) 12-34-56',
+    },
+    { id: 'driver-2', licenseNumber: 'CD7890123', phone: '+996 700 98 76 54' },
+    { id: 'driver-3', licenseNumber: 'X1', phone: '123' },
+  ],
+  contracts: new Map([
+    [CONTRACT_ID, { id: CONTRACT_ID, driverId: 'driver-1' }],
+    [OTHER_CONTRACT_ID, { id: OTHER_CONTRACT_ID, driverId: 'driver-2' }],
+  ]),
+};
+
+const match = (reference: string, payerName?: string) =>
+  matchStatementLine({ reference, payerName }, candidates);
+
+describe('statement-matcher.util', () => {
+  describe('extractRecordIds', () => {
+    it('finds cuid-like words', () => {
+      expect(extractRecordIds(`Оплата по договору ${CONTRACT_ID}.`)).toEqual([
+        CONTRACT_ID,
+      ]);
+      expect(extractRecordIds('Оплата cabc')).toEqual([]);
+    });
+  });
+
+  describe('getMatchText', () => {
+    it('joins reference and payer name', () => {
+      expect(getMatchText({ reference: 'Аренда', payerName: 'Асанов' })).toBe(
+        'Аренда Асанов',
+      );
+      expect(getMatchText({ reference: 'Аренда' })).toBe('Аренда');
+    });
+  });
+
+  describe('matchStatementLine', () => {
+    it('matches by contract id first', () => {
+      expect(match(`Аренда ${CONTRACT_ID}, удостоверение CD7890123`)).toEqual({
+        driverId: 'driver-1',
+        contractId: CONTRACT_ID,
+        matchedBy: BankMatchMethod.CONTRACT,
+      });
+    });
+
+    it('sends contracts of different drivers to review', () => {
+      expect(match(`${CONTRACT_ID} ${OTHER_CONTRACT_ID}`)).toEqual({
+        driverId: null,
+        note: 'Reference matches contracts of several drivers',
+      });
+    });
+
+    it('matches a license number regardless of case and separators', () => {
+      expect(match('Оплата аренды, ВУ ab123456')).toEqual({
+        driverId: 'driver-1',
+        contractId: null,
+        matchedBy: BankMatchMethod.LICENSE,
+      });
+    });
+
+    it('ignores too short license numbers', () => {
+      expect(match('Оплата X1 за неделю').driverId).toBeNull();
+    });
+
+    it('sends several matching license numbers to review', () => {
+      expect(match('AB123456 и CD7890123')).toEqual({
+        driverId: null,
+        note: 'Reference matches license numbers of several drivers',
+      });
+    });
+
+    it('matches a phone number in the payer name by its last digits', () => {
+      expect(match('Пополнение баланса', 'тел. 0555 123 456')).toEqual({
+        driverId: 'driver-1',
+        contractId: null,
+        matchedBy: BankMatchMethod.PHONE,
+      });
+    });
+
+    it('reports lines without any match', () => {
+      expect(match('Оплата аренды')).toEqual({
+        driverId: null,
+        note: 'No driver found by contract, license number or phone',
+      });
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { BankMatchMethod } from '@prisma/client';
+import {
+  MatchCandidates,
+  ParsedStatementLine,
+  StatementLineMatch,
+} from '../interfaces/bank-import.interface';
+
+/**
+ * Сопоставление операции выписки с водителем по тексту назначения платежа и имени плательщика.
+ * Порядок: ID контракта, номер удостоверения, телефон. Если способ находит нескольких водителей,
+ * строка уходит на ручной разбор - угадывать получателя денег нельзя
+ */
+
+// Короткие номера удостоверений и телефонов дают ложные совпадения
+const MIN_LICENSE_LENGTH = 5;
+const PHONE_DIGITS = 9;
+
+function normalizeLicense(value: string): string {
+  return value.toUpperCase().replace(/[^0-9A-ZА-ЯЁ]/g, '');
+}
+
+/**
+ * Последовательности, похожие на телефон: цифры, разделенные пробелами, дефисами и скобками
+ */
+function extractPhoneDigits(text: string): string[] {
+  return (text.match(/\+?\d[\d\s\-()]{7,}\d/g) ?? []).map((phone) =>
+    phone.replace(/\D/g, ''),
+  );
+}
+
+/**
+ * Слова, похожие на ID записи (cuid)
+ */
+export function extractRecordIds(text: string): string[] {
+  return text.match(/\bc[a-z0-9]{20,30}\b/g) ?? [];
+}
+
+export function getMatchText(
+  line: Pick<ParsedStatementLine, 'reference' | 'payerName'>,
+): string {
+  return [line.reference, line.payerName].filter(Boolean).join(' ');
+}
+
+export function matchStatementLine(
+  line: Pick<ParsedStatementLine, 'reference' | 'payerName'>,
+  candidates: MatchCandidates,
+): StatementLineMatch {
+  const text = getMatchText(line);
+
+  const contracts = extractRecordIds(text)
+    .map((id) => candidates.contracts.get(id))
+    .filter((contract) => contract !== undefined);
+  const contractDrivers = new Set(
+    contracts.map((contract) => contract.driverId),
+  );
+
+  if (contractDrivers.size === 1) {
+    return {
+      driverId: contracts[0].driverId,
+      contractId: contracts[0].id,
+      matchedBy: BankMatchMethod.CONTRACT,
+    };
+  }
+  if (contractDrivers.size > 1) {
+    return {
+      driverId: null,
+      note: 'Reference matches contracts of several drivers',
+    };
+  }
+
+  const normalizedText = normalizeLicense(text);
+  const byLicense = candidates.drivers.filter((driver) => {
+    const license = normalizeLicense(driver.licenseNumber);
+    return (
+      license.length >= MIN_LICENSE_LENGTH && normalizedText.includes(license)
+    );
+  });
+
+  if (byLicense.length === 1) {
+    return {
+      driverId: byLicense[0].id,
+      contractId: null,
+      matchedBy: BankMatchMethod.LICENSE,
+    };
+  }
+  if (byLicense.length > 1) {
+    return {
+      driverId: null,
+      note: 'Reference matches license numbers of several drivers',
+    };
+  }
+
+  const phones = extractPhoneDigits(text);
+  const byPhone = candidates.drivers.filter((driver) => {
+    const digits = driver.phone.replace(/\D/g, '');
+    return (
+      digits.length >= PHONE_DIGITS &&
+      phones.some((phone) => phone.endsWith(digits.slice(-PHONE_DIGITS)))
+    );
+  });
+
+  if (byPhone.length === 1) {
+    return {
+      driverId: byPhone[0].id,
+      contractId: null,
+      matchedBy: BankMatchMethod.PHONE,
+    };
+  }
+  if (byPhone.length > 1) {
+    return {
+      driverId: null,
+      note: 'Reference matches phones of several drivers',
+    };
+  }
+
+  return {
+    driverId: null,
+    note: 'No driver found by contract, license number or phone',
+  };
+}
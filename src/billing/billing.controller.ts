@@ -6,6 +6,9 @@ import {
   Request,
   HttpCode,
   HttpStatus,
+  Query,
+  ParseIntPipe,
+  DefaultValuePipe,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -17,8 +20,10 @@ import { BillingService } from './billing.service';
 import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
 import { RolesGuard } from '../auth/guards/roles.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
+import { User, CurrentUser } from '../auth/decorators/current-user.decorator';
 import { CompanyFilter } from './common/decorators/company-filter.decorator';
-import { UserRole } from '@prisma/client';
+import { BillingPreviewQueryDto } from './dto/billing-preview-query.dto';
+import { BillingRunStatus, UserRole } from '@prisma/client';
 
 @ApiTags('💰 Billing - Автоматическое списание аренды')
 @ApiBearerAuth()
@@ -32,7 +37,9 @@ export class BillingController {
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
     summary: '🔧 Ручной запуск ежедневного списания',
-    description: 'Принудительно запускает процесс списания аренды (для тестирования)',
+    description:
+      'Запускает списание аренды за сегодня. Повторный запуск не списывает повторно, ' +
+      'а возвращает уже выполненный прогон',
   })
   @ApiResponse({
     status: 200,
@@ -40,21 +47,118 @@ export class BillingController {
     schema: {
       example: {
         success: true,
-        message: 'Обработка завершена',
-        stats: { total: 15, successful: 12, failed: 3, totalAmount: 1800 },
+        message: 'Ежедневное списание обработано',
+        runs: [
+          {
+            alreadyProcessed: false,
+            run: {
+              id: 'run_id',
+              billingDate: '2025-07-12',
+              status: 'COMPLETED',
+              trigger: 'MANUAL',
+              total: 15,
+              successful: 12,
+              failed: 3,
+              skipped: 0,
+              totalAmount: '1800',
+            },
+          },
+        ],
       },
     },
   })
-  async manualProcessDailyRentals() {
-    const stats = await this.billingService.manualProcessDailyRentals();
-    
+  async manualProcessDailyRentals(
+    @CompanyFilter() companyId: string,
+    @User() user: CurrentUser,
+  ) {
+    const runs = await this.billingService.manualProcessDailyRentals(
+      companyId,
+      user.id,
+    );
+    const alreadyProcessed =
+      runs.length > 0 && runs.every((r) => r.alreadyProcessed);
+
     return {
-      success: true,
-      message: 'Ежедневное списание обработано',
-      stats,
+      success: runs.every((r) => r.run.status !== BillingRunStatus.FAILED),
+      message: alreadyProcessed
+        ? 'Списание за сегодня уже выполнено'
+        : 'Ежедневное списание обработано',
+      runs,
     };
   }
 
+  @Get('preview')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @ApiOperation({
+    summary: '🔍 Предпросмотр списания',
+    description:
+      'Показывает, какие контракты и периоды будут списаны за указанный день, сколько заплатит каждый водитель ' +
+      'и чей баланс уйдет в минус. Платежи не создаются, балансы не изменяются',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'План списания',
+    schema: {
+      example: [
+        {
+          companyId: 'company_id',
+          companyName: 'Автопарк',
+          billingDate: '2025-07-12',
+          existingRunStatus: null,
+          summary: {
+            contracts: 1,
+            skipped: 0,
+            charges: 1,
+            totalAmount: 150,
+            driversGoingNegative: 1,
+          },
+          contracts: [
+            {
+              contractId: 'contract_id',
+              driverId: 'driver_id',
+              driverName: 'Иван Петров',
+              vehicle: 'Toyota Camry (01KG123A)',
+              billingCycle: 'DAILY',
+              dailyRate: 150,
+              charges: [
+                {
+                  billingDate: '2025-07-12',
+                  periodStart: '2025-07-12',
+                  periodEnd: '2025-07-13',
+                  amount: 150,
+                  prorated: false,
+                },
+              ],
+              amount: 150,
+              balanceBefore: 100,
+              balanceAfter: -50,
+              goesNegative: true,
+            },
+          ],
+        },
+      ],
+    },
+  })
+  async previewDailyBilling(
+    @CompanyFilter() companyId: string,
+    @Query() query: BillingPreviewQueryDto,
+  ) {
+    return await this.billingService.previewDailyBilling(companyId, query.date);
+  }
+
+  @Get('runs')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @ApiOperation({
+    summary: '🗂️ История прогонов списания',
+    description: 'Последние прогоны ежедневного списания со статистикой',
+  })
+  async getBillingRuns(
+    @CompanyFilter() companyId: string,
+    @Query('limit', new DefaultValuePipe(30), ParseIntPipe) limit: number,
+  ) {
+    return await this.billingService.getBillingRuns(companyId, limit);
+  }
+
   @Get('today-stats')
   @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
   @ApiOperation({
@@ -82,7 +186,8 @@ export class BillingController {
   @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
   @ApiOperation({
     summary: '💸 Водители-должники',
-    description: 'Список водителей с отрицательным балансом (в долгах)',
+    description:
+      'Список водителей с отрицательным балансом (в долгах) и прогресс их планов погашения',
   })
   @ApiResponse({
     status: 200,
@@ -104,6 +209,18 @@ export class BillingController {
               daysSinceStart: 25,
             },
           ],
+          repaymentPlan: {
+            planId: 'plan_id',
+            status: 'ACTIVE',
+            totalAmount: 6000,
+            chargedAmount: 2000,
+            remainingAmount: 4000,
+            installmentCount: 6,
+            paidInstallments: 1,
+            missedInstallments: 1,
+            nextDueDate: '2025-08-08',
+            nextAmount: 1000,
+          },
         },
       ],
     },
@@ -3,9 +3,11 @@ import { BillingService } from './billing.service';
 import { BillingController } from './billing.controller';
 import { BillingEventListener } from './listeners/billing.listener';
 import { PrismaModule } from '../prisma/prisma.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { RepaymentPlanModule } from '../repayment-plan/repayment-plan.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, LedgerModule, RepaymentPlanModule],
   controllers: [BillingController],
   providers: [BillingService, BillingEventListener],
   exports: [BillingService],
@@ -1,118 +1,936 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { Cron } from '@nestjs/schedule';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { PrismaService } from '../prisma/prisma.service';
-import { PaymentType, ContractStatus } from '@prisma/client';
+import { LedgerService } from '../ledger/ledger.service';
+import { RepaymentPlanService } from '../repayment-plan/repayment-plan.service';
+import {
+  Prisma,
+  PaymentStatus,
+  PaymentType,
+  ContractStatus,
+  BillingRun,
+  BillingRunStatus,
+  BillingTrigger,
+  BillingCycle,
+  LedgerAccountType,
+  LedgerTransactionType,
+  RepaymentPlanStatus,
+} from '@prisma/client';
 import { DailyBillingCompletedEvent, PaymentFailedEvent } from './events/billing.events';
+import {
+  BillingRunOptions,
+  BillingRunResult,
+  BillingPreview,
+  BillingPreviewContract,
+  BillingStats,
+  MissedCharge,
+  RentSettlement,
+} from './interfaces/billing.interface';
+import {
+  addDays,
+  diffDays,
+  fromDateOnly,
+  getLocalDate,
+  getLocalDayRange,
+  getZonedDateTime,
+  toDateOnly,
+} from './common/utils/billing-date.util';
+import {
+  getCyclePeriod,
+  getPeriodDays,
+} from './common/utils/billing-cycle.util';
+import {
+  getContractTerms,
+  getCycleAmount,
+  getTermsOn,
+  splitByTerms,
+} from './common/utils/contract-terms.util';
+import { getAssignmentsInPeriod } from './common/utils/vehicle-assignment.util';
+import {
+  getEndDayFraction,
+  getMinimumDayFraction,
+  getStartDayFraction,
+} from './common/utils/proration.util';
+import { formatMoney } from '../currency/utils/currency.util';
+
+// Прогон в статусе RUNNING дольше этого времени считается зависшим (например, после рестарта)
+const STALE_RUN_TIMEOUT_MS = 60 * 60 * 1000;
+
+// Насколько далеко в прошлое догоняющее списание ищет пропущенные дни
+const MAX_CATCH_UP_DAYS = 31;
+
+// Минимальный набор данных контракта, необходимый для списания
+const billableContractSelect = {
+  id: true,
+  dailyRate: true,
+  billingCycle: true,
+  billingAnchorDay: true,
+  cycleAmount: true,
+  currency: true,
+  amendments: {
+    select: { effectiveFrom: true, dailyRate: true, cycleAmount: true },
+    orderBy: [{ effectiveFrom: 'asc' }, { version: 'asc' }],
+  },
+  startDate: true,
+  endDate: true,
+  billingResumedAt: true,
+  driverId: true,
+  companyId: true,
+  company: {
+    select: {
+      timezone: true,
+      billingHour: true,
+      prorationMode: true,
+      prorationCutoffHour: true,
+    },
+  },
+  driver: {
+    select: {
+      firstName: true,
+      lastName: true,
+      balance: true,
+    },
+  },
+  vehicle: {
+    select: {
+      brand: true,
+      model: true,
+      plateNumber: true,
+    },
+  },
+  vehicleAssignments: {
+    select: {
+      vehicleId: true,
+      fromDay: true,
+      toDay: true,
+      vehicle: { select: { brand: true, model: true, plateNumber: true } },
+    },
+    orderBy: { fromDay: 'asc' },
+  },
+} satisfies Prisma.ContractSelect;
+
+type BillableContract = Prisma.ContractGetPayload<{
+  select: typeof billableContractSelect;
+}>;
+
+// Настройки расписания списания компании
+const billingCompanySelect = {
+  id: true,
+  name: true,
+  timezone: true,
+  billingHour: true,
+  baseCurrency: true,
+} satisfies Prisma.CompanySelect;
+
+type BillingCompany = Prisma.CompanyGetPayload<{
+  select: typeof billingCompanySelect;
+}>;
+
+// Начисление аренды за период [periodStart, periodEnd)
+type RentCharge = {
+  billingDate: string; // День списания - начало периода
+  periodStart: string;
+  periodEnd: string;
+  periodDays: number;
+  billableDays: number; // Оплачиваемые дни с учетом неполных первого и последнего дня
+  cycleDays: number; // Длина полного цикла, от которой считается пропорция
+  amount: Prisma.Decimal;
+  prorated: boolean;
+};
+
+// Контракт и периоды, за которые его нужно списать
+type ContractChargePlan = {
+  contract: BillableContract;
+  charges: RentCharge[];
+};
 
 @Injectable()
-export class BillingService {
+export class BillingService implements OnApplicationBootstrap {
   private readonly logger = new Logger(BillingService.name);
 
   constructor(
     private readonly prisma: PrismaService,
     private readonly eventEmitter: EventEmitter2,
+    private readonly configService: ConfigService,
+    private readonly ledgerService: LedgerService,
+    private readonly repaymentPlanService: RepaymentPlanService,
   ) {}
 
   /**
-   * Основной CRON JOB для ежедневного списания аренды
-   * Запускается каждый день в 1:00 AM
+   * Догоняющее списание при старте сервера.
+   * Если сервер лежал во время ночного запуска, прогон за последний
+   * наступивший день списания каждой компании выполнится сразу после старта
    */
-  @Cron('0 1 * * *', {
+  onApplicationBootstrap() {
+    if (
+      this.configService.get<string>('BILLING_CATCH_UP_ON_STARTUP') === 'false'
+    ) {
+      return;
+    }
+
+    // Не блокируем запуск приложения
+    this.runDailyBilling({ trigger: BillingTrigger.STARTUP }).catch((error) =>
+      this.logger.error('💥 Ошибка догоняющего списания при старте:', error),
+    );
+  }
+
+  /**
+   * Основной CRON JOB для ежедневного списания аренды.
+   * Запускается каждые 15 минут и списывает компании, у которых
+   * наступил локальный час списания (billingHour в часовом поясе компании),
+   * а прогона за сегодня еще нет (или он упал / завис)
+   */
+  @Cron('*/15 * * * *', {
     name: 'daily-rental-billing',
-    timeZone: 'Asia/Bishkek',
   })
-// @Cron('*/30 * * * * *', {  // Каждые 30 секунд
-//   name: 'daily-rental-billing',
-//   timeZone: 'Asia/Bishkek',
-// }) ТЕСТОВЫЙ КАЖДЫЕ 30 секунд
   async processDailyRentals() {
-    this.logger.log('🔄 Запуск ежедневного списания аренды...');
-    
+    const now = new Date();
+    const companies = await this.prisma.company.findMany({
+      where: { isActive: true },
+      select: billingCompanySelect,
+    });
+
+    const results: BillingRunResult[] = [];
+
+    for (const company of companies) {
+      const billingDate = getLocalDate(now, company.timezone);
+
+      // Час списания компании еще не наступил
+      if (
+        now <
+        getZonedDateTime(billingDate, company.billingHour, company.timezone)
+      ) {
+        continue;
+      }
+
+      const existingRun = await this.prisma.billingRun.findUnique({
+        where: {
+          companyId_billingDate: {
+            companyId: company.id,
+            billingDate: toDateOnly(billingDate),
+          },
+        },
+        select: { status: true, startedAt: true },
+      });
+
+      // Завершенный или идущий прогон пропускаем. Упавший или зависший перезапустит acquireBillingRun
+      if (existingRun && !this.isRestartableRun(existingRun)) {
+        continue;
+      }
+
+      this.logger.log(
+        `🔄 Запуск ежедневного списания аренды: ${company.name} (${company.timezone})...`,
+      );
+      results.push(
+        await this.runCompanyBilling(company, billingDate, {
+          trigger: BillingTrigger.CRON,
+        }),
+      );
+    }
+
+    return results;
+  }
+
+  /**
+   * Ручной запуск процесса списания.
+   * Если прогон за сегодня уже выполнен, возвращает существующий без повторного списания
+   */
+  async manualProcessDailyRentals(companyId?: string, triggeredById?: string) {
+    this.logger.log('🔧 Ручной запуск ежедневного списания...');
+    return await this.runDailyBilling({
+      trigger: BillingTrigger.MANUAL,
+      companyId,
+      triggeredById,
+    });
+  }
+
+  /**
+   * История прогонов списания
+   */
+  async getBillingRuns(companyId?: string, limit = 30) {
+    return this.prisma.billingRun.findMany({
+      where: companyId ? { companyId } : {},
+      include: {
+        triggeredBy: {
+          select: { id: true, firstName: true, lastName: true },
+        },
+      },
+      orderBy: [{ billingDate: 'desc' }, { startedAt: 'desc' }],
+      take: limit,
+    });
+  }
+
+  /**
+   * Предпросмотр списания (dry-run): что спишет прогон за указанный день,
+   * без создания платежей и изменения балансов
+   */
+  async previewDailyBilling(
+    companyId?: string,
+    date?: string,
+  ): Promise<BillingPreview[]> {
+    const now = new Date();
+    const companies = await this.prisma.company.findMany({
+      where: {
+        isActive: true,
+        ...(companyId && { id: companyId }),
+      },
+      select: billingCompanySelect,
+    });
+
+    const previews: BillingPreview[] = [];
+
+    for (const company of companies) {
+      const billingDate = date ?? getLocalDate(now, company.timezone);
+      const [chargePlan, existingRun] = await Promise.all([
+        this.buildChargePlan(company.id, billingDate),
+        this.prisma.billingRun.findUnique({
+          where: {
+            companyId_billingDate: {
+              companyId: company.id,
+              billingDate: toDateOnly(billingDate),
+            },
+          },
+          select: { status: true },
+        }),
+      ]);
+
+      // Текущий баланс водителя с учетом списаний по его предыдущим контрактам в плане
+      const driverBalances = new Map<string, number>();
+      const contracts: BillingPreviewContract[] = [];
+
+      for (const { contract, charges } of chargePlan) {
+        const amount = charges.reduce(
+          (sum, charge) => sum + charge.amount.toNumber(),
+          0,
+        );
+        const balanceBefore =
+          driverBalances.get(contract.driverId) ??
+          contract.driver.balance.toNumber();
+        const balanceAfter = balanceBefore - amount;
+
+        driverBalances.set(contract.driverId, balanceAfter);
+
+        contracts.push({
+          contractId: contract.id,
+          driverId: contract.driverId,
+          driverName: `${contract.driver.firstName} ${contract.driver.lastName}`,
+          vehicle: `${contract.vehicle.brand} ${contract.vehicle.model} (${contract.vehicle.plateNumber})`,
+          billingCycle: contract.billingCycle,
+          // Ставка, действующая в день списания (с учетом поправок)
+          dailyRate: getTermsOn(
+            getContractTerms(contract),
+            billingDate,
+          ).dailyRate.toNumber(),
+          charges: charges.map((charge) => ({
+            billingDate: charge.billingDate,
+            periodStart: charge.periodStart,
+            periodEnd: charge.periodEnd,
+            amount: charge.amount.toNumber(),
+            prorated: charge.prorated,
+          })),
+          amount,
+          balanceBefore,
+          balanceAfter,
+          goesNegative: balanceBefore >= 0 && balanceAfter < 0,
+        });
+      }
+
+      const charged = contracts.filter((c) => c.charges.length > 0);
+
+      previews.push({
+        companyId: company.id,
+        companyName: company.name,
+        billingDate,
+        existingRunStatus: existingRun?.status ?? null,
+        summary: {
+          contracts: charged.length,
+          skipped: contracts.length - charged.length,
+          charges: charged.reduce((sum, c) => sum + c.charges.length, 0),
+          totalAmount: charged.reduce((sum, c) => sum + c.amount, 0),
+          driversGoingNegative: new Set(
+            charged.filter((c) => c.goesNegative).map((c) => c.driverId),
+          ).size,
+        },
+        contracts,
+      });
+    }
+
+    return previews;
+  }
+
+  /**
+   * Финальный перерасчет аренды при завершении контракта (COMPLETED / TERMINATED).
+   * Вызывается внутри транзакции смены статуса после записи фактического endDate.
+   * Последний цикл и все более поздние списания пересчитываются по правилам пропорционального
+   * начисления: переплата возвращается на баланс, недосписанные периоды списываются
+   */
+  async settleFinalRent(
+    tx: Prisma.TransactionClient,
+    contractId: string,
+  ): Promise<RentSettlement | null> {
+    const contract = await tx.contract.findUniqueOrThrow({
+      where: { id: contractId },
+      select: billableContractSelect,
+    });
+
+    return this.calculateFinalRent(tx, contract, false);
+  }
+
+  /**
+   * Первый день, за который контракт еще не списан. Более ранние периоды уже списаны,
+   * поэтому поправки к условиям могут вступать в силу не раньше этого дня
+   */
+  async getFirstUnbilledDay(
+    client: Prisma.TransactionClient,
+    contractId: string,
+  ): Promise<string> {
+    const contract = await client.contract.findUniqueOrThrow({
+      where: { id: contractId },
+      select: billableContractSelect,
+    });
+
+    return this.findNextUnbilledDay(client, contract);
+  }
+
+  /**
+   * Предпросмотр финального перерасчета при завершении контракта в момент endDate.
+   * Те же правила, что и settleFinalRent, но платежи не создаются и баланс не изменяется
+   */
+  async previewFinalRent(
+    contractId: string,
+    endDate: Date,
+  ): Promise<RentSettlement | null> {
+    const contract = await this.prisma.contract.findUniqueOrThrow({
+      where: { id: contractId },
+      select: billableContractSelect,
+    });
+
+    return this.calculateFinalRent(this.prisma, { ...contract, endDate }, true);
+  }
+
+  private async calculateFinalRent(
+    client: Prisma.TransactionClient,
+    contract: BillableContract,
+    dryRun: boolean,
+  ): Promise<RentSettlement | null> {
+    const contractId = contract.id;
+    const endDay = this.getContractEndDay(contract);
+    // Контракт отменен до начала аренды - списаний не было
+    if (!endDay || contract.endDate! <= contract.startDate) {
+      return null;
+    }
+
+    const settlement: RentSettlement = {
+      contractId,
+      endDay,
+      charged: 0,
+      credited: 0,
+      adjustments: [],
+    };
+
+    // Пересчитываем цикл, в который попадает последний день аренды, и все что позже
+    const startDay = getLocalDate(
+      contract.startDate,
+      contract.company.timezone,
+    );
+    const lastCycleStart = getCyclePeriod(
+      addDays(endDay, -1),
+      contract.billingCycle,
+      contract.billingAnchorDay,
+    ).start;
+    let fromDay = lastCycleStart > startDay ? lastCycleStart : startDay;
+
+    // Досписываем периоды, пропущенные до последнего цикла
+    const nextUnbilledDay = await this.findNextUnbilledDay(
+      client,
+      contract,
+      fromDay,
+    );
+    if (nextUnbilledDay < fromDay) {
+      const earliestDay = addDays(endDay, -MAX_CATCH_UP_DAYS);
+      fromDay = nextUnbilledDay > earliestDay ? nextUnbilledDay : earliestDay;
+    }
+
+    const existingCharges = await client.payment.findMany({
+      where: {
+        contractId,
+        type: PaymentType.DAILY_RENT,
+        status: { in: [PaymentStatus.SUCCEEDED, PaymentStatus.REVERSED] },
+        billingDate: { gte: toDateOnly(fromDay) },
+      },
+      select: { billingDate: true, amount: true, status: true },
+    });
+
+    // Уже списано по каждому периоду (вместе с прошлыми корректировками).
+    // Сторнированные периоды не пересчитываются: сторно - решение менеджера
+    const chargedByDay = new Map<string, Prisma.Decimal>();
+    const reversedDays = new Set<string>();
+    for (const payment of existingCharges) {
+      const day = fromDateOnly(payment.billingDate!);
+      if (payment.status === PaymentStatus.REVERSED) {
+        reversedDays.add(day);
+        continue;
+      }
+      chargedByDay.set(
+        day,
+        (chargedByDay.get(day) ?? new Prisma.Decimal(0)).add(payment.amount),
+      );
+    }
+
+    for (let day = fromDay; day < endDay; ) {
+      const charge = this.buildRentCharge(contract, day, endDay);
+      const charged = chargedByDay.get(day);
+      chargedByDay.delete(day);
+      day = charge.periodEnd;
+
+      if (reversedDays.has(charge.billingDate)) {
+        continue;
+      }
+
+      if (!charged) {
+        if (!dryRun) {
+          await this.chargeRent(client, contract, charge, null);
+        }
+        settlement.charged += charge.amount.toNumber();
+        continue;
+      }
+
+      await this.adjustRent(
+        client,
+        contract,
+        charge.billingDate,
+        charge.amount,
+        charged,
+        settlement,
+        dryRun,
+      );
+    }
+
+    // Списания за дни после окончания аренды возвращаются полностью
+    for (const [day, charged] of chargedByDay) {
+      if (reversedDays.has(day)) {
+        continue;
+      }
+      await this.adjustRent(
+        client,
+        contract,
+        day,
+        new Prisma.Decimal(0),
+        charged,
+        settlement,
+        dryRun,
+      );
+    }
+
+    if (!dryRun && (settlement.charged > 0 || settlement.credited > 0)) {
+      this.logger.log(
+        `🧾 Перерасчет аренды по контракту ${contractId}: досписано ${formatMoney(settlement.charged, contract.currency)}, ` +
+          `возвращено ${formatMoney(settlement.credited, contract.currency)}`,
+      );
+    }
+
+    return settlement;
+  }
+
+  /**
+   * Корректировка списанной аренды за период до ожидаемой суммы.
+   * Отрицательная корректировка (возврат) увеличивает баланс водителя
+   */
+  private async adjustRent(
+    tx: Prisma.TransactionClient,
+    contract: BillableContract,
+    billingDate: string,
+    expected: Prisma.Decimal,
+    charged: Prisma.Decimal,
+    settlement: RentSettlement,
+    dryRun = false,
+  ) {
+    const difference = expected.sub(charged);
+    if (difference.isZero()) {
+      return;
+    }
+
+    if (!dryRun) {
+      await this.writeRentAdjustment(
+        tx,
+        contract,
+        billingDate,
+        expected,
+        charged,
+        difference,
+      );
+    }
+
+    if (difference.isNegative()) {
+      settlement.credited += difference.abs().toNumber();
+    } else {
+      settlement.charged += difference.toNumber();
+    }
+
+    settlement.adjustments.push({
+      billingDate,
+      expected: expected.toNumber(),
+      charged: charged.toNumber(),
+      difference: difference.toNumber(),
+    });
+  }
+
+  private async writeRentAdjustment(
+    tx: Prisma.TransactionClient,
+    contract: BillableContract,
+    billingDate: string,
+    expected: Prisma.Decimal,
+    charged: Prisma.Decimal,
+    difference: Prisma.Decimal,
+  ) {
+    const periodEnd = getCyclePeriod(
+      billingDate,
+      contract.billingCycle,
+      contract.billingAnchorDay,
+    ).end;
+    const description =
+      `Перерасчет аренды ${this.describeVehicles(contract, billingDate, periodEnd)} ` +
+      `за период с ${billingDate} при завершении контракта`;
+
+    const payment = await tx.payment.create({
+      data: {
+        amount: difference,
+        currency: contract.currency,
+        type: PaymentType.DAILY_RENT,
+        status: PaymentStatus.SUCCEEDED,
+        description,
+        metadata: {
+          adjustment: true,
+          expected: expected.toNumber(),
+          charged: charged.toNumber(),
+        },
+        chargeKey: `RENT_ADJUSTMENT:${contract.id}:${billingDate}`,
+        billingDate: toDateOnly(billingDate),
+        driverId: contract.driverId,
+        contractId: contract.id,
+        companyId: contract.companyId,
+      },
+    });
+
+    // Отрицательная корректировка проводится в обратную сторону - возврат на баланс
+    await this.ledgerService.post(tx, {
+      type: LedgerTransactionType.RENT,
+      companyId: contract.companyId,
+      driverId: contract.driverId,
+      amount: difference,
+      debit: LedgerAccountType.DRIVER_RECEIVABLE,
+      credit: LedgerAccountType.COMPANY_REVENUE,
+      description,
+      contractId: contract.id,
+      paymentId: payment.id,
+    });
+  }
+
+  /**
+   * Запуск списания по всем (или одной) компаниям.
+   * Каждая компания получает собственный прогон за свой локальный день:
+   * при ручном запуске - за сегодня, при старте сервера - за последний наступивший день списания
+   */
+  private async runDailyBilling(
+    options: BillingRunOptions,
+  ): Promise<BillingRunResult[]> {
+    const now = new Date();
+    const companies = await this.prisma.company.findMany({
+      where: {
+        isActive: true,
+        ...(options.companyId && { id: options.companyId }),
+      },
+      select: billingCompanySelect,
+    });
+
+    const results: BillingRunResult[] = [];
+
+    for (const company of companies) {
+      const billingDate =
+        options.trigger === BillingTrigger.STARTUP
+          ? this.getLastDueBillingDate(company, now)
+          : getLocalDate(now, company.timezone);
+
+      results.push(await this.runCompanyBilling(company, billingDate, options));
+    }
+
+    return results;
+  }
+
+  /**
+   * Последний день, час списания которого уже наступил в часовом поясе компании
+   */
+  private getLastDueBillingDate(company: BillingCompany, now: Date): string {
+    const today = getLocalDate(now, company.timezone);
+    const billingTime = getZonedDateTime(
+      today,
+      company.billingHour,
+      company.timezone,
+    );
+
+    return now >= billingTime ? today : addDays(today, -1);
+  }
+
+  /**
+   * Прогон списания одной компании за календарный день
+   */
+  private async runCompanyBilling(
+    company: BillingCompany,
+    billingDate: string,
+    options: BillingRunOptions,
+  ): Promise<BillingRunResult> {
+    const companyId = company.id;
+    const { run, acquired } = await this.acquireBillingRun(
+      companyId,
+      billingDate,
+      options,
+    );
+
+    if (!acquired) {
+      this.logger.log(
+        `⏭️ Прогон за ${billingDate} для компании ${companyId} уже существует (${run.status})`,
+      );
+      return { run, alreadyProcessed: true };
+    }
+
     try {
-      const stats = await this.processAllActiveContracts();
-      
+      const { stats, missedCharges } = await this.processAllActiveContracts(
+        company,
+        billingDate,
+        run.id,
+      );
+
+      // Взносы по планам погашения начисляются после аренды: пропуск взноса
+      // определяется по балансу с учетом сегодняшнего списания
+      const installments =
+        await this.repaymentPlanService.chargeDueInstallments(
+          companyId,
+          billingDate,
+        );
+
+      const completedRun = await this.prisma.billingRun.update({
+        where: { id: run.id },
+        data: {
+          status: BillingRunStatus.COMPLETED,
+          ...stats,
+          details:
+            missedCharges.length > 0 || installments.charged > 0
+              ? {
+                  ...(missedCharges.length > 0 && { missedCharges }),
+                  ...(installments.charged > 0 && {
+                    installments: { ...installments },
+                  }),
+                }
+              : undefined,
+          finishedAt: new Date(),
+        },
+      });
+
       // Эмитируем событие о завершении
-      this.eventEmitter.emit('billing.daily.completed', new DailyBillingCompletedEvent(stats));
+      this.eventEmitter.emit(
+        'billing.daily.completed',
+        new DailyBillingCompletedEvent(
+          stats,
+          companyId,
+          run.id,
+          billingDate,
+          company.baseCurrency,
+        ),
+      );
 
       this.logger.log(
         `✅ Обработка завершена. Контрактов: ${stats.total}, ` +
-        `Успешно: ${stats.successful}, Ошибок: ${stats.failed}, ` +
-        `Сумма: ${stats.totalAmount.toFixed(2)} сом`
+          `Успешно: ${stats.successful}, Ошибок: ${stats.failed}, Пропущено: ${stats.skipped}, ` +
+          `Досписано дней: ${stats.caughtUp}, Сумма: ${formatMoney(stats.totalAmount, company.baseCurrency)}`,
       );
 
-      return stats;
+      if (installments.charged > 0) {
+        this.logger.log(
+          `🗓️ Взносы по планам погашения: ${installments.charged} на ${formatMoney(installments.amount, company.baseCurrency)}, ` +
+            `пропущено ${installments.missed}, расторгнуто планов ${installments.defaulted}`,
+        );
+      }
+
+      return { run: completedRun, alreadyProcessed: false };
     } catch (error) {
       this.logger.error('💥 Критическая ошибка при обработке списания:', error);
-      throw error;
+
+      const failedRun = await this.prisma.billingRun.update({
+        where: { id: run.id },
+        data: {
+          status: BillingRunStatus.FAILED,
+          error: error.message,
+          finishedAt: new Date(),
+        },
+      });
+
+      return { run: failedRun, alreadyProcessed: false };
     }
   }
 
   /**
-   * Ручной запуск процесса списания (для тестирования)
+   * Захват прогона за день. Уникальный ключ (companyId, billingDate) гарантирует,
+   * что параллельные запуски (двойной клик, рестарт рядом с 01:00) не спишут дважды.
+   * Упавший или зависший прогон можно перезапустить: отдельные списания защищены chargeKey
    */
-  async manualProcessDailyRentals() {
-    this.logger.log('🔧 Ручной запуск ежедневного списания...');
-    return await this.processDailyRentals();
-  }
+  private async acquireBillingRun(
+    companyId: string,
+    billingDate: string,
+    options: BillingRunOptions,
+  ): Promise<{ run: BillingRun; acquired: boolean }> {
+    const runDate = toDateOnly(billingDate);
+    const runData = {
+      trigger: options.trigger,
+      triggeredById: options.triggeredById,
+    };
 
-  /**
-   * Обработка всех активных контрактов
-   */
-  private async processAllActiveContracts() {
-    const stats = { total: 0, successful: 0, failed: 0, totalAmount: 0 };
+    try {
+      const run = await this.prisma.billingRun.create({
+        data: { companyId, billingDate: runDate, ...runData },
+      });
+      return { run, acquired: true };
+    } catch (error) {
+      if (
+        !(
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2002'
+        )
+      ) {
+        throw error;
+      }
+    }
 
-    // Получаем активные контракты с минимальными данными
-    const activeContracts = await this.prisma.contract.findMany({
+    const where = {
+      companyId_billingDate: { companyId, billingDate: runDate },
+    };
+
+    // Перезапускаем только упавшие или зависшие прогоны (атомарно через updateMany)
+    const { count } = await this.prisma.billingRun.updateMany({
       where: {
-        status: ContractStatus.ACTIVE,
+        companyId,
+        billingDate: runDate,
         OR: [
-          { endDate: null },
-          { endDate: { gte: new Date() } },
+          { status: BillingRunStatus.FAILED },
+          {
+            status: BillingRunStatus.RUNNING,
+            startedAt: { lt: new Date(Date.now() - STALE_RUN_TIMEOUT_MS) },
+          },
         ],
       },
-      select: {
-        id: true,
-        dailyRate: true,
-        driverId: true,
-        companyId: true,
-        driver: {
-          select: {
-            firstName: true,
-            lastName: true,
-            balance: true,
-          },
-        },
-        vehicle: {
-          select: {
-            brand: true,
-            model: true,
-            plateNumber: true,
-          },
-        },
+      data: {
+        ...runData,
+        status: BillingRunStatus.RUNNING,
+        error: null,
+        startedAt: new Date(),
+        finishedAt: null,
       },
     });
 
-    this.logger.log(`📋 Найдено ${activeContracts.length} активных контрактов`);
+    const run = await this.prisma.billingRun.findUniqueOrThrow({ where });
+
+    return { run, acquired: count > 0 };
+  }
+
+  private isRestartableRun(run: {
+    status: BillingRunStatus;
+    startedAt: Date;
+  }): boolean {
+    return (
+      run.status === BillingRunStatus.FAILED ||
+      (run.status === BillingRunStatus.RUNNING &&
+        run.startedAt.getTime() < Date.now() - STALE_RUN_TIMEOUT_MS)
+    );
+  }
+
+  /**
+   * Обработка всех активных контрактов компании.
+   * Помимо текущего периода досписываются периоды, пропущенные во время простоя сервера
+   */
+  private async processAllActiveContracts(
+    company: BillingCompany,
+    billingDate: string,
+    billingRunId: string,
+  ): Promise<{ stats: BillingStats; missedCharges: MissedCharge[] }> {
+    const stats: BillingStats = {
+      total: 0,
+      successful: 0,
+      failed: 0,
+      skipped: 0,
+      totalAmount: 0,
+      caughtUp: 0,
+      caughtUpAmount: 0,
+    };
+    const missedCharges: MissedCharge[] = [];
+
+    const chargePlan = await this.buildChargePlan(company.id, billingDate);
+
+    this.logger.log(`📋 Найдено ${chargePlan.length} активных контрактов`);
 
     // Обрабатываем каждый контракт
-    for (const contract of activeContracts) {
+    for (const { contract, charges } of chargePlan) {
       stats.total++;
-      
+
+      // У недельных и месячных контрактов списание происходит только на границе цикла
+      if (charges.length === 0) {
+        stats.skipped++;
+        continue;
+      }
+
+      let contractAmount = 0;
+      let chargedCount = 0;
+      let currentCharge = charges[0];
+
       try {
-        const amount = await this.processContractPayment(contract);
+        for (const charge of charges) {
+          currentCharge = charge;
+          const amount = await this.processContractPayment(
+            contract,
+            charge,
+            billingRunId,
+          );
+
+          if (amount === null) {
+            continue; // Списано параллельным прогоном
+          }
+
+          chargedCount++;
+          contractAmount += amount;
+
+          if (charge.billingDate !== billingDate) {
+            stats.caughtUp++;
+            stats.caughtUpAmount += amount;
+            missedCharges.push({
+              contractId: contract.id,
+              date: charge.billingDate,
+              amount,
+            });
+          }
+        }
+
+        if (chargedCount === 0) {
+          stats.skipped++;
+          this.logger.debug(
+            `⏭️ ${contract.driver.firstName} ${contract.driver.lastName} - аренда за ${billingDate} уже списана`,
+          );
+          continue;
+        }
+
         stats.successful++;
-        stats.totalAmount += amount;
+        stats.totalAmount += contractAmount;
         
         // Показываем баланс после списания для мониторинга долгов
-        const newBalance = contract.driver.balance.toNumber() - amount;
+        const newBalance = contract.driver.balance.toNumber() - contractAmount;
         const balanceStatus = newBalance < 0 ? `(ДОЛГ: ${Math.abs(newBalance).toFixed(2)})` : `(баланс: ${newBalance.toFixed(2)})`;
         
         this.logger.debug(
-          `✅ ${contract.driver.firstName} ${contract.driver.lastName} - списано ${amount} сом ${balanceStatus}`
+          `✅ ${contract.driver.firstName} ${contract.driver.lastName} - списано ${formatMoney(contractAmount, contract.currency)} ` +
+            `(${contract.billingCycle}, начислений: ${chargedCount}) ${balanceStatus}`,
         );
       } catch (error) {
         stats.failed++;
+        stats.totalAmount += contractAmount;
         
         this.logger.error(
           `❌ ${contract.driver.firstName} ${contract.driver.lastName}: ${error.message}`
@@ -122,61 +940,499 @@ export class BillingService {
         this.eventEmitter.emit('billing.payment.failed', new PaymentFailedEvent(
           contract.id,
           contract.driverId,
-          contract.dailyRate.toNumber(),
+          currentCharge.amount.toNumber(),
           error.message,
+          contract.currency,
         ));
 
-        // Записываем ошибку в платежи
-        await this.createFailedPaymentRecord(contract, error.message);
+        // Записываем неудачное списание: следующий прогон повторит его
+        await this.createFailedPaymentRecord(
+          contract,
+          currentCharge,
+          billingRunId,
+          error.message,
+        );
       }
     }
 
-    return stats;
+    if (stats.caughtUp > 0) {
+      this.logger.warn(
+        `⏪ Досписано ${stats.caughtUp} пропущенных периодов на сумму ${formatMoney(stats.caughtUpAmount, company.baseCurrency)}`,
+      );
+    }
+
+    return { stats, missedCharges };
   }
 
   /**
-   * Обработка конкретного контракта - списание с баланса
-   * Баланс может уходить в минус (долг водителя)
+   * План списания компании: активные контракты и периоды, за которые их нужно списать.
+   * Используется и реальным прогоном, и предпросмотром
    */
-  private async processContractPayment(contract: any): Promise<number> {
-    const dailyRate = contract.dailyRate;
-
-    // Атомарная транзакция списания (без проверки баланса)
-    await this.prisma.$transaction(async (tx) => {
-      // Списываем с баланса водителя (может уйти в минус)
-      await tx.driver.update({
-        where: { id: contract.driverId },
-        data: { balance: { decrement: dailyRate } },
+  private async buildChargePlan(
+    companyId: string,
+    billingDate: string,
+  ): Promise<ContractChargePlan[]> {
+    // Получаем активные контракты с минимальными данными.
+    // Контракты с истекшим endDate тоже берем: за дни до окончания могли остаться пропуски
+    const activeContracts = await this.prisma.contract.findMany({
+      where: {
+        companyId,
+        status: ContractStatus.ACTIVE,
+      },
+      select: billableContractSelect,
+      orderBy: { startDate: 'asc' },
+    });
+
+    const plan: ContractChargePlan[] = [];
+    for (const contract of activeContracts) {
+      plan.push({
+        contract,
+        charges: await this.getDueCharges(contract, billingDate),
       });
+    }
+
+    return plan;
+  }
+
+  /**
+   * Периоды, за которые контракт еще не списан: от конца последнего успешно списанного периода
+   * (или даты начала контракта) до дня списания включительно,
+   * а также более ранние периоды с неудачным списанием
+   */
+  private async getDueCharges(
+    contract: BillableContract,
+    billingDate: string,
+  ): Promise<RentCharge[]> {
+    const endDay = this.getContractEndDay(contract);
+    let fromDay = await this.findNextUnbilledDay(this.prisma, contract);
+
+    const earliestDay = addDays(billingDate, -MAX_CATCH_UP_DAYS);
+    if (fromDay < earliestDay) {
+      this.logger.warn(
+        `⚠️ Контракт ${contract.id}: пропуск списаний с ${fromDay} превышает ${MAX_CATCH_UP_DAYS} дн., ` +
+          `досписание начнется с ${earliestDay}`,
+      );
+      fromDay = earliestDay;
+    }
+
+    // Неудачные списания до окна досписания тоже повторяем
+    const failedCharges = await this.prisma.payment.findMany({
+      where: {
+        contractId: contract.id,
+        type: PaymentType.DAILY_RENT,
+        status: PaymentStatus.FAILED,
+        billingDate: { gte: toDateOnly(earliestDay), lt: toDateOnly(fromDay) },
+      },
+      select: { billingDate: true },
+      orderBy: { billingDate: 'asc' },
+    });
+
+    const charges = failedCharges.map((payment) =>
+      this.buildRentCharge(
+        contract,
+        fromDateOnly(payment.billingDate!),
+        endDay,
+      ),
+    );
+
+    // Контракт закончился до начала очередного периода - списывать нечего
+    for (let day = fromDay; day <= billingDate && (!endDay || day < endDay); ) {
+      const charge = this.buildRentCharge(contract, day, endDay);
+      charges.push(charge);
+      day = charge.periodEnd;
+    }
+
+    return charges;
+  }
+
+  /**
+   * Первый день, за который контракт еще не списан: конец последнего успешно
+   * списанного периода (до beforeDay, если указан) или день начала контракта.
+   * Дни приостановки (SUSPENDED) не списываются - не раньше дня возобновления
+   */
+  private async findNextUnbilledDay(
+    client: Prisma.TransactionClient,
+    contract: BillableContract,
+    beforeDay?: string,
+  ): Promise<string> {
+    const timeZone = contract.company.timezone;
+    const startDay = contract.billingResumedAt
+      ? getLocalDate(contract.billingResumedAt, timeZone)
+      : getLocalDate(contract.startDate, timeZone);
+
+    const lastCharge = await client.payment.findFirst({
+      where: {
+        contractId: contract.id,
+        type: PaymentType.DAILY_RENT,
+        // Сторнированный период считается обработанным и повторно не списывается
+        status: { in: [PaymentStatus.SUCCEEDED, PaymentStatus.REVERSED] },
+        ...(beforeDay && {
+          OR: [
+            { billingDate: { lt: toDateOnly(beforeDay) } },
+            { billingDate: null },
+          ],
+        }),
+      },
+      orderBy: [
+        { billingDate: { sort: 'desc', nulls: 'last' } },
+        { date: 'desc' },
+      ],
+      select: { billingDate: true, date: true },
+    });
+
+    if (!lastCharge) {
+      return startDay;
+    }
+
+    // Старые списания не имеют billingDate - берем день по дате платежа
+    const lastChargedDay = lastCharge.billingDate
+      ? fromDateOnly(lastCharge.billingDate)
+      : getLocalDate(lastCharge.date, timeZone);
+    const nextDay = getCyclePeriod(
+      lastChargedDay,
+      contract.billingCycle,
+      contract.billingAnchorDay,
+    ).end;
+
+    return nextDay > startDay ? nextDay : startDay;
+  }
 
-      // Создаем запись о платеже
-      await tx.payment.create({
+  /**
+   * Начисление за период, начинающийся с указанного дня и длящийся до границы цикла.
+   * Если контракт начался или заканчивается внутри цикла, сумма пропорциональна дням,
+   * а неполные первый и последний день учитываются по правилам компании (prorationMode).
+   * Если внутри периода вступила в силу поправка, каждый отрезок считается по своим условиям
+   */
+  private buildRentCharge(
+    contract: BillableContract,
+    day: string,
+    endDay: string | null,
+  ): RentCharge {
+    const { timezone, ...prorationSettings } = contract.company;
+    const cycle = getCyclePeriod(
+      day,
+      contract.billingCycle,
+      contract.billingAnchorDay,
+    );
+    const periodEnd = endDay && endDay < cycle.end ? endDay : cycle.end;
+    const periodDays = diffDays(day, periodEnd);
+    const cycleDays = getPeriodDays(cycle);
+
+    // Первый день аренды
+    const startReduction =
+      day === getLocalDate(contract.startDate, timezone)
+        ? 1 -
+          getStartDayFraction(contract.startDate, timezone, prorationSettings)
+        : 0;
+
+    // Последний день аренды, если контракт закончился не ровно в полночь
+    const endReduction =
+      contract.endDate &&
+      periodEnd === endDay &&
+      getLocalDate(contract.endDate, timezone) !== endDay
+        ? 1 - getEndDayFraction(contract.endDate, timezone, prorationSettings)
+        : 0;
+
+    let billableDays = periodDays - startReduction - endReduction;
+    billableDays = Math.max(
+      billableDays,
+      Math.min(periodDays, getMinimumDayFraction(prorationSettings)),
+    );
+
+    const prorated = billableDays < cycleDays;
+    const segments = splitByTerms(getContractTerms(contract), day, periodEnd);
+    let amount: Prisma.Decimal;
+
+    if (segments.length === 1) {
+      const cycleAmount = getCycleAmount(
+        segments[0].terms,
+        contract.billingCycle,
+        cycleDays,
+      );
+      amount = prorated
+        ? cycleAmount.mul(billableDays).div(cycleDays).toDecimalPlaces(2)
+        : cycleAmount;
+    } else {
+      // Неполные первый и последний день относятся к крайним отрезкам
+      amount = segments
+        .reduce((sum, segment, index) => {
+          let segmentDays = segment.days;
+          if (index === 0) segmentDays -= startReduction;
+          if (index === segments.length - 1) segmentDays -= endReduction;
+
+          const cycleAmount = getCycleAmount(
+            segment.terms,
+            contract.billingCycle,
+            cycleDays,
+          );
+          return sum.add(cycleAmount.mul(segmentDays).div(cycleDays));
+        }, new Prisma.Decimal(0))
+        .toDecimalPlaces(2);
+    }
+
+    return {
+      billingDate: day,
+      periodStart: day,
+      periodEnd,
+      periodDays,
+      billableDays,
+      cycleDays,
+      amount,
+      prorated,
+    };
+  }
+
+  /**
+   * Первый день (в часовом поясе компании), за который аренда уже не начисляется.
+   * День, в течение которого контракт закончился, оплачивается полностью
+   */
+  private getContractEndDay(contract: BillableContract): string | null {
+    if (!contract.endDate) {
+      return null;
+    }
+
+    const timeZone = contract.company.timezone;
+    const endDay = getLocalDate(contract.endDate, timeZone);
+
+    return contract.endDate > getZonedDateTime(endDay, 0, timeZone)
+      ? addDays(endDay, 1)
+      : endDay;
+  }
+
+  /**
+   * Обработка конкретного контракта - списание с баланса
+   * Баланс может уходить в минус (долг водителя).
+   * Возвращает null, если аренда за этот период уже была списана
+   */
+  private async processContractPayment(
+    contract: BillableContract,
+    charge: RentCharge,
+    billingRunId: string,
+  ): Promise<number | null> {
+    try {
+      // Атомарная транзакция списания (без проверки баланса)
+      await this.prisma.$transaction((tx) =>
+        this.chargeRent(tx, contract, charge, billingRunId),
+      );
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return null; // Аренда за этот период уже списана
+      }
+      throw error;
+    }
+
+    return charge.amount.toNumber();
+  }
+
+  /**
+   * Списание аренды за период внутри транзакции.
+   * Ранее неудачное списание за этот период переводится в SUCCEEDED,
+   * повторное списание успешного периода падает на уникальном chargeKey (P2002)
+   */
+  private async chargeRent(
+    tx: Prisma.TransactionClient,
+    contract: BillableContract,
+    charge: RentCharge,
+    billingRunId: string | null,
+  ) {
+    const { amount, billingDate } = charge;
+    const chargeKey = this.buildChargeKey(contract.id, billingDate);
+    const description = this.buildRentDescription(contract, charge);
+    const metadata = this.buildRentMetadata(contract, charge);
+
+    // Повторная попытка ранее неудачного списания за этот период
+    const retried = await tx.payment.updateMany({
+      where: { chargeKey, status: PaymentStatus.FAILED },
+      data: {
+        status: PaymentStatus.SUCCEEDED,
+        failureReason: null,
+        retryCount: { increment: 1 },
+        amount,
+        description,
+        metadata,
+        date: this.getChargeDate(contract, billingDate),
+        billingRunId,
+      },
+    });
+
+    let paymentId: string;
+
+    if (retried.count > 0) {
+      const payment = await tx.payment.findUniqueOrThrow({
+        where: { chargeKey },
+        select: { id: true },
+      });
+      paymentId = payment.id;
+    } else {
+      // Уникальный chargeKey не даст списать период дважды
+      const payment = await tx.payment.create({
         data: {
-          amount: dailyRate,
+          amount,
+          currency: contract.currency,
           type: PaymentType.DAILY_RENT,
-          description: `Ежедневная аренда ${contract.vehicle.brand} ${contract.vehicle.model} (${contract.vehicle.plateNumber})`,
-          date: new Date(),
+          status: PaymentStatus.SUCCEEDED,
+          description,
+          metadata,
+          date: this.getChargeDate(contract, billingDate),
+          chargeKey,
+          billingDate: toDateOnly(billingDate),
+          billingRunId,
           driverId: contract.driverId,
           contractId: contract.id,
           companyId: contract.companyId,
         },
       });
+      paymentId = payment.id;
+    }
+
+    // Списываем с баланса водителя (может уйти в минус)
+    await this.ledgerService.post(tx, {
+      type: LedgerTransactionType.RENT,
+      companyId: contract.companyId,
+      driverId: contract.driverId,
+      amount,
+      debit: LedgerAccountType.DRIVER_RECEIVABLE,
+      credit: LedgerAccountType.COMPANY_REVENUE,
+      description,
+      contractId: contract.id,
+      paymentId,
     });
+  }
 
-    return dailyRate.toNumber();
+  /**
+   * Описание платежа аренды
+   */
+  private buildRentDescription(
+    contract: BillableContract,
+    charge: RentCharge,
+  ): string {
+    const vehicle = this.describeVehicles(
+      contract,
+      charge.periodStart,
+      charge.periodEnd,
+    );
+    const proration = charge.prorated
+      ? ` (пропорционально: ${charge.billableDays} из ${charge.cycleDays} дн.)`
+      : '';
+
+    switch (contract.billingCycle) {
+      case BillingCycle.WEEKLY:
+        return `Недельная аренда ${vehicle} за ${charge.periodStart} - ${addDays(charge.periodEnd, -1)}${proration}`;
+      case BillingCycle.MONTHLY:
+        return `Месячная аренда ${vehicle} за ${charge.periodStart} - ${addDays(charge.periodEnd, -1)}${proration}`;
+      default:
+        return `Ежедневная аренда ${vehicle}${charge.prorated ? ` (${charge.billableDays} дн.)` : ''}`;
+    }
+  }
+
+  /**
+   * Автомобили, на которых водитель ездил в период [from, to). Если автомобиль меняли
+   * внутри периода - все по порядку: "Toyota Camry (01KG123A) → Honda Fit (01KG456B)"
+   */
+  private describeVehicles(
+    contract: BillableContract,
+    from: string,
+    to: string,
+  ): string {
+    const assignments = getAssignmentsInPeriod(
+      contract.vehicleAssignments,
+      from,
+      to,
+    );
+    const vehicles =
+      assignments.length > 0
+        ? assignments.map((assignment) => assignment.vehicle)
+        : [contract.vehicle];
+
+    return vehicles
+      .map(
+        (vehicle) =>
+          `${vehicle.brand} ${vehicle.model} (${vehicle.plateNumber})`,
+      )
+      .join(' → ');
   }
 
   /**
-   * Запись неудачного платежа в историю
+   * Период аренды в metadata платежа
    */
-  private async createFailedPaymentRecord(contract: any, errorMessage: string) {
+  private buildRentMetadata(
+    contract: BillableContract,
+    charge: RentCharge,
+  ): Prisma.InputJsonObject {
+    return {
+      billingCycle: contract.billingCycle,
+      periodStart: charge.periodStart,
+      periodEnd: charge.periodEnd,
+      periodDays: charge.periodDays,
+      billableDays: charge.billableDays,
+      cycleDays: charge.cycleDays,
+      prorated: charge.prorated,
+    };
+  }
+
+  /**
+   * Дата платежа: текущий момент для сегодняшнего списания,
+   * время ночного запуска - для досписания прошедших дней
+   */
+  private getChargeDate(contract: BillableContract, billingDate: string): Date {
+    const { timezone, billingHour } = contract.company;
+    const today = getLocalDate(new Date(), timezone);
+
+    return billingDate < today
+      ? getZonedDateTime(billingDate, billingHour, timezone)
+      : new Date();
+  }
+
+  /**
+   * Ключ идемпотентности списания аренды: один контракт - одно списание за период.
+   * Период определяется днем своего начала
+   */
+  private buildChargeKey(contractId: string, billingDate: string): string {
+    return `${PaymentType.DAILY_RENT}:${contractId}:${billingDate}`;
+  }
+
+  /**
+   * Запись неудачного списания в историю (баланс не изменяется).
+   * Повторная неудача за тот же период увеличивает счетчик попыток
+   */
+  private async createFailedPaymentRecord(
+    contract: BillableContract,
+    charge: RentCharge,
+    billingRunId: string,
+    errorMessage: string,
+  ) {
+    const chargeKey = this.buildChargeKey(contract.id, charge.billingDate);
+
     try {
+      const updated = await this.prisma.payment.updateMany({
+        where: { chargeKey, status: PaymentStatus.FAILED },
+        data: {
+          failureReason: errorMessage,
+          retryCount: { increment: 1 },
+          billingRunId,
+        },
+      });
+
+      if (updated.count > 0) {
+        return;
+      }
+
       await this.prisma.payment.create({
         data: {
-          amount: contract.dailyRate,
+          amount: charge.amount,
+          currency: contract.currency,
           type: PaymentType.DAILY_RENT,
-          description: `ОШИБКА: Ежедневная аренда ${contract.vehicle.brand} ${contract.vehicle.model}. ${errorMessage}`,
-          date: new Date(),
+          status: PaymentStatus.FAILED,
+          failureReason: errorMessage,
+          description: this.buildRentDescription(contract, charge),
+          metadata: this.buildRentMetadata(contract, charge),
+          date: this.getChargeDate(contract, charge.billingDate),
+          chargeKey,
+          billingDate: toDateOnly(charge.billingDate),
+          billingRunId,
           driverId: contract.driverId,
           contractId: contract.id,
           companyId: contract.companyId,
@@ -188,49 +1444,78 @@ export class BillingService {
   }
 
   /**
-   * Получение статистики сегодняшних списаний (для мониторинга)
+   * Получение статистики сегодняшних списаний (для мониторинга).
+   * "Сегодня" определяется по часовому поясу каждой компании
    */
   async getTodayBillingStats(companyId?: string) {
-    const today = new Date();
-    const startOfDay = new Date(today.setHours(0, 0, 0, 0));
-    const endOfDay = new Date(today.setHours(23, 59, 59, 999));
+    const now = new Date();
+    const companies = await this.prisma.company.findMany({
+      where: companyId ? { id: companyId } : {},
+      select: { id: true, timezone: true },
+    });
 
-    const whereClause: any = {
+    const periods = companies.map((company) => {
+      const date = getLocalDate(now, company.timezone);
+      return {
+        companyId: company.id,
+        date,
+        ...getLocalDayRange(date, company.timezone),
+      };
+    });
+
+    const whereClause: Prisma.PaymentWhereInput = {
       type: PaymentType.DAILY_RENT,
-      date: { gte: startOfDay, lte: endOfDay },
+      OR: periods.map((period) => ({
+        companyId: period.companyId,
+        date: { gte: period.start, lt: period.end },
+      })),
     };
 
-    if (companyId) {
-      whereClause.companyId = companyId;
-    }
+    // У компаний из разных часовых поясов "сегодня" может отличаться
+    const dates = [...new Set(periods.map((period) => period.date))];
 
-    const [payments, totalAmount] = await Promise.all([
+    const [payments, byStatus] = await Promise.all([
       this.prisma.payment.findMany({
         where: whereClause,
         select: {
           id: true,
           amount: true,
+          status: true,
           description: true,
+          failureReason: true,
+          retryCount: true,
           driver: {
             select: { firstName: true, lastName: true },
           },
         },
       }),
-      this.prisma.payment.aggregate({
+      this.prisma.payment.groupBy({
+        by: ['status'],
         where: whereClause,
+        _count: { _all: true },
         _sum: { amount: true },
       }),
     ]);
 
-    const successful = payments.filter(p => !p.description?.includes('ОШИБКА'));
-    const failed = payments.filter(p => p.description?.includes('ОШИБКА'));
+    const successful = payments.filter(
+      (p) => p.status === PaymentStatus.SUCCEEDED,
+    );
+    const failed = payments.filter((p) => p.status === PaymentStatus.FAILED);
+    const succeededSum = byStatus.find(
+      (group) => group.status === PaymentStatus.SUCCEEDED,
+    )?._sum.amount;
 
     return {
-      date: startOfDay.toISOString().split('T')[0],
+      date: dates.length === 1 ? dates[0] : null,
       total: payments.length,
       successful: successful.length,
       failed: failed.length,
-      totalAmount: totalAmount._sum.amount?.toNumber() || 0,
+      totalAmount: succeededSum?.toNumber() || 0, // Только проведенные списания
+      byStatus: byStatus.map((group) => ({
+        status: group.status,
+        count: group._count._all,
+        amount: group._sum.amount?.toNumber() || 0,
+      })),
       details: {
         successfulPayments: successful,
         failedPayments: failed,
@@ -240,11 +1525,19 @@ export class BillingService {
 
   /**
    * Получение водителей с отрицательным балансом (должники)
+   * и водителей, погашающих долг по плану
    */
   async getDriversInDebt(companyId?: string) {
     const whereClause: any = {
-      balance: { lt: 0 }, // Только должники
-      contracts: { some: { status: ContractStatus.ACTIVE } },
+      OR: [
+        { balance: { lt: 0 } }, // Только должники
+        { repaymentPlans: { some: { status: RepaymentPlanStatus.ACTIVE } } },
+      ],
+      contracts: {
+        some: {
+          status: { in: [ContractStatus.ACTIVE, ContractStatus.SUSPENDED] },
+        },
+      },
       isActive: true,
     };
 
@@ -259,10 +1552,16 @@ export class BillingService {
         firstName: true,
         lastName: true,
         balance: true,
+        company: {
+          select: { timezone: true },
+        },
         contracts: {
-          where: { status: ContractStatus.ACTIVE },
+          where: {
+            status: { in: [ContractStatus.ACTIVE, ContractStatus.SUSPENDED] },
+          },
           select: {
             id: true,
+            status: true,
             dailyRate: true,
             startDate: true,
             vehicle: {
@@ -273,13 +1572,20 @@ export class BillingService {
       },
     });
 
+    const now = new Date();
+    const repaymentPlans = await this.repaymentPlanService.getProgress(
+      drivers.map((driver) => driver.id),
+    );
+
     return drivers.map(driver => {
+      const today = getLocalDate(now, driver.company.timezone);
       const totalDailyRate = driver.contracts.reduce(
         (sum, contract) => sum + contract.dailyRate.toNumber(),
         0
       );
 
-      const debtAmount = Math.abs(driver.balance.toNumber());
+      // Долг на балансе; перенесенный на план долг показывается в repaymentPlan
+      const debtAmount = Math.max(-driver.balance.toNumber(), 0);
       const daysInDebt = totalDailyRate > 0 ? Math.ceil(debtAmount / totalDailyRate) : 0;
 
       return {
@@ -291,10 +1597,12 @@ export class BillingService {
         daysInDebt,
         contracts: driver.contracts.map(c => ({
           contractId: c.id,
+          status: c.status,
           vehicle: `${c.vehicle.brand} ${c.vehicle.model} (${c.vehicle.plateNumber})`,
           dailyRate: c.dailyRate.toNumber(),
-          daysSinceStart: Math.ceil((new Date().getTime() - c.startDate.getTime()) / (1000 * 60 * 60 * 24)),
+          daysSinceStart: diffDays(getLocalDate(c.startDate, driver.company.timezone), today),
         })),
+        repaymentPlan: repaymentPlans.get(driver.id) ?? null,
       };
     }).sort((a, b) => a.balance - b.balance); // Сортируем по размеру долга
   }
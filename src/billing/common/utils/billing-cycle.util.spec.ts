@@ -0,0 +1,112 @@
+import { BillingCycle } from '@prisma/client';
+import {
+  getCyclePeriod,
+  getDefaultAnchorDay,
+  getIsoWeekday,
+  getPeriodDays,
+} from './billing-cycle.util';
+
+describe('billing-cycle.util', () => {
+  describe('getIsoWeekday', () => {
+    it('numbers days from Monday (1) to Sunday (7)', () => {
+      expect(getIsoWeekday('2025-06-02')).toBe(1);
+      expect(getIsoWeekday('2025-06-07')).toBe(6);
+      expect(getIsoWeekday('2025-06-08')).toBe(7);
+    });
+  });
+
+  describe('getDefaultAnchorDay', () => {
+    it('uses the start weekday for weekly contracts', () => {
+      expect(getDefaultAnchorDay(BillingCycle.WEEKLY, '2025-06-04')).toBe(3);
+    });
+
+    it('uses the start day of month for monthly contracts', () => {
+      expect(getDefaultAnchorDay(BillingCycle.MONTHLY, '2025-01-31')).toBe(31);
+    });
+
+    it('has no anchor for daily contracts', () => {
+      expect(getDefaultAnchorDay(BillingCycle.DAILY, '2025-06-04')).toBeNull();
+    });
+  });
+
+  describe('getCyclePeriod', () => {
+    it('returns a single day for daily contracts', () => {
+      expect(getCyclePeriod('2025-12-31', BillingCycle.DAILY, null)).toEqual({
+        start: '2025-12-31',
+        end: '2026-01-01',
+      });
+    });
+
+    it('starts the weekly period on the anchor weekday', () => {
+      // 2025-06-04 - среда, якорь - понедельник
+      expect(getCyclePeriod('2025-06-04', BillingCycle.WEEKLY, 1)).toEqual({
+        start: '2025-06-02',
+        end: '2025-06-09',
+      });
+    });
+
+    it('starts the weekly period on the day itself when it is the anchor', () => {
+      expect(getCyclePeriod('2025-06-04', BillingCycle.WEEKLY, 3)).toEqual({
+        start: '2025-06-04',
+        end: '2025-06-11',
+      });
+    });
+
+    it('goes back to the previous week when the anchor is later in the week', () => {
+      // Якорь - пятница, день - среда
+      expect(getCyclePeriod('2025-06-04', BillingCycle.WEEKLY, 5)).toEqual({
+        start: '2025-05-30',
+        end: '2025-06-06',
+      });
+    });
+
+    it('returns the monthly period containing the day', () => {
+      expect(getCyclePeriod('2025-06-20', BillingCycle.MONTHLY, 15)).toEqual({
+        start: '2025-06-15',
+        end: '2025-07-15',
+      });
+      expect(getCyclePeriod('2025-06-10', BillingCycle.MONTHLY, 15)).toEqual({
+        start: '2025-05-15',
+        end: '2025-06-15',
+      });
+    });
+
+    it('moves a month-end anchor to the last day of shorter months', () => {
+      expect(getCyclePeriod('2025-02-10', BillingCycle.MONTHLY, 31)).toEqual({
+        start: '2025-01-31',
+        end: '2025-02-28',
+      });
+      expect(getCyclePeriod('2025-02-28', BillingCycle.MONTHLY, 31)).toEqual({
+        start: '2025-02-28',
+        end: '2025-03-31',
+      });
+      expect(getCyclePeriod('2024-02-29', BillingCycle.MONTHLY, 30)).toEqual({
+        start: '2024-02-29',
+        end: '2024-03-30',
+      });
+    });
+
+    it('crosses the year boundary', () => {
+      expect(getCyclePeriod('2026-01-05', BillingCycle.MONTHLY, 20)).toEqual({
+        start: '2025-12-20',
+        end: '2026-01-20',
+      });
+      expect(getCyclePeriod('2025-12-25', BillingCycle.MONTHLY, 20)).toEqual({
+        start: '2025-12-20',
+        end: '2026-01-20',
+      });
+    });
+  });
+
+  describe('getPeriodDays', () => {
+    it('returns the period length in days', () => {
+      expect(getPeriodDays({ start: '2025-06-02', end: '2025-06-09' })).toBe(7);
+      expect(getPeriodDays({ start: '2025-01-31', end: '2025-02-28' })).toBe(
+        28,
+      );
+      expect(getPeriodDays({ start: '2024-02-29', end: '2024-03-30' })).toBe(
+        30,
+      );
+    });
+  });
+});
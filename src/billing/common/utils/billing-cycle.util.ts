@@ -0,0 +1,91 @@
+import { BillingCycle } from '@prisma/client';
+import { addDays, diffDays, toDateOnly } from './billing-date.util';
+
+/**
+ * Утилиты для расчета периодов аренды по циклу списания.
+ * Период - полуинтервал календарных дней [start, end).
+ * Якорный день: для WEEKLY - день недели (1 = понедельник ... 7 = воскресенье),
+ * для MONTHLY - число месяца (если в месяце меньше дней - последний день месяца)
+ */
+
+export interface CyclePeriod {
+  start: string; // YYYY-MM-DD, включительно
+  end: string; // YYYY-MM-DD, не включительно
+}
+
+/**
+ * День недели календарного дня (1 = понедельник ... 7 = воскресенье)
+ */
+export function getIsoWeekday(localDate: string): number {
+  return toDateOnly(localDate).getUTCDay() || 7;
+}
+
+/**
+ * Якорный день по умолчанию - день начала контракта
+ */
+export function getDefaultAnchorDay(
+  cycle: BillingCycle,
+  startDate: string,
+): number | null {
+  switch (cycle) {
+    case BillingCycle.WEEKLY:
+      return getIsoWeekday(startDate);
+    case BillingCycle.MONTHLY:
+      return toDateOnly(startDate).getUTCDate();
+    default:
+      return null;
+  }
+}
+
+/**
+ * Граница месячного цикла в указанном месяце (month - 0..11, допускается переполнение)
+ */
+function getMonthlyBoundary(
+  year: number,
+  month: number,
+  anchorDay: number,
+): string {
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const date = new Date(
+    Date.UTC(year, month, Math.min(anchorDay, daysInMonth)),
+  );
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Полный цикл списания, в который попадает календарный день
+ */
+export function getCyclePeriod(
+  localDate: string,
+  cycle: BillingCycle,
+  anchorDay: number | null,
+): CyclePeriod {
+  switch (cycle) {
+    case BillingCycle.WEEKLY: {
+      const anchor = anchorDay ?? 1;
+      const offset = (getIsoWeekday(localDate) - anchor + 7) % 7;
+      const start = addDays(localDate, -offset);
+      return { start, end: addDays(start, 7) };
+    }
+    case BillingCycle.MONTHLY: {
+      const anchor = anchorDay ?? 1;
+      const date = toDateOnly(localDate);
+      const year = date.getUTCFullYear();
+      const month = date.getUTCMonth();
+      const boundary = getMonthlyBoundary(year, month, anchor);
+
+      return localDate >= boundary
+        ? { start: boundary, end: getMonthlyBoundary(year, month + 1, anchor) }
+        : { start: getMonthlyBoundary(year, month - 1, anchor), end: boundary };
+    }
+    default:
+      return { start: localDate, end: addDays(localDate, 1) };
+  }
+}
+
+/**
+ * Длина периода в днях
+ */
+export function getPeriodDays(period: CyclePeriod): number {
+  return diffDays(period.start, period.end);
+}
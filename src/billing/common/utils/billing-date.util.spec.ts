@@ -0,0 +1,124 @@
+import {
+  addDays,
+  diffDays,
+  fromDateOnly,
+  getLocalDate,
+  getLocalDayRange,
+  getTimeZoneOffset,
+  getZonedDateTime,
+  toDateOnly,
+} from './billing-date.util';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('billing-date.util', () => {
+  describe('getLocalDate', () => {
+    it('returns the calendar day in the company time zone', () => {
+      // 20:30 UTC - уже следующий день в Бишкеке (UTC+6)
+      const moment = new Date('2025-03-31T20:30:00Z');
+
+      expect(getLocalDate(moment, 'Asia/Bishkek')).toBe('2025-04-01');
+      expect(getLocalDate(moment, 'UTC')).toBe('2025-03-31');
+    });
+
+    it('handles time zones behind UTC', () => {
+      expect(
+        getLocalDate(new Date('2025-01-01T03:00:00Z'), 'America/New_York'),
+      ).toBe('2024-12-31');
+    });
+  });
+
+  describe('toDateOnly / fromDateOnly', () => {
+    it('stores the day as UTC midnight and reads it back', () => {
+      const date = toDateOnly('2024-02-29');
+
+      expect(date.toISOString()).toBe('2024-02-29T00:00:00.000Z');
+      expect(fromDateOnly(date)).toBe('2024-02-29');
+    });
+  });
+
+  describe('addDays', () => {
+    it('crosses month and year boundaries', () => {
+      expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+      expect(addDays('2023-02-28', 1)).toBe('2023-03-01');
+      expect(addDays('2024-12-31', 1)).toBe('2025-01-01');
+      expect(addDays('2025-03-01', -1)).toBe('2025-02-28');
+    });
+
+    it('is not affected by DST transitions', () => {
+      expect(addDays('2025-03-30', 1)).toBe('2025-03-31');
+      expect(addDays('2025-10-26', 1)).toBe('2025-10-27');
+    });
+  });
+
+  describe('diffDays', () => {
+    it('counts calendar days between two days', () => {
+      expect(diffDays('2025-01-01', '2025-01-01')).toBe(0);
+      expect(diffDays('2025-01-31', '2025-03-01')).toBe(29);
+      expect(diffDays('2024-01-31', '2024-03-01')).toBe(30);
+      expect(diffDays('2025-03-10', '2025-03-01')).toBe(-9);
+    });
+  });
+
+  describe('getTimeZoneOffset', () => {
+    it('returns the offset for a fixed time zone', () => {
+      expect(
+        getTimeZoneOffset(new Date('2025-06-01T12:00:00Z'), 'Asia/Bishkek'),
+      ).toBe(6 * HOUR_MS);
+      expect(getTimeZoneOffset(new Date('2025-06-01T12:00:00Z'), 'UTC')).toBe(
+        0,
+      );
+    });
+
+    it('follows daylight saving time', () => {
+      expect(
+        getTimeZoneOffset(new Date('2025-01-15T12:00:00Z'), 'Europe/Berlin'),
+      ).toBe(HOUR_MS);
+      expect(
+        getTimeZoneOffset(new Date('2025-07-15T12:00:00Z'), 'Europe/Berlin'),
+      ).toBe(2 * HOUR_MS);
+    });
+
+    it('ignores milliseconds of the moment', () => {
+      expect(
+        getTimeZoneOffset(new Date('2025-06-01T12:00:00.999Z'), 'Asia/Bishkek'),
+      ).toBe(6 * HOUR_MS);
+    });
+  });
+
+  describe('getZonedDateTime', () => {
+    it('returns the moment of a local hour', () => {
+      expect(
+        getZonedDateTime('2025-04-01', 0, 'Asia/Bishkek').toISOString(),
+      ).toBe('2025-03-31T18:00:00.000Z');
+      expect(
+        getZonedDateTime('2025-04-01', 9, 'Asia/Bishkek').toISOString(),
+      ).toBe('2025-04-01T03:00:00.000Z');
+    });
+
+    it('uses the offset in effect on that day', () => {
+      expect(
+        getZonedDateTime('2025-01-15', 9, 'Europe/Berlin').toISOString(),
+      ).toBe('2025-01-15T08:00:00.000Z');
+      expect(
+        getZonedDateTime('2025-07-15', 9, 'Europe/Berlin').toISOString(),
+      ).toBe('2025-07-15T07:00:00.000Z');
+    });
+  });
+
+  describe('getLocalDayRange', () => {
+    it('returns a 24 hour range for an ordinary day', () => {
+      const { start, end } = getLocalDayRange('2025-04-01', 'Asia/Bishkek');
+
+      expect(start.toISOString()).toBe('2025-03-31T18:00:00.000Z');
+      expect(end.toISOString()).toBe('2025-04-01T18:00:00.000Z');
+    });
+
+    it('returns a shorter range on the day clocks move forward', () => {
+      const { start, end } = getLocalDayRange('2025-03-30', 'Europe/Berlin');
+
+      expect(start.toISOString()).toBe('2025-03-29T23:00:00.000Z');
+      expect(end.toISOString()).toBe('2025-03-30T22:00:00.000Z');
+    });
+  });
+});
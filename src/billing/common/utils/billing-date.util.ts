@@ -0,0 +1,107 @@
+/**
+ * Утилиты для работы с календарными днями списания.
+ * Календарный день хранится строкой YYYY-MM-DD в часовом поясе компании,
+ * а в базу (@db.Date) пишется как полночь UTC этого дня.
+ */
+
+/**
+ * Календарный день (YYYY-MM-DD) для момента времени в указанном часовом поясе
+ */
+export function getLocalDate(date: Date, timeZone: string): string {
+  // Локаль en-CA форматирует дату как YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(date);
+}
+
+/**
+ * Значение для колонки @db.Date
+ */
+export function toDateOnly(localDate: string): Date {
+  return new Date(`${localDate}T00:00:00.000Z`);
+}
+
+/**
+ * Обратное преобразование значения колонки @db.Date в YYYY-MM-DD
+ */
+export function fromDateOnly(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Сдвиг календарного дня на указанное количество дней
+ */
+export function addDays(localDate: string, days: number): string {
+  const date = toDateOnly(localDate);
+  date.setUTCDate(date.getUTCDate() + days);
+  return fromDateOnly(date);
+}
+
+/**
+ * Смещение часового пояса относительно UTC (в миллисекундах) для момента времени
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const value = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  const asUtc = Date.UTC(
+    value('year'),
+    value('month') - 1,
+    value('day'),
+    value('hour'),
+    value('minute'),
+    value('second'),
+  );
+
+  return asUtc - (date.getTime() - date.getMilliseconds());
+}
+
+/**
+ * Момент времени для локального дня и часа в указанном часовом поясе
+ */
+export function getZonedDateTime(
+  localDate: string,
+  hour: number,
+  timeZone: string,
+): Date {
+  const utcGuess = new Date(
+    `${localDate}T${String(hour).padStart(2, '0')}:00:00.000Z`,
+  );
+  return new Date(utcGuess.getTime() - getTimeZoneOffset(utcGuess, timeZone));
+}
+
+/**
+ * Границы календарного дня компании: [start, end)
+ */
+export function getLocalDayRange(
+  localDate: string,
+  timeZone: string,
+): { start: Date; end: Date } {
+  return {
+    start: getZonedDateTime(localDate, 0, timeZone),
+    end: getZonedDateTime(addDays(localDate, 1), 0, timeZone),
+  };
+}
+
+/**
+ * Количество календарных дней между двумя днями (to - from)
+ */
+export function diffDays(from: string, to: string): number {
+  return Math.round(
+    (toDateOnly(to).getTime() - toDateOnly(from).getTime()) /
+      (24 * 60 * 60 * 1000),
+  );
+}
@@ -0,0 +1,155 @@
+import { BillingCycle, Prisma } from '@prisma/client';
+import {
+  ContractTerms,
+  getContractTerms,
+  getCycleAmount,
+  getTermsOn,
+  splitByTerms,
+} from './contract-terms.util';
+
+const terms = (
+  effectiveFrom: string,
+  dailyRate: number,
+  cycleAmount: number | null = null,
+): ContractTerms => ({
+  effectiveFrom,
+  dailyRate: new Prisma.Decimal(dailyRate),
+  cycleAmount: cycleAmount === null ? null : new Prisma.Decimal(cycleAmount),
+});
+
+const versions = [
+  terms('2025-06-01', 1000),
+  terms('2025-06-10', 1200),
+  terms('2025-06-20', 900),
+];
+
+describe('contract-terms.util', () => {
+  describe('getContractTerms', () => {
+    it('uses the contract terms when there are no amendments', () => {
+      const result = getContractTerms({
+        startDate: new Date('2025-06-01T09:00:00Z'),
+        dailyRate: new Prisma.Decimal(1000),
+        cycleAmount: null,
+      });
+
+      expect(result).toEqual([terms('2025-06-01', 1000)]);
+    });
+
+    it('maps amendments to versions by effective day', () => {
+      const result = getContractTerms({
+        startDate: new Date('2025-06-01T09:00:00Z'),
+        dailyRate: new Prisma.Decimal(1200),
+        cycleAmount: new Prisma.Decimal(7000),
+        amendments: [
+          {
+            effectiveFrom: new Date('2025-06-01T00:00:00Z'),
+            dailyRate: new Prisma.Decimal(1000),
+            cycleAmount: new Prisma.Decimal(6000),
+          },
+          {
+            effectiveFrom: new Date('2025-06-15T00:00:00Z'),
+            dailyRate: new Prisma.Decimal(1200),
+            cycleAmount: new Prisma.Decimal(7000),
+          },
+        ],
+      });
+
+      expect(result).toEqual([
+        terms('2025-06-01', 1000, 6000),
+        terms('2025-06-15', 1200, 7000),
+      ]);
+    });
+  });
+
+  describe('getTermsOn', () => {
+    it('returns the version in effect on the day', () => {
+      expect(getTermsOn(versions, '2025-06-09').dailyRate.toNumber()).toBe(
+        1000,
+      );
+      expect(getTermsOn(versions, '2025-06-10').dailyRate.toNumber()).toBe(
+        1200,
+      );
+      expect(getTermsOn(versions, '2025-07-01').dailyRate.toNumber()).toBe(900);
+    });
+
+    it('applies the first version before its effective day', () => {
+      expect(getTermsOn(versions, '2025-05-30').dailyRate.toNumber()).toBe(
+        1000,
+      );
+    });
+  });
+
+  describe('splitByTerms', () => {
+    it('splits a period at version boundaries', () => {
+      const segments = splitByTerms(versions, '2025-06-08', '2025-06-22');
+
+      expect(
+        segments.map(({ from, to, days, terms }) => [
+          from,
+          to,
+          days,
+          terms.dailyRate.toNumber(),
+        ]),
+      ).toEqual([
+        ['2025-06-08', '2025-06-10', 2, 1000],
+        ['2025-06-10', '2025-06-20', 10, 1200],
+        ['2025-06-20', '2025-06-22', 2, 900],
+      ]);
+    });
+
+    it('returns a single segment when no version starts inside the period', () => {
+      const segments = splitByTerms(versions, '2025-06-10', '2025-06-20');
+
+      expect(segments).toHaveLength(1);
+      expect(segments[0]).toMatchObject({
+        from: '2025-06-10',
+        to: '2025-06-20',
+        days: 10,
+      });
+    });
+
+    it('ignores duplicate effective days', () => {
+      const duplicated = [
+        terms('2025-06-01', 1000),
+        terms('2025-06-05', 1100),
+        terms('2025-06-05', 1150),
+      ];
+
+      const segments = splitByTerms(duplicated, '2025-06-01', '2025-06-08');
+
+      expect(
+        segments.map((segment) => [
+          segment.days,
+          segment.terms.dailyRate.toNumber(),
+        ]),
+      ).toEqual([
+        [4, 1000],
+        [3, 1150],
+      ]);
+    });
+
+    it('returns no segments for an empty period', () => {
+      expect(splitByTerms(versions, '2025-06-10', '2025-06-10')).toEqual([]);
+    });
+  });
+
+  describe('getCycleAmount', () => {
+    it('charges the daily rate for daily contracts', () => {
+      expect(
+        getCycleAmount(terms('2025-06-01', 1000, 6000), BillingCycle.DAILY, 1),
+      ).toEqual(new Prisma.Decimal(1000));
+    });
+
+    it('uses the cycle amount when it is set', () => {
+      expect(
+        getCycleAmount(terms('2025-06-01', 1000, 6000), BillingCycle.WEEKLY, 7),
+      ).toEqual(new Prisma.Decimal(6000));
+    });
+
+    it('falls back to the daily rate for each day of the cycle', () => {
+      expect(
+        getCycleAmount(terms('2025-06-01', 1000), BillingCycle.MONTHLY, 30),
+      ).toEqual(new Prisma.Decimal(30000));
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { BillingCycle, Prisma } from '@prisma/client';
+import { diffDays, fromDateOnly } from './billing-date.util';
+
+/**
+ * Утилиты для расчета аренды по версиям условий контракта (поправкам).
+ * Условия действуют с effectiveFrom до вступления в силу следующей версии
+ */
+
+export interface ContractTerms {
+  effectiveFrom: string; // YYYY-MM-DD
+  dailyRate: Prisma.Decimal;
+  cycleAmount: Prisma.Decimal | null;
+}
+
+// Отрезок периода [from, to) с одними условиями
+export interface TermsSegment {
+  from: string;
+  to: string;
+  days: number;
+  terms: ContractTerms;
+}
+
+interface ContractWithAmendments {
+  startDate: Date;
+  dailyRate: Prisma.Decimal;
+  cycleAmount: Prisma.Decimal | null;
+  amendments?: Array<{
+    effectiveFrom: Date;
+    dailyRate: Prisma.Decimal;
+    cycleAmount: Prisma.Decimal | null;
+  }>;
+}
+
+/**
+ * Версии условий контракта по возрастанию effectiveFrom (поправки должны быть уже отсортированы
+ * по effectiveFrom и версии). Контракт без поправок - одна версия с его текущими условиями
+ */
+export function getContractTerms(
+  contract: ContractWithAmendments,
+): ContractTerms[] {
+  if (!contract.amendments?.length) {
+    return [
+      {
+        effectiveFrom: contract.startDate.toISOString().split('T')[0],
+        dailyRate: contract.dailyRate,
+        cycleAmount: contract.cycleAmount,
+      },
+    ];
+  }
+
+  return contract.amendments.map((amendment) => ({
+    effectiveFrom: fromDateOnly(amendment.effectiveFrom),
+    dailyRate: amendment.dailyRate,
+    cycleAmount: amendment.cycleAmount,
+  }));
+}
+
+/**
+ * Условия, действующие в указанный день. До первой версии действует первая:
+ * начальные условия распространяются на весь срок до первой поправки
+ */
+export function getTermsOn(terms: ContractTerms[], day: string): ContractTerms {
+  let found = terms[0];
+
+  for (const version of terms) {
+    if (version.effectiveFrom > day) break;
+    found = version;
+  }
+
+  return found;
+}
+
+/**
+ * Разбивка периода [from, to) на отрезки с одинаковыми условиями
+ */
+export function splitByTerms(
+  terms: ContractTerms[],
+  from: string,
+  to: string,
+): TermsSegment[] {
+  const boundaries = terms
+    .map((version) => version.effectiveFrom)
+    .filter((day) => day > from && day < to);
+
+  const segments: TermsSegment[] = [];
+  let segmentStart = from;
+
+  for (const boundary of [...new Set(boundaries), to]) {
+    if (boundary <= segmentStart) continue;
+    segments.push({
+      from: segmentStart,
+      to: boundary,
+      days: diffDays(segmentStart, boundary),
+      terms: getTermsOn(terms, segmentStart),
+    });
+    segmentStart = boundary;
+  }
+
+  return segments;
+}
+
+/**
+ * Сумма за полный цикл по условиям версии. Без явной суммы цикла - дневная ставка за каждый день цикла
+ */
+export function getCycleAmount(
+  terms: ContractTerms,
+  cycle: BillingCycle,
+  cycleDays: number,
+): Prisma.Decimal {
+  return cycle === BillingCycle.DAILY
+    ? terms.dailyRate
+    : (terms.cycleAmount ?? terms.dailyRate.mul(cycleDays));
+}
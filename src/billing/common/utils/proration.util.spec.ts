@@ -0,0 +1,141 @@
+import { ProrationMode } from '@prisma/client';
+import {
+  getEndDayFraction,
+  getMinimumDayFraction,
+  getStartDayFraction,
+  ProrationSettings,
+} from './proration.util';
+
+const TIME_ZONE = 'Asia/Bishkek';
+
+const settings = (
+  prorationMode: ProrationMode,
+  prorationCutoffHour = 12,
+): ProrationSettings => ({
+  prorationMode,
+  prorationCutoffHour,
+});
+
+// Локальное время Бишкека (UTC+6)
+const local = (dateTime: string) => new Date(`${dateTime}+06:00`);
+
+describe('proration.util', () => {
+  describe('getStartDayFraction', () => {
+    it('charges the full day in FULL_DAY mode', () => {
+      expect(
+        getStartDayFraction(
+          local('2025-06-01T23:00:00'),
+          TIME_ZONE,
+          settings(ProrationMode.FULL_DAY),
+        ),
+      ).toBe(1);
+    });
+
+    it('charges half a day when the rent starts at or after the cutoff hour', () => {
+      const mode = settings(ProrationMode.HALF_DAY_AFTER_CUTOFF, 12);
+
+      expect(
+        getStartDayFraction(local('2025-06-01T11:59:00'), TIME_ZONE, mode),
+      ).toBe(1);
+      expect(
+        getStartDayFraction(local('2025-06-01T12:00:00'), TIME_ZONE, mode),
+      ).toBe(0.5);
+      expect(
+        getStartDayFraction(local('2025-06-01T18:30:00'), TIME_ZONE, mode),
+      ).toBe(0.5);
+    });
+
+    it('charges the remaining hours of the day in HOURLY mode', () => {
+      const mode = settings(ProrationMode.HOURLY);
+
+      expect(
+        getStartDayFraction(local('2025-06-01T00:00:00'), TIME_ZONE, mode),
+      ).toBe(1);
+      expect(
+        getStartDayFraction(local('2025-06-01T18:00:00'), TIME_ZONE, mode),
+      ).toBe(6 / 24);
+      // Неполный час считается полным: с 18:30 - 6 часов
+      expect(
+        getStartDayFraction(local('2025-06-01T18:30:00'), TIME_ZONE, mode),
+      ).toBe(6 / 24);
+    });
+
+    it('uses the local hour of the company, not UTC', () => {
+      // 05:00 UTC - 11:00 в Бишкеке, до граничного часа
+      const start = new Date('2025-06-01T05:00:00Z');
+
+      expect(
+        getStartDayFraction(
+          start,
+          TIME_ZONE,
+          settings(ProrationMode.HALF_DAY_AFTER_CUTOFF, 12),
+        ),
+      ).toBe(1);
+      expect(
+        getStartDayFraction(
+          start,
+          'UTC',
+          settings(ProrationMode.HALF_DAY_AFTER_CUTOFF, 5),
+        ),
+      ).toBe(0.5);
+    });
+  });
+
+  describe('getEndDayFraction', () => {
+    it('charges nothing when the rent ends exactly at local midnight', () => {
+      for (const mode of Object.values(ProrationMode)) {
+        expect(
+          getEndDayFraction(
+            local('2025-06-02T00:00:00'),
+            TIME_ZONE,
+            settings(mode),
+          ),
+        ).toBe(0);
+      }
+    });
+
+    it('charges the full day in FULL_DAY mode', () => {
+      expect(
+        getEndDayFraction(
+          local('2025-06-02T01:00:00'),
+          TIME_ZONE,
+          settings(ProrationMode.FULL_DAY),
+        ),
+      ).toBe(1);
+    });
+
+    it('charges half a day when the rent ends at or before the cutoff hour', () => {
+      const mode = settings(ProrationMode.HALF_DAY_AFTER_CUTOFF, 12);
+
+      expect(
+        getEndDayFraction(local('2025-06-02T12:00:00'), TIME_ZONE, mode),
+      ).toBe(0.5);
+      expect(
+        getEndDayFraction(local('2025-06-02T12:01:00'), TIME_ZONE, mode),
+      ).toBe(1);
+    });
+
+    it('charges the elapsed hours of the day in HOURLY mode', () => {
+      const mode = settings(ProrationMode.HOURLY);
+
+      expect(
+        getEndDayFraction(local('2025-06-02T06:00:00'), TIME_ZONE, mode),
+      ).toBe(6 / 24);
+      expect(
+        getEndDayFraction(local('2025-06-02T06:01:00'), TIME_ZONE, mode),
+      ).toBe(7 / 24);
+    });
+  });
+
+  describe('getMinimumDayFraction', () => {
+    it('returns the smallest billable unit of the mode', () => {
+      expect(getMinimumDayFraction(settings(ProrationMode.FULL_DAY))).toBe(1);
+      expect(
+        getMinimumDayFraction(settings(ProrationMode.HALF_DAY_AFTER_CUTOFF)),
+      ).toBe(0.5);
+      expect(getMinimumDayFraction(settings(ProrationMode.HOURLY))).toBe(
+        1 / 24,
+      );
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { ProrationMode } from '@prisma/client';
+import { getLocalDate, getZonedDateTime } from './billing-date.util';
+
+/**
+ * Утилиты пропорционального начисления за неполный первый и последний день аренды.
+ * Доля дня - число от 0 до 1, на которое умножается дневная стоимость
+ */
+
+export interface ProrationSettings {
+  prorationMode: ProrationMode;
+  prorationCutoffHour: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Сколько часов прошло с начала локального дня
+ */
+function getLocalHours(date: Date, timeZone: string): number {
+  const midnight = getZonedDateTime(getLocalDate(date, timeZone), 0, timeZone);
+  return (date.getTime() - midnight.getTime()) / HOUR_MS;
+}
+
+/**
+ * Доля первого дня аренды, начавшейся в момент start
+ */
+export function getStartDayFraction(
+  start: Date,
+  timeZone: string,
+  settings: ProrationSettings,
+): number {
+  const hours = getLocalHours(start, timeZone);
+
+  switch (settings.prorationMode) {
+    case ProrationMode.HALF_DAY_AFTER_CUTOFF:
+      return hours >= settings.prorationCutoffHour ? 0.5 : 1;
+    case ProrationMode.HOURLY:
+      // Неполный час считается полным
+      return Math.ceil(24 - hours) / 24;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Доля последнего дня аренды, закончившейся в момент end
+ */
+export function getEndDayFraction(
+  end: Date,
+  timeZone: string,
+  settings: ProrationSettings,
+): number {
+  const hours = getLocalHours(end, timeZone);
+
+  if (hours === 0) {
+    return 0;
+  }
+
+  switch (settings.prorationMode) {
+    case ProrationMode.HALF_DAY_AFTER_CUTOFF:
+      return hours <= settings.prorationCutoffHour ? 0.5 : 1;
+    case ProrationMode.HOURLY:
+      return Math.ceil(hours) / 24;
+    default:
+      return 1;
+  }
+}
+
+/**
+ * Минимальная доля дня: аренда, начавшаяся и закончившаяся в один день,
+ * не может стоить меньше одной единицы начисления
+ */
+export function getMinimumDayFraction(settings: ProrationSettings): number {
+  switch (settings.prorationMode) {
+    case ProrationMode.HALF_DAY_AFTER_CUTOFF:
+      return 0.5;
+    case ProrationMode.HOURLY:
+      return 1 / 24;
+    default:
+      return 1;
+  }
+}
@@ -0,0 +1,143 @@
+import {
+  getAssignmentsInPeriod,
+  splitByVehicle,
+  splitRentByVehicle,
+  VehicleAssignmentDays,
+} from './vehicle-assignment.util';
+
+const assignment = (
+  vehicleId: string,
+  fromDay: string,
+  toDay: string | null = null,
+): VehicleAssignmentDays => ({
+  vehicleId,
+  fromDay: new Date(`${fromDay}T00:00:00Z`),
+  toDay: toDay ? new Date(`${toDay}T00:00:00Z`) : null,
+});
+
+// Водитель ездил на A до 10 июня, затем на B
+const swapped = [
+  assignment('A', '2025-06-01', '2025-06-10'),
+  assignment('B', '2025-06-10'),
+];
+
+const rentPayment = (
+  amount: number,
+  metadata: Record<string, string> | null,
+  billingDate: string | null = null,
+) => ({
+  amount,
+  metadata,
+  billingDate: billingDate ? new Date(`${billingDate}T00:00:00Z`) : null,
+  createdAt: new Date('2025-06-30T12:00:00Z'),
+});
+
+describe('vehicle-assignment.util', () => {
+  describe('getAssignmentsInPeriod', () => {
+    it('returns assignments overlapping the period', () => {
+      expect(
+        getAssignmentsInPeriod(swapped, '2025-06-05', '2025-06-06'),
+      ).toEqual([swapped[0]]);
+      expect(
+        getAssignmentsInPeriod(swapped, '2025-06-09', '2025-06-11'),
+      ).toEqual(swapped);
+      expect(
+        getAssignmentsInPeriod(swapped, '2025-06-10', '2025-06-11'),
+      ).toEqual([swapped[1]]);
+    });
+
+    it('skips assignments closed on the day they started', () => {
+      const empty = assignment('C', '2025-06-10', '2025-06-10');
+
+      expect(
+        getAssignmentsInPeriod([empty], '2025-06-01', '2025-06-30'),
+      ).toEqual([]);
+    });
+  });
+
+  describe('splitByVehicle', () => {
+    it('counts the days of the period on each vehicle', () => {
+      expect(splitByVehicle(swapped, '2025-06-01', '2025-06-15')).toEqual([
+        { vehicleId: 'A', days: 9 },
+        { vehicleId: 'B', days: 5 },
+      ]);
+    });
+
+    it('assigns days before the first assignment to the first vehicle', () => {
+      expect(
+        splitByVehicle(
+          [assignment('A', '2025-06-03', '2025-06-05')],
+          '2025-06-01',
+          '2025-06-05',
+        ),
+      ).toEqual([{ vehicleId: 'A', days: 4 }]);
+    });
+
+    it('adds up several assignments of the same vehicle', () => {
+      const back = [
+        assignment('A', '2025-06-01', '2025-06-03'),
+        assignment('B', '2025-06-03', '2025-06-05'),
+        assignment('A', '2025-06-05'),
+      ];
+
+      expect(splitByVehicle(back, '2025-06-01', '2025-06-08')).toEqual([
+        { vehicleId: 'A', days: 5 },
+        { vehicleId: 'B', days: 2 },
+      ]);
+    });
+  });
+
+  describe('splitRentByVehicle', () => {
+    it('splits a cycle charge proportionally to days, the last share takes the remainder', () => {
+      const payment = rentPayment(1000, {
+        periodStart: '2025-06-07',
+        periodEnd: '2025-06-10',
+      });
+      const withC = [
+        assignment('A', '2025-06-01', '2025-06-08'),
+        assignment('B', '2025-06-08', '2025-06-09'),
+        assignment('C', '2025-06-09'),
+      ];
+
+      const shares = splitRentByVehicle(payment, withC, 'A');
+
+      expect(
+        shares.map((share) => [share.vehicleId, share.amount.toFixed(2)]),
+      ).toEqual([
+        ['A', '333.33'],
+        ['B', '333.33'],
+        ['C', '333.34'],
+      ]);
+    });
+
+    it('uses the billing day when the payment has no period', () => {
+      const shares = splitRentByVehicle(
+        rentPayment(1000, null, '2025-06-12'),
+        swapped,
+        'A',
+      );
+
+      expect(shares).toHaveLength(1);
+      expect(shares[0].vehicleId).toBe('B');
+      expect(shares[0].amount.toNumber()).toBe(1000);
+    });
+
+    it('uses the creation day without a period or billing day', () => {
+      const shares = splitRentByVehicle(rentPayment(500, null), swapped, 'A');
+
+      expect(shares.map((share) => share.vehicleId)).toEqual(['B']);
+    });
+
+    it('credits the contract vehicle when there are no assignments', () => {
+      const shares = splitRentByVehicle(
+        rentPayment(700, null, '2025-06-12'),
+        [],
+        'X',
+      );
+
+      expect(shares).toHaveLength(1);
+      expect(shares[0].vehicleId).toBe('X');
+      expect(shares[0].amount.toNumber()).toBe(700);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { Prisma } from '@prisma/client';
+import {
+  divideMoney,
+  toMoney,
+  MoneyValue,
+} from '../../../currency/utils/money.util';
+import { addDays, diffDays, fromDateOnly } from './billing-date.util';
+
+/**
+ * Утилиты для разнесения дней аренды по автомобилям контракта.
+ * Закрепление действует в дни [fromDay, toDay), toDay = null - до конца контракта
+ */
+
+export interface VehicleAssignmentDays {
+  vehicleId: string;
+  fromDay: Date;
+  toDay: Date | null;
+}
+
+// Сколько дней периода водитель провел на автомобиле
+export interface VehicleShare {
+  vehicleId: string;
+  days: number;
+}
+
+/**
+ * Закрепления, пересекающиеся с периодом [from, to), по порядку
+ */
+export function getAssignmentsInPeriod<T extends VehicleAssignmentDays>(
+  assignments: T[],
+  from: string,
+  to: string,
+): T[] {
+  return assignments.filter((assignment) => {
+    const start = fromDateOnly(assignment.fromDay);
+    const end = assignment.toDay ? fromDateOnly(assignment.toDay) : null;
+
+    return start < to && (!end || end > from) && (!end || start < end);
+  });
+}
+
+/**
+ * Дни периода [from, to) по автомобилям. Дни до первого закрепления относятся к первому автомобилю
+ */
+export function splitByVehicle(
+  assignments: VehicleAssignmentDays[],
+  from: string,
+  to: string,
+): VehicleShare[] {
+  const shares = new Map<string, number>();
+  const inPeriod = getAssignmentsInPeriod(assignments, from, to);
+
+  inPeriod.forEach((assignment, index) => {
+    const start =
+      index === 0 ? from : maxDay(fromDateOnly(assignment.fromDay), from);
+    const end = assignment.toDay
+      ? minDay(fromDateOnly(assignment.toDay), to)
+      : to;
+    const days = diffDays(start, end);
+
+    if (days > 0) {
+      shares.set(
+        assignment.vehicleId,
+        (shares.get(assignment.vehicleId) ?? 0) + days,
+      );
+    }
+  });
+
+  return Array.from(shares, ([vehicleId, days]) => ({ vehicleId, days }));
+}
+
+/**
+ * Списание аренды по автомобилям пропорционально дням периода из metadata платежа.
+ * Без периода (перерасчет, старые списания) - день списания. Без закреплений - автомобиль контракта.
+ * Последнему автомобилю достается остаток, чтобы сумма долей совпадала со списанием
+ */
+export function splitRentByVehicle(
+  payment: {
+    amount: MoneyValue;
+    metadata: Prisma.JsonValue | null;
+    billingDate: Date | null;
+    createdAt: Date;
+  },
+  assignments: VehicleAssignmentDays[],
+  fallbackVehicleId: string,
+): Array<{ vehicleId: string; amount: Prisma.Decimal }> {
+  const amount = toMoney(payment.amount);
+  const metadata = (payment.metadata ?? {}) as {
+    periodStart?: string;
+    periodEnd?: string;
+  };
+  const from =
+    metadata.periodStart ??
+    (payment.billingDate
+      ? fromDateOnly(payment.billingDate)
+      : fromDateOnly(payment.createdAt));
+  const to = metadata.periodEnd ?? addDays(from, 1);
+
+  const shares = splitByVehicle(assignments, from, to);
+  if (shares.length === 0) {
+    return [{ vehicleId: fallbackVehicleId, amount }];
+  }
+
+  const totalDays = shares.reduce((sum, share) => sum + share.days, 0);
+  let rest = amount;
+
+  return shares.map((share, index) => {
+    const part =
+      index === shares.length - 1
+        ? rest
+        : divideMoney(amount.mul(share.days), totalDays);
+    rest = rest.sub(part);
+    return { vehicleId: share.vehicleId, amount: part };
+  });
+}
+
+function maxDay(a: string, b: string): string {
+  return a > b ? a : b;
+}
+
+function minDay(a: string, b: string): string {
+  return a < b ? a : b;
+}
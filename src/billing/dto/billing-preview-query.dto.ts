@@ -0,0 +1,20 @@
+import { IsOptional, IsString, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class BillingPreviewQueryDto {
+  @ApiProperty({
+    required: false,
+    example: '2025-07-12',
+    description: 'День списания (по умолчанию - сегодня)',
+  })
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, {
+    message: 'date must be in YYYY-MM-DD format',
+  })
+  date?: string;
+
+  @ApiProperty({ required: false, description: 'Только для SUPER_ADMIN' })
+  @IsOptional()
+  @IsString()
+  companyId?: string;
+}
@@ -1,11 +1,12 @@
+import { BillingStats } from '../interfaces/billing.interface';
+
 export class DailyBillingCompletedEvent {
   constructor(
-    public readonly stats: {
-      total: number;
-      successful: number;
-      failed: number;
-      totalAmount: number;
-    },
+    public readonly stats: BillingStats,
+    public readonly companyId: string,
+    public readonly billingRunId: string,
+    public readonly billingDate: string,
+    public readonly currency: string,
     public readonly timestamp: Date = new Date(),
   ) {}
 }
@@ -16,6 +17,7 @@ export class PaymentFailedEvent {
     public readonly driverId: string,
     public readonly amount: number,
     public readonly reason: string,
+    public readonly currency: string,
     public readonly timestamp: Date = new Date(),
   ) {}
-}
\ No newline at end of file
+}
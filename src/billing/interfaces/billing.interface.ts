@@ -0,0 +1,86 @@
+import {
+  BillingCycle,
+  BillingRun,
+  BillingRunStatus,
+  BillingTrigger,
+} from '@prisma/client';
+
+export interface BillingStats {
+  total: number;
+  successful: number;
+  failed: number;
+  skipped: number;
+  totalAmount: number;
+  caughtUp: number; // Досписанные дни, пропущенные во время простоя
+  caughtUpAmount: number;
+}
+
+// type, а не interface: сохраняется в BillingRun.details (Json)
+export type MissedCharge = {
+  contractId: string;
+  date: string; // YYYY-MM-DD
+  amount: number;
+};
+
+export interface BillingRunOptions {
+  trigger: BillingTrigger;
+  companyId?: string;
+  triggeredById?: string;
+}
+
+export interface BillingRunResult {
+  run: BillingRun;
+  alreadyProcessed: boolean; // Прогон за этот день уже был выполнен ранее
+}
+
+export interface BillingPreviewCharge {
+  billingDate: string;
+  periodStart: string;
+  periodEnd: string; // Не включительно
+  amount: number;
+  prorated: boolean; // Неполный цикл (начало или окончание контракта внутри цикла)
+}
+
+export interface BillingPreviewContract {
+  contractId: string;
+  driverId: string;
+  driverName: string;
+  vehicle: string;
+  billingCycle: BillingCycle;
+  dailyRate: number;
+  charges: BillingPreviewCharge[]; // Периоды, которые будут списаны (включая пропущенные)
+  amount: number;
+  balanceBefore: number;
+  balanceAfter: number;
+  goesNegative: boolean; // Баланс уйдет в минус после списания
+}
+
+export interface BillingPreview {
+  companyId: string;
+  companyName: string;
+  billingDate: string;
+  existingRunStatus: BillingRunStatus | null; // Прогон за этот день уже существует
+  summary: {
+    contracts: number;
+    skipped: number;
+    charges: number;
+    totalAmount: number;
+    driversGoingNegative: number;
+  };
+  contracts: BillingPreviewContract[];
+}
+
+export interface RentSettlementAdjustment {
+  billingDate: string; // Начало пересчитанного периода
+  expected: number;
+  charged: number;
+  difference: number; // Отрицательная - возврат на баланс
+}
+
+export interface RentSettlement {
+  contractId: string;
+  endDay: string; // Первый день без аренды
+  charged: number; // Досписано
+  credited: number; // Возвращено на баланс
+  adjustments: RentSettlementAdjustment[];
+}
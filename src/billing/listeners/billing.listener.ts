@@ -1,6 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { OnEvent } from '@nestjs/event-emitter';
 import { DailyBillingCompletedEvent, PaymentFailedEvent } from '../events/billing.events';
+import { formatMoney } from '../../currency/utils/currency.util';
 
 @Injectable()
 export class BillingEventListener {
@@ -9,8 +10,9 @@ export class BillingEventListener {
   @OnEvent('billing.daily.completed')
   handleDailyBillingCompleted(event: DailyBillingCompletedEvent) {
     this.logger.log(
-      `📈 Ежедневное списание завершено: ${event.stats.successful}/${event.stats.total} успешно, ` +
-      `сумма: ${event.stats.totalAmount.toFixed(2)} сом`
+      `📈 Ежедневное списание за ${event.billingDate} завершено (компания ${event.companyId}): ` +
+        `${event.stats.successful}/${event.stats.total} успешно, пропущено ${event.stats.skipped}, ` +
+        `сумма: ${formatMoney(event.stats.totalAmount, event.currency)}`,
     );
 
     // Здесь можно добавить:
@@ -0,0 +1,129 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { CashDeskService } from './cash-desk.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { User, CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CompanyFilter } from '../billing/common/decorators/company-filter.decorator';
+import { OpenShiftDto } from './dto/open-shift.dto';
+import { CloseShiftDto } from './dto/close-shift.dto';
+import { CashShiftQueryDto } from './dto/cash-shift-query.dto';
+
+@ApiTags('🏧 Cash Desk - Касса')
+@ApiBearerAuth()
+@Controller('cash-desk/shifts')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class CashDeskController {
+  constructor(private readonly cashDeskService: CashDeskService) {}
+
+  @Post('open')
+  @Roles(UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @ApiOperation({
+    summary: '🔓 Открыть смену',
+    description:
+      'Пока смена открыта, пополнения баланса и депозита и возвраты кассира ' +
+      'привязываются к ней вместе со способом оплаты',
+  })
+  @ApiResponse({ status: 201, description: 'Смена открыта' })
+  @ApiResponse({
+    status: 409,
+    description: 'У кассира уже есть открытая смена',
+  })
+  async open(@Body() openShiftDto: OpenShiftDto, @User() user: CurrentUser) {
+    return await this.cashDeskService.openShift(openShiftDto, user);
+  }
+
+  @Get('current')
+  @Roles(UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @ApiOperation({
+    summary: '🧾 Текущая смена',
+    description: 'Отчет по открытой смене кассира на текущий момент',
+  })
+  @ApiResponse({ status: 404, description: 'Открытой смены нет' })
+  async current(@User() user: CurrentUser) {
+    return await this.cashDeskService.getCurrentShift(user);
+  }
+
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @ApiOperation({
+    summary: '📋 Кассовые смены',
+    description: 'Фильтры по кассиру и статусу',
+  })
+  async findAll(
+    @CompanyFilter() companyId: string,
+    @Query() query: CashShiftQueryDto,
+  ) {
+    return await this.cashDeskService.findAll(companyId, query);
+  }
+
+  @Get(':id/report')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @ApiOperation({
+    summary: '📊 Отчет по смене',
+    description:
+      'Итоги по способам оплаты, ожидаемый и пересчитанный остаток наличных, расхождение',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Отчет по смене',
+    schema: {
+      example: {
+        shiftId: 'shift_id',
+        status: 'CLOSED',
+        cashier: { id: 'user_id', firstName: 'Айгуль', lastName: 'Садыкова' },
+        openedAt: '2025-07-28T03:00:00.000Z',
+        closedAt: '2025-07-28T12:00:00.000Z',
+        openingCash: 5000,
+        expectedCash: 12400,
+        countedCash: 12350,
+        discrepancy: -50,
+        hasDiscrepancy: true,
+        totals: [
+          { method: 'CASH', count: 12, inflow: 7900, outflow: 500 },
+          { method: 'QR', count: 4, inflow: 3200, outflow: 0 },
+        ],
+        reversedCount: 1,
+      },
+    },
+  })
+  async report(@Param('id') id: string, @User() user: CurrentUser) {
+    return await this.cashDeskService.getReport(id, user);
+  }
+
+  @Post(':id/close')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '🔒 Закрыть смену',
+    description:
+      'Сравнивает пересчитанные наличные с ожидаемым остатком ' +
+      '(начальные наличные + принятые наличные - выданные наличные) и фиксирует расхождение',
+  })
+  @ApiResponse({ status: 200, description: 'Смена закрыта, отчет по смене' })
+  @ApiResponse({ status: 400, description: 'Смена уже закрыта' })
+  async close(
+    @Param('id') id: string,
+    @Body() closeShiftDto: CloseShiftDto,
+    @User() user: CurrentUser,
+  ) {
+    return await this.cashDeskService.closeShift(id, closeShiftDto, user);
+  }
+}
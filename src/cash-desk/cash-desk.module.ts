@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { CashDeskService } from './cash-desk.service';
+import { CashDeskController } from './cash-desk.controller';
+import { CashDeskEventListener } from './listeners/cash-desk.listener';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CurrencyModule } from '../currency/currency.module';
+
+@Module({
+  imports: [PrismaModule, CurrencyModule],
+  controllers: [CashDeskController],
+  providers: [CashDeskService, CashDeskEventListener],
+  exports: [CashDeskService],
+})
+export class CashDeskModule {}
@@ -0,0 +1,211 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  CashShiftStatus,
+  PaymentMethod,
+  PaymentStatus,
+  PaymentType,
+  Prisma,
+  UserRole,
+} from '@prisma/client';
+import { CashDeskService } from './cash-desk.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CurrencyService } from '../currency/currency.service';
+import { CashShiftClosedEvent } from './events/cash-desk.events';
+
+const cashier: CurrentUser = {
+  id: 'cashier-1',
+  email: 'cashier-1@example.com',
+  firstName: 'Айгуль',
+  lastName: 'Асанова',
+  role: UserRole.COMPANY_MANAGER,
+  companyId: 'company-1',
+};
+
+const shift = {
+  id: 'shift-1',
+  status: CashShiftStatus.OPEN,
+  companyId: 'company-1',
+  cashierId: 'cashier-1',
+  openingCash: new Prisma.Decimal(1000),
+  openedAt: new Date('2025-08-07T03:00:00Z'),
+  closedAt: null,
+  expectedCash: null,
+  countedCash: null,
+  discrepancy: null,
+};
+
+const group = (
+  method: PaymentMethod | null,
+  type: PaymentType,
+  amount: number,
+  count = 1,
+) => ({
+  method,
+  type,
+  _sum: { amount: new Prisma.Decimal(amount) },
+  _count: { _all: count },
+});
+
+// Одна и та же заглушка служит клиентом сервиса и транзакции
+const createPrisma = (groups: ReturnType<typeof group>[]) => {
+  const client = {
+    cashShift: {
+      findUnique: jest.fn().mockResolvedValue(shift),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      update: jest.fn(({ data }: { data: object }) =>
+        Promise.resolve({
+          ...shift,
+          ...data,
+          status: CashShiftStatus.CLOSED,
+          closedAt: new Date(),
+          countedCash: new Prisma.Decimal(1500),
+          cashier: {
+            id: 'cashier-1',
+            firstName: 'Айгуль',
+            lastName: 'Асанова',
+          },
+        }),
+      ),
+    },
+    payment: {
+      groupBy: jest.fn().mockResolvedValue(groups),
+      count: jest.fn().mockResolvedValue(0),
+    },
+  };
+
+  return {
+    ...client,
+    $transaction: jest.fn((callback: (tx: typeof client) => unknown) =>
+      callback(client),
+    ),
+  };
+};
+
+describe('CashDeskService', () => {
+  let currencyService: { getBaseCurrency: jest.Mock };
+  let eventEmitter: { emit: jest.Mock };
+
+  const createService = (prisma: ReturnType<typeof createPrisma>) =>
+    new CashDeskService(
+      prisma as unknown as PrismaService,
+      currencyService as unknown as CurrencyService,
+      eventEmitter as unknown as EventEmitter2,
+    );
+
+  const closeDto = { countedCash: 1500, note: 'Пересчет в конце дня' };
+
+  beforeEach(() => {
+    currencyService = { getBaseCurrency: jest.fn().mockResolvedValue('KGS') };
+    eventEmitter = { emit: jest.fn() };
+  });
+
+  describe('closeShift', () => {
+    it('counts only cash inflows and outflows in the expected cash', async () => {
+      const prisma = createPrisma([
+        group(PaymentMethod.CASH, PaymentType.PAYMENT, 700, 2),
+        group(PaymentMethod.CASH, PaymentType.DEPOSIT, 300),
+        group(PaymentMethod.CASH, PaymentType.REFUND, 500),
+        group(PaymentMethod.CARD, PaymentType.PAYMENT, 2000),
+      ]);
+
+      const report = await createService(prisma).closeShift(
+        shift.id,
+        closeDto,
+        cashier,
+      );
+
+      // 1000 + 700 + 300 - 500; безналичная оплата картой в кассу не попадает
+      expect(report.expectedCash).toBe(1500);
+      expect(report.discrepancy).toBe(0);
+      expect(report.hasDiscrepancy).toBe(false);
+      expect(report.totals).toEqual([
+        { method: PaymentMethod.CASH, count: 4, inflow: 1000, outflow: 500 },
+        { method: PaymentMethod.CARD, count: 1, inflow: 2000, outflow: 0 },
+      ]);
+      expect(prisma.payment.groupBy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { cashShiftId: shift.id, status: PaymentStatus.SUCCEEDED },
+        }),
+      );
+    });
+
+    it('closes the shift before reading its payments', async () => {
+      const prisma = createPrisma([]);
+
+      await createService(prisma).closeShift(shift.id, closeDto, cashier);
+
+      expect(prisma.cashShift.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: shift.id, status: CashShiftStatus.OPEN },
+        }),
+      );
+      expect(
+        prisma.cashShift.updateMany.mock.invocationCallOrder[0],
+      ).toBeLessThan(prisma.payment.groupBy.mock.invocationCallOrder[0]);
+    });
+
+    it('records a shortage and emits the discrepancy event', async () => {
+      const prisma = createPrisma([
+        group(PaymentMethod.CASH, PaymentType.PAYMENT, 600),
+      ]);
+
+      const report = await createService(prisma).closeShift(
+        shift.id,
+        closeDto,
+        cashier,
+      );
+
+      expect(report.expectedCash).toBe(1600);
+      expect(report.discrepancy).toBe(-100);
+      expect(report.hasDiscrepancy).toBe(true);
+
+      const events = eventEmitter.emit.mock.calls as [
+        string,
+        CashShiftClosedEvent,
+      ][];
+      expect(events.map(([name]) => name)).toEqual([
+        'cash-desk.shift.closed',
+        'cash-desk.shift.discrepancy',
+      ]);
+      expect(events[1][1].discrepancy).toBe(-100);
+      expect(events[1][1].currency).toBe('KGS');
+    });
+
+    it('treats payments without a method as cash', async () => {
+      const prisma = createPrisma([group(null, PaymentType.PAYMENT, 500)]);
+
+      const report = await createService(prisma).closeShift(
+        shift.id,
+        closeDto,
+        cashier,
+      );
+
+      expect(report.expectedCash).toBe(1500);
+    });
+
+    it('rejects a shift closed by a concurrent request', async () => {
+      const prisma = createPrisma([]);
+      prisma.cashShift.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        createService(prisma).closeShift(shift.id, closeDto, cashier),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(prisma.cashShift.update).not.toHaveBeenCalled();
+      expect(eventEmitter.emit).not.toHaveBeenCalled();
+    });
+
+    it("does not let a manager close another cashier's shift", async () => {
+      const prisma = createPrisma([]);
+
+      await expect(
+        createService(prisma).closeShift(shift.id, closeDto, {
+          ...cashier,
+          id: 'manager-2',
+        }),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,361 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  CashShiftStatus,
+  PaymentMethod,
+  PaymentStatus,
+  PaymentType,
+  Prisma,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CurrencyService } from '../currency/currency.service';
+import { OpenShiftDto } from './dto/open-shift.dto';
+import { CloseShiftDto } from './dto/close-shift.dto';
+import { CashShiftQueryDto } from './dto/cash-shift-query.dto';
+import {
+  CashDeskPaymentContext,
+  CashShiftMethodTotal,
+  CashShiftReport,
+} from './interfaces/cash-desk.interface';
+import {
+  CashShiftClosedEvent,
+  CashShiftOpenedEvent,
+} from './events/cash-desk.events';
+
+// Платежи, которые проходят через кассу: поступления и выдача денег водителю
+const CASH_INFLOW_TYPES: PaymentType[] = [
+  PaymentType.PAYMENT,
+  PaymentType.DEPOSIT,
+];
+const CASH_OUTFLOW_TYPES: PaymentType[] = [PaymentType.REFUND];
+
+const cashierSelect = {
+  select: { id: true, firstName: true, lastName: true },
+} satisfies Prisma.UserDefaultArgs;
+
+type CashShiftWithCashier = Prisma.CashShiftGetPayload<{
+  include: { cashier: typeof cashierSelect };
+}>;
+
+@Injectable()
+export class CashDeskService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly currencyService: CurrencyService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  async openShift(
+    openShiftDto: OpenShiftDto,
+    currentUser: CurrentUser,
+  ): Promise<CashShiftReport> {
+    if (!currentUser.companyId) {
+      throw new BadRequestException(
+        'User must belong to a company to open a cash shift',
+      );
+    }
+
+    let shift: CashShiftWithCashier;
+
+    try {
+      shift = await this.prisma.cashShift.create({
+        data: {
+          openingCash: openShiftDto.openingCash,
+          openNote: openShiftDto.note,
+          cashierOpenKey: currentUser.id,
+          cashierId: currentUser.id,
+          companyId: currentUser.companyId,
+        },
+        include: { cashier: cashierSelect },
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException('Cashier already has an open cash shift');
+      }
+      throw error;
+    }
+
+    this.eventEmitter.emit(
+      'cash-desk.shift.opened',
+      new CashShiftOpenedEvent(
+        shift.id,
+        shift.companyId,
+        shift.cashierId,
+        openShiftDto.openingCash,
+        await this.currencyService.getBaseCurrency(
+          this.prisma,
+          shift.companyId,
+        ),
+      ),
+    );
+
+    return await this.buildReport(this.prisma, shift);
+  }
+
+  async getCurrentShift(currentUser: CurrentUser): Promise<CashShiftReport> {
+    const shift = await this.prisma.cashShift.findFirst({
+      where: { cashierId: currentUser.id, status: CashShiftStatus.OPEN },
+      include: { cashier: cashierSelect },
+    });
+
+    if (!shift) {
+      throw new NotFoundException('No open cash shift');
+    }
+
+    return await this.buildReport(this.prisma, shift);
+  }
+
+  async findAll(companyId: string | undefined, query: CashShiftQueryDto) {
+    const whereClause: Prisma.CashShiftWhereInput = {};
+
+    if (companyId) whereClause.companyId = companyId;
+    if (query.cashierId) whereClause.cashierId = query.cashierId;
+    if (query.status) whereClause.status = query.status;
+
+    return this.prisma.cashShift.findMany({
+      where: whereClause,
+      include: {
+        cashier: cashierSelect,
+        closedBy: cashierSelect,
+        _count: { select: { payments: true } },
+      },
+      orderBy: { openedAt: 'desc' },
+    });
+  }
+
+  async getReport(
+    id: string,
+    currentUser: CurrentUser,
+  ): Promise<CashShiftReport> {
+    const shift = await this.prisma.cashShift.findUnique({
+      where: { id },
+      include: { cashier: cashierSelect },
+    });
+
+    if (!shift) {
+      throw new NotFoundException(`Cash shift with ID ${id} not found`);
+    }
+
+    this.checkShiftAccess(shift, currentUser);
+
+    return await this.buildReport(this.prisma, shift);
+  }
+
+  /**
+   * Закрытие смены: сравнение ожидаемого остатка наличных с пересчитанным
+   */
+  async closeShift(
+    id: string,
+    closeShiftDto: CloseShiftDto,
+    currentUser: CurrentUser,
+  ): Promise<CashShiftReport> {
+    const shift = await this.prisma.cashShift.findUnique({ where: { id } });
+
+    if (!shift) {
+      throw new NotFoundException(`Cash shift with ID ${id} not found`);
+    }
+
+    this.checkShiftAccess(shift, currentUser);
+
+    // Чужую смену закрывает только администратор
+    if (
+      shift.cashierId !== currentUser.id &&
+      currentUser.role === UserRole.COMPANY_MANAGER
+    ) {
+      throw new ForbiddenException(
+        'Only the cashier or a company admin can close this shift',
+      );
+    }
+
+    const closed = await this.prisma.$transaction(async (tx) => {
+      // Смена закрывается первой: параллельный прием платежа ждет блокировку строки
+      // и уже не находит открытую смену, поэтому все платежи смены попадают в расчет
+      const { count } = await tx.cashShift.updateMany({
+        where: { id, status: CashShiftStatus.OPEN },
+        data: {
+          status: CashShiftStatus.CLOSED,
+          closedAt: new Date(),
+          closedById: currentUser.id,
+          cashierOpenKey: null,
+          countedCash: closeShiftDto.countedCash,
+          closeNote: closeShiftDto.note,
+        },
+      });
+
+      if (count === 0) {
+        throw new BadRequestException('Cash shift is already closed');
+      }
+
+      const totals = await this.getMethodTotals(tx, id);
+      const expectedCash = this.getExpectedCash(shift.openingCash, totals);
+      const countedCash = new Prisma.Decimal(closeShiftDto.countedCash);
+
+      return await tx.cashShift.update({
+        where: { id },
+        data: {
+          expectedCash,
+          discrepancy: countedCash.sub(expectedCash),
+        },
+        include: { cashier: cashierSelect },
+      });
+    });
+
+    const event = new CashShiftClosedEvent(
+      closed.id,
+      closed.companyId,
+      closed.cashierId,
+      closed.expectedCash?.toNumber() ?? 0,
+      closed.countedCash?.toNumber() ?? 0,
+      closed.discrepancy?.toNumber() ?? 0,
+      await this.currencyService.getBaseCurrency(this.prisma, closed.companyId),
+    );
+
+    this.eventEmitter.emit('cash-desk.shift.closed', event);
+
+    if (event.discrepancy !== 0) {
+      this.eventEmitter.emit('cash-desk.shift.discrepancy', event);
+    }
+
+    return await this.buildReport(this.prisma, closed);
+  }
+
+  /**
+   * Привязка платежа, который создает сотрудник, к его открытой смене.
+   * Вызывается внутри транзакции платежа: строка смены блокируется до конца транзакции,
+   * чтобы смена не закрылась между расчетом остатка и записью платежа
+   */
+  async resolvePaymentContext(
+    tx: Prisma.TransactionClient,
+    currentUser: CurrentUser,
+    type: PaymentType,
+    method?: PaymentMethod,
+  ): Promise<CashDeskPaymentContext> {
+    if (
+      !CASH_INFLOW_TYPES.includes(type) &&
+      !CASH_OUTFLOW_TYPES.includes(type)
+    ) {
+      return { method: method ?? null, cashShiftId: null };
+    }
+
+    const [shift] = await tx.$queryRaw<{ id: string }[]>`
+      SELECT "id" FROM "cash_shifts"
+      WHERE "cashierId" = ${currentUser.id} AND "status" = 'OPEN'
+      FOR UPDATE
+    `;
+
+    if (!shift) {
+      // Безналичные операции можно проводить без смены, наличные должны попасть в пересчет
+      if (method === PaymentMethod.CASH) {
+        throw new BadRequestException(
+          'Open a cash shift before accepting cash payments',
+        );
+      }
+      return { method: method ?? null, cashShiftId: null };
+    }
+
+    return { method: method ?? PaymentMethod.CASH, cashShiftId: shift.id };
+  }
+
+  /**
+   * Ожидаемый остаток: начальные наличные + принятые наличные - выданные наличные.
+   * Сторнированные платежи не учитываются: деньги по ним возвращены
+   */
+  private getExpectedCash(
+    openingCash: Prisma.Decimal,
+    totals: CashShiftMethodTotal[],
+  ): Prisma.Decimal {
+    const cash = totals.find((total) => total.method === PaymentMethod.CASH);
+
+    return openingCash.add(cash?.inflow ?? 0).sub(cash?.outflow ?? 0);
+  }
+
+  private async getMethodTotals(
+    client: Prisma.TransactionClient,
+    shiftId: string,
+  ): Promise<CashShiftMethodTotal[]> {
+    const groups = await client.payment.groupBy({
+      by: ['method', 'type'],
+      where: { cashShiftId: shiftId, status: PaymentStatus.SUCCEEDED },
+      _sum: { amount: true },
+      _count: { _all: true },
+    });
+
+    const totals = new Map<PaymentMethod, CashShiftMethodTotal>();
+
+    for (const group of groups) {
+      const method = group.method ?? PaymentMethod.CASH;
+      const total = totals.get(method) ?? {
+        method,
+        count: 0,
+        inflow: 0,
+        outflow: 0,
+      };
+      const amount = group._sum.amount ?? new Prisma.Decimal(0);
+
+      total.count += group._count._all;
+      if (CASH_OUTFLOW_TYPES.includes(group.type)) {
+        total.outflow = amount.add(total.outflow).toNumber();
+      } else {
+        total.inflow = amount.add(total.inflow).toNumber();
+      }
+
+      totals.set(method, total);
+    }
+
+    return Array.from(totals.values());
+  }
+
+  private async buildReport(
+    client: Prisma.TransactionClient,
+    shift: CashShiftWithCashier,
+  ): Promise<CashShiftReport> {
+    const [totals, reversedCount] = await Promise.all([
+      this.getMethodTotals(client, shift.id),
+      client.payment.count({
+        where: { cashShiftId: shift.id, status: PaymentStatus.REVERSED },
+      }),
+    ]);
+
+    const expectedCash =
+      shift.expectedCash ?? this.getExpectedCash(shift.openingCash, totals);
+
+    return {
+      shiftId: shift.id,
+      status: shift.status,
+      cashier: shift.cashier,
+      openedAt: shift.openedAt,
+      closedAt: shift.closedAt,
+      openingCash: shift.openingCash.toNumber(),
+      expectedCash: expectedCash.toNumber(),
+      countedCash: shift.countedCash?.toNumber() ?? null,
+      discrepancy: shift.discrepancy?.toNumber() ?? null,
+      hasDiscrepancy: shift.discrepancy ? !shift.discrepancy.isZero() : false,
+      totals,
+      reversedCount,
+    };
+  }
+
+  private checkShiftAccess(
+    shift: { companyId: string },
+    currentUser: CurrentUser,
+  ) {
+    if (currentUser.role === UserRole.SUPER_ADMIN) {
+      return;
+    }
+
+    if (shift.companyId !== currentUser.companyId) {
+      throw new ForbiddenException('Access denied to this cash shift');
+    }
+  }
+}
@@ -0,0 +1,20 @@
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { CashShiftStatus } from '@prisma/client';
+
+export class CashShiftQueryDto {
+  @ApiProperty({ required: false, description: 'Фильтр по кассиру' })
+  @IsOptional()
+  @IsString()
+  cashierId?: string;
+
+  @ApiProperty({ required: false, enum: CashShiftStatus })
+  @IsOptional()
+  @IsEnum(CashShiftStatus)
+  status?: CashShiftStatus;
+
+  @ApiProperty({ required: false, description: 'Только для SUPER_ADMIN' })
+  @IsOptional()
+  @IsString()
+  companyId?: string;
+}
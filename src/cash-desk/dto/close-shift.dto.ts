@@ -0,0 +1,30 @@
+import {
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CloseShiftDto {
+  @ApiProperty({
+    example: 12350,
+    description: 'Пересчитанные наличные в кассе',
+  })
+  @Transform(({ value }) => parseFloat(value))
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  countedCash: number;
+
+  @ApiProperty({
+    required: false,
+    example: 'Недостача 50 сом, разбирается старший кассир',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
@@ -0,0 +1,27 @@
+import {
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class OpenShiftDto {
+  @ApiProperty({
+    example: 5000,
+    description: 'Наличные в кассе на начало смены',
+  })
+  @Transform(({ value }) => parseFloat(value))
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  openingCash: number;
+
+  @ApiProperty({ required: false, example: 'Размен от старшего кассира' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
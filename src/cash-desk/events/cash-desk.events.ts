@@ -0,0 +1,23 @@
+export class CashShiftOpenedEvent {
+  constructor(
+    public readonly shiftId: string,
+    public readonly companyId: string,
+    public readonly cashierId: string,
+    public readonly openingCash: number,
+    public readonly currency: string,
+    public readonly timestamp: Date = new Date(),
+  ) {}
+}
+
+export class CashShiftClosedEvent {
+  constructor(
+    public readonly shiftId: string,
+    public readonly companyId: string,
+    public readonly cashierId: string,
+    public readonly expectedCash: number,
+    public readonly countedCash: number,
+    public readonly discrepancy: number,
+    public readonly currency: string,
+    public readonly timestamp: Date = new Date(),
+  ) {}
+}
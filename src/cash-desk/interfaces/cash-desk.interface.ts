@@ -0,0 +1,31 @@
+import { CashShiftStatus, PaymentMethod } from '@prisma/client';
+
+/**
+ * Привязка платежа к кассе: способ оплаты и открытая смена кассира
+ */
+export interface CashDeskPaymentContext {
+  method: PaymentMethod | null;
+  cashShiftId: string | null;
+}
+
+export interface CashShiftMethodTotal {
+  method: PaymentMethod;
+  count: number;
+  inflow: number; // Принято: пополнения баланса и депозита
+  outflow: number; // Выдано: возвраты
+}
+
+export interface CashShiftReport {
+  shiftId: string;
+  status: CashShiftStatus;
+  cashier: { id: string; firstName: string; lastName: string };
+  openedAt: Date;
+  closedAt: Date | null;
+  openingCash: number;
+  expectedCash: number; // Для открытой смены - на текущий момент
+  countedCash: number | null;
+  discrepancy: number | null; // Больше нуля - излишек, меньше нуля - недостача
+  hasDiscrepancy: boolean;
+  totals: CashShiftMethodTotal[];
+  reversedCount: number; // Сторнированные платежи смены не входят в итоги
+}
@@ -0,0 +1,42 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import {
+  CashShiftClosedEvent,
+  CashShiftOpenedEvent,
+} from '../events/cash-desk.events';
+import { formatMoney } from '../../currency/utils/currency.util';
+
+@Injectable()
+export class CashDeskEventListener {
+  private readonly logger = new Logger(CashDeskEventListener.name);
+
+  @OnEvent('cash-desk.shift.opened')
+  handleShiftOpened(event: CashShiftOpenedEvent) {
+    this.logger.log(
+      `🔓 Кассир ${event.cashierId} открыл смену ${event.shiftId}: ` +
+        `в кассе ${formatMoney(event.openingCash, event.currency)}`,
+    );
+  }
+
+  @OnEvent('cash-desk.shift.closed')
+  handleShiftClosed(event: CashShiftClosedEvent) {
+    this.logger.log(
+      `🔒 Смена ${event.shiftId} закрыта: ожидалось ${formatMoney(event.expectedCash, event.currency)}, ` +
+        `пересчитано ${formatMoney(event.countedCash, event.currency)}`,
+    );
+  }
+
+  @OnEvent('cash-desk.shift.discrepancy')
+  handleShiftDiscrepancy(event: CashShiftClosedEvent) {
+    const kind = event.discrepancy > 0 ? 'излишек' : 'недостача';
+
+    this.logger.warn(
+      `⚠️ Расхождение в кассе: смена ${event.shiftId}, кассир ${event.cashierId}, ` +
+        `${kind} ${formatMoney(Math.abs(event.discrepancy), event.currency)}`,
+    );
+
+    // Здесь можно добавить:
+    // - Уведомление администратора компании
+    // - Акт о расхождении для бухгалтерии
+  }
+}
@@ -1,8 +1,13 @@
-import { Injectable, NotFoundException, ConflictException } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateCompanyDto } from './dto/create-company.dto';
 import { UpdateCompanyDto } from './dto/update-company.dto';
-import { Company } from '@prisma/client';
+import { Company, ContractStatus } from '@prisma/client';
 
 @Injectable()
 export class CompanyService {
@@ -60,6 +65,10 @@ export class CompanyService {
   }
 
   async update(id: string, updateCompanyDto: UpdateCompanyDto): Promise<Company> {
+    if (updateCompanyDto.baseCurrency) {
+      await this.checkBaseCurrencyChange(id, updateCompanyDto.baseCurrency);
+    }
+
     try {
       return await this.prisma.company.update({
         where: { id },
@@ -120,7 +129,8 @@ export class CompanyService {
       this.prisma.payment.aggregate({
         where: { 
           companyId: id,
-          type: 'DAILY_RENT'
+          type: 'DAILY_RENT',
+          status: 'SUCCEEDED',
         },
         _sum: { amount: true }
       })
@@ -138,4 +148,40 @@ export class CompanyService {
       }
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * Балансы, депозиты и аренда действующих контрактов ведутся в базовой валюте:
+   * сменить ее можно только когда в ней не осталось денег водителей
+   */
+  private async checkBaseCurrencyChange(id: string, baseCurrency: string) {
+    const company = await this.prisma.company.findUnique({
+      where: { id },
+      select: { baseCurrency: true },
+    });
+
+    if (!company || company.baseCurrency === baseCurrency) {
+      return;
+    }
+
+    const [driversWithMoney, openContracts] = await Promise.all([
+      this.prisma.driver.count({
+        where: {
+          companyId: id,
+          OR: [{ balance: { not: 0 } }, { deposit: { not: 0 } }],
+        },
+      }),
+      this.prisma.contract.count({
+        where: {
+          companyId: id,
+          status: { in: [ContractStatus.ACTIVE, ContractStatus.SUSPENDED] },
+        },
+      }),
+    ]);
+
+    if (driversWithMoney > 0 || openContracts > 0) {
+      throw new BadRequestException(
+        'Base currency cannot be changed while drivers have balances or deposits or contracts are active',
+      );
+    }
+  }
+}
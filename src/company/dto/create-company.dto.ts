@@ -1,4 +1,19 @@
-import { IsString, IsEmail, IsOptional, IsNotEmpty, Length } from 'class-validator';
+import {
+  IsString,
+  IsEmail,
+  IsOptional,
+  IsNotEmpty,
+  Length,
+  IsTimeZone,
+  IsInt,
+  Min,
+  Max,
+  IsEnum,
+  IsISO4217CurrencyCode,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { LateFeeMode, ProrationMode } from '@prisma/client';
+import { normalizeCurrency } from '../../currency/utils/currency.util';
 
 export class CreateCompanyDto {
   @IsNotEmpty()
@@ -16,4 +31,70 @@ export class CreateCompanyDto {
   @IsOptional()
   @IsString()
   address?: string;
+
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string; // Например Asia/Almaty, Asia/Tashkent
+
+  @IsOptional()
+  @Transform(({ value }) => normalizeCurrency(value))
+  @IsISO4217CurrencyCode()
+  baseCurrency?: string; // ISO 4217, по умолчанию KGS
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(23)
+  billingHour?: number;
+
+  @IsOptional()
+  @IsEnum(ProrationMode)
+  prorationMode?: ProrationMode;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(23)
+  prorationCutoffHour?: number;
+
+  // Политика задолженности: долг в днях аренды
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  debtWarningDays?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  debtSuspensionDays?: number;
+
+  // Напоминание об окончании контракта: за сколько дней до endDate
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(90)
+  contractExpiryReminderDays?: number;
+
+  // Пени за просрочку
+  @IsOptional()
+  @IsEnum(LateFeeMode)
+  lateFeeMode?: LateFeeMode;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  lateFeeGraceDays?: number;
+
+  @IsOptional()
+  @Transform(({ value }) => parseFloat(value))
+  @Type(() => Number)
+  @Min(0.01)
+  lateFeeFlatAmount?: number; // Для FLAT
+
+  @IsOptional()
+  @Transform(({ value }) => parseFloat(value))
+  @Type(() => Number)
+  @Min(0.01)
+  @Max(100)
+  lateFeePercent?: number; // Для DAILY_PERCENT: % от долга в день
 }
\ No newline at end of file
@@ -0,0 +1,328 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  BillingCycle,
+  ContractAmendment,
+  ContractStatus,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { BillingService } from '../billing/billing.service';
+import {
+  addDays,
+  fromDateOnly,
+  getLocalDate,
+  toDateOnly,
+} from '../billing/common/utils/billing-date.util';
+import {
+  getContractTerms,
+  getTermsOn,
+  splitByTerms,
+} from '../billing/common/utils/contract-terms.util';
+import { sumMoney } from '../currency/utils/money.util';
+import { CreateContractAmendmentDto } from './dto/create-contract-amendment.dto';
+import { ContractAmendedEvent } from './events/contract.events';
+
+// Поправки по порядку действия: за день действует последняя вступившая в силу версия
+const amendmentOrder: Prisma.ContractAmendmentOrderByWithRelationInput[] = [
+  { effectiveFrom: 'asc' },
+  { version: 'asc' },
+];
+
+interface AmendableContract {
+  id: string;
+  status: ContractStatus;
+  billingCycle: BillingCycle;
+  dailyRate: Prisma.Decimal;
+  cycleAmount: Prisma.Decimal | null;
+  startDate: Date;
+  endDate: Date | null;
+  driverId: string;
+  companyId: string;
+}
+
+/**
+ * Поправки к условиям аренды: версии ставки с датой вступления в силу.
+ * Ставка контракта не перезаписывается задним числом - списание и статистика
+ * берут за каждый день условия, действовавшие в этот день
+ */
+@Injectable()
+export class ContractAmendmentService {
+  private readonly logger = new Logger(ContractAmendmentService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly billingService: BillingService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Начальные условия контракта - версия 1. Вызывается в транзакции создания контракта
+   */
+  async recordInitialTerms(
+    tx: Prisma.TransactionClient,
+    contract: {
+      id: string;
+      startDate: Date;
+      dailyRate: Prisma.Decimal;
+      cycleAmount: Prisma.Decimal | null;
+    },
+    timeZone: string,
+    createdById: string,
+  ) {
+    return tx.contractAmendment.create({
+      data: {
+        contractId: contract.id,
+        version: 1,
+        effectiveFrom: toDateOnly(getLocalDate(contract.startDate, timeZone)),
+        dailyRate: contract.dailyRate,
+        cycleAmount: contract.cycleAmount,
+        createdById,
+      },
+    });
+  }
+
+  /**
+   * Перенос начала запланированного контракта: версия 1 вступает в силу с нового дня начала.
+   * Вызывается в транзакции изменения контракта
+   */
+  async rescheduleInitialTerms(
+    tx: Prisma.TransactionClient,
+    contractId: string,
+    startDay: string,
+  ) {
+    const amendments = await tx.contractAmendment.count({
+      where: { contractId },
+    });
+
+    if (amendments > 1) {
+      throw new BadRequestException(
+        'Start date cannot be changed after the contract terms were amended',
+      );
+    }
+
+    await tx.contractAmendment.updateMany({
+      where: { contractId, version: 1 },
+      data: { effectiveFrom: toDateOnly(startDay) },
+    });
+  }
+
+  async findAll(contractId: string) {
+    return this.prisma.contractAmendment.findMany({
+      where: { contractId },
+      include: {
+        createdBy: { select: { id: true, firstName: true, lastName: true } },
+      },
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  /**
+   * Новая версия условий. Вступает в силу не раньше первого несписанного дня:
+   * уже списанные периоды поправкой не пересчитываются
+   */
+  async amend(
+    contract: AmendableContract,
+    createContractAmendmentDto: CreateContractAmendmentDto,
+    createdById: string,
+  ): Promise<ContractAmendment> {
+    try {
+      const amendment = await this.prisma.$transaction((tx) =>
+        this.createAmendment(
+          tx,
+          contract,
+          createContractAmendmentDto,
+          createdById,
+        ),
+      );
+
+      this.publishAmendment(contract, amendment, createdById);
+
+      return amendment;
+    } catch (error) {
+      // Параллельная поправка заняла тот же номер версии
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          'Contract terms were changed concurrently, please retry',
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Поправка в транзакции вызывающего (например, вместе с остальными изменениями контракта).
+   * contract - условия с учетом этих изменений: срок проверяется по новой дате окончания.
+   * После фиксации транзакции вызывающий публикует поправку через publishAmendment
+   */
+  async createAmendment(
+    tx: Prisma.TransactionClient,
+    contract: AmendableContract,
+    createContractAmendmentDto: CreateContractAmendmentDto,
+    createdById: string,
+  ): Promise<ContractAmendment> {
+    const { dailyRate, cycleAmount, reason } = createContractAmendmentDto;
+
+    if (
+      contract.status === ContractStatus.COMPLETED ||
+      contract.status === ContractStatus.TERMINATED
+    ) {
+      throw new BadRequestException(
+        `Cannot amend a ${contract.status.toLowerCase()} contract`,
+      );
+    }
+
+    if (dailyRate === undefined && cycleAmount === undefined) {
+      throw new BadRequestException('Daily rate or cycle amount is required');
+    }
+
+    if (
+      cycleAmount !== undefined &&
+      contract.billingCycle === BillingCycle.DAILY
+    ) {
+      throw new BadRequestException(
+        'Cycle amount applies only to weekly and monthly billing cycles',
+      );
+    }
+
+    const company = await tx.company.findUniqueOrThrow({
+      where: { id: contract.companyId },
+      select: { timezone: true },
+    });
+    const today = getLocalDate(new Date(), company.timezone);
+
+    const firstUnbilledDay = await this.billingService.getFirstUnbilledDay(
+      tx,
+      contract.id,
+    );
+    const effectiveFrom =
+      createContractAmendmentDto.effectiveFrom?.slice(0, 10) ??
+      (firstUnbilledDay > today ? firstUnbilledDay : today);
+
+    if (effectiveFrom < firstUnbilledDay) {
+      throw new BadRequestException(
+        `Rent is already charged until ${firstUnbilledDay}, the amendment cannot take effect earlier`,
+      );
+    }
+
+    if (
+      contract.endDate &&
+      effectiveFrom >= getLocalDate(contract.endDate, company.timezone)
+    ) {
+      throw new BadRequestException(
+        'Amendment must take effect before the contract end date',
+      );
+    }
+
+    const amendments = await tx.contractAmendment.findMany({
+      where: { contractId: contract.id },
+      orderBy: amendmentOrder,
+    });
+
+    const previous = getTermsOn(
+      getContractTerms({ ...contract, amendments }),
+      effectiveFrom,
+    );
+    const version =
+      amendments.reduce((max, item) => Math.max(max, item.version), 0) + 1;
+
+    const created = await tx.contractAmendment.create({
+      data: {
+        contractId: contract.id,
+        version,
+        effectiveFrom: toDateOnly(effectiveFrom),
+        dailyRate: dailyRate ?? previous.dailyRate,
+        cycleAmount:
+          contract.billingCycle === BillingCycle.DAILY
+            ? null
+            : (cycleAmount ?? previous.cycleAmount),
+        previousDailyRate: previous.dailyRate,
+        previousCycleAmount: previous.cycleAmount,
+        reason,
+        createdById,
+      },
+    });
+
+    // В контракте - последние согласованные условия (для карточки и прогнозов).
+    // Поправка, вставленная перед уже запланированной, их не меняет
+    const latest = [...amendments, created]
+      .sort(
+        (a, b) =>
+          a.effectiveFrom.getTime() - b.effectiveFrom.getTime() ||
+          a.version - b.version,
+      )
+      .pop()!;
+
+    await tx.contract.update({
+      where: { id: contract.id },
+      data: { dailyRate: latest.dailyRate, cycleAmount: latest.cycleAmount },
+    });
+
+    return created;
+  }
+
+  publishAmendment(
+    contract: AmendableContract,
+    amendment: ContractAmendment,
+    createdById: string,
+  ) {
+    this.logger.log(
+      `📝 Контракт ${contract.id}: условия v${amendment.version} с ${fromDateOnly(amendment.effectiveFrom)}, ` +
+        `ставка ${amendment.previousDailyRate?.toFixed(2)} → ${amendment.dailyRate.toFixed(2)}`,
+    );
+
+    this.eventEmitter.emit(
+      'contract.amended',
+      new ContractAmendedEvent(
+        contract.id,
+        contract.companyId,
+        contract.driverId,
+        amendment.id,
+        amendment.version,
+        amendment.effectiveFrom,
+        amendment.previousDailyRate?.toNumber() ?? null,
+        amendment.dailyRate.toNumber(),
+        createdById,
+      ),
+    );
+  }
+
+  /**
+   * Ожидаемая аренда за первые days дней контракта: каждый день - по дневной ставке,
+   * действовавшей в этот день
+   */
+  async calculateExpectedRent(
+    contract: AmendableContract,
+    days: number,
+  ): Promise<Prisma.Decimal> {
+    const [company, amendments] = await Promise.all([
+      this.prisma.company.findUniqueOrThrow({
+        where: { id: contract.companyId },
+        select: { timezone: true },
+      }),
+      this.prisma.contractAmendment.findMany({
+        where: { contractId: contract.id },
+        orderBy: amendmentOrder,
+      }),
+    ]);
+
+    const startDay = getLocalDate(contract.startDate, company.timezone);
+    const segments = splitByTerms(
+      getContractTerms({ ...contract, amendments }),
+      startDay,
+      addDays(startDay, days),
+    );
+
+    return sumMoney(
+      segments.map((segment) => segment.terms.dailyRate.mul(segment.days)),
+    );
+  }
+}
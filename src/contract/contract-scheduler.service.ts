@@ -0,0 +1,201 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { ContractStatus, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { ContractService } from './contract.service';
+import {
+  diffDays,
+  getLocalDate,
+} from '../billing/common/utils/billing-date.util';
+import { ContractExpiringEvent } from './events/contract.events';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Повтор неудавшейся активации или завершения (автомобиль занят, не подписан акт возврата и т.п.)
+const SCHEDULE_RETRY_MS = 60 * 60 * 1000;
+
+/**
+ * Жизненный цикл контракта по датам: активация в startDate, завершение в endDate
+ * и напоминание об окончании срока. Смена статуса - через ContractService, как и вручную
+ */
+@Injectable()
+export class ContractSchedulerService {
+  private readonly logger = new Logger(ContractSchedulerService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly contractService: ContractService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  @Cron(CronExpression.EVERY_MINUTE, {
+    name: 'contract-lifecycle',
+  })
+  async processContractLifecycle() {
+    await this.activateScheduledContracts();
+    await this.completeExpiredContracts();
+  }
+
+  /**
+   * Запланированные контракты, у которых наступил startDate: автомобиль передается водителю
+   */
+  async activateScheduledContracts() {
+    const contracts = await this.prisma.contract.findMany({
+      where: {
+        status: ContractStatus.SCHEDULED,
+        startDate: { lte: new Date() },
+        ...this.retryDueFilter(),
+      },
+      select: { id: true },
+      orderBy: { startDate: 'asc' },
+    });
+
+    let activated = 0;
+    for (const contract of contracts) {
+      try {
+        await this.contractService.changeStatusBySystem(
+          contract.id,
+          ContractStatus.ACTIVE,
+          'Начало аренды',
+        );
+        activated++;
+      } catch (error) {
+        this.logger.error(
+          `❌ Не удалось активировать контракт ${contract.id}: ${error.message}`,
+        );
+        await this.recordFailure(contract.id, error.message);
+      }
+    }
+
+    if (activated > 0) {
+      this.logger.log(
+        `🚗 Активировано запланированных контрактов: ${activated}`,
+      );
+    }
+  }
+
+  /**
+   * Контракты с наступившим endDate: завершение с финальным перерасчетом и возвратом депозита
+   */
+  async completeExpiredContracts() {
+    const contracts = await this.prisma.contract.findMany({
+      where: {
+        status: { in: [ContractStatus.ACTIVE, ContractStatus.SUSPENDED] },
+        endDate: { lte: new Date() },
+        ...this.retryDueFilter(),
+      },
+      select: { id: true },
+      orderBy: { endDate: 'asc' },
+    });
+
+    let completed = 0;
+    for (const contract of contracts) {
+      try {
+        await this.contractService.changeStatusBySystem(
+          contract.id,
+          ContractStatus.COMPLETED,
+          'Срок контракта истек',
+        );
+        completed++;
+      } catch (error) {
+        this.logger.error(
+          `❌ Не удалось завершить контракт ${contract.id}: ${error.message}`,
+        );
+        await this.recordFailure(contract.id, error.message);
+      }
+    }
+
+    if (completed > 0) {
+      this.logger.log(
+        `🏁 Завершено контрактов по окончании срока: ${completed}`,
+      );
+    }
+  }
+
+  /**
+   * Контракты без неудачной попытки или с попыткой старше SCHEDULE_RETRY_MS
+   */
+  private retryDueFilter(): Prisma.ContractWhereInput {
+    return {
+      OR: [
+        { scheduleFailedAt: null },
+        { scheduleFailedAt: { lte: new Date(Date.now() - SCHEDULE_RETRY_MS) } },
+      ],
+    };
+  }
+
+  private async recordFailure(contractId: string, reason: string) {
+    await this.prisma.contract.updateMany({
+      where: { id: contractId },
+      data: { scheduleFailedAt: new Date(), scheduleFailureReason: reason },
+    });
+  }
+
+  /**
+   * Напоминание об окончании контракта за contractExpiryReminderDays дней до endDate.
+   * Отправляется один раз за срок: продление контракта сбрасывает отметку
+   */
+  @Cron(CronExpression.EVERY_HOUR, {
+    name: 'contract-expiry-reminders',
+  })
+  async sendExpiryReminders() {
+    const now = new Date();
+    const companies = await this.prisma.company.findMany({
+      where: { isActive: true, contractExpiryReminderDays: { not: null } },
+      select: { id: true, timezone: true, contractExpiryReminderDays: true },
+    });
+
+    let reminded = 0;
+    for (const company of companies) {
+      const contracts = await this.prisma.contract.findMany({
+        where: {
+          companyId: company.id,
+          status: { in: [ContractStatus.ACTIVE, ContractStatus.SUSPENDED] },
+          endDate: {
+            gt: now,
+            lte: new Date(
+              now.getTime() + company.contractExpiryReminderDays! * DAY_MS,
+            ),
+          },
+          expiryReminderSentAt: null,
+        },
+        select: { id: true, driverId: true, vehicleId: true, endDate: true },
+      });
+
+      for (const contract of contracts) {
+        // Параллельный запуск уже отправил напоминание
+        const { count } = await this.prisma.contract.updateMany({
+          where: { id: contract.id, expiryReminderSentAt: null },
+          data: { expiryReminderSentAt: now },
+        });
+
+        if (count === 0) {
+          continue;
+        }
+
+        this.eventEmitter.emit(
+          'contract.expiring',
+          new ContractExpiringEvent(
+            contract.id,
+            company.id,
+            contract.driverId,
+            contract.vehicleId,
+            contract.endDate!,
+            diffDays(
+              getLocalDate(now, company.timezone),
+              getLocalDate(contract.endDate!, company.timezone),
+            ),
+          ),
+        );
+        reminded++;
+      }
+    }
+
+    if (reminded > 0) {
+      this.logger.log(
+        `⏰ Отправлено напоминаний об окончании контрактов: ${reminded}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,255 @@
+import {
+  LedgerAccountType,
+  LedgerTransactionType,
+  PaymentType,
+  Prisma,
+} from '@prisma/client';
+import { ContractSettlementService } from './contract-settlement.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { BillingService } from '../billing/billing.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { InspectionService } from '../inspection/inspection.service';
+import { RepaymentPlanService } from '../repayment-plan/repayment-plan.service';
+
+const contract = {
+  id: 'contract-1',
+  deposit: new Prisma.Decimal(800),
+  currency: 'KGS',
+  driverId: 'driver-1',
+  companyId: 'company-1',
+};
+
+const endDate = new Date('2025-08-07T12:00:00Z');
+
+const createClient = (balance: number) => ({
+  driver: {
+    findUniqueOrThrow: jest
+      .fn()
+      .mockResolvedValue({ balance: new Prisma.Decimal(balance) }),
+  },
+  payment: {
+    aggregate: jest.fn().mockResolvedValue({ _sum: { amount: null } }),
+    create: jest.fn().mockResolvedValue({ id: 'payment-1' }),
+  },
+  contractSettlement: {
+    create: jest.fn().mockResolvedValue({}),
+  },
+});
+
+describe('ContractSettlementService', () => {
+  let billingService: {
+    previewFinalRent: jest.Mock;
+    settleFinalRent: jest.Mock;
+  };
+  let ledgerService: { post: jest.Mock };
+  let inspectionService: {
+    assertReturnsSigned: jest.Mock;
+    getReturnCharges: jest.Mock;
+  };
+  let repaymentPlanService: {
+    getActivePlanDebt: jest.Mock;
+    closeForSettlement: jest.Mock;
+  };
+
+  const createService = (prisma: ReturnType<typeof createClient>) =>
+    new ContractSettlementService(
+      prisma as unknown as PrismaService,
+      billingService as unknown as BillingService,
+      ledgerService as unknown as LedgerService,
+      inspectionService as unknown as InspectionService,
+      repaymentPlanService as unknown as RepaymentPlanService,
+    );
+
+  beforeEach(() => {
+    billingService = {
+      previewFinalRent: jest.fn().mockResolvedValue(null),
+      settleFinalRent: jest.fn().mockResolvedValue(null),
+    };
+    ledgerService = { post: jest.fn().mockResolvedValue(null) };
+    inspectionService = {
+      assertReturnsSigned: jest.fn().mockResolvedValue(undefined),
+      getReturnCharges: jest.fn().mockResolvedValue([]),
+    };
+    repaymentPlanService = {
+      getActivePlanDebt: jest.fn().mockResolvedValue(new Prisma.Decimal(0)),
+      closeForSettlement: jest.fn().mockResolvedValue(null),
+    };
+  });
+
+  describe('preview', () => {
+    it('offsets the deposit against the balance debt', async () => {
+      const service = createService(createClient(-300));
+
+      const statement = await service.preview(contract, endDate);
+
+      expect(statement.repaymentPlanDebt).toBe(0);
+      expect(statement.depositUsed).toBe(300);
+      expect(statement.refunded).toBe(500);
+      expect(statement.remainingDebt).toBe(0);
+    });
+
+    it('includes the outstanding repayment plan debt', async () => {
+      repaymentPlanService.getActivePlanDebt.mockResolvedValue(
+        new Prisma.Decimal(700),
+      );
+      const service = createService(createClient(-300));
+
+      const statement = await service.preview(contract, endDate);
+
+      expect(statement.balanceBefore).toBe(-1000);
+      expect(statement.repaymentPlanDebt).toBe(700);
+      expect(statement.depositUsed).toBe(800);
+      expect(statement.refunded).toBe(0);
+      expect(statement.remainingDebt).toBe(200);
+      expect(repaymentPlanService.closeForSettlement).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('settle', () => {
+    it('closes the repayment plan and covers its debt with the deposit', async () => {
+      // Баланс после возврата остатка плана (700) на баланс водителя
+      const tx = createClient(-1000);
+      repaymentPlanService.closeForSettlement.mockResolvedValue({
+        plan: { id: 'plan-1', company: { baseCurrency: 'KGS' } },
+        returnedAmount: new Prisma.Decimal(700),
+      });
+      const service = createService(createClient(0));
+
+      const statement = await service.settle(
+        tx as unknown as Prisma.TransactionClient,
+        contract,
+        endDate,
+        'manager-1',
+      );
+
+      expect(repaymentPlanService.closeForSettlement).toHaveBeenCalledWith(
+        tx,
+        contract.driverId,
+        `Расчет по контракту ${contract.id}`,
+        'manager-1',
+      );
+      expect(statement.repaymentPlanDebt).toBe(700);
+      expect(statement.depositUsed).toBe(800);
+      expect(statement.refunded).toBe(0);
+      expect(statement.remainingDebt).toBe(200);
+
+      // Зачет депозита - единственная проводка: возврат плана проводит RepaymentPlanService
+      expect(ledgerService.post).toHaveBeenCalledTimes(1);
+
+      const [[client, movement]] = ledgerService.post.mock.calls as [
+        [unknown, { amount: number; debit: LedgerAccountType }],
+      ];
+      expect(client).toBe(tx);
+      expect(movement.amount).toBe(800);
+      expect(movement.debit).toBe(LedgerAccountType.DRIVER_DEPOSIT_BLOCKED);
+
+      const [[settlement]] = tx.contractSettlement.create.mock.calls as [
+        [{ data: { repaymentPlanDebt: number } }],
+      ];
+      expect(settlement.data.repaymentPlanDebt).toBe(700);
+    });
+
+    it('offsets part of the deposit and releases the rest', async () => {
+      const tx = createClient(-300);
+      tx.payment.aggregate.mockResolvedValue({
+        _sum: { amount: new Prisma.Decimal(100) },
+      });
+      const service = createService(createClient(0));
+
+      const statement = await service.settle(
+        tx as unknown as Prisma.TransactionClient,
+        contract,
+        endDate,
+        'manager-1',
+      );
+
+      expect(statement.finesOwed).toBe(100);
+      expect(statement.rentOwed).toBe(200);
+      expect(statement.depositUsed).toBe(300);
+      expect(statement.refunded).toBe(500);
+      expect(statement.balanceAfter).toBe(0);
+
+      const payments = tx.payment.create.mock.calls as [
+        { data: { type: PaymentType; amount: number; currency: string } },
+      ][];
+      expect(payments.map(([{ data }]) => [data.type, data.amount])).toEqual([
+        [PaymentType.DEPOSIT_OFFSET, 300],
+        [PaymentType.REFUND, 500],
+      ]);
+      expect(payments.every(([{ data }]) => data.currency === 'KGS')).toBe(
+        true,
+      );
+
+      const movements = ledgerService.post.mock.calls as [
+        unknown,
+        {
+          type: LedgerTransactionType;
+          amount: number;
+          debit: LedgerAccountType;
+          credit: LedgerAccountType;
+        },
+      ][];
+      expect(
+        movements.map(([, { type, amount, debit, credit }]) => ({
+          type,
+          amount,
+          debit,
+          credit,
+        })),
+      ).toEqual([
+        {
+          type: LedgerTransactionType.DEPOSIT_OFFSET,
+          amount: 300,
+          debit: LedgerAccountType.DRIVER_DEPOSIT_BLOCKED,
+          credit: LedgerAccountType.DRIVER_RECEIVABLE,
+        },
+        {
+          type: LedgerTransactionType.DEPOSIT_RELEASE,
+          amount: 500,
+          debit: LedgerAccountType.DRIVER_DEPOSIT_BLOCKED,
+          credit: LedgerAccountType.DRIVER_DEPOSIT,
+        },
+      ]);
+    });
+
+    it('releases the whole deposit when the driver has no debt', async () => {
+      const tx = createClient(250);
+      const service = createService(createClient(0));
+
+      const statement = await service.settle(
+        tx as unknown as Prisma.TransactionClient,
+        contract,
+        endDate,
+        null,
+      );
+
+      expect(statement.depositUsed).toBe(0);
+      expect(statement.refunded).toBe(800);
+      expect(statement.remainingDebt).toBe(0);
+      expect(statement.balanceAfter).toBe(250);
+      expect(tx.payment.create).toHaveBeenCalledTimes(1);
+      expect(tx.payment.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: PaymentType.REFUND,
+          amount: 800,
+        }) as unknown,
+      });
+    });
+
+    it('reads the balance after the repayment plan is closed', async () => {
+      const tx = createClient(-100);
+      const service = createService(createClient(0));
+
+      await service.settle(
+        tx as unknown as Prisma.TransactionClient,
+        contract,
+        endDate,
+        null,
+      );
+
+      expect(
+        repaymentPlanService.closeForSettlement.mock.invocationCallOrder[0],
+      ).toBeLessThan(tx.driver.findUniqueOrThrow.mock.invocationCallOrder[0]);
+    });
+  });
+});
@@ -0,0 +1,406 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  LedgerAccountType,
+  LedgerTransactionType,
+  PaymentStatus,
+  PaymentType,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { BillingService } from '../billing/billing.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { InspectionService } from '../inspection/inspection.service';
+import { InspectionCharge } from '../inspection/interfaces/inspection.interface';
+import { RepaymentPlanService } from '../repayment-plan/repayment-plan.service';
+import { sumMoney } from '../currency/utils/money.util';
+import { formatMoney } from '../currency/utils/currency.util';
+import { ContractSettlementStatement } from './interfaces/contract.interface';
+
+interface SettlementContract {
+  id: string;
+  deposit: Prisma.Decimal;
+  currency: string;
+  driverId: string;
+  companyId: string;
+}
+
+/**
+ * Расчет с водителем при завершении контракта (COMPLETED / TERMINATED):
+ * финальный перерасчет аренды, начисления по актам возврата автомобиля,
+ * закрытие плана погашения с возвратом остатка долга на баланс,
+ * зачет заблокированного депозита в счет долга и возврат остатка депозита водителю
+ */
+@Injectable()
+export class ContractSettlementService {
+  private readonly logger = new Logger(ContractSettlementService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly billingService: BillingService,
+    private readonly ledgerService: LedgerService,
+    private readonly inspectionService: InspectionService,
+    private readonly repaymentPlanService: RepaymentPlanService,
+  ) {}
+
+  /**
+   * Предпросмотр расчета при завершении контракта в момент endDate.
+   * Платежи не создаются, балансы не изменяются
+   */
+  async preview(
+    contract: SettlementContract,
+    endDate: Date,
+  ): Promise<ContractSettlementStatement> {
+    const rent = await this.billingService.previewFinalRent(
+      contract.id,
+      endDate,
+    );
+
+    const driver = await this.prisma.driver.findUniqueOrThrow({
+      where: { id: contract.driverId },
+      select: { balance: true },
+    });
+
+    // Повреждения и недолив по подписанным актам возврата будут начислены штрафом
+    const charges = await this.inspectionService.getReturnCharges(
+      this.prisma,
+      contract,
+    );
+    const inspectionCharged = sumMoney(
+      charges.map((charge) => charge.comparison.totalCharge),
+    );
+
+    // Остаток плана погашения вернется на баланс при расчете
+    const repaymentPlanDebt = await this.repaymentPlanService.getActivePlanDebt(
+      this.prisma,
+      contract.driverId,
+    );
+
+    const rentCharged = new Prisma.Decimal(rent?.charged ?? 0);
+    const rentCredited = new Prisma.Decimal(rent?.credited ?? 0);
+    const balanceBefore = driver.balance
+      .sub(rentCharged)
+      .add(rentCredited)
+      .sub(inspectionCharged)
+      .sub(repaymentPlanDebt);
+
+    return this.buildStatement(
+      this.prisma,
+      contract,
+      endDate,
+      rentCharged,
+      rentCredited,
+      balanceBefore,
+      inspectionCharged,
+      repaymentPlanDebt,
+      inspectionCharged,
+    );
+  }
+
+  /**
+   * Расчет внутри транзакции смены статуса (после записи фактического endDate):
+   * долг покрывается депозитом, остаток депозита возвращается водителю
+   */
+  async settle(
+    tx: Prisma.TransactionClient,
+    contract: SettlementContract,
+    endDate: Date,
+    createdById: string | null,
+    reason?: string,
+  ): Promise<ContractSettlementStatement> {
+    await this.inspectionService.assertReturnsSigned(tx, contract.id);
+
+    const rent = await this.billingService.settleFinalRent(tx, contract.id);
+    const inspectionCharged = await this.chargeInspections(
+      tx,
+      contract,
+      createdById,
+    );
+    const repaymentPlanDebt = await this.closeRepaymentPlan(
+      tx,
+      contract,
+      createdById,
+    );
+
+    const driver = await tx.driver.findUniqueOrThrow({
+      where: { id: contract.driverId },
+      select: { balance: true },
+    });
+
+    const statement = await this.buildStatement(
+      tx,
+      contract,
+      endDate,
+      new Prisma.Decimal(rent?.charged ?? 0),
+      new Prisma.Decimal(rent?.credited ?? 0),
+      driver.balance,
+      inspectionCharged,
+      repaymentPlanDebt,
+    );
+
+    // Зачет депозита в счет долга
+    if (statement.depositUsed > 0) {
+      const description = `Deposit offset against debt for contract ${contract.id}`;
+
+      const payment = await tx.payment.create({
+        data: {
+          amount: statement.depositUsed,
+          currency: contract.currency,
+          type: PaymentType.DEPOSIT_OFFSET,
+          status: PaymentStatus.SUCCEEDED,
+          description,
+          driverId: contract.driverId,
+          contractId: contract.id,
+          companyId: contract.companyId,
+          createdById,
+        },
+      });
+
+      await this.ledgerService.post(tx, {
+        type: LedgerTransactionType.DEPOSIT_OFFSET,
+        companyId: contract.companyId,
+        driverId: contract.driverId,
+        amount: statement.depositUsed,
+        debit: LedgerAccountType.DRIVER_DEPOSIT_BLOCKED,
+        credit: LedgerAccountType.DRIVER_RECEIVABLE,
+        description,
+        contractId: contract.id,
+        paymentId: payment.id,
+        createdById,
+      });
+    }
+
+    // Возвращаем остаток депозита (увеличиваем доступный депозит)
+    if (statement.refunded > 0) {
+      const description = `Deposit unblocked for contract ${contract.id}. Reason: ${reason || 'Contract ended'}`;
+
+      const payment = await tx.payment.create({
+        data: {
+          amount: statement.refunded,
+          currency: contract.currency,
+          type: PaymentType.REFUND,
+          description,
+          driverId: contract.driverId,
+          contractId: contract.id,
+          companyId: contract.companyId,
+          createdById,
+        },
+      });
+
+      await this.ledgerService.post(tx, {
+        type: LedgerTransactionType.DEPOSIT_RELEASE,
+        companyId: contract.companyId,
+        driverId: contract.driverId,
+        amount: statement.refunded,
+        debit: LedgerAccountType.DRIVER_DEPOSIT_BLOCKED,
+        credit: LedgerAccountType.DRIVER_DEPOSIT,
+        description,
+        contractId: contract.id,
+        paymentId: payment.id,
+        createdById,
+      });
+    }
+
+    await tx.contractSettlement.create({
+      data: {
+        contractId: contract.id,
+        endDate,
+        rentCharged: statement.rentCharged,
+        rentCredited: statement.rentCredited,
+        balanceBefore: statement.balanceBefore,
+        rentOwed: statement.rentOwed,
+        finesOwed: statement.finesOwed,
+        inspectionCharged: statement.inspectionCharged,
+        repaymentPlanDebt: statement.repaymentPlanDebt,
+        deposit: statement.deposit,
+        depositUsed: statement.depositUsed,
+        refunded: statement.refunded,
+        remainingDebt: statement.remainingDebt,
+        createdById,
+      },
+    });
+
+    if (statement.depositUsed > 0) {
+      this.logger.log(
+        `🧾 Расчет по контракту ${contract.id}: зачтено ${formatMoney(statement.depositUsed, contract.currency)} депозита, ` +
+          `возвращено ${formatMoney(statement.refunded, contract.currency)}, ` +
+          `остаток долга ${formatMoney(statement.remainingDebt, contract.currency)}`,
+      );
+    }
+
+    return statement;
+  }
+
+  /**
+   * Начисление по подписанным актам возврата: новые повреждения и недолив топлива
+   * относительно акта выдачи проводятся штрафом и покрываются депозитом вместе с остальным долгом
+   */
+  private async chargeInspections(
+    tx: Prisma.TransactionClient,
+    contract: SettlementContract,
+    createdById: string | null,
+  ): Promise<Prisma.Decimal> {
+    const charges = await this.inspectionService.getReturnCharges(tx, contract);
+
+    for (const charge of charges) {
+      const amount = charge.comparison.totalCharge;
+
+      if (amount.gt(0)) {
+        const description = this.describeInspectionCharge(charge);
+
+        const payment = await tx.payment.create({
+          data: {
+            amount,
+            currency: contract.currency,
+            type: PaymentType.FINE,
+            status: PaymentStatus.SUCCEEDED,
+            description,
+            chargeKey: `INSPECTION:${charge.inspectionId}`,
+            metadata: {
+              inspectionId: charge.inspectionId,
+              vehicleId: charge.vehicleId,
+              mileage: charge.comparison.mileage,
+              fuelShortfall: charge.comparison.fuelShortfall,
+              fuelCharge: charge.comparison.fuelCharge.toNumber(),
+              damageCharge: charge.comparison.damageCharge.toNumber(),
+              newDamages: charge.comparison.newDamages.length,
+            },
+            driverId: contract.driverId,
+            contractId: contract.id,
+            companyId: contract.companyId,
+            createdById,
+          },
+        });
+
+        await this.ledgerService.post(tx, {
+          type: LedgerTransactionType.FINE,
+          companyId: contract.companyId,
+          driverId: contract.driverId,
+          amount,
+          debit: LedgerAccountType.DRIVER_RECEIVABLE,
+          credit: LedgerAccountType.COMPANY_REVENUE,
+          description,
+          contractId: contract.id,
+          paymentId: payment.id,
+          createdById,
+        });
+      }
+
+      await tx.vehicleInspection.update({
+        where: { id: charge.inspectionId },
+        data: { chargedAt: new Date() },
+      });
+    }
+
+    const total = sumMoney(
+      charges.map((charge) => charge.comparison.totalCharge),
+    );
+
+    if (total.gt(0)) {
+      this.logger.log(
+        `🔧 Контракт ${contract.id}: по актам возврата начислено ${formatMoney(total, contract.currency)}`,
+      );
+    }
+
+    return total;
+  }
+
+  /**
+   * Активный план погашения закрывается: неначисленный остаток долга возвращается
+   * на баланс водителя и покрывается депозитом вместе с остальным долгом
+   */
+  private async closeRepaymentPlan(
+    tx: Prisma.TransactionClient,
+    contract: SettlementContract,
+    createdById: string | null,
+  ): Promise<Prisma.Decimal> {
+    const closed = await this.repaymentPlanService.closeForSettlement(
+      tx,
+      contract.driverId,
+      `Расчет по контракту ${contract.id}`,
+      createdById,
+    );
+
+    if (!closed) {
+      return new Prisma.Decimal(0);
+    }
+
+    this.logger.log(
+      `🗓️ Контракт ${contract.id}: план погашения ${closed.plan.id} закрыт, ` +
+        `на баланс возвращено ${formatMoney(closed.returnedAmount, closed.plan.company.baseCurrency)}`,
+    );
+
+    return closed.returnedAmount;
+  }
+
+  private describeInspectionCharge(charge: InspectionCharge): string {
+    const { newDamages, damageCharge, fuelShortfall, fuelCharge } =
+      charge.comparison;
+    const parts: string[] = [];
+
+    if (damageCharge.gt(0)) {
+      parts.push(
+        `новые повреждения (${newDamages.length}) - ${damageCharge.toFixed(2)}`,
+      );
+    }
+
+    if (fuelCharge.gt(0)) {
+      parts.push(
+        `недолив топлива ${fuelShortfall}% - ${fuelCharge.toFixed(2)}`,
+      );
+    }
+
+    return `Начисление по акту возврата автомобиля: ${parts.join(', ')}`;
+  }
+
+  /**
+   * Долг водителя сначала относится на неоплаченные штрафы контракта, остальное - на аренду.
+   * Баланс общий для всех контрактов водителя, поэтому зачитывается весь долг,
+   * включая остаток плана погашения (repaymentPlanDebt уже входит в balanceBefore).
+   * pendingFines - штрафы, еще не записанные платежами (начисления по актам в предпросмотре)
+   */
+  private async buildStatement(
+    client: Prisma.TransactionClient,
+    contract: SettlementContract,
+    endDate: Date,
+    rentCharged: Prisma.Decimal,
+    rentCredited: Prisma.Decimal,
+    balanceBefore: Prisma.Decimal,
+    inspectionCharged: Prisma.Decimal,
+    repaymentPlanDebt: Prisma.Decimal,
+    pendingFines: Prisma.Decimal = new Prisma.Decimal(0),
+  ): Promise<ContractSettlementStatement> {
+    const fines = await client.payment.aggregate({
+      where: {
+        contractId: contract.id,
+        type: PaymentType.FINE,
+        status: PaymentStatus.SUCCEEDED,
+      },
+      _sum: { amount: true },
+    });
+
+    const zero = new Prisma.Decimal(0);
+    const debt = balanceBefore.isNegative() ? balanceBefore.neg() : zero;
+    const finesOwed = Prisma.Decimal.min(
+      debt,
+      (fines._sum.amount ?? zero).add(pendingFines),
+    );
+    const depositUsed = Prisma.Decimal.min(debt, contract.deposit);
+
+    return {
+      contractId: contract.id,
+      endDate,
+      rentCharged: rentCharged.toNumber(),
+      rentCredited: rentCredited.toNumber(),
+      balanceBefore: balanceBefore.toNumber(),
+      rentOwed: debt.sub(finesOwed).toNumber(),
+      finesOwed: finesOwed.toNumber(),
+      inspectionCharged: inspectionCharged.toNumber(),
+      repaymentPlanDebt: repaymentPlanDebt.toNumber(),
+      deposit: contract.deposit.toNumber(),
+      depositUsed: depositUsed.toNumber(),
+      refunded: contract.deposit.sub(depositUsed).toNumber(),
+      remainingDebt: debt.sub(depositUsed).toNumber(),
+      balanceAfter: balanceBefore.add(depositUsed).toNumber(),
+    };
+  }
+}
@@ -0,0 +1,227 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  Contract,
+  ContractStatus,
+  Prisma,
+  VehicleStatus,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  getLocalDate,
+  toDateOnly,
+} from '../billing/common/utils/billing-date.util';
+import { SwapVehicleDto } from './dto/swap-vehicle.dto';
+import { ContractVehicleSwappedEvent } from './events/contract.events';
+
+const assignmentInclude = {
+  vehicle: {
+    select: { id: true, brand: true, model: true, plateNumber: true },
+  },
+  createdBy: { select: { id: true, firstName: true, lastName: true } },
+} satisfies Prisma.ContractVehicleAssignmentInclude;
+
+/**
+ * Автомобили контракта: история закреплений и замена автомобиля без расторжения контракта.
+ * Депозит, баланс, условия и история списаний остаются на том же контракте
+ */
+@Injectable()
+export class ContractVehicleService {
+  private readonly logger = new Logger(ContractVehicleService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Первое закрепление - автомобиль, с которым создан контракт. Вызывается в транзакции создания контракта
+   */
+  async recordInitialAssignment(
+    tx: Prisma.TransactionClient,
+    contract: { id: string; vehicleId: string; startDate: Date },
+    timeZone: string,
+    createdById: string,
+  ) {
+    return tx.contractVehicleAssignment.create({
+      data: {
+        contractId: contract.id,
+        vehicleId: contract.vehicleId,
+        fromDay: toDateOnly(getLocalDate(contract.startDate, timeZone)),
+        createdById,
+      },
+    });
+  }
+
+  /**
+   * Перенос начала запланированного контракта: первое закрепление - с нового дня начала.
+   * Вызывается в транзакции изменения контракта
+   */
+  async rescheduleInitialAssignment(
+    tx: Prisma.TransactionClient,
+    contractId: string,
+    startDay: string,
+  ) {
+    const assignments = await tx.contractVehicleAssignment.count({
+      where: { contractId },
+    });
+
+    if (assignments > 1) {
+      throw new BadRequestException(
+        'Start date cannot be changed after the vehicle was swapped',
+      );
+    }
+
+    await tx.contractVehicleAssignment.updateMany({
+      where: { contractId },
+      data: { fromDay: toDateOnly(startDay) },
+    });
+  }
+
+  async findAll(contractId: string) {
+    return this.prisma.contractVehicleAssignment.findMany({
+      where: { contractId },
+      include: assignmentInclude,
+      orderBy: [{ fromDay: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Замена автомобиля: прежний уходит в ремонт или освобождается, новый сдается в аренду.
+   * С сегодняшнего дня (по часовому поясу компании) аренда относится к новому автомобилю
+   */
+  async swap(
+    contract: Contract,
+    swapVehicleDto: SwapVehicleDto,
+    changedById: string,
+  ) {
+    const {
+      vehicleId,
+      releasedStatus = VehicleStatus.MAINTENANCE,
+      reason,
+    } = swapVehicleDto;
+
+    if (
+      contract.status !== ContractStatus.ACTIVE &&
+      contract.status !== ContractStatus.SUSPENDED
+    ) {
+      throw new BadRequestException(
+        `Cannot swap vehicle on a ${contract.status.toLowerCase()} contract`,
+      );
+    }
+
+    if (vehicleId === contract.vehicleId) {
+      throw new BadRequestException('The contract already uses this vehicle');
+    }
+
+    const vehicle = await this.prisma.vehicle.findUnique({
+      where: { id: vehicleId },
+      include: { contracts: { where: { status: ContractStatus.ACTIVE } } },
+    });
+
+    if (!vehicle) {
+      throw new NotFoundException('Vehicle not found');
+    }
+
+    if (vehicle.companyId !== contract.companyId) {
+      throw new BadRequestException('Vehicle does not belong to this company');
+    }
+
+    if (vehicle.contracts.length > 0) {
+      throw new ConflictException('Vehicle already has an active contract');
+    }
+
+    const company = await this.prisma.company.findUniqueOrThrow({
+      where: { id: contract.companyId },
+      select: { timezone: true },
+    });
+    const swapDay = toDateOnly(getLocalDate(new Date(), company.timezone));
+
+    const assignment = await this.prisma.$transaction(async (tx) => {
+      // Новый автомобиль занимается только если он все еще свободен
+      const { count: taken } = await tx.vehicle.updateMany({
+        where: { id: vehicleId, status: VehicleStatus.AVAILABLE },
+        data: { status: VehicleStatus.RENTED },
+      });
+
+      if (taken === 0) {
+        throw new ConflictException('Vehicle is not available for rent');
+      }
+
+      // Параллельная замена уже сменила автомобиль контракта
+      const { count: swapped } = await tx.contract.updateMany({
+        where: { id: contract.id, vehicleId: contract.vehicleId },
+        data: { vehicleId },
+      });
+
+      if (swapped === 0) {
+        throw new ConflictException(
+          'Contract vehicle was changed concurrently, please retry',
+        );
+      }
+
+      await tx.vehicle.update({
+        where: { id: contract.vehicleId },
+        data: { status: releasedStatus },
+      });
+
+      const { count: closed } = await tx.contractVehicleAssignment.updateMany({
+        where: { contractId: contract.id, toDay: null },
+        data: { toDay: swapDay, releasedStatus },
+      });
+
+      // Контракт без истории закреплений: прежний автомобиль - с начала контракта
+      if (closed === 0) {
+        await tx.contractVehicleAssignment.create({
+          data: {
+            contractId: contract.id,
+            vehicleId: contract.vehicleId,
+            fromDay: toDateOnly(
+              getLocalDate(contract.startDate, company.timezone),
+            ),
+            toDay: swapDay,
+            releasedStatus,
+          },
+        });
+      }
+
+      return tx.contractVehicleAssignment.create({
+        data: {
+          contractId: contract.id,
+          vehicleId,
+          fromDay: swapDay,
+          reason,
+          createdById: changedById,
+        },
+        include: assignmentInclude,
+      });
+    });
+
+    this.logger.log(
+      `🔁 Контракт ${contract.id}: автомобиль ${contract.vehicleId} заменен на ${vehicleId} ` +
+        `(прежний - ${releasedStatus})${reason ? `, причина: ${reason}` : ''}`,
+    );
+
+    this.eventEmitter.emit(
+      'contract.vehicle.swapped',
+      new ContractVehicleSwappedEvent(
+        contract.id,
+        contract.companyId,
+        contract.driverId,
+        contract.vehicleId,
+        vehicleId,
+        releasedStatus,
+        reason ?? null,
+        changedById,
+      ),
+    );
+
+    return assignment;
+  }
+}
@@ -14,6 +14,8 @@ import { ContractService } from './contract.service';
 import { CreateContractDto } from './dto/create-contract.dto';
 import { UpdateContractDto } from './dto/update-contract.dto';
 import { UpdateStatusDto } from './dto/update-status.dto';
+import { CreateContractAmendmentDto } from './dto/create-contract-amendment.dto';
+import { SwapVehicleDto } from './dto/swap-vehicle.dto';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { User, CurrentUser } from '../auth/decorators/current-user.decorator';
 import { UserRole, ContractStatus } from '@prisma/client';
@@ -68,11 +70,66 @@ export class ContractController {
     return this.contractService.findOne(id, user);
   }
 
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @Get(':id/settlement/preview')
+  previewSettlement(
+    @Param('id') id: string,
+    @User() user: CurrentUser,
+    @Query('endDate') endDate?: string,
+  ) {
+    return this.contractService.previewSettlement(id, user, endDate);
+  }
+
+  @Get(':id/settlement')
+  getSettlement(@Param('id') id: string, @User() user: CurrentUser) {
+    return this.contractService.getSettlement(id, user);
+  }
+
   @Get(':id/stats')
   getStats(@Param('id') id: string, @User() user: CurrentUser) {
     return this.contractService.getContractStats(id, user);
   }
 
+  // Журнал смены статусов: кто, когда и почему
+  @Get(':id/status-history')
+  getStatusHistory(@Param('id') id: string, @User() user: CurrentUser) {
+    return this.contractService.getStatusHistory(id, user);
+  }
+
+  @Get(':id/amendments')
+  getAmendments(@Param('id') id: string, @User() user: CurrentUser) {
+    return this.contractService.getAmendments(id, user);
+  }
+
+  // Изменение ставки с даты вступления в силу (история условий сохраняется)
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @Post(':id/amendments')
+  @HttpCode(HttpStatus.CREATED)
+  amend(
+    @Param('id') id: string,
+    @Body() createContractAmendmentDto: CreateContractAmendmentDto,
+    @User() user: CurrentUser,
+  ) {
+    return this.contractService.amend(id, createContractAmendmentDto, user);
+  }
+
+  @Get(':id/vehicles')
+  getVehicleAssignments(@Param('id') id: string, @User() user: CurrentUser) {
+    return this.contractService.getVehicleAssignments(id, user);
+  }
+
+  // Замена автомобиля без расторжения контракта (депозит и баланс сохраняются)
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @Post(':id/swap-vehicle')
+  @HttpCode(HttpStatus.OK)
+  swapVehicle(
+    @Param('id') id: string,
+    @Body() swapVehicleDto: SwapVehicleDto,
+    @User() user: CurrentUser,
+  ) {
+    return this.contractService.swapVehicle(id, swapVehicleDto, user);
+  }
+
   @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
   @Patch(':id')
   update(
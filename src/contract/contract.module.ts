@@ -1,12 +1,34 @@
 import { Module } from '@nestjs/common';
 import { ContractService } from './contract.service';
+import { ContractSettlementService } from './contract-settlement.service';
+import { ContractAmendmentService } from './contract-amendment.service';
+import { ContractVehicleService } from './contract-vehicle.service';
+import { ContractSchedulerService } from './contract-scheduler.service';
 import { ContractController } from './contract.controller';
+import { ContractEventListener } from './listeners/contract.listener';
 import { PrismaModule } from '../prisma/prisma.module';
+import { BillingModule } from '../billing/billing.module';
+import { RepaymentPlanModule } from '../repayment-plan/repayment-plan.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { InspectionModule } from '../inspection/inspection.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [
+    PrismaModule,
+    BillingModule,
+    LedgerModule,
+    InspectionModule,
+    RepaymentPlanModule,
+  ],
   controllers: [ContractController],
-  providers: [ContractService],
+  providers: [
+    ContractService,
+    ContractSettlementService,
+    ContractAmendmentService,
+    ContractVehicleService,
+    ContractSchedulerService,
+    ContractEventListener,
+  ],
   exports: [ContractService],
 })
 export class ContractModule {}
\ No newline at end of file
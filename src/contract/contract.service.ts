@@ -6,14 +6,54 @@ import {
   ForbiddenException 
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { ContractSettlementService } from './contract-settlement.service';
+import { ContractAmendmentService } from './contract-amendment.service';
+import { ContractVehicleService } from './contract-vehicle.service';
+import { LedgerService } from '../ledger/ledger.service';
 import { CreateContractDto } from './dto/create-contract.dto';
 import { UpdateContractDto } from './dto/update-contract.dto';
 import { UpdateStatusDto } from './dto/update-status.dto';
-import { UserRole, ContractStatus, VehicleStatus, PaymentType } from '@prisma/client';
+import { CreateContractAmendmentDto } from './dto/create-contract-amendment.dto';
+import { SwapVehicleDto } from './dto/swap-vehicle.dto';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  Contract,
+  Prisma,
+  UserRole,
+  ContractStatus,
+  VehicleStatus,
+  PaymentType,
+  PaymentStatus,
+  BillingCycle,
+  StatusChangeSource,
+  LedgerAccountType,
+  LedgerTransactionType,
+} from '@prisma/client';
+import { getLocalDate } from '../billing/common/utils/billing-date.util';
+import { getDefaultAnchorDay } from '../billing/common/utils/billing-cycle.util';
+import { moneyToNumber, percentOf } from '../currency/utils/money.util';
+import { ContractStatusChangedEvent } from './events/contract.events';
+import { StatusTransition } from './interfaces/contract.interface';
+import {
+  assertContractTransition,
+  isFinalContractStatus,
+} from './utils/contract-status.util';
+
+type ContractForTransition = Prisma.ContractGetPayload<{
+  include: { driver: true; vehicle: true };
+}>;
 
 @Injectable()
 export class ContractService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private contractSettlementService: ContractSettlementService,
+    private contractAmendmentService: ContractAmendmentService,
+    private contractVehicleService: ContractVehicleService,
+    private ledgerService: LedgerService,
+    private eventEmitter: EventEmitter2,
+  ) {}
 
   async create(createContractDto: CreateContractDto, currentUser: any) {
     const { 
@@ -21,9 +61,11 @@ export class ContractService {
       vehicleId, 
       dailyRate, 
       deposit, 
+      billingCycle = BillingCycle.DAILY,
+      billingAnchorDay,
+      cycleAmount,
       startDate, 
       endDate, 
-      status, 
       description,
       companyId 
     } = createContractDto;
@@ -46,7 +88,13 @@ export class ContractService {
     // Проверяем существование и доступность водителя
     const driver = await this.prisma.driver.findUnique({
       where: { id: driverId },
-      include: { contracts: { where: { status: ContractStatus.ACTIVE } } },
+      include: {
+        contracts: {
+          where: {
+            status: { in: [ContractStatus.ACTIVE, ContractStatus.SCHEDULED] },
+          },
+        },
+      },
     });
 
     if (!driver) {
@@ -61,9 +109,11 @@ export class ContractService {
       throw new BadRequestException('Driver does not belong to this company');
     }
 
-    // Проверяем, нет ли у водителя активных контрактов
+    // Проверяем, нет ли у водителя активных или запланированных контрактов
     if (driver.contracts.length > 0) {
-      throw new ConflictException('Driver already has an active contract');
+      throw new ConflictException(
+        'Driver already has an active or scheduled contract',
+      );
     }
 
     // Проверяем существование и доступность автомобиля
@@ -101,6 +151,37 @@ export class ContractService {
       throw new BadRequestException('End date must be after start date');
     }
 
+    // Валидация цикла списания
+    if (billingCycle !== BillingCycle.DAILY && !cycleAmount) {
+      throw new BadRequestException(
+        'Cycle amount is required for weekly and monthly billing cycles',
+      );
+    }
+
+    if (
+      billingCycle === BillingCycle.WEEKLY &&
+      billingAnchorDay &&
+      billingAnchorDay > 7
+    ) {
+      throw new BadRequestException(
+        'Anchor day for weekly billing cycle must be between 1 and 7',
+      );
+    }
+
+    // Якорный день по умолчанию - день начала контракта в часовом поясе компании
+    const company = await this.prisma.company.findUniqueOrThrow({
+      where: { id: targetCompanyId },
+      select: { timezone: true, baseCurrency: true },
+    });
+    const anchorDay =
+      billingCycle === BillingCycle.DAILY
+        ? null
+        : (billingAnchorDay ??
+          getDefaultAnchorDay(
+            billingCycle,
+            getLocalDate(start, company.timezone),
+          ));
+
     // Проверяем депозит водителя (должен покрывать требуемый депозит)
     if (deposit && Number(driver.deposit) < deposit) {
       throw new BadRequestException(
@@ -118,10 +199,17 @@ export class ContractService {
           vehicleId,
           dailyRate,
           deposit: deposit || 0,
+          billingCycle,
+          billingAnchorDay: anchorDay,
+          cycleAmount: billingCycle === BillingCycle.DAILY ? null : cycleAmount,
           startDate: start,
           endDate: end,
-          status: status || ContractStatus.ACTIVE,
+          // Аренда начинается в startDate: до этого контракт не списывается,
+          // активацию выполняет планировщик
+          status: ContractStatus.SCHEDULED,
           description,
+          // Аренда списывается с баланса водителя, который ведется в базовой валюте компании
+          currency: company.baseCurrency,
           companyId: targetCompanyId,
         },
         include: {
@@ -156,33 +244,84 @@ export class ContractService {
         },
       });
 
-      // Обновляем статус автомобиля на RENTED
-      await tx.vehicle.update({
-        where: { id: vehicleId },
-        data: { status: VehicleStatus.RENTED },
+      await this.contractAmendmentService.recordInitialTerms(
+        tx,
+        contract,
+        company.timezone,
+        currentUser.id,
+      );
+      await this.contractVehicleService.recordInitialAssignment(
+        tx,
+        contract,
+        company.timezone,
+        currentUser.id,
+      );
+
+      await tx.contractStatusHistory.create({
+        data: {
+          contractId: contract.id,
+          toStatus: contract.status,
+          source: StatusChangeSource.USER,
+          changedById: currentUser.id,
+        },
       });
 
+      // Автомобиль резервируется до начала аренды
+      const { count: reserved } = await tx.vehicle.updateMany({
+        where: { id: vehicleId, status: VehicleStatus.AVAILABLE },
+        data: { status: VehicleStatus.RESERVED },
+      });
+
+      if (reserved === 0) {
+        throw new ConflictException('Vehicle is not available for rent');
+      }
+
       // Блокируем депозит (уменьшаем доступный депозит водителя)
       if (deposit && deposit > 0) {
-        const newDepositBalance = Number(driver.deposit) - deposit;
-        
-        await tx.driver.update({
-          where: { id: driverId },
-          data: { deposit: newDepositBalance },
-        });
+        const description = `Deposit blocked for contract ${contract.id}`;
 
         // Создаем запись о блокировке депозита
-        await tx.payment.create({
+        const payment = await tx.payment.create({
           data: {
             amount: deposit,
+            currency: contract.currency,
             type: PaymentType.DEPOSIT,
-            description: `Deposit blocked for contract ${contract.id}`,
+            description,
             driverId,
             contractId: contract.id,
             companyId: targetCompanyId,
             createdById: currentUser.id,
           },
         });
+
+        await this.ledgerService.post(tx, {
+          type: LedgerTransactionType.DEPOSIT_BLOCK,
+          companyId: targetCompanyId,
+          driverId,
+          amount: deposit,
+          debit: LedgerAccountType.DRIVER_DEPOSIT,
+          credit: LedgerAccountType.DRIVER_DEPOSIT_BLOCKED,
+          description,
+          contractId: contract.id,
+          paymentId: payment.id,
+          createdById: currentUser.id,
+        });
+
+        // Проводка выполнена под блокировкой строки водителя: параллельное списание
+        // депозита после проверки выше не должно увести его в минус
+        const { deposit: availableDeposit } = await tx.driver.findUniqueOrThrow(
+          {
+            where: { id: driverId },
+            select: { deposit: true },
+          },
+        );
+
+        if (availableDeposit.isNegative()) {
+          throw new BadRequestException(
+            `Driver deposit is insufficient for required deposit (${deposit}). ` +
+              `Driver needs to top up deposit first.`,
+          );
+        }
       }
 
       return contract;
@@ -334,45 +473,329 @@ export class ContractService {
     // Проверка доступа
     this.checkContractAccess(contract, currentUser);
 
-    // Валидация обновлений
-    if (updateContractDto.endDate) {
-      const endDate = new Date(updateContractDto.endDate);
-      if (endDate <= contract.startDate) {
-        throw new BadRequestException('End date must be after start date');
+    // Валидация обновлений. Списания считаются от startDate, поэтому дата начала
+    // переносится только до начала аренды
+    const startDate = updateContractDto.startDate
+      ? new Date(updateContractDto.startDate)
+      : contract.startDate;
+    if (updateContractDto.startDate) {
+      if (contract.status !== ContractStatus.SCHEDULED) {
+        throw new BadRequestException(
+          'Start date can only be changed before the contract starts',
+        );
+      }
+
+      if (startDate < new Date()) {
+        throw new BadRequestException('Start date cannot be in the past');
       }
     }
 
+    const endDate = updateContractDto.endDate
+      ? new Date(updateContractDto.endDate)
+      : contract.endDate;
+    if (
+      (updateContractDto.endDate || updateContractDto.startDate) &&
+      endDate &&
+      endDate <= startDate
+    ) {
+      throw new BadRequestException('End date must be after start date');
+    }
+
+    // Ставка не перезаписывается: изменение условий оформляется поправкой,
+    // вступающей в силу с первого еще не списанного дня. Поправка и остальные
+    // изменения записываются в одной транзакции, срок поправки - по новой дате окончания
+    const { dailyRate, cycleAmount, ...data } = updateContractDto;
+    const amendsTerms = dailyRate !== undefined || cycleAmount !== undefined;
+
     try {
-      return await this.prisma.contract.update({
-        where: { id },
-        data: updateContractDto,
-        include: {
-          driver: {
-            select: {
-              id: true,
-              firstName: true,
-              lastName: true,
-              email: true,
-            },
+      const { updated, amendment } = await this.prisma.$transaction(
+        async (tx) => {
+          const amendment = amendsTerms
+            ? await this.contractAmendmentService.createAmendment(
+                tx,
+                { ...contract, endDate },
+                { dailyRate, cycleAmount },
+                currentUser.id,
+              )
+            : null;
+
+          if (updateContractDto.startDate) {
+            await this.rescheduleStart(tx, contract, startDate);
+          }
+
+        const updated = await tx.contract.update({
+          where: { id },
+          data: {
+            ...data,
+            // Новый срок - новое напоминание об окончании
+            ...(data.endDate !== undefined && { expiryReminderSentAt: null }),
+            // Планировщик повторит неудавшуюся смену статуса с новыми данными
+            scheduleFailedAt: null,
+            scheduleFailureReason: null,
           },
-          vehicle: {
-            select: {
-              id: true,
-              brand: true,
-              model: true,
-              plateNumber: true,
+          include: {
+            driver: {
+              select: {
+                id: true,
+                firstName: true,
+                lastName: true,
+                email: true,
+              },
+            },
+            vehicle: {
+              select: {
+                id: true,
+                brand: true,
+                model: true,
+                plateNumber: true,
+              },
             },
           },
-        },
+        });
+
+        return { updated, amendment };
       });
+
+      if (amendment) {
+        this.contractAmendmentService.publishAmendment(
+          contract,
+          amendment,
+          currentUser.id,
+        );
+      }
+
+      return updated;
     } catch (error) {
+      // Параллельная поправка заняла тот же номер версии
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          'Contract terms were changed concurrently, please retry',
+        );
+      }
       throw error;
     }
   }
 
+  /**
+   * Перенос даты начала запланированного контракта: условия версии 1 и первое закрепление
+   * автомобиля начинаются с нового дня. Статус проверяется под записью: планировщик
+   * мог активировать контракт после проверки
+   */
+  private async rescheduleStart(
+    tx: Prisma.TransactionClient,
+    contract: Contract,
+    startDate: Date,
+  ) {
+    const { count } = await tx.contract.updateMany({
+      where: { id: contract.id, status: ContractStatus.SCHEDULED },
+      data: { startDate },
+    });
+
+    if (count === 0) {
+      throw new ConflictException('Contract has already started');
+    }
+
+    const company = await tx.company.findUniqueOrThrow({
+      where: { id: contract.companyId },
+      select: { timezone: true },
+    });
+    const startDay = getLocalDate(startDate, company.timezone);
+
+    await this.contractAmendmentService.rescheduleInitialTerms(
+      tx,
+      contract.id,
+      startDay,
+    );
+    await this.contractVehicleService.rescheduleInitialAssignment(
+      tx,
+      contract.id,
+      startDay,
+    );
+  }
+
+  async getAmendments(id: string, currentUser: CurrentUser) {
+    const contract = await this.prisma.contract.findUnique({ where: { id } });
+
+    if (!contract) {
+      throw new NotFoundException(`Contract with ID ${id} not found`);
+    }
+
+    this.checkContractAccess(contract, currentUser);
+
+    return this.contractAmendmentService.findAll(id);
+  }
+
+  async amend(
+    id: string,
+    createContractAmendmentDto: CreateContractAmendmentDto,
+    currentUser: CurrentUser,
+  ) {
+    const contract = await this.prisma.contract.findUnique({ where: { id } });
+
+    if (!contract) {
+      throw new NotFoundException(`Contract with ID ${id} not found`);
+    }
+
+    this.checkContractAccess(contract, currentUser);
+
+    return this.contractAmendmentService.amend(
+      contract,
+      createContractAmendmentDto,
+      currentUser.id,
+    );
+  }
+
+  async getVehicleAssignments(id: string, currentUser: CurrentUser) {
+    const contract = await this.prisma.contract.findUnique({ where: { id } });
+
+    if (!contract) {
+      throw new NotFoundException(`Contract with ID ${id} not found`);
+    }
+
+    this.checkContractAccess(contract, currentUser);
+
+    return this.contractVehicleService.findAll(id);
+  }
+
+  async swapVehicle(
+    id: string,
+    swapVehicleDto: SwapVehicleDto,
+    currentUser: CurrentUser,
+  ) {
+    const contract = await this.prisma.contract.findUnique({ where: { id } });
+
+    if (!contract) {
+      throw new NotFoundException(`Contract with ID ${id} not found`);
+    }
+
+    this.checkContractAccess(contract, currentUser);
+
+    return this.contractVehicleService.swap(
+      contract,
+      swapVehicleDto,
+      currentUser.id,
+    );
+  }
+
   async updateStatus(id: string, updateStatusDto: UpdateStatusDto, currentUser: any) {
     const { status, reason, endDate } = updateStatusDto;
 
+    const contract = await this.findContractForTransition(id);
+
+    // Проверка доступа
+    this.checkContractAccess(contract, currentUser);
+
+    return this.transitionStatus(contract, {
+      status,
+      reason,
+      endDate,
+      source: StatusChangeSource.USER,
+      changedById: currentUser.id,
+    });
+  }
+
+  /**
+   * Смена статуса системой (политика задолженности, планировщик).
+   * Использует ту же логику перехода, что и ручная смена статуса
+   */
+  async changeStatusBySystem(
+    id: string,
+    status: ContractStatus,
+    reason: string,
+  ) {
+    const contract = await this.findContractForTransition(id);
+
+    return this.transitionStatus(contract, {
+      status,
+      reason,
+      source: StatusChangeSource.SYSTEM,
+      changedById: null,
+    });
+  }
+
+  /**
+   * Предпросмотр расчета при завершении контракта: долг по аренде и штрафам,
+   * зачет депозита и сумма к возврату. Ничего не изменяет
+   */
+  async previewSettlement(
+    id: string,
+    currentUser: CurrentUser,
+    endDate?: string,
+  ) {
+    const contract = await this.findContractForTransition(id);
+
+    this.checkContractAccess(contract, currentUser);
+
+    // Запланированный контракт только отменяется: аренды не было, в расчете - депозит и долг водителя
+    const finalStatus =
+      contract.status === ContractStatus.SCHEDULED
+        ? ContractStatus.TERMINATED
+        : ContractStatus.COMPLETED;
+    assertContractTransition(contract.status, finalStatus);
+
+    if (endDate && isNaN(new Date(endDate).getTime())) {
+      throw new BadRequestException(
+        'endDate must be a valid ISO 8601 date string',
+      );
+    }
+
+    const effectiveEndDate = this.getEffectiveEndDate(contract, true, endDate);
+
+    return this.contractSettlementService.preview(contract, effectiveEndDate!);
+  }
+
+  async getSettlement(id: string, currentUser: CurrentUser) {
+    const contract = await this.findOne(id, currentUser);
+
+    const settlement = await this.prisma.contractSettlement.findUnique({
+      where: { contractId: contract.id },
+      include: {
+        createdBy: {
+          select: { id: true, firstName: true, lastName: true },
+        },
+      },
+    });
+
+    if (!settlement) {
+      throw new NotFoundException(`Settlement for contract ${id} not found`);
+    }
+
+    return settlement;
+  }
+
+  /**
+   * При завершении фиксируем фактический момент окончания аренды
+   */
+  private getEffectiveEndDate(
+    contract: ContractForTransition,
+    isFinalStatus: boolean,
+    endDate?: string,
+  ) {
+    // Отмена до начала аренды: аренды не было, списывать нечего
+    if (isFinalStatus && contract.status === ContractStatus.SCHEDULED) {
+      return contract.startDate;
+    }
+
+    if (endDate && new Date(endDate) <= contract.startDate) {
+      throw new BadRequestException('End date must be after start date');
+    }
+
+    let effectiveEndDate = endDate ? new Date(endDate) : contract.endDate;
+    if (
+      isFinalStatus &&
+      !endDate &&
+      (!effectiveEndDate || effectiveEndDate > new Date())
+    ) {
+      effectiveEndDate = new Date();
+    }
+
+    return effectiveEndDate;
+  }
+
+  private async findContractForTransition(id: string) {
     const contract = await this.prisma.contract.findUnique({
       where: { id },
       include: {
@@ -385,28 +808,79 @@ export class ContractService {
       throw new NotFoundException(`Contract with ID ${id} not found`);
     }
 
-    // Проверка доступа
-    this.checkContractAccess(contract, currentUser);
+    return contract;
+  }
+
+  /**
+   * Переход контракта в новый статус по графу статусов (contract-status.util):
+   * условия перехода и статус автомобиля, финальный перерасчет, возврат депозита,
+   * запись в журнал статусов и событие contract.status.changed
+   */
+  private async transitionStatus(
+    contract: ContractForTransition,
+    transition: StatusTransition,
+  ) {
+    const { id } = contract;
+    const { status, reason, endDate, source, changedById = null } = transition;
 
     // Валидация изменения статуса
-    if (contract.status === ContractStatus.COMPLETED) {
-      throw new BadRequestException('Cannot change status of completed contract');
-    }
+    assertContractTransition(contract.status, status);
 
-    if (contract.status === ContractStatus.TERMINATED) {
-      throw new BadRequestException('Cannot change status of terminated contract');
-    }
+    const isFinalStatus = isFinalContractStatus(status);
+    const effectiveEndDate = this.getEffectiveEndDate(
+      contract,
+      isFinalStatus,
+      endDate,
+    );
+
+    const now = new Date();
 
     // Выполняем транзакцию для обновления статуса
-    return this.prisma.$transaction(async (tx) => {
-      // Обновляем контракт
-      const updatedContract = await tx.contract.update({
-        where: { id },
+    const result = await this.prisma.$transaction(async (tx) => {
+      // Переход выполняется из прочитанного статуса: параллельная смена
+      // (планировщик, политика задолженности) не перезаписывается
+      const { count } = await tx.contract.updateMany({
+        where: { id, status: contract.status },
         data: { 
           status,
-          endDate: endDate ? new Date(endDate) : contract.endDate,
-          updatedAt: new Date(),
+          endDate: effectiveEndDate,
+          statusReason: reason ?? null,
+          statusChangedAt: now,
+          statusChangeSource: source,
+          statusChangedById: changedById,
+          scheduleFailedAt: null,
+          scheduleFailureReason: null,
+          // Дни приостановки не списываются: списание продолжается с момента возобновления
+          ...(contract.status === ContractStatus.SUSPENDED &&
+            status === ContractStatus.ACTIVE && {
+              billingResumedAt: now,
+            }),
+          updatedAt: now,
         },
+      });
+
+      if (count === 0) {
+        throw new ConflictException(
+          'Contract status was changed concurrently, please retry',
+        );
+      }
+
+      await this.applyVehicleTransition(tx, contract, status);
+
+      await tx.contractStatusHistory.create({
+        data: {
+          contractId: id,
+          fromStatus: contract.status,
+          toStatus: status,
+          reason,
+          source,
+          changedById,
+          createdAt: now,
+        },
+      });
+
+      const updatedContract = await tx.contract.findUniqueOrThrow({
+        where: { id },
         include: {
           driver: {
             select: {
@@ -427,49 +901,114 @@ export class ContractService {
         },
       });
 
-      // Обновляем статус автомобиля в зависимости от статуса контракта
-      let vehicleStatus: VehicleStatus;
-      
-      if (status === ContractStatus.ACTIVE) {
-        vehicleStatus = VehicleStatus.RENTED;
-      } else if (status === ContractStatus.COMPLETED || status === ContractStatus.TERMINATED) {
-        vehicleStatus = VehicleStatus.AVAILABLE;
-      } else {
-        vehicleStatus = contract.vehicle.status; // Не меняем статус для SUSPENDED
+      // Финальный перерасчет аренды, зачет депозита в счет долга и возврат остатка
+      if (isFinalStatus) {
+        const settlement = await this.contractSettlementService.settle(
+          tx,
+          contract,
+          effectiveEndDate!,
+          changedById,
+          reason,
+        );
+
+        return { ...updatedContract, settlement };
       }
 
-      await tx.vehicle.update({
-        where: { id: contract.vehicleId },
-        data: { status: vehicleStatus },
-      });
+      return updatedContract;
+    });
 
-      // Возвращаем депозит при завершении контракта
-      if ((status === ContractStatus.COMPLETED || status === ContractStatus.TERMINATED) && 
-          Number(contract.deposit) > 0) {
-        
-        // Возвращаем депозит (увеличиваем доступный депозит)
-        const newDepositBalance = Number(contract.driver.deposit) + Number(contract.deposit);
-        
-        await tx.driver.update({
-          where: { id: contract.driverId },
-          data: { deposit: newDepositBalance },
-        });
+    this.eventEmitter.emit(
+      'contract.status.changed',
+      new ContractStatusChangedEvent(
+        id,
+        contract.companyId,
+        contract.driverId,
+        contract.status,
+        status,
+        source,
+        reason ?? null,
+        changedById,
+      ),
+    );
 
-        // Создаем запись о возврате депозита
-        await tx.payment.create({
-          data: {
-            amount: Number(contract.deposit),
-            type: PaymentType.REFUND,
-            description: `Deposit unblocked for contract ${id}. Reason: ${reason || 'Contract ended'}`,
-            driverId: contract.driverId,
-            contractId: id,
-            companyId: contract.companyId,
-            createdById: currentUser.id,
+    return result;
+  }
+
+  /**
+   * Условия перехода, зависящие от автомобиля, и его новый статус:
+   * - активация и возобновление: водитель активен, автомобиль не занят другим контрактом
+   *   и не выведен из эксплуатации (запланированный контракт забирает свой резерв);
+   * - завершение и расторжение: автомобиль освобождается, если его не занял другой контракт;
+   * - приостановка: автомобиль остается за водителем
+   */
+  private async applyVehicleTransition(
+    tx: Prisma.TransactionClient,
+    contract: ContractForTransition,
+    status: ContractStatus,
+  ) {
+    const occupied = await tx.contract.count({
+      where: {
+        vehicleId: contract.vehicleId,
+        id: { not: contract.id },
+        status: { in: [ContractStatus.ACTIVE, ContractStatus.SCHEDULED] },
+      },
+    });
+
+    if (status === ContractStatus.ACTIVE) {
+      if (!contract.driver.isActive) {
+        throw new BadRequestException('Driver is not active');
+      }
+
+      if (occupied > 0) {
+        throw new ConflictException('Vehicle is used by another contract');
+      }
+
+      const { count } = await tx.vehicle.updateMany({
+        where: {
+          id: contract.vehicleId,
+          status: {
+            in:
+              contract.status === ContractStatus.SCHEDULED
+                ? [VehicleStatus.RESERVED]
+                : [VehicleStatus.RENTED, VehicleStatus.AVAILABLE],
           },
-        });
+        },
+        data: { status: VehicleStatus.RENTED },
+      });
+
+      if (count === 0) {
+        throw new ConflictException('Vehicle is not available for rent');
       }
+      return;
+    }
 
-      return updatedContract;
+    // Автомобиль в ремонте остается в ремонте
+    if (isFinalContractStatus(status) && occupied === 0) {
+      await tx.vehicle.updateMany({
+        where: {
+          id: contract.vehicleId,
+          status: { in: [VehicleStatus.RENTED, VehicleStatus.RESERVED] },
+        },
+        data: { status: VehicleStatus.AVAILABLE },
+      });
+    }
+  }
+
+  async getStatusHistory(id: string, currentUser: CurrentUser) {
+    const contract = await this.prisma.contract.findUnique({ where: { id } });
+
+    if (!contract) {
+      throw new NotFoundException(`Contract with ID ${id} not found`);
+    }
+
+    this.checkContractAccess(contract, currentUser);
+
+    return this.prisma.contractStatusHistory.findMany({
+      where: { contractId: id },
+      include: {
+        changedBy: { select: { id: true, firstName: true, lastName: true } },
+      },
+      orderBy: { createdAt: 'desc' },
     });
   }
 
@@ -488,9 +1027,15 @@ export class ContractService {
     // Проверка доступа
     this.checkContractAccess(contract, currentUser);
 
-    // Можно удалять только неактивные контракты
-    if (contract.status === ContractStatus.ACTIVE) {
-      throw new BadRequestException('Cannot delete active contract');
+    // Можно удалять только неактивные контракты.
+    // Запланированный контракт держит резерв автомобиля - его нужно отменить
+    if (
+      contract.status === ContractStatus.ACTIVE ||
+      contract.status === ContractStatus.SCHEDULED
+    ) {
+      throw new BadRequestException(
+        `Cannot delete ${contract.status.toLowerCase()} contract`,
+      );
     }
 
     // Проверяем, есть ли связанные платежи
@@ -506,11 +1051,14 @@ export class ContractService {
   async getContractStats(id: string, currentUser: any) {
     const contract = await this.findOne(id, currentUser);
 
-    const [totalPayments, totalFines, totalRent, daysActive] = await Promise.all([
+    const daysActive = this.calculateContractDays(contract);
+
+    const [totalPayments, totalFines, totalRent, expectedRent] = await Promise.all([
       this.prisma.payment.aggregate({
         where: {
           contractId: id,
           type: PaymentType.PAYMENT,
+          status: PaymentStatus.SUCCEEDED,
         },
         _sum: { amount: true },
       }),
@@ -518,6 +1066,7 @@ export class ContractService {
         where: {
           contractId: id,
           type: PaymentType.FINE,
+          status: PaymentStatus.SUCCEEDED,
         },
         _sum: { amount: true },
       }),
@@ -525,10 +1074,12 @@ export class ContractService {
         where: {
           contractId: id,
           type: PaymentType.DAILY_RENT,
+          status: PaymentStatus.SUCCEEDED,
         },
         _sum: { amount: true },
       }),
-      this.calculateContractDays(contract),
+      // Ставка за каждый день - по действовавшей в этот день версии условий
+      this.contractAmendmentService.calculateExpectedRent(contract, daysActive),
     ]);
 
     return {
@@ -538,8 +1089,8 @@ export class ContractService {
         totalPayments: totalPayments._sum.amount || 0,
         totalFines: totalFines._sum.amount || 0,
         totalRentPaid: totalRent._sum.amount || 0,
-        expectedRent: daysActive * Number(contract.dailyRate),
-        profitability: this.calculateProfitability(contract, Number(totalRent._sum.amount || 0)),
+        expectedRent: moneyToNumber(expectedRent),
+        profitability: percentOf(totalRent._sum.amount, expectedRent),
         isActive: contract.status === ContractStatus.ACTIVE,
       },
     };
@@ -556,15 +1107,6 @@ export class ContractService {
     return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
   }
 
-  private calculateProfitability(contract: any, totalRentPaid: number): number {
-    const daysActive = this.calculateContractDays(contract);
-    const expectedRent = daysActive * Number(contract.dailyRate);
-    
-    if (expectedRent === 0) return 0;
-    
-    return Math.round((totalRentPaid / expectedRent) * 100 * 100) / 100; // Округляем до 2 знаков
-  }
-
   private checkContractAccess(contract: any, currentUser: any) {
     if (currentUser.role === UserRole.SUPER_ADMIN) {
       return; // Super Admin имеет доступ ко всем контрактам
@@ -0,0 +1,38 @@
+import {
+  IsDateString,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+
+export class CreateContractAmendmentDto {
+  // Новая дневная ставка. Не указана - остается прежней
+  @IsOptional()
+  @Transform(({ value }) => parseFloat(value))
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  dailyRate?: number;
+
+  // Новая сумма за полный цикл (только для WEEKLY и MONTHLY)
+  @IsOptional()
+  @Transform(({ value }) => parseFloat(value))
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  cycleAmount?: number;
+
+  // День (в часовом поясе компании), с которого действуют новые условия.
+  // По умолчанию - сегодня или первый еще не списанный день, если он позже
+  @IsOptional()
+  @IsDateString()
+  effectiveFrom?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -1,6 +1,14 @@
-import { IsString, IsOptional, IsDateString, IsEnum, Min } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  Min,
+  Max,
+} from 'class-validator';
 import { Transform, Type } from 'class-transformer';
-import { ContractStatus } from '@prisma/client';
+import { BillingCycle } from '@prisma/client';
 
 export class CreateContractDto {
   @IsString()
@@ -20,6 +28,26 @@ export class CreateContractDto {
   @Min(0)
   deposit?: number = 0;
 
+  @IsOptional()
+  @IsEnum(BillingCycle)
+  billingCycle?: BillingCycle; // По умолчанию DAILY
+
+  // WEEKLY: день недели (1 = понедельник ... 7 = воскресенье), MONTHLY: число месяца (1-31).
+  // По умолчанию - день начала контракта
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(31)
+  billingAnchorDay?: number;
+
+  // Сумма за полный цикл (обязательна для WEEKLY и MONTHLY)
+  @IsOptional()
+  @Transform(({ value }) => parseFloat(value))
+  @Type(() => Number)
+  @Min(0.01)
+  cycleAmount?: number;
+
   @IsDateString()
   startDate: string;
 
@@ -27,10 +55,6 @@ export class CreateContractDto {
   @IsDateString()
   endDate?: string;
 
-  @IsOptional()
-  @IsEnum(ContractStatus)
-  status?: ContractStatus = ContractStatus.ACTIVE;
-
   @IsOptional()
   @IsString()
   description?: string;
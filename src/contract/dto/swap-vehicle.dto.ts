@@ -0,0 +1,17 @@
+import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { VehicleStatus } from '@prisma/client';
+
+export class SwapVehicleDto {
+  @IsString()
+  vehicleId: string; // Новый автомобиль
+
+  // Статус прежнего автомобиля после замены: в ремонт (по умолчанию) или свободен
+  @IsOptional()
+  @IsIn([VehicleStatus.MAINTENANCE, VehicleStatus.AVAILABLE])
+  releasedStatus?: VehicleStatus = VehicleStatus.MAINTENANCE;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
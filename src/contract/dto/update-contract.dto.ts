@@ -1,19 +1,22 @@
-import { PartialType } from '@nestjs/mapped-types';
-import { IsOptional, IsEnum, IsDateString } from 'class-validator';
+import { OmitType, PartialType } from '@nestjs/mapped-types';
+import { IsOptional, IsDateString } from 'class-validator';
 import { CreateContractDto } from './create-contract.dto';
-import { ContractStatus } from '@prisma/client';
 
-export class UpdateContractDto extends PartialType(CreateContractDto) {
-  // Исключаем некоторые поля из обновления
-  driverId?: never;
-  vehicleId?: never;
-  companyId?: never;
-
-  @IsOptional()
-  @IsEnum(ContractStatus)
-  status?: ContractStatus;
+// Водитель, автомобиль, компания и цикл списания после создания не меняются.
+// Депозит заблокирован проводкой журнала и изменяется только проводками
+export class UpdateContractDto extends PartialType(
+  OmitType(CreateContractDto, [
+    'driverId',
+    'vehicleId',
+    'companyId',
+    'billingCycle',
+    'billingAnchorDay',
+    'deposit',
+  ] as const),
+) {
+  status?: never; // Статус меняется только через PATCH :id/status (переходы и журнал статусов)
 
   @IsOptional()
   @IsDateString()
   endDate?: string;
-}
\ No newline at end of file
+}
@@ -0,0 +1,60 @@
+import {
+  ContractStatus,
+  StatusChangeSource,
+  VehicleStatus,
+} from '@prisma/client';
+
+export class ContractStatusChangedEvent {
+  constructor(
+    public readonly contractId: string,
+    public readonly companyId: string,
+    public readonly driverId: string,
+    public readonly previousStatus: ContractStatus,
+    public readonly status: ContractStatus,
+    public readonly source: StatusChangeSource,
+    public readonly reason: string | null,
+    public readonly changedById: string | null,
+    public readonly timestamp: Date = new Date(),
+  ) {}
+}
+
+export class ContractAmendedEvent {
+  constructor(
+    public readonly contractId: string,
+    public readonly companyId: string,
+    public readonly driverId: string,
+    public readonly amendmentId: string,
+    public readonly version: number,
+    public readonly effectiveFrom: Date,
+    public readonly previousDailyRate: number | null,
+    public readonly dailyRate: number,
+    public readonly changedById: string,
+    public readonly timestamp: Date = new Date(),
+  ) {}
+}
+
+export class ContractVehicleSwappedEvent {
+  constructor(
+    public readonly contractId: string,
+    public readonly companyId: string,
+    public readonly driverId: string,
+    public readonly previousVehicleId: string,
+    public readonly vehicleId: string,
+    public readonly releasedStatus: VehicleStatus,
+    public readonly reason: string | null,
+    public readonly changedById: string,
+    public readonly timestamp: Date = new Date(),
+  ) {}
+}
+
+export class ContractExpiringEvent {
+  constructor(
+    public readonly contractId: string,
+    public readonly companyId: string,
+    public readonly driverId: string,
+    public readonly vehicleId: string,
+    public readonly endDate: Date,
+    public readonly daysLeft: number,
+    public readonly timestamp: Date = new Date(),
+  ) {}
+}
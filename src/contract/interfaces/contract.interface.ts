@@ -0,0 +1,28 @@
+import { ContractStatus, StatusChangeSource } from '@prisma/client';
+
+// Параметры смены статуса контракта (общие для пользователя и системы)
+export interface StatusTransition {
+  status: ContractStatus;
+  reason?: string;
+  endDate?: string;
+  source: StatusChangeSource;
+  changedById?: string | null; // null - изменено системой
+}
+
+// Расчет с водителем при завершении контракта
+export interface ContractSettlementStatement {
+  contractId: string;
+  endDate: Date;
+  rentCharged: number; // Досписано при финальном перерасчете аренды
+  rentCredited: number; // Возвращено при финальном перерасчете аренды
+  balanceBefore: number; // Баланс водителя после перерасчета, до зачета депозита
+  rentOwed: number;
+  finesOwed: number;
+  inspectionCharged: number; // Начислено по актам возврата (повреждения, топливо), входит в finesOwed
+  repaymentPlanDebt: number; // Остаток активного плана погашения, возвращенный на баланс, входит в rentOwed
+  deposit: number;
+  depositUsed: number; // Зачтено в счет долга
+  refunded: number; // Возвращено в доступный депозит водителя
+  remainingDebt: number;
+  balanceAfter: number;
+}
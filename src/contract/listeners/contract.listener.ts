@@ -0,0 +1,20 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { ContractExpiringEvent } from '../events/contract.events';
+
+@Injectable()
+export class ContractEventListener {
+  private readonly logger = new Logger(ContractEventListener.name);
+
+  @OnEvent('contract.expiring')
+  handleContractExpiring(event: ContractExpiringEvent) {
+    this.logger.warn(
+      `⏰ Контракт ${event.contractId} заканчивается ${event.endDate.toISOString()} ` +
+        `(через ${event.daysLeft} дн.): Водитель ${event.driverId}, Автомобиль ${event.vehicleId}`,
+    );
+
+    // Здесь можно добавить:
+    // - SMS уведомления водителю о возврате автомобиля
+    // - Email менеджерам для продления или подготовки автомобиля
+  }
+}
@@ -0,0 +1,65 @@
+import { BadRequestException } from '@nestjs/common';
+import { ContractStatus } from '@prisma/client';
+
+/**
+ * Жизненный цикл контракта: допустимые переходы между статусами.
+ * COMPLETED и TERMINATED - финальные, из них переходов нет
+ */
+export const CONTRACT_STATUS_TRANSITIONS: Record<
+  ContractStatus,
+  readonly ContractStatus[]
+> = {
+  [ContractStatus.SCHEDULED]: [
+    ContractStatus.ACTIVE,
+    ContractStatus.TERMINATED,
+  ],
+  [ContractStatus.ACTIVE]: [
+    ContractStatus.SUSPENDED,
+    ContractStatus.COMPLETED,
+    ContractStatus.TERMINATED,
+  ],
+  [ContractStatus.SUSPENDED]: [
+    ContractStatus.ACTIVE,
+    ContractStatus.COMPLETED,
+    ContractStatus.TERMINATED,
+  ],
+  [ContractStatus.COMPLETED]: [],
+  [ContractStatus.TERMINATED]: [],
+};
+
+export function isFinalContractStatus(status: ContractStatus): boolean {
+  return CONTRACT_STATUS_TRANSITIONS[status].length === 0;
+}
+
+export function canTransitionContract(
+  from: ContractStatus,
+  to: ContractStatus,
+): boolean {
+  return CONTRACT_STATUS_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Проверка перехода по графу статусов. Условия конкретного перехода
+ * (доступность автомобиля и т.п.) проверяются при его выполнении
+ */
+export function assertContractTransition(
+  from: ContractStatus,
+  to: ContractStatus,
+): void {
+  if (from === to) {
+    throw new BadRequestException(`Contract is already ${to.toLowerCase()}`);
+  }
+
+  if (isFinalContractStatus(from)) {
+    throw new BadRequestException(
+      `Cannot change status of ${from.toLowerCase()} contract`,
+    );
+  }
+
+  if (!canTransitionContract(from, to)) {
+    const allowed = CONTRACT_STATUS_TRANSITIONS[from].join(', ');
+    throw new BadRequestException(
+      `Cannot change contract status from ${from} to ${to}. Allowed: ${allowed}`,
+    );
+  }
+}
@@ -0,0 +1,146 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  MaxFileSizeValidator,
+  Param,
+  ParseFilePipe,
+  Post,
+  Query,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { CurrencyService } from './currency.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { User, CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CompanyFilter } from '../billing/common/decorators/company-filter.decorator';
+import { SetExchangeRateDto } from './dto/set-exchange-rate.dto';
+import { ExchangeRateQueryDto } from './dto/exchange-rate-query.dto';
+import { ImportExchangeRatesDto } from './dto/import-exchange-rates.dto';
+
+const MAX_RATES_FILE_SIZE = 1024 * 1024;
+
+@ApiTags('💱 Currency - Курсы валют')
+@ApiBearerAuth()
+@Controller('exchange-rates')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class CurrencyController {
+  constructor(private readonly currencyService: CurrencyService) {}
+
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @ApiOperation({
+    summary: '📋 Курсы валют',
+    description: 'Курсы к базовой валюте компании, последние 500 записей',
+  })
+  async findAll(
+    @CompanyFilter() companyId: string,
+    @Query() query: ExchangeRateQueryDto,
+  ) {
+    return await this.currencyService.findRates(companyId, query);
+  }
+
+  @Post()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN)
+  @ApiOperation({
+    summary: '✏️ Установить курс',
+    description:
+      'Курс действует с указанной даты до следующего курса той же валюты. Курс на ту же дату перезаписывается',
+  })
+  @ApiResponse({ status: 201, description: 'Курс сохранен' })
+  @ApiResponse({
+    status: 400,
+    description: 'Валюта совпадает с базовой валютой компании',
+  })
+  async setRate(
+    @Body() setExchangeRateDto: SetExchangeRateDto,
+    @User() user: CurrentUser,
+  ) {
+    return await this.currencyService.setRate(setExchangeRateDto, user);
+  }
+
+  @Post('import')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN)
+  @UseInterceptors(
+    FileInterceptor('file', {
+      limits: { fileSize: MAX_RATES_FILE_SIZE, files: 1 },
+    }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description:
+            'CSV с колонками date, currency, rate (необязательно nominal)',
+        },
+        companyId: {
+          type: 'string',
+          description: 'Обязательно для SUPER_ADMIN',
+        },
+      },
+    },
+  })
+  @ApiOperation({
+    summary: '📥 Импорт курсов',
+    description:
+      'Загрузка курсов из CSV (например, выгрузка курсов Нацбанка). ' +
+      'Существующие курсы на те же даты перезаписываются, строки базовой валюты пропускаются',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Итоги импорта',
+    schema: {
+      example: {
+        baseCurrency: 'KGS',
+        totalLines: 62,
+        created: 58,
+        updated: 2,
+        skippedLines: 2,
+      },
+    },
+  })
+  async importRates(
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [
+          new MaxFileSizeValidator({ maxSize: MAX_RATES_FILE_SIZE }),
+        ],
+      }),
+    )
+    file: Express.Multer.File,
+    @Body() importExchangeRatesDto: ImportExchangeRatesDto,
+    @User() user: CurrentUser,
+  ) {
+    return await this.currencyService.importRates(
+      file,
+      importExchangeRatesDto,
+      user,
+    );
+  }
+
+  @Delete(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN)
+  @ApiOperation({ summary: '🗑️ Удалить курс' })
+  async removeRate(@Param('id') id: string, @User() user: CurrentUser) {
+    return await this.currencyService.removeRate(id, user);
+  }
+}
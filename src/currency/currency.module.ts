@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { CurrencyService } from './currency.service';
+import { CurrencyController } from './currency.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [CurrencyController],
+  providers: [CurrencyService],
+  exports: [CurrencyService],
+})
+export class CurrencyModule {}
@@ -0,0 +1,241 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ExchangeRateSource, Prisma, UserRole } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import {
+  fromDateOnly,
+  toDateOnly,
+} from '../billing/common/utils/billing-date.util';
+import { SetExchangeRateDto } from './dto/set-exchange-rate.dto';
+import { ExchangeRateQueryDto } from './dto/exchange-rate-query.dto';
+import { ImportExchangeRatesDto } from './dto/import-exchange-rates.dto';
+import { parseExchangeRateCsv } from './parsers/exchange-rate-csv.parser';
+import { ExchangeRateImportResult } from './interfaces/currency.interface';
+import { CurrencyConverter, DatedRate } from './utils/currency-converter';
+
+/**
+ * Базовая валюта компаний и курсы валют к ней
+ */
+@Injectable()
+export class CurrencyService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Базовая валюта компании. Принимает клиент транзакции вызывающего кода
+   */
+  async getBaseCurrency(
+    client: Prisma.TransactionClient,
+    companyId: string,
+  ): Promise<string> {
+    const company = await client.company.findUniqueOrThrow({
+      where: { id: companyId },
+      select: { baseCurrency: true },
+    });
+
+    return company.baseCurrency;
+  }
+
+  /**
+   * Конвертер в базовую валюту компании со всеми ее курсами
+   */
+  async getConverter(companyId: string): Promise<CurrencyConverter> {
+    const baseCurrency = await this.getBaseCurrency(this.prisma, companyId);
+
+    const rates = await this.prisma.exchangeRate.findMany({
+      where: { companyId, baseCurrency },
+      select: { currency: true, date: true, rate: true },
+      orderBy: { date: 'asc' },
+    });
+
+    const byCurrency = new Map<string, DatedRate[]>();
+    for (const rate of rates) {
+      const list = byCurrency.get(rate.currency) ?? [];
+      list.push({ date: fromDateOnly(rate.date), rate: rate.rate });
+      byCurrency.set(rate.currency, list);
+    }
+
+    return new CurrencyConverter(baseCurrency, byCurrency);
+  }
+
+  async findRates(companyId: string | undefined, query: ExchangeRateQueryDto) {
+    const whereClause: Prisma.ExchangeRateWhereInput = {};
+
+    if (companyId) whereClause.companyId = companyId;
+    if (query.currency) whereClause.currency = query.currency;
+    if (query.from || query.to) {
+      whereClause.date = {
+        ...(query.from && { gte: toDateOnly(query.from.slice(0, 10)) }),
+        ...(query.to && { lte: toDateOnly(query.to.slice(0, 10)) }),
+      };
+    }
+
+    return this.prisma.exchangeRate.findMany({
+      where: whereClause,
+      include: {
+        createdBy: { select: { id: true, firstName: true, lastName: true } },
+      },
+      orderBy: [{ date: 'desc' }, { currency: 'asc' }],
+      take: 500,
+    });
+  }
+
+  /**
+   * Ручной ввод курса. Курс на ту же дату перезаписывается
+   */
+  async setRate(
+    setExchangeRateDto: SetExchangeRateDto,
+    currentUser: CurrentUser,
+  ) {
+    const companyId = await this.resolveCompanyId(
+      setExchangeRateDto.companyId,
+      currentUser,
+    );
+    const baseCurrency = await this.getBaseCurrency(this.prisma, companyId);
+    const { currency, rate } = setExchangeRateDto;
+
+    if (currency === baseCurrency) {
+      throw new BadRequestException(`${currency} is the company base currency`);
+    }
+
+    const date = toDateOnly(setExchangeRateDto.date.slice(0, 10));
+
+    return this.prisma.exchangeRate.upsert({
+      where: {
+        companyId_currency_baseCurrency_date: {
+          companyId,
+          currency,
+          baseCurrency,
+          date,
+        },
+      },
+      create: {
+        currency,
+        baseCurrency,
+        rate,
+        date,
+        source: ExchangeRateSource.MANUAL,
+        companyId,
+        createdById: currentUser.id,
+      },
+      update: {
+        rate,
+        source: ExchangeRateSource.MANUAL,
+        createdById: currentUser.id,
+      },
+    });
+  }
+
+  /**
+   * Загрузка курсов из CSV. Файл проверяется целиком до записи:
+   * ошибка в любой строке отклоняет весь файл
+   */
+  async importRates(
+    file: Express.Multer.File,
+    importExchangeRatesDto: ImportExchangeRatesDto,
+    currentUser: CurrentUser,
+  ): Promise<ExchangeRateImportResult> {
+    const companyId = await this.resolveCompanyId(
+      importExchangeRatesDto.companyId,
+      currentUser,
+    );
+    const baseCurrency = await this.getBaseCurrency(this.prisma, companyId);
+    const parsed = parseExchangeRateCsv(
+      file.buffer.toString('utf8').replace(/^\uFEFF/, ''),
+    );
+    const rates = parsed.filter((rate) => rate.currency !== baseCurrency);
+
+    const result: ExchangeRateImportResult = {
+      baseCurrency,
+      totalLines: parsed.length,
+      created: 0,
+      updated: 0,
+      skippedLines: parsed.length - rates.length,
+    };
+
+    await this.prisma.$transaction(async (tx) => {
+      for (const { currency, date, rate } of rates) {
+        const where = { companyId, currency, baseCurrency, date };
+        const existing = await tx.exchangeRate.findUnique({
+          where: { companyId_currency_baseCurrency_date: where },
+          select: { id: true },
+        });
+
+        if (existing) {
+          await tx.exchangeRate.update({
+            where: { id: existing.id },
+            data: {
+              rate,
+              source: ExchangeRateSource.IMPORT,
+              createdById: currentUser.id,
+            },
+          });
+          result.updated++;
+        } else {
+          await tx.exchangeRate.create({
+            data: {
+              ...where,
+              rate,
+              source: ExchangeRateSource.IMPORT,
+              createdById: currentUser.id,
+            },
+          });
+          result.created++;
+        }
+      }
+    });
+
+    return result;
+  }
+
+  async removeRate(id: string, currentUser: CurrentUser) {
+    const rate = await this.prisma.exchangeRate.findUnique({ where: { id } });
+
+    if (!rate) {
+      throw new NotFoundException(`Exchange rate with ID ${id} not found`);
+    }
+
+    if (
+      currentUser.role !== UserRole.SUPER_ADMIN &&
+      rate.companyId !== currentUser.companyId
+    ) {
+      throw new ForbiddenException('Access denied to this exchange rate');
+    }
+
+    return this.prisma.exchangeRate.delete({ where: { id } });
+  }
+
+  private async resolveCompanyId(
+    companyId: string | undefined,
+    currentUser: CurrentUser,
+  ): Promise<string> {
+    if (currentUser.role !== UserRole.SUPER_ADMIN) {
+      if (!currentUser.companyId) {
+        throw new BadRequestException(
+          'User must belong to a company to manage exchange rates',
+        );
+      }
+      return currentUser.companyId;
+    }
+
+    if (!companyId) {
+      throw new BadRequestException(
+        'Company ID is required when managing exchange rates as Super Admin',
+      );
+    }
+
+    const company = await this.prisma.company.findUnique({
+      where: { id: companyId },
+    });
+
+    if (!company) {
+      throw new NotFoundException(`Company with ID ${companyId} not found`);
+    }
+
+    return company.id;
+  }
+}
@@ -0,0 +1,32 @@
+import {
+  IsDateString,
+  IsISO4217CurrencyCode,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { normalizeCurrency } from '../utils/currency.util';
+
+export class ExchangeRateQueryDto {
+  @ApiProperty({ required: false, example: 'USD' })
+  @IsOptional()
+  @Transform(({ value }) => normalizeCurrency(value))
+  @IsISO4217CurrencyCode()
+  currency?: string;
+
+  @ApiProperty({ required: false, example: '2025-07-01' })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiProperty({ required: false, example: '2025-07-31' })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiProperty({ required: false, description: 'Только для SUPER_ADMIN' })
+  @IsOptional()
+  @IsString()
+  companyId?: string;
+}
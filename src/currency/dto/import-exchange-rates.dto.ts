@@ -0,0 +1,9 @@
+import { IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class ImportExchangeRatesDto {
+  @ApiProperty({ required: false, description: 'Обязательно для SUPER_ADMIN' })
+  @IsOptional()
+  @IsString()
+  companyId?: string;
+}
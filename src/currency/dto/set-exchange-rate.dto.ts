@@ -0,0 +1,40 @@
+import {
+  IsDateString,
+  IsISO4217CurrencyCode,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { normalizeCurrency } from '../utils/currency.util';
+
+export class SetExchangeRateDto {
+  @ApiProperty({ example: 'USD', description: 'Код валюты ISO 4217' })
+  @Transform(({ value }) => normalizeCurrency(value))
+  @IsISO4217CurrencyCode()
+  currency: string;
+
+  @ApiProperty({
+    example: 87.45,
+    description: 'Стоимость 1 единицы валюты в базовой валюте компании',
+  })
+  @Transform(({ value }) => parseFloat(value))
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 6 })
+  @Min(0.000001)
+  rate: number;
+
+  @ApiProperty({
+    example: '2025-08-01',
+    description: 'Дата, с которой действует курс',
+  })
+  @IsDateString()
+  date: string;
+
+  @ApiProperty({ required: false, description: 'Обязательно для SUPER_ADMIN' })
+  @IsOptional()
+  @IsString()
+  companyId?: string;
+}
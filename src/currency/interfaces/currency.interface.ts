@@ -0,0 +1,15 @@
+// Строка файла курсов
+export interface ParsedExchangeRate {
+  lineNumber: number;
+  date: Date;
+  currency: string;
+  rate: number;
+}
+
+export interface ExchangeRateImportResult {
+  baseCurrency: string;
+  totalLines: number;
+  created: number;
+  updated: number;
+  skippedLines: number; // Курс базовой валюты к самой себе
+}
@@ -0,0 +1,104 @@
+import { BadRequestException } from '@nestjs/common';
+import { parseStatementDate } from '../../bank-import/parsers/statement-value.util';
+import { ParsedExchangeRate } from '../interfaces/currency.interface';
+
+/**
+ * Файл курсов в CSV с заголовком: дата, валюта, курс (к базовой валюте компании).
+ * Разделитель ";", "," или табуляция; при разделителе ";" курс может быть с десятичной запятой.
+ * Необязательная колонка номинала: курс за 100 единиц пересчитывается в курс за 1 единицу
+ */
+
+type RateColumn = 'date' | 'currency' | 'rate' | 'nominal';
+
+const COLUMN_ALIASES: Record<RateColumn, string[]> = {
+  date: ['date', 'дата'],
+  currency: ['currency', 'code', 'валюта', 'код'],
+  rate: ['rate', 'курс'],
+  nominal: ['nominal', 'unit', 'номинал'],
+};
+
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+
+function detectDelimiter(headerLine: string): string {
+  const candidates = [';', '\t', ','];
+  return candidates.reduce((best, delimiter) =>
+    headerLine.split(delimiter).length > headerLine.split(best).length
+      ? delimiter
+      : best,
+  );
+}
+
+function parseNumber(raw: string, field: string, lineNumber: number): number {
+  const value = Number(raw.replace(/\s/g, '').replace(',', '.'));
+
+  if (!raw.trim() || !Number.isFinite(value) || value <= 0) {
+    throw new BadRequestException(
+      `Invalid ${field} "${raw}" on line ${lineNumber}`,
+    );
+  }
+
+  return value;
+}
+
+export function parseExchangeRateCsv(content: string): ParsedExchangeRate[] {
+  const lines = content.split(/\r?\n/);
+  const headerLine = lines[0] ?? '';
+  const delimiter = detectDelimiter(headerLine);
+  const headers = headerLine
+    .split(delimiter)
+    .map((header) => header.trim().toLowerCase().replace(/^"|"$/g, ''));
+
+  const columns = {} as Partial<Record<RateColumn, number>>;
+  for (const [column, aliases] of Object.entries(COLUMN_ALIASES) as [
+    RateColumn,
+    string[],
+  ][]) {
+    const index = headers.findIndex((header) => aliases.includes(header));
+    if (index >= 0) columns[column] = index;
+  }
+
+  if (
+    columns.date === undefined ||
+    columns.currency === undefined ||
+    columns.rate === undefined
+  ) {
+    throw new BadRequestException(
+      'Exchange rate file must have date, currency and rate columns',
+    );
+  }
+
+  const rates: ParsedExchangeRate[] = [];
+
+  for (let i = 1; i < lines.length; i++) {
+    const lineNumber = i + 1;
+    const cells = lines[i]
+      .split(delimiter)
+      .map((cell) => cell.trim().replace(/^"|"$/g, ''));
+
+    if (cells.every((cell) => !cell)) {
+      continue;
+    }
+
+    const currency = (cells[columns.currency] ?? '').toUpperCase();
+    if (!CURRENCY_CODE.test(currency)) {
+      throw new BadRequestException(
+        `Invalid currency "${cells[columns.currency]}" on line ${lineNumber}`,
+      );
+    }
+
+    const nominal =
+      columns.nominal !== undefined && cells[columns.nominal]
+        ? parseNumber(cells[columns.nominal], 'nominal', lineNumber)
+        : 1;
+
+    rates.push({
+      lineNumber,
+      date: parseStatementDate(cells[columns.date] ?? '', lineNumber),
+      currency,
+      rate:
+        parseNumber(cells[columns.rate] ?? '', 'rate', lineNumber) / nominal,
+    });
+  }
+
+  return rates;
+}
@@ -0,0 +1,62 @@
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { MoneyValue, roundMoney, toMoney } from './money.util';
+
+export interface DatedRate {
+  date: string; // YYYY-MM-DD, с которой действует курс
+  rate: Prisma.Decimal;
+}
+
+/**
+ * Пересчет сумм в базовую валюту компании по курсу, действовавшему на дату суммы.
+ * Курсы загружаются один раз на отчет, поиск курса - в памяти
+ */
+export class CurrencyConverter {
+  constructor(
+    public readonly baseCurrency: string,
+    private readonly rates: Map<string, DatedRate[]>, // По валюте, по возрастанию даты
+  ) {}
+
+  getRate(currency: string, date: Date | string): Prisma.Decimal {
+    if (currency === this.baseCurrency) {
+      return new Prisma.Decimal(1);
+    }
+
+    const day =
+      typeof date === 'string'
+        ? date.slice(0, 10)
+        : date.toISOString().split('T')[0];
+    const rates = this.rates.get(currency) ?? [];
+    let found: DatedRate | undefined;
+
+    for (const rate of rates) {
+      if (rate.date > day) break;
+      found = rate;
+    }
+
+    if (!found) {
+      throw new BadRequestException(
+        `Exchange rate ${currency}/${this.baseCurrency} on ${day} is not set`,
+      );
+    }
+
+    return found.rate;
+  }
+
+  /**
+   * Сумма в базовой валюте, округленная до тыйына
+   */
+  convert(
+    amount: MoneyValue,
+    currency: string,
+    date: Date | string,
+  ): Prisma.Decimal {
+    const value = toMoney(amount);
+
+    if (value.isZero()) {
+      return value;
+    }
+
+    return roundMoney(value.mul(this.getRate(currency, date)));
+  }
+}
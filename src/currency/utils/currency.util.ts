@@ -0,0 +1,31 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Валюта по умолчанию: все суммы, введенные до появления мультивалютности, - в сомах
+ */
+export const DEFAULT_CURRENCY = 'KGS';
+
+// Подписи валют в логах и описаниях платежей
+const CURRENCY_LABELS: Record<string, string> = {
+  KGS: 'сом',
+  KZT: 'тенге',
+  UZS: 'сум',
+  RUB: 'руб.',
+};
+
+/**
+ * Сумма с подписью валюты: "1500.00 сом", "120.00 USD"
+ */
+export function formatMoney(
+  amount: Prisma.Decimal | number,
+  currency: string,
+): string {
+  return `${new Prisma.Decimal(amount).toFixed(2)} ${CURRENCY_LABELS[currency] ?? currency}`;
+}
+
+/**
+ * Код валюты ISO 4217 в верхнем регистре (для DTO и файлов курсов)
+ */
+export function normalizeCurrency(value: unknown): unknown {
+  return typeof value === 'string' ? value.trim().toUpperCase() : value;
+}
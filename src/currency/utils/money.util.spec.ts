@@ -0,0 +1,90 @@
+import { Prisma } from '@prisma/client';
+import {
+  divideMoney,
+  moneyToNumber,
+  percentOf,
+  roundMoney,
+  sumMoney,
+  toMoney,
+} from './money.util';
+
+describe('money.util', () => {
+  describe('toMoney', () => {
+    it('accepts Decimal, number and string values', () => {
+      expect(toMoney(new Prisma.Decimal('10.50')).toString()).toBe('10.5');
+      expect(toMoney(10.5).toString()).toBe('10.5');
+      expect(toMoney('10.50').toString()).toBe('10.5');
+    });
+
+    it('treats an empty aggregate as zero', () => {
+      expect(toMoney(null).isZero()).toBe(true);
+      expect(toMoney(undefined).isZero()).toBe(true);
+    });
+  });
+
+  describe('roundMoney', () => {
+    it('rounds half away from zero', () => {
+      expect(roundMoney('2.345').toFixed(2)).toBe('2.35');
+      expect(roundMoney('-2.345').toFixed(2)).toBe('-2.35');
+      expect(roundMoney('2.344').toFixed(2)).toBe('2.34');
+    });
+
+    it('rounds exactly where float arithmetic would not', () => {
+      // 1.005 в double - 1.00499999..., но строка округляется по десятичному значению
+      expect(roundMoney('1.005').toFixed(2)).toBe('1.01');
+    });
+  });
+
+  describe('sumMoney', () => {
+    it('adds without float errors and skips empty values', () => {
+      expect(sumMoney([0.1, 0.2, null, '0.3', undefined]).toString()).toBe(
+        '0.6',
+      );
+    });
+
+    it('returns zero for an empty list', () => {
+      expect(sumMoney([]).isZero()).toBe(true);
+    });
+
+    it('accepts any iterable', () => {
+      const values = new Map([
+        ['a', 1],
+        ['b', 2],
+      ]).values();
+
+      expect(sumMoney(values).toNumber()).toBe(3);
+    });
+  });
+
+  describe('divideMoney', () => {
+    it('rounds the share to tyiyn', () => {
+      expect(divideMoney(100, 3).toFixed(2)).toBe('33.33');
+      expect(divideMoney(200, 3).toFixed(2)).toBe('66.67');
+    });
+
+    it('returns zero when dividing by zero or nothing', () => {
+      expect(divideMoney(100, 0).isZero()).toBe(true);
+      expect(divideMoney(100, null).isZero()).toBe(true);
+    });
+  });
+
+  describe('percentOf', () => {
+    it('returns the percentage with two decimal places', () => {
+      expect(percentOf(1, 3)).toBe(33.33);
+      expect(percentOf(-50, 200)).toBe(-25);
+      expect(percentOf(150, 100)).toBe(150);
+    });
+
+    it('returns zero for a zero total', () => {
+      expect(percentOf(10, 0)).toBe(0);
+      expect(percentOf(10, undefined)).toBe(0);
+    });
+  });
+
+  describe('moneyToNumber', () => {
+    it('rounds before converting to number', () => {
+      expect(moneyToNumber(new Prisma.Decimal('1234.565'))).toBe(1234.57);
+      expect(moneyToNumber(null)).toBe(0);
+    });
+  });
+});
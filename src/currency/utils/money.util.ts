@@ -0,0 +1,62 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Денежная сумма в любом виде, в котором она приходит из Prisma, DTO и расчетов.
+ * null и undefined - пустой агрегат (_sum без строк), считается нулем
+ */
+export type MoneyValue = Prisma.Decimal | number | string | null | undefined;
+
+// Деньги хранятся с точностью до тыйына (копейки)
+const MONEY_SCALE = 2;
+
+export function toMoney(value: MoneyValue): Prisma.Decimal {
+  return new Prisma.Decimal(value ?? 0);
+}
+
+/**
+ * Округление до тыйына: половина округляется от нуля
+ */
+export function roundMoney(value: MoneyValue): Prisma.Decimal {
+  return toMoney(value).toDecimalPlaces(
+    MONEY_SCALE,
+    Prisma.Decimal.ROUND_HALF_UP,
+  );
+}
+
+export function sumMoney(values: Iterable<MoneyValue>): Prisma.Decimal {
+  let total = new Prisma.Decimal(0);
+  for (const value of values) {
+    total = total.add(toMoney(value));
+  }
+  return total;
+}
+
+/**
+ * Доля суммы (среднее, сумма на водителя). При нулевом делителе - ноль
+ */
+export function divideMoney(
+  value: MoneyValue,
+  divisor: MoneyValue,
+): Prisma.Decimal {
+  const by = toMoney(divisor);
+  return by.isZero()
+    ? new Prisma.Decimal(0)
+    : roundMoney(toMoney(value).div(by));
+}
+
+/**
+ * Процент part от total с точностью до сотых
+ */
+export function percentOf(part: MoneyValue, total: MoneyValue): number {
+  const whole = toMoney(total);
+  return whole.isZero()
+    ? 0
+    : toMoney(part).div(whole).mul(100).toDecimalPlaces(2).toNumber();
+}
+
+/**
+ * Сумма для ответа API. Арифметика ведется в Decimal, в number - только на выходе
+ */
+export function moneyToNumber(value: MoneyValue): number {
+  return roundMoney(value).toNumber();
+}
@@ -0,0 +1,71 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { DebtService } from './debt.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { User, CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CompanyFilter } from '../billing/common/decorators/company-filter.decorator';
+import { LateFeeQueryDto } from './dto/late-fee-query.dto';
+import { WaiveLateFeeDto } from './dto/waive-late-fee.dto';
+
+@ApiTags('💸 Debt - Задолженность и пени')
+@ApiBearerAuth()
+@Controller('debt')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class DebtController {
+  constructor(private readonly debtService: DebtService) {}
+
+  @Get('late-fees')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @ApiOperation({
+    summary: '📋 Начисленные пени',
+    description:
+      'Штрафы и пени за просрочку оплаты, включая списанные менеджерами',
+  })
+  async getLateFees(
+    @CompanyFilter() companyId: string,
+    @Query() query: LateFeeQueryDto,
+  ) {
+    return await this.debtService.getLateFees(companyId, query);
+  }
+
+  @Post('late-fees/:id/waive')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '🧾 Списать пеню',
+    description:
+      'Отменяет начисленную пеню с указанием причины: платеж-штраф сторнируется, ' +
+      'сумма возвращается на баланс водителя',
+  })
+  @ApiResponse({ status: 200, description: 'Пеня списана' })
+  @ApiResponse({ status: 400, description: 'Пеня уже списана' })
+  async waiveLateFee(
+    @Param('id') id: string,
+    @Body() waiveLateFeeDto: WaiveLateFeeDto,
+    @User() user: CurrentUser,
+  ) {
+    return await this.debtService.waiveLateFee(
+      id,
+      waiveLateFeeDto.reason,
+      user,
+    );
+  }
+}
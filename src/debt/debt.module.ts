@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { DebtService } from './debt.service';
+import { DebtController } from './debt.controller';
+import { DebtEventListener } from './listeners/debt.listener';
+import { PrismaModule } from '../prisma/prisma.module';
+import { BillingModule } from '../billing/billing.module';
+import { ContractModule } from '../contract/contract.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { PaymentModule } from '../payment/payment.module';
+
+@Module({
+  imports: [
+    PrismaModule,
+    BillingModule,
+    ContractModule,
+    LedgerModule,
+    PaymentModule,
+  ],
+  controllers: [DebtController],
+  providers: [DebtService, DebtEventListener],
+  exports: [DebtService],
+})
+export class DebtModule {}
@@ -0,0 +1,501 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  ContractStatus,
+  LateFeeMode,
+  LateFeeStatus,
+  LedgerAccountType,
+  LedgerTransactionType,
+  PaymentStatus,
+  PaymentType,
+  Prisma,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { BillingService } from '../billing/billing.service';
+import { ContractService } from '../contract/contract.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { PaymentService } from '../payment/payment.service';
+import {
+  diffDays,
+  getLocalDate,
+  toDateOnly,
+} from '../billing/common/utils/billing-date.util';
+import { formatMoney } from '../currency/utils/currency.util';
+import { LateFeeQueryDto } from './dto/late-fee-query.dto';
+import {
+  ContractSuspendedForDebtEvent,
+  DebtWarningEvent,
+  LateFeeAppliedEvent,
+  LateFeeWaivedEvent,
+} from './events/debt.events';
+
+const lateFeeCompanySelect = {
+  timezone: true,
+  baseCurrency: true,
+  lateFeeMode: true,
+  lateFeeGraceDays: true,
+  lateFeeFlatAmount: true,
+  lateFeePercent: true,
+} satisfies Prisma.CompanySelect;
+
+type LateFeeCompany = Prisma.CompanyGetPayload<{
+  select: typeof lateFeeCompanySelect;
+}>;
+
+@Injectable()
+export class DebtService {
+  private readonly logger = new Logger(DebtService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly billingService: BillingService,
+    private readonly contractService: ContractService,
+    private readonly eventEmitter: EventEmitter2,
+    private readonly ledgerService: LedgerService,
+    private readonly paymentService: PaymentService,
+  ) {}
+
+  /**
+   * Применение политики задолженности компании (после ежедневного списания):
+   * предупреждение при долге в debtWarningDays дней аренды,
+   * приостановка контракта при долге в debtSuspensionDays дней
+   */
+  async applyDebtPolicy(companyId: string) {
+    const company = await this.prisma.company.findUnique({
+      where: { id: companyId },
+      select: {
+        debtWarningDays: true,
+        debtSuspensionDays: true,
+        baseCurrency: true,
+      },
+    });
+
+    if (!company || (!company.debtWarningDays && !company.debtSuspensionDays)) {
+      return;
+    }
+
+    // Погасившие долг снова получат предупреждение при следующей задолженности
+    await this.prisma.contract.updateMany({
+      where: {
+        companyId,
+        debtWarningSentAt: { not: null },
+        driver: { balance: { gte: 0 } },
+      },
+      data: { debtWarningSentAt: null },
+    });
+
+    const debtors = await this.billingService.getDriversInDebt(companyId);
+    let warned = 0;
+    let suspended = 0;
+
+    for (const debtor of debtors) {
+      const activeContracts = debtor.contracts.filter(
+        (c) => c.status === ContractStatus.ACTIVE,
+      );
+
+      for (const contract of activeContracts) {
+        try {
+          if (
+            company.debtSuspensionDays &&
+            debtor.daysInDebt >= company.debtSuspensionDays
+          ) {
+            await this.contractService.changeStatusBySystem(
+              contract.contractId,
+              ContractStatus.SUSPENDED,
+              `Долг ${formatMoney(debtor.debtAmount, company.baseCurrency)} (${debtor.daysInDebt} дн. аренды)`,
+            );
+
+            this.eventEmitter.emit(
+              'debt.contract.suspended',
+              new ContractSuspendedForDebtEvent(
+                contract.contractId,
+                companyId,
+                debtor.driverId,
+                debtor.debtAmount,
+                debtor.daysInDebt,
+                company.baseCurrency,
+              ),
+            );
+            suspended++;
+            continue;
+          }
+
+          if (
+            company.debtWarningDays &&
+            debtor.daysInDebt >= company.debtWarningDays
+          ) {
+            // Предупреждаем один раз до погашения долга
+            const { count } = await this.prisma.contract.updateMany({
+              where: { id: contract.contractId, debtWarningSentAt: null },
+              data: { debtWarningSentAt: new Date() },
+            });
+
+            if (count > 0) {
+              this.eventEmitter.emit(
+                'debt.warning',
+                new DebtWarningEvent(
+                  contract.contractId,
+                  companyId,
+                  debtor.driverId,
+                  debtor.debtAmount,
+                  debtor.daysInDebt,
+                  company.baseCurrency,
+                ),
+              );
+              warned++;
+            }
+          }
+        } catch (error) {
+          this.logger.error(
+            `❌ Не удалось применить политику долга к контракту ${contract.contractId}: ${error.message}`,
+          );
+        }
+      }
+    }
+
+    if (warned > 0 || suspended > 0) {
+      this.logger.log(
+        `💸 Политика задолженности (компания ${companyId}): предупреждений ${warned}, приостановлено ${suspended}`,
+      );
+    }
+  }
+
+  /**
+   * Начисление пеней компании (после ежедневного списания):
+   * FLAT - разовый штраф после льготного периода,
+   * DAILY_PERCENT - ежедневный процент от суммы долга после льготного периода
+   */
+  async applyLateFees(companyId: string, billingDate: string) {
+    const company = await this.prisma.company.findUnique({
+      where: { id: companyId },
+      select: lateFeeCompanySelect,
+    });
+
+    if (!company || company.lateFeeMode === LateFeeMode.NONE) {
+      return;
+    }
+
+    // Погасившие долг начинают новый эпизод задолженности с нуля
+    await this.prisma.contract.updateMany({
+      where: {
+        companyId,
+        debtSince: { not: null },
+        driver: { balance: { gte: 0 } },
+      },
+      data: { debtSince: null, lateFeeAppliedAt: null },
+    });
+
+    const debtors = await this.billingService.getDriversInDebt(companyId);
+    let applied = 0;
+
+    for (const debtor of debtors) {
+      // Долг, перенесенный на план погашения, пеней не облагается
+      if (debtor.debtAmount <= 0) {
+        continue;
+      }
+
+      // Пеня начисляется один раз на водителя - по основному контракту
+      const contract =
+        debtor.contracts.find((c) => c.status === ContractStatus.ACTIVE) ??
+        debtor.contracts[0];
+
+      if (!contract) {
+        continue;
+      }
+
+      try {
+        const lateFee = await this.applyLateFee(
+          company,
+          companyId,
+          debtor.driverId,
+          contract.contractId,
+          debtor.debtAmount,
+          billingDate,
+        );
+
+        if (lateFee) {
+          this.eventEmitter.emit(
+            'debt.late-fee.applied',
+            new LateFeeAppliedEvent(
+              lateFee.id,
+              contract.contractId,
+              companyId,
+              debtor.driverId,
+              lateFee.amount.toNumber(),
+              debtor.debtAmount,
+              company.baseCurrency,
+            ),
+          );
+          applied++;
+        }
+      } catch (error) {
+        this.logger.error(
+          `❌ Не удалось начислить пеню по контракту ${contract.contractId}: ${error.message}`,
+        );
+      }
+    }
+
+    if (applied > 0) {
+      this.logger.log(
+        `💸 Пени (компания ${companyId}, ${billingDate}): начислено ${applied}`,
+      );
+    }
+  }
+
+  async getLateFees(companyId: string | undefined, query: LateFeeQueryDto) {
+    const whereClause: Prisma.LateFeeWhereInput = {};
+
+    if (companyId) {
+      whereClause.companyId = companyId;
+    }
+
+    if (query.driverId) {
+      whereClause.driverId = query.driverId;
+    }
+
+    if (query.status) {
+      whereClause.status = query.status;
+    }
+
+    return await this.prisma.lateFee.findMany({
+      where: whereClause,
+      include: {
+        driver: {
+          select: { id: true, firstName: true, lastName: true, phone: true },
+        },
+        contract: {
+          select: { id: true, status: true },
+        },
+        waivedBy: {
+          select: { id: true, firstName: true, lastName: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Списание пени менеджером: платеж-штраф сторнируется, сумма возвращается на баланс водителя
+   */
+  async waiveLateFee(id: string, reason: string, currentUser: CurrentUser) {
+    const lateFee = await this.prisma.lateFee.findUnique({
+      where: { id },
+      include: { payment: true },
+    });
+
+    if (!lateFee) {
+      throw new NotFoundException(`Late fee with ID ${id} not found`);
+    }
+
+    this.checkLateFeeAccess(lateFee, currentUser);
+
+    if (lateFee.status === LateFeeStatus.WAIVED) {
+      throw new BadRequestException('Late fee is already waived');
+    }
+
+    const waived = await this.prisma.$transaction(async (tx) => {
+      // Условие по статусу защищает от двойного списания при параллельных запросах
+      const { count } = await tx.lateFee.updateMany({
+        where: { id, status: LateFeeStatus.APPLIED },
+        data: {
+          status: LateFeeStatus.WAIVED,
+          waivedAt: new Date(),
+          waivedById: currentUser.id,
+          waiveReason: reason,
+        },
+      });
+
+      if (count === 0) {
+        throw new BadRequestException('Late fee is already waived');
+      }
+
+      // Платеж-штраф сторнируется, сумма возвращается на баланс водителя
+      await this.paymentService.reverseInTransaction(
+        tx,
+        lateFee.payment,
+        `Списание пени: ${reason}`,
+        currentUser.id,
+        LedgerTransactionType.FINE_WAIVER,
+      );
+
+      return await tx.lateFee.findUniqueOrThrow({
+        where: { id },
+        include: {
+          payment: {
+            include: { reversal: true },
+          },
+          waivedBy: {
+            select: { id: true, firstName: true, lastName: true },
+          },
+        },
+      });
+    });
+
+    this.eventEmitter.emit(
+      'debt.late-fee.waived',
+      new LateFeeWaivedEvent(
+        waived.id,
+        waived.companyId,
+        waived.driverId,
+        waived.amount.toNumber(),
+        currentUser.id,
+        reason,
+        lateFee.payment.currency,
+      ),
+    );
+
+    return waived;
+  }
+
+  /**
+   * Начисление пени по одному контракту. Возвращает созданную пеню
+   * или null, если пеня сегодня не положена или уже начислена
+   */
+  private async applyLateFee(
+    company: LateFeeCompany,
+    companyId: string,
+    driverId: string,
+    contractId: string,
+    debtAmount: number,
+    billingDate: string,
+  ) {
+    // Фиксируем начало задолженности при первом обнаружении долга
+    await this.prisma.contract.updateMany({
+      where: { id: contractId, debtSince: null },
+      data: { debtSince: new Date() },
+    });
+
+    const { debtSince, lateFeeAppliedAt } =
+      await this.prisma.contract.findUniqueOrThrow({
+        where: { id: contractId },
+        select: { debtSince: true, lateFeeAppliedAt: true },
+      });
+
+    const daysInDebt = diffDays(
+      getLocalDate(debtSince!, company.timezone),
+      billingDate,
+    );
+
+    if (daysInDebt < company.lateFeeGraceDays) {
+      return null;
+    }
+
+    const debt = new Prisma.Decimal(debtAmount);
+    let amount: Prisma.Decimal;
+    let description: string;
+
+    switch (company.lateFeeMode) {
+      case LateFeeMode.FLAT:
+        // Разовый штраф за эпизод задолженности
+        if (lateFeeAppliedAt || !company.lateFeeFlatAmount) {
+          return null;
+        }
+        amount = company.lateFeeFlatAmount;
+        description = `Штраф за просрочку оплаты аренды (долг ${formatMoney(debt, company.baseCurrency)})`;
+        break;
+      case LateFeeMode.DAILY_PERCENT:
+        if (!company.lateFeePercent) {
+          return null;
+        }
+        amount = debt.mul(company.lateFeePercent).div(100).toDecimalPlaces(2);
+        description =
+          `Пеня за просрочку оплаты аренды за ${billingDate} ` +
+          `(${company.lateFeePercent.toString()}% от долга ${formatMoney(debt, company.baseCurrency)})`;
+        break;
+      default:
+        return null;
+    }
+
+    if (amount.lte(0)) {
+      return null;
+    }
+
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const payment = await tx.payment.create({
+          data: {
+            amount,
+            currency: company.baseCurrency,
+            type: PaymentType.FINE,
+            status: PaymentStatus.SUCCEEDED,
+            description,
+            chargeKey: `LATE_FEE:${contractId}:${billingDate}`,
+            billingDate: toDateOnly(billingDate),
+            metadata: {
+              lateFeeMode: company.lateFeeMode,
+              debtAmount: debt.toNumber(),
+              daysInDebt,
+            },
+            driverId,
+            contractId,
+            companyId,
+          },
+        });
+
+        const lateFee = await tx.lateFee.create({
+          data: {
+            mode: company.lateFeeMode,
+            amount,
+            debtAmount: debt,
+            accrualDate: toDateOnly(billingDate),
+            paymentId: payment.id,
+            companyId,
+            driverId,
+            contractId,
+          },
+        });
+
+        await this.ledgerService.post(tx, {
+          type: LedgerTransactionType.FINE,
+          companyId,
+          driverId,
+          amount,
+          debit: LedgerAccountType.DRIVER_RECEIVABLE,
+          credit: LedgerAccountType.COMPANY_REVENUE,
+          description,
+          contractId,
+          paymentId: payment.id,
+        });
+
+        if (company.lateFeeMode === LateFeeMode.FLAT) {
+          await tx.contract.update({
+            where: { id: contractId },
+            data: { lateFeeAppliedAt: new Date() },
+          });
+        }
+
+        return lateFee;
+      });
+    } catch (error) {
+      // Пеня за этот день уже начислена
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private checkLateFeeAccess(
+    lateFee: { companyId: string },
+    currentUser: CurrentUser,
+  ) {
+    if (currentUser.role === UserRole.SUPER_ADMIN) {
+      return;
+    }
+
+    if (lateFee.companyId !== currentUser.companyId) {
+      throw new ForbiddenException('Access denied to this late fee');
+    }
+  }
+}
@@ -0,0 +1,20 @@
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { LateFeeStatus } from '@prisma/client';
+
+export class LateFeeQueryDto {
+  @ApiProperty({ required: false, description: 'Фильтр по водителю' })
+  @IsOptional()
+  @IsString()
+  driverId?: string;
+
+  @ApiProperty({ required: false, enum: LateFeeStatus })
+  @IsOptional()
+  @IsEnum(LateFeeStatus)
+  status?: LateFeeStatus;
+
+  @ApiProperty({ required: false, description: 'Только для SUPER_ADMIN' })
+  @IsOptional()
+  @IsString()
+  companyId?: string;
+}
@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class WaiveLateFeeDto {
+  @ApiProperty({
+    example: 'Водитель оплатил вовремя, задержка банковского перевода',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(500)
+  reason: string;
+}
@@ -0,0 +1,49 @@
+export class DebtWarningEvent {
+  constructor(
+    public readonly contractId: string,
+    public readonly companyId: string,
+    public readonly driverId: string,
+    public readonly debtAmount: number,
+    public readonly daysInDebt: number,
+    public readonly currency: string,
+    public readonly timestamp: Date = new Date(),
+  ) {}
+}
+
+export class ContractSuspendedForDebtEvent {
+  constructor(
+    public readonly contractId: string,
+    public readonly companyId: string,
+    public readonly driverId: string,
+    public readonly debtAmount: number,
+    public readonly daysInDebt: number,
+    public readonly currency: string,
+    public readonly timestamp: Date = new Date(),
+  ) {}
+}
+
+export class LateFeeAppliedEvent {
+  constructor(
+    public readonly lateFeeId: string,
+    public readonly contractId: string,
+    public readonly companyId: string,
+    public readonly driverId: string,
+    public readonly amount: number,
+    public readonly debtAmount: number,
+    public readonly currency: string,
+    public readonly timestamp: Date = new Date(),
+  ) {}
+}
+
+export class LateFeeWaivedEvent {
+  constructor(
+    public readonly lateFeeId: string,
+    public readonly companyId: string,
+    public readonly driverId: string,
+    public readonly amount: number,
+    public readonly waivedById: string,
+    public readonly reason: string,
+    public readonly currency: string,
+    public readonly timestamp: Date = new Date(),
+  ) {}
+}
@@ -0,0 +1,68 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { DebtService } from '../debt.service';
+import { DailyBillingCompletedEvent } from '../../billing/events/billing.events';
+import { formatMoney } from '../../currency/utils/currency.util';
+import {
+  ContractSuspendedForDebtEvent,
+  DebtWarningEvent,
+  LateFeeAppliedEvent,
+  LateFeeWaivedEvent,
+} from '../events/debt.events';
+
+@Injectable()
+export class DebtEventListener {
+  private readonly logger = new Logger(DebtEventListener.name);
+
+  constructor(private readonly debtService: DebtService) {}
+
+  @OnEvent('billing.daily.completed', { async: true })
+  async handleDailyBillingCompleted(event: DailyBillingCompletedEvent) {
+    try {
+      // Пени начисляются до проверки порогов: они увеличивают долг
+      await this.debtService.applyLateFees(event.companyId, event.billingDate);
+      await this.debtService.applyDebtPolicy(event.companyId);
+    } catch (error) {
+      this.logger.error(
+        `💥 Ошибка политики задолженности (компания ${event.companyId}):`,
+        error,
+      );
+    }
+  }
+
+  @OnEvent('debt.warning')
+  handleDebtWarning(event: DebtWarningEvent) {
+    this.logger.warn(
+      `⚠️ Предупреждение о долге: Контракт ${event.contractId}, Водитель ${event.driverId}, ` +
+        `долг ${formatMoney(event.debtAmount, event.currency)} (${event.daysInDebt} дн.)`,
+    );
+
+    // Здесь можно добавить:
+    // - SMS уведомления водителю
+    // - Email менеджерам
+  }
+
+  @OnEvent('debt.contract.suspended')
+  handleContractSuspended(event: ContractSuspendedForDebtEvent) {
+    this.logger.warn(
+      `⛔ Контракт ${event.contractId} приостановлен за долг: Водитель ${event.driverId}, ` +
+        `долг ${formatMoney(event.debtAmount, event.currency)} (${event.daysInDebt} дн.)`,
+    );
+  }
+
+  @OnEvent('debt.late-fee.applied')
+  handleLateFeeApplied(event: LateFeeAppliedEvent) {
+    this.logger.log(
+      `🧾 Начислена пеня: Контракт ${event.contractId}, Водитель ${event.driverId}, ` +
+        `${formatMoney(event.amount, event.currency)} (долг ${formatMoney(event.debtAmount, event.currency)})`,
+    );
+  }
+
+  @OnEvent('debt.late-fee.waived')
+  handleLateFeeWaived(event: LateFeeWaivedEvent) {
+    this.logger.log(
+      `↩️ Пеня ${event.lateFeeId} списана пользователем ${event.waivedById}: ` +
+        `${formatMoney(event.amount, event.currency)}, причина: ${event.reason}`,
+    );
+  }
+}
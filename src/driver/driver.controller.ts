@@ -9,15 +9,18 @@ import {
   Query,
   HttpCode,
   HttpStatus,
+  ParseEnumPipe,
+  UseInterceptors,
 } from '@nestjs/common';
 import { DriverService } from './driver.service';
+import { IdempotencyInterceptor } from '../idempotency/idempotency.interceptor';
 import { CreateDriverDto } from './dto/create-driver.dto';
 import { UpdateDriverDto } from './dto/update-driver.dto';
 import { UpdateBalanceDto } from './dto/update-balance.dto';
 import { UpdateDepositDto } from './dto/update-deposit.dto';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { User, CurrentUser } from '../auth/decorators/current-user.decorator';
-import { UserRole } from '@prisma/client';
+import { PaymentStatus, UserRole } from '@prisma/client';
 
 @Controller('drivers')
 export class DriverController {
@@ -71,8 +74,10 @@ export class DriverController {
     @Param('id') id: string, 
     @User() user: CurrentUser,
     @Query('limit') limit?: number,
+    @Query('status', new ParseEnumPipe(PaymentStatus, { optional: true }))
+    status?: PaymentStatus,
   ) {
-    return this.driverService.getPaymentHistory(id, user, limit);
+    return this.driverService.getPaymentHistory(id, user, limit, status);
   }
 
   @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
@@ -85,8 +90,10 @@ export class DriverController {
     return this.driverService.update(id, updateDriverDto, user);
   }
 
+  // Повтор с тем же Idempotency-Key не зачисляет сумму повторно
   @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN)
   @Patch(':id/balance')
+  @UseInterceptors(IdempotencyInterceptor)
   updateBalance(
     @Param('id') id: string,
     @Body() updateBalanceDto: UpdateBalanceDto,
@@ -97,6 +104,7 @@ export class DriverController {
 
   @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN)
   @Patch(':id/deposit')
+  @UseInterceptors(IdempotencyInterceptor)
   updateDeposit(
     @Param('id') id: string,
     @Body() updateDepositDto: UpdateDepositDto,
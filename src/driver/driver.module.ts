@@ -2,9 +2,21 @@ import { Module } from '@nestjs/common';
 import { DriverService } from './driver.service';
 import { DriverController } from './driver.controller';
 import { PrismaModule } from '../prisma/prisma.module';
+import { LedgerModule } from '../ledger/ledger.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { CashDeskModule } from '../cash-desk/cash-desk.module';
+import { RepaymentPlanModule } from '../repayment-plan/repayment-plan.module';
+import { CurrencyModule } from '../currency/currency.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [
+    PrismaModule,
+    LedgerModule,
+    IdempotencyModule,
+    CashDeskModule,
+    RepaymentPlanModule,
+    CurrencyModule,
+  ],
   controllers: [DriverController],
   providers: [DriverService],
   exports: [DriverService],
@@ -10,12 +10,30 @@ import { CreateDriverDto } from './dto/create-driver.dto';
 import { UpdateDriverDto } from './dto/update-driver.dto';
 import { UpdateBalanceDto } from './dto/update-balance.dto';
 import { UpdateDepositDto } from './dto/update-deposit.dto';
-import { UserRole, PaymentType } from '@prisma/client';
+import {
+  UserRole,
+  PaymentType,
+  PaymentStatus,
+  LedgerAccountType,
+  LedgerTransactionType,
+  Prisma,
+} from '@prisma/client';
 import * as bcrypt from 'bcrypt';
+import { LedgerService } from '../ledger/ledger.service';
+import { CashDeskService } from '../cash-desk/cash-desk.service';
+import { RepaymentPlanService } from '../repayment-plan/repayment-plan.service';
+import { CurrencyService } from '../currency/currency.service';
+import { BalancePayment } from './interfaces/driver.interface';
 
 @Injectable()
 export class DriverService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private ledgerService: LedgerService,
+    private cashDeskService: CashDeskService,
+    private repaymentPlanService: RepaymentPlanService,
+    private currencyService: CurrencyService,
+  ) {}
 
   async create(createDriverDto: CreateDriverDto, currentUser: any) {
     const { email, password, firstName, lastName, phone, licenseNumber, balance, deposit, companyId } = createDriverDto;
@@ -72,27 +90,54 @@ export class DriverService {
     const hashedPassword = await bcrypt.hash(password, saltRounds);
 
     try {
-      return await this.prisma.driver.create({
-        data: {
-          email,
-          password: hashedPassword,
-          firstName,
-          lastName,
-          phone,
-          licenseNumber,
-          balance: balance || 0,
-          deposit: deposit || 0,
+      return await this.prisma.$transaction(async (tx) => {
+        const driver = await tx.driver.create({
+          data: {
+            email,
+            password: hashedPassword,
+            firstName,
+            lastName,
+            phone,
+            licenseNumber,
+            companyId: targetCompanyId,
+          },
+        });
+
+        // Начальные баланс и депозит проводятся через журнал
+        await this.ledgerService.post(tx, {
+          type: LedgerTransactionType.OPENING_BALANCE,
           companyId: targetCompanyId,
-        },
-        include: {
-          company: {
-            select: {
-              id: true,
-              name: true,
-              email: true,
+          driverId: driver.id,
+          amount: balance || 0,
+          debit: LedgerAccountType.OPENING_BALANCE,
+          credit: LedgerAccountType.DRIVER_RECEIVABLE,
+          description: 'Opening balance',
+          createdById: currentUser.id,
+        });
+
+        await this.ledgerService.post(tx, {
+          type: LedgerTransactionType.OPENING_BALANCE,
+          companyId: targetCompanyId,
+          driverId: driver.id,
+          amount: deposit || 0,
+          debit: LedgerAccountType.OPENING_BALANCE,
+          credit: LedgerAccountType.DRIVER_DEPOSIT,
+          description: 'Opening deposit',
+          createdById: currentUser.id,
+        });
+
+        return await tx.driver.findUniqueOrThrow({
+          where: { id: driver.id },
+          include: {
+            company: {
+              select: {
+                id: true,
+                name: true,
+                email: true,
+              },
             },
           },
-        },
+        });
       });
     } catch (error) {
       if (error.code === 'P2002') {
@@ -160,6 +205,7 @@ export class DriverService {
           },
         },
         payments: {
+          where: { status: { not: PaymentStatus.FAILED } },
           orderBy: { date: 'desc' },
           take: 10, // Последние 10 платежей
         },
@@ -246,7 +292,7 @@ export class DriverService {
   }
 
   async updateBalance(id: string, updateBalanceDto: UpdateBalanceDto, currentUser: any) {
-    const { amount, type, description } = updateBalanceDto;
+    const { amount, type, description, method } = updateBalanceDto;
 
     const driver = await this.prisma.driver.findUnique({
       where: { id },
@@ -259,22 +305,30 @@ export class DriverService {
     // Проверка доступа
     this.checkDriverAccess(driver, currentUser);
 
-    // Рассчитываем новый баланс
-    let balanceChange = amount;
-    
-    // Для штрафов и ежедневной аренды - вычитаем из баланса
-    if (type === PaymentType.FINE || type === PaymentType.DAILY_RENT) {
-      balanceChange = -amount;
-    }
-
-    const newBalance = Number(driver.balance) + balanceChange;
+    const paymentDescription = description || `Balance ${type.toLowerCase()}`;
 
     // Выполняем транзакцию
     return this.prisma.$transaction(async (tx) => {
-      // Обновляем баланс водителя
-      const updatedDriver = await tx.driver.update({
+      // Пополнения и возвраты кассира попадают в его открытую смену
+      const cashDesk = await this.cashDeskService.resolvePaymentContext(
+        tx,
+        currentUser,
+        type,
+        method,
+      );
+
+      await this.postBalancePayment(tx, {
+        driverId: id,
+        companyId: driver.companyId,
+        amount,
+        type,
+        description: paymentDescription,
+        createdById: currentUser.id,
+        ...cashDesk,
+      });
+
+      return await tx.driver.findUniqueOrThrow({
         where: { id },
-        data: { balance: newBalance },
         include: {
           company: {
             select: {
@@ -285,25 +339,65 @@ export class DriverService {
           },
         },
       });
+    });
+  }
 
-      // Создаем запись о платеже
-      await tx.payment.create({
-        data: {
-          amount,
-          type,
-          description: description || `Balance ${type.toLowerCase()}`,
-          driverId: id,
-          companyId: driver.companyId,
-          createdById: currentUser.id,
-        },
-      });
+  /**
+   * Запись платежа и проводка по балансу водителя в рамках транзакции вызывающего.
+   * Доступ к водителю проверяет вызывающий
+   */
+  async postBalancePayment(
+    tx: Prisma.TransactionClient,
+    balancePayment: BalancePayment,
+  ) {
+    const {
+      driverId,
+      companyId,
+      amount,
+      type,
+      description,
+      createdById,
+      contractId,
+      date,
+      method,
+      cashShiftId,
+    } = balancePayment;
+    const movement = this.getBalanceMovement(type);
+
+    // Создаем запись о платеже (баланс ведется в базовой валюте компании)
+    const payment = await tx.payment.create({
+      data: {
+        amount,
+        currency: await this.currencyService.getBaseCurrency(tx, companyId),
+        type,
+        description,
+        driverId,
+        companyId,
+        contractId,
+        createdById,
+        method,
+        cashShiftId,
+        date,
+      },
+    });
 
-      return updatedDriver;
+    // Обновляем баланс водителя проводкой по журналу
+    await this.ledgerService.post(tx, {
+      ...movement,
+      companyId,
+      driverId,
+      contractId,
+      amount,
+      description,
+      paymentId: payment.id,
+      createdById,
     });
+
+    return payment;
   }
 
   async updateDeposit(id: string, updateDepositDto: UpdateDepositDto, currentUser: any) {
-    const { amount, operation, reason } = updateDepositDto;
+    const { amount, operation, reason, method } = updateDepositDto;
 
     const driver = await this.prisma.driver.findUnique({
       where: { id },
@@ -316,29 +410,66 @@ export class DriverService {
     // Проверка доступа
     this.checkDriverAccess(driver, currentUser);
 
-    let newDepositBalance: number;
     let paymentType: PaymentType;
     let description: string;
 
     if (operation === 'add') {
-      newDepositBalance = Number(driver.deposit) + amount;
       paymentType = PaymentType.PAYMENT;
       description = reason || `Deposit top-up: +${amount}`;
     } else {
-      newDepositBalance = Number(driver.deposit) - amount;
-      if (newDepositBalance < 0) {
-        throw new BadRequestException('Insufficient deposit balance');
-      }
       paymentType = PaymentType.FINE;
       description = reason || `Deposit deduction: -${amount}`;
     }
 
     // Выполняем транзакцию
     return this.prisma.$transaction(async (tx) => {
-      // Обновляем депозит водителя
-      const updatedDriver = await tx.driver.update({
+      const cashDesk = await this.cashDeskService.resolvePaymentContext(
+        tx,
+        currentUser,
+        paymentType,
+        method,
+      );
+
+      // Создаем запись о движении депозита
+      const payment = await tx.payment.create({
+        data: {
+          amount,
+          currency: await this.currencyService.getBaseCurrency(
+            tx,
+            driver.companyId,
+          ),
+          type: paymentType,
+          description,
+          driverId: id,
+          companyId: driver.companyId,
+          createdById: currentUser.id,
+          ...cashDesk,
+        },
+      });
+
+      // Пополнение - поступление денег в кассу, удержание - доход компании
+      await this.ledgerService.post(tx, {
+        ...(operation === 'add'
+          ? {
+              type: LedgerTransactionType.DEPOSIT_TOP_UP,
+              debit: LedgerAccountType.COMPANY_CASH,
+              credit: LedgerAccountType.DRIVER_DEPOSIT,
+            }
+          : {
+              type: LedgerTransactionType.DEPOSIT_DEDUCTION,
+              debit: LedgerAccountType.DRIVER_DEPOSIT,
+              credit: LedgerAccountType.COMPANY_REVENUE,
+            }),
+        companyId: driver.companyId,
+        driverId: id,
+        amount,
+        description,
+        paymentId: payment.id,
+        createdById: currentUser.id,
+      });
+
+      const updatedDriver = await tx.driver.findUniqueOrThrow({
         where: { id },
-        data: { deposit: newDepositBalance },
         include: {
           company: {
             select: {
@@ -350,17 +481,11 @@ export class DriverService {
         },
       });
 
-      // Создаем запись о движении депозита
-      await tx.payment.create({
-        data: {
-          amount,
-          type: paymentType,
-          description,
-          driverId: id,
-          companyId: driver.companyId,
-          createdById: currentUser.id,
-        },
-      });
+      // Проверка после проводки: строка водителя заблокирована, параллельные удержания
+      // видят актуальный депозит, а недостаток откатывает всю транзакцию
+      if (updatedDriver.deposit.isNegative()) {
+        throw new BadRequestException('Insufficient deposit balance');
+      }
 
       return updatedDriver;
     });
@@ -369,11 +494,18 @@ export class DriverService {
   async getDriverStats(id: string, currentUser: any) {
     const driver = await this.findOne(id, currentUser);
 
-    const [totalPayments, totalFines, totalRentPaid, activeContracts] = await Promise.all([
+    const [
+      totalPayments,
+      totalFines,
+      totalRentPaid,
+      activeContracts,
+      repaymentPlans,
+    ] = await Promise.all([
       this.prisma.payment.aggregate({
         where: {
           driverId: id,
           type: PaymentType.PAYMENT,
+          status: PaymentStatus.SUCCEEDED,
         },
         _sum: { amount: true },
       }),
@@ -381,6 +513,7 @@ export class DriverService {
         where: {
           driverId: id,
           type: PaymentType.FINE,
+          status: PaymentStatus.SUCCEEDED,
         },
         _sum: { amount: true },
       }),
@@ -388,6 +521,7 @@ export class DriverService {
         where: {
           driverId: id,
           type: PaymentType.DAILY_RENT,
+          status: PaymentStatus.SUCCEEDED,
         },
         _sum: { amount: true },
       }),
@@ -397,6 +531,7 @@ export class DriverService {
           status: 'ACTIVE',
         },
       }),
+      this.repaymentPlanService.getProgress([id]),
     ]);
 
     return {
@@ -409,11 +544,17 @@ export class DriverService {
         totalRentPaid: totalRentPaid._sum.amount || 0,
         activeContracts,
         isInDebt: Number(driver.balance) < 0,
+        repaymentPlan: repaymentPlans.get(id) ?? null,
       },
     };
   }
 
-  async getPaymentHistory(id: string, currentUser: any, limit = 50) {
+  async getPaymentHistory(
+    id: string,
+    currentUser: any,
+    limit = 50,
+    status?: PaymentStatus,
+  ) {
     const driver = await this.prisma.driver.findUnique({
       where: { id },
     });
@@ -426,7 +567,11 @@ export class DriverService {
     this.checkDriverAccess(driver, currentUser);
 
     return this.prisma.payment.findMany({
-      where: { driverId: id },
+      where: {
+        driverId: id,
+        // Неудачные попытки списания показываем только по явному запросу
+        status: status ?? { not: PaymentStatus.FAILED },
+      },
       include: {
         createdBy: {
           select: {
@@ -442,6 +587,49 @@ export class DriverService {
     });
   }
 
+  /**
+   * Счета проводки ручного изменения баланса по типу платежа
+   */
+  private getBalanceMovement(type: PaymentType) {
+    switch (type) {
+      case PaymentType.FINE:
+        return {
+          type: LedgerTransactionType.FINE,
+          debit: LedgerAccountType.DRIVER_RECEIVABLE,
+          credit: LedgerAccountType.COMPANY_REVENUE,
+        };
+      case PaymentType.DAILY_RENT:
+        return {
+          type: LedgerTransactionType.RENT,
+          debit: LedgerAccountType.DRIVER_RECEIVABLE,
+          credit: LedgerAccountType.COMPANY_REVENUE,
+        };
+      case PaymentType.BONUS:
+        return {
+          type: LedgerTransactionType.BONUS,
+          debit: LedgerAccountType.COMPANY_REVENUE,
+          credit: LedgerAccountType.DRIVER_RECEIVABLE,
+        };
+      case PaymentType.REFUND:
+        return {
+          type: LedgerTransactionType.REFUND,
+          debit: LedgerAccountType.COMPANY_REVENUE,
+          credit: LedgerAccountType.DRIVER_RECEIVABLE,
+        };
+      case PaymentType.DEPOSIT_OFFSET:
+        throw new BadRequestException(
+          'Deposit offset is created only by contract settlement',
+        );
+      default:
+        // PAYMENT и DEPOSIT - поступление денег от водителя
+        return {
+          type: LedgerTransactionType.TOP_UP,
+          debit: LedgerAccountType.COMPANY_CASH,
+          credit: LedgerAccountType.DRIVER_RECEIVABLE,
+        };
+    }
+  }
+
   private checkDriverAccess(driver: any, currentUser: any) {
     if (currentUser.role === UserRole.SUPER_ADMIN) {
       return; // Super Admin имеет доступ ко всем водителям
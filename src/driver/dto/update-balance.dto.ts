@@ -1,6 +1,6 @@
 import { IsEnum, IsOptional, IsString, Min } from 'class-validator';
 import { Transform, Type } from 'class-transformer';
-import { PaymentType } from '@prisma/client';
+import { PaymentMethod, PaymentType } from '@prisma/client';
 
 export class UpdateBalanceDto {
   @Transform(({ value }) => parseFloat(value))
@@ -14,4 +14,9 @@ export class UpdateBalanceDto {
   @IsOptional()
   @IsString()
   description?: string;
+
+  // Способ оплаты; при открытой смене кассира по умолчанию CASH
+  @IsOptional()
+  @IsEnum(PaymentMethod)
+  method?: PaymentMethod;
 }
\ No newline at end of file
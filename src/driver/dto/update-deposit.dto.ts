@@ -1,5 +1,6 @@
 import { IsEnum, IsOptional, IsString, Min } from 'class-validator';
 import { Transform, Type } from 'class-transformer';
+import { PaymentMethod } from '@prisma/client';
 
 export class UpdateDepositDto {
   @Transform(({ value }) => parseFloat(value))
@@ -13,4 +14,9 @@ export class UpdateDepositDto {
   @IsOptional()
   @IsString()
   reason?: string;
+
+  // Способ оплаты; при открытой смене кассира по умолчанию CASH
+  @IsOptional()
+  @IsEnum(PaymentMethod)
+  method?: PaymentMethod;
 }
\ No newline at end of file
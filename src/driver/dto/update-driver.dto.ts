@@ -1,8 +1,11 @@
-import { PartialType } from '@nestjs/mapped-types';
+import { OmitType, PartialType } from '@nestjs/mapped-types';
 import { IsOptional, IsBoolean } from 'class-validator';
 import { CreateDriverDto } from './create-driver.dto';
 
-export class UpdateDriverDto extends PartialType(CreateDriverDto) {
+// Баланс и депозит изменяются только проводками журнала (/balance и /deposit)
+export class UpdateDriverDto extends PartialType(
+  OmitType(CreateDriverDto, ['balance', 'deposit'] as const),
+) {
   @IsOptional()
   @IsBoolean()
   isActive?: boolean;
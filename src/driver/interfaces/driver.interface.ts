@@ -0,0 +1,15 @@
+import { PaymentMethod, PaymentType } from '@prisma/client';
+
+// Платеж по балансу водителя: ручное изменение баланса, зачисление из банковской выписки или онлайн-оплата
+export interface BalancePayment {
+  driverId: string;
+  companyId: string;
+  amount: number;
+  type: PaymentType;
+  description: string;
+  createdById: string | null; // null - платеж создан системой (например, по вебхуку провайдера)
+  contractId?: string | null;
+  date?: Date; // Дата платежа, по умолчанию - текущий момент
+  method?: PaymentMethod | null;
+  cashShiftId?: string | null;
+}
@@ -0,0 +1,87 @@
+import {
+  BadRequestException,
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import { Request, Response } from 'express';
+import {
+  Observable,
+  catchError,
+  concatMap,
+  from,
+  map,
+  of,
+  throwError,
+} from 'rxjs';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { IdempotencyService } from './idempotency.service';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Поддержка заголовка Idempotency-Key: повтор запроса с тем же ключом
+ * не выполняет операцию повторно, а возвращает сохраненный ответ.
+ * Запросы без заголовка выполняются как обычно
+ */
+@Injectable()
+export class IdempotencyInterceptor implements NestInterceptor {
+  constructor(private readonly idempotencyService: IdempotencyService) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: CallHandler,
+  ): Promise<Observable<unknown>> {
+    const http = context.switchToHttp();
+    const request = http.getRequest<Request>();
+    const response = http.getResponse<Response>();
+    const key = request.header(IDEMPOTENCY_KEY_HEADER);
+
+    if (key === undefined) {
+      return next.handle();
+    }
+
+    if (!key || key.length > MAX_KEY_LENGTH) {
+      throw new BadRequestException(
+        `${IDEMPOTENCY_KEY_HEADER} must be 1-${MAX_KEY_LENGTH} characters long`,
+      );
+    }
+
+    const user = request.user as CurrentUser;
+    const result = await this.idempotencyService.begin({
+      key,
+      ownerId: user.id,
+      scope: `${request.method} ${request.path}`,
+      requestHash: createHash('sha256')
+        .update(JSON.stringify(request.body ?? {}))
+        .digest('hex'),
+    });
+
+    if (result.replay) {
+      response.status(result.statusCode);
+      response.setHeader('Idempotent-Replayed', 'true');
+      return of(result.response);
+    }
+
+    return next.handle().pipe(
+      concatMap((body: unknown) =>
+        from(
+          this.idempotencyService.complete(
+            result.recordId,
+            response.statusCode,
+            body,
+          ),
+        ).pipe(map(() => body)),
+      ),
+      catchError((error: unknown) =>
+        from(this.idempotencyService.release(result.recordId)).pipe(
+          concatMap(() => throwError(() => error)),
+        ),
+      ),
+    );
+  }
+}
@@ -0,0 +1,148 @@
+import {
+  ConflictException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { IdempotencyService } from './idempotency.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+const request = {
+  key: 'key-1',
+  ownerId: 'manager-1',
+  scope: 'POST /drivers/driver-1/balance',
+  requestHash: 'hash-1',
+};
+
+const uniqueViolation = () =>
+  new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+    code: 'P2002',
+    clientVersion: Prisma.prismaVersion.client,
+  });
+
+const hour = 60 * 60 * 1000;
+
+const storedKey = (overrides: object = {}) => ({
+  id: 'record-1',
+  ...request,
+  statusCode: 201,
+  response: { id: 'payment-1' },
+  completedAt: new Date(),
+  expiresAt: new Date(Date.now() + hour),
+  ...overrides,
+});
+
+const createPrisma = () => ({
+  idempotencyKey: {
+    create: jest.fn().mockResolvedValue({ id: 'record-1' }),
+    findUnique: jest.fn().mockResolvedValue(null),
+    update: jest.fn().mockResolvedValue({}),
+    deleteMany: jest.fn().mockResolvedValue({ count: 1 }),
+  },
+});
+
+describe('IdempotencyService', () => {
+  let prisma: ReturnType<typeof createPrisma>;
+  let service: IdempotencyService;
+
+  beforeEach(() => {
+    prisma = createPrisma();
+    service = new IdempotencyService(prisma as unknown as PrismaService);
+  });
+
+  describe('begin', () => {
+    it('registers a new key', async () => {
+      await expect(service.begin(request)).resolves.toEqual({
+        replay: false,
+        recordId: 'record-1',
+      });
+      expect(prisma.idempotencyKey.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('replays the stored response of a completed request', async () => {
+      prisma.idempotencyKey.create.mockRejectedValue(uniqueViolation());
+      prisma.idempotencyKey.findUnique.mockResolvedValue(storedKey());
+
+      await expect(service.begin(request)).resolves.toEqual({
+        replay: true,
+        statusCode: 201,
+        response: { id: 'payment-1' },
+      });
+    });
+
+    it('rejects a repeat while the first request is still running', async () => {
+      prisma.idempotencyKey.create.mockRejectedValue(uniqueViolation());
+      prisma.idempotencyKey.findUnique.mockResolvedValue(
+        storedKey({ completedAt: null, statusCode: null, response: null }),
+      );
+
+      await expect(service.begin(request)).rejects.toBeInstanceOf(
+        ConflictException,
+      );
+    });
+
+    it.each([{ requestHash: 'hash-2' }, { scope: 'POST /drivers/driver-2' }])(
+      'rejects the key reused for a different request (%j)',
+      async (overrides) => {
+        prisma.idempotencyKey.create.mockRejectedValue(uniqueViolation());
+        prisma.idempotencyKey.findUnique.mockResolvedValue(
+          storedKey(overrides),
+        );
+
+        await expect(service.begin(request)).rejects.toBeInstanceOf(
+          UnprocessableEntityException,
+        );
+      },
+    );
+
+    it('runs the request again when the stored key has expired', async () => {
+      prisma.idempotencyKey.create
+        .mockRejectedValueOnce(uniqueViolation())
+        .mockResolvedValueOnce({ id: 'record-2' });
+      prisma.idempotencyKey.findUnique.mockResolvedValue(
+        storedKey({ expiresAt: new Date(Date.now() - hour) }),
+      );
+
+      await expect(service.begin(request)).resolves.toEqual({
+        replay: false,
+        recordId: 'record-2',
+      });
+      expect(prisma.idempotencyKey.deleteMany).toHaveBeenCalledWith({
+        where: { id: 'record-1' },
+      });
+    });
+
+    it('runs the request again when the key was released in the meantime', async () => {
+      prisma.idempotencyKey.create
+        .mockRejectedValueOnce(uniqueViolation())
+        .mockResolvedValueOnce({ id: 'record-2' });
+
+      await expect(service.begin(request)).resolves.toEqual({
+        replay: false,
+        recordId: 'record-2',
+      });
+      expect(prisma.idempotencyKey.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('rethrows other database errors', async () => {
+      const error = new Error('Connection lost');
+      prisma.idempotencyKey.create.mockRejectedValue(error);
+
+      await expect(service.begin(request)).rejects.toBe(error);
+    });
+  });
+
+  describe('complete', () => {
+    it('stores the status code and a JSON copy of the response', async () => {
+      await service.complete('record-1', 201, {
+        id: 'payment-1',
+        amount: new Prisma.Decimal('150.50'),
+      });
+
+      const [[{ data }]] = prisma.idempotencyKey.update.mock.calls as [
+        [{ data: { statusCode: number; response: unknown } }],
+      ];
+      expect(data.statusCode).toBe(201);
+      expect(data.response).toEqual({ id: 'payment-1', amount: '150.5' });
+    });
+  });
+});
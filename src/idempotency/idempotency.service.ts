@@ -0,0 +1,117 @@
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  IdempotencyBeginResult,
+  IdempotentRequest,
+} from './interfaces/idempotency.interface';
+
+const KEY_TTL_MS = 24 * 60 * 60 * 1000; // Ключи хранятся сутки
+
+@Injectable()
+export class IdempotencyService {
+  private readonly logger = new Logger(IdempotencyService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Регистрация запроса с ключом идемпотентности.
+   * Уникальный индекс (ownerId, key) не дает двум одинаковым запросам выполниться одновременно
+   */
+  async begin(request: IdempotentRequest): Promise<IdempotencyBeginResult> {
+    try {
+      const record = await this.prisma.idempotencyKey.create({
+        data: {
+          ...request,
+          expiresAt: new Date(Date.now() + KEY_TTL_MS),
+        },
+      });
+
+      return { replay: false, recordId: record.id };
+    } catch (error) {
+      if (
+        !(
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === 'P2002'
+        )
+      ) {
+        throw error;
+      }
+    }
+
+    const existing = await this.prisma.idempotencyKey.findUnique({
+      where: { ownerId_key: { ownerId: request.ownerId, key: request.key } },
+    });
+
+    // Ключ освобожден после ошибки или устарел - запрос выполняется заново
+    if (!existing || existing.expiresAt < new Date()) {
+      if (existing) {
+        await this.prisma.idempotencyKey.deleteMany({
+          where: { id: existing.id },
+        });
+      }
+      return this.begin(request);
+    }
+
+    if (
+      existing.scope !== request.scope ||
+      existing.requestHash !== request.requestHash
+    ) {
+      throw new UnprocessableEntityException(
+        'Idempotency-Key has already been used for a different request',
+      );
+    }
+
+    if (!existing.completedAt) {
+      throw new ConflictException(
+        'A request with this Idempotency-Key is still being processed',
+      );
+    }
+
+    return {
+      replay: true,
+      statusCode: existing.statusCode!,
+      response: existing.response,
+    };
+  }
+
+  async complete(recordId: string, statusCode: number, response: unknown) {
+    await this.prisma.idempotencyKey.update({
+      where: { id: recordId },
+      data: {
+        statusCode,
+        response:
+          response === undefined
+            ? Prisma.JsonNull
+            : (JSON.parse(JSON.stringify(response)) as Prisma.InputJsonValue),
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Запрос завершился ошибкой - ключ освобождается для повторной попытки
+   */
+  async release(recordId: string) {
+    await this.prisma.idempotencyKey.deleteMany({
+      where: { id: recordId },
+    });
+  }
+
+  @Cron(CronExpression.EVERY_HOUR)
+  async cleanupExpiredKeys() {
+    const { count } = await this.prisma.idempotencyKey.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+
+    if (count > 0) {
+      this.logger.log(`🧹 Удалено устаревших ключей идемпотентности: ${count}`);
+    }
+  }
+}
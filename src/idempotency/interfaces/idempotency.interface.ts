@@ -0,0 +1,11 @@
+export interface IdempotentRequest {
+  key: string;
+  ownerId: string;
+  scope: string;
+  requestHash: string;
+}
+
+// Новый запрос выполняется, повтор завершенного запроса возвращает сохраненный ответ
+export type IdempotencyBeginResult =
+  | { replay: false; recordId: string }
+  | { replay: true; statusCode: number; response: unknown };
@@ -0,0 +1,95 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { DamageType, InspectionType, VehicleBodyZone } from '@prisma/client';
+
+export class InspectionDamageDto {
+  @ApiProperty({
+    enum: VehicleBodyZone,
+    example: VehicleBodyZone.FRONT_LEFT_DOOR,
+  })
+  @IsEnum(VehicleBodyZone)
+  zone: VehicleBodyZone;
+
+  @ApiProperty({ enum: DamageType, example: DamageType.SCRATCH })
+  @IsEnum(DamageType)
+  type: DamageType;
+
+  @ApiProperty({ required: false, example: 'Царапина 10 см у ручки' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({
+    required: false,
+    example: 2500,
+    description:
+      'Оценка ремонта. Для акта возврата - начисляется водителю, если повреждения не было при выдаче',
+  })
+  @IsOptional()
+  @Transform(({ value }) => parseFloat(value))
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  repairCost?: number;
+}
+
+export class CreateInspectionDto {
+  @ApiProperty({ enum: InspectionType, example: InspectionType.HANDOVER })
+  @IsEnum(InspectionType)
+  type: InspectionType;
+
+  @ApiProperty({
+    required: false,
+    example: 'vehicle_id',
+    description:
+      'Автомобиль контракта. По умолчанию - текущий; для возврата замененного - один из прежних',
+  })
+  @IsOptional()
+  @IsString()
+  vehicleId?: string;
+
+  @ApiProperty({ example: 125400, description: 'Пробег, км' })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  odometer: number;
+
+  @ApiProperty({ example: 75, description: 'Уровень топлива, % бака' })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  fuelLevel: number;
+
+  @ApiProperty({
+    required: false,
+    type: [InspectionDamageDto],
+    description: 'Повреждения по зонам кузова',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => InspectionDamageDto)
+  damages?: InspectionDamageDto[];
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  notes?: string;
+}
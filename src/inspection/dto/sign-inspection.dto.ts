@@ -0,0 +1,30 @@
+import { IsNotEmpty, IsString, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+// Подпись - изображение с планшета в формате data URL
+const SIGNATURE_PATTERN =
+  /^data:image\/(png|jpeg);base64,[A-Za-z0-9+/]+={0,2}$/;
+
+export class SignInspectionDto {
+  @ApiProperty({
+    example: 'data:image/png;base64,iVBORw0KGgo...',
+    description: 'Подпись водителя (PNG или JPEG)',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @Matches(SIGNATURE_PATTERN, {
+    message: 'driverSignature must be a base64 PNG or JPEG data URL',
+  })
+  driverSignature: string;
+
+  @ApiProperty({
+    example: 'data:image/png;base64,iVBORw0KGgo...',
+    description: 'Подпись менеджера (PNG или JPEG)',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @Matches(SIGNATURE_PATTERN, {
+    message: 'managerSignature must be a base64 PNG or JPEG data URL',
+  })
+  managerSignature: string;
+}
@@ -0,0 +1,14 @@
+import { IsEnum, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { VehicleBodyZone } from '@prisma/client';
+
+export class UploadInspectionPhotoDto {
+  @ApiProperty({
+    required: false,
+    enum: VehicleBodyZone,
+    description: 'Не указана - общий вид автомобиля',
+  })
+  @IsOptional()
+  @IsEnum(VehicleBodyZone)
+  zone?: VehicleBodyZone;
+}
@@ -0,0 +1,14 @@
+import { InspectionType } from '@prisma/client';
+
+export class InspectionSignedEvent {
+  constructor(
+    public readonly inspectionId: string,
+    public readonly type: InspectionType,
+    public readonly contractId: string,
+    public readonly companyId: string,
+    public readonly driverId: string,
+    public readonly vehicleId: string,
+    public readonly signedById: string,
+    public readonly timestamp: Date = new Date(),
+  ) {}
+}
@@ -0,0 +1,200 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  MaxFileSizeValidator,
+  Param,
+  ParseFilePipe,
+  Post,
+  Query,
+  StreamableFile,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { UserRole, VehicleBodyZone } from '@prisma/client';
+import { InspectionService } from './inspection.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { User, CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CreateInspectionDto } from './dto/create-inspection.dto';
+import { SignInspectionDto } from './dto/sign-inspection.dto';
+import { UploadInspectionPhotoDto } from './dto/upload-inspection-photo.dto';
+
+const MAX_PHOTO_SIZE = 10 * 1024 * 1024;
+
+@ApiTags('🔍 Inspections - Акты приема-передачи')
+@ApiBearerAuth()
+@Controller('contracts/:contractId/inspections')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class InspectionController {
+  constructor(private readonly inspectionService: InspectionService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: '📋 Акты по контракту',
+    description: 'Акты выдачи и возврата со всеми повреждениями и фото',
+  })
+  async findAll(
+    @Param('contractId') contractId: string,
+    @User() user: CurrentUser,
+  ) {
+    return await this.inspectionService.findAll(contractId, user);
+  }
+
+  @Get('compare')
+  @ApiQuery({
+    name: 'vehicleId',
+    required: false,
+    description: 'По умолчанию - текущий автомобиль контракта',
+  })
+  @ApiOperation({
+    summary: '⚖️ Сравнение возврата с выдачей',
+    description:
+      'Пробег за время аренды, недолив топлива и новые повреждения с суммой к начислению при расчете',
+  })
+  @ApiResponse({ status: 404, description: 'Акт возврата не найден' })
+  async compare(
+    @Param('contractId') contractId: string,
+    @User() user: CurrentUser,
+    @Query('vehicleId') vehicleId?: string,
+  ) {
+    return await this.inspectionService.compare(contractId, user, vehicleId);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: '🧾 Акт' })
+  async findOne(
+    @Param('contractId') contractId: string,
+    @Param('id') id: string,
+    @User() user: CurrentUser,
+  ) {
+    return await this.inspectionService.findOne(contractId, id, user);
+  }
+
+  @Post()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @ApiOperation({
+    summary: '📝 Новый акт',
+    description:
+      'Акт выдачи (HANDOVER) - при передаче автомобиля водителю, акт возврата (RETURN) - до закрытия контракта. ' +
+      'Для каждого автомобиля контракта - по одному акту каждого типа',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'Акт этого типа для автомобиля уже есть',
+  })
+  async create(
+    @Param('contractId') contractId: string,
+    @Body() createInspectionDto: CreateInspectionDto,
+    @User() user: CurrentUser,
+  ) {
+    return await this.inspectionService.create(
+      contractId,
+      createInspectionDto,
+      user,
+    );
+  }
+
+  @Post(':id/photos')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_PHOTO_SIZE, files: 1 } }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['file'],
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+          description: 'Фото в JPEG, PNG или WebP',
+        },
+        zone: { type: 'string', enum: Object.values(VehicleBodyZone) },
+      },
+    },
+  })
+  @ApiOperation({
+    summary: '📷 Добавить фото',
+    description: 'Только для неподписанного акта',
+  })
+  async uploadPhoto(
+    @Param('contractId') contractId: string,
+    @Param('id') id: string,
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [new MaxFileSizeValidator({ maxSize: MAX_PHOTO_SIZE })],
+      }),
+    )
+    file: Express.Multer.File,
+    @Body() uploadInspectionPhotoDto: UploadInspectionPhotoDto,
+    @User() user: CurrentUser,
+  ) {
+    return await this.inspectionService.uploadPhoto(
+      contractId,
+      id,
+      file,
+      uploadInspectionPhotoDto,
+      user,
+    );
+  }
+
+  @Get(':id/photos/:photoId')
+  @ApiOperation({ summary: '🖼️ Фото акта' })
+  async getPhoto(
+    @Param('contractId') contractId: string,
+    @Param('id') id: string,
+    @Param('photoId') photoId: string,
+    @User() user: CurrentUser,
+  ) {
+    const { photo, data } = await this.inspectionService.getPhoto(
+      contractId,
+      id,
+      photoId,
+      user,
+    );
+
+    return new StreamableFile(data, {
+      type: photo.contentType,
+      length: photo.size,
+    });
+  }
+
+  @Post(':id/sign')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '✍️ Подписать акт',
+    description:
+      'Подписи водителя и менеджера. Подписанный акт возврата учитывается при расчете по контракту',
+  })
+  @ApiResponse({ status: 409, description: 'Акт уже подписан' })
+  async sign(
+    @Param('contractId') contractId: string,
+    @Param('id') id: string,
+    @Body() signInspectionDto: SignInspectionDto,
+    @User() user: CurrentUser,
+  ) {
+    return await this.inspectionService.sign(
+      contractId,
+      id,
+      signInspectionDto,
+      user,
+    );
+  }
+}
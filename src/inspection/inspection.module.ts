@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { InspectionService } from './inspection.service';
+import { InspectionController } from './inspection.controller';
+import { InspectionEventListener } from './listeners/inspection.listener';
+import { PrismaModule } from '../prisma/prisma.module';
+import { StorageModule } from '../storage/storage.module';
+
+@Module({
+  imports: [PrismaModule, StorageModule],
+  controllers: [InspectionController],
+  providers: [InspectionService, InspectionEventListener],
+  exports: [InspectionService],
+})
+export class InspectionModule {}
@@ -0,0 +1,519 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { randomUUID } from 'crypto';
+import {
+  ContractStatus,
+  InspectionStatus,
+  InspectionType,
+  Prisma,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { FILE_STORAGE, FileStorage } from '../storage/file-storage.interface';
+import { moneyToNumber } from '../currency/utils/money.util';
+import { CreateInspectionDto } from './dto/create-inspection.dto';
+import { SignInspectionDto } from './dto/sign-inspection.dto';
+import { UploadInspectionPhotoDto } from './dto/upload-inspection-photo.dto';
+import {
+  InspectionCharge,
+  InspectionComparison,
+} from './interfaces/inspection.interface';
+import { compareInspections } from './utils/inspection-diff.util';
+import { detectImageType } from './utils/image-type.util';
+import { InspectionSignedEvent } from './events/inspection.events';
+
+const inspectionInclude = {
+  damages: true,
+  photos: {
+    select: {
+      id: true,
+      zone: true,
+      contentType: true,
+      size: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: 'asc' },
+  },
+  vehicle: {
+    select: { id: true, brand: true, model: true, plateNumber: true },
+  },
+  createdBy: { select: { id: true, firstName: true, lastName: true } },
+  signedBy: { select: { id: true, firstName: true, lastName: true } },
+} satisfies Prisma.VehicleInspectionInclude;
+
+const PHOTO_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+};
+
+const MAX_SIGNATURE_SIZE = 512 * 1024;
+
+/**
+ * Акты приема-передачи автомобиля: показания одометра и топлива, повреждения по зонам кузова,
+ * фото и подписи водителя и менеджера. Подписанные акты возврата учитываются в расчете по контракту
+ */
+@Injectable()
+export class InspectionService {
+  private readonly logger = new Logger(InspectionService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(FILE_STORAGE) private readonly storage: FileStorage,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  async findAll(contractId: string, currentUser: CurrentUser) {
+    await this.findContract(contractId, currentUser);
+
+    return this.prisma.vehicleInspection.findMany({
+      where: { contractId },
+      include: inspectionInclude,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async findOne(contractId: string, id: string, currentUser: CurrentUser) {
+    await this.findContract(contractId, currentUser);
+
+    const inspection = await this.prisma.vehicleInspection.findFirst({
+      where: { id, contractId },
+      include: inspectionInclude,
+    });
+
+    if (!inspection) {
+      throw new NotFoundException(`Inspection with ID ${id} not found`);
+    }
+
+    return inspection;
+  }
+
+  /**
+   * Акт выдачи - для запланированного или активного контракта, акт возврата - до его закрытия.
+   * По каждому автомобилю контракта - один акт каждого типа
+   */
+  async create(
+    contractId: string,
+    createInspectionDto: CreateInspectionDto,
+    currentUser: CurrentUser,
+  ) {
+    const {
+      type,
+      odometer,
+      fuelLevel,
+      damages = [],
+      notes,
+    } = createInspectionDto;
+    const contract = await this.findContract(contractId, currentUser);
+
+    const allowedStatuses: ContractStatus[] =
+      type === InspectionType.HANDOVER
+        ? [ContractStatus.SCHEDULED, ContractStatus.ACTIVE]
+        : [ContractStatus.ACTIVE, ContractStatus.SUSPENDED];
+
+    if (!allowedStatuses.includes(contract.status)) {
+      throw new BadRequestException(
+        `Cannot create ${type.toLowerCase()} inspection for a ${contract.status.toLowerCase()} contract`,
+      );
+    }
+
+    // Замененный автомобиль тоже можно принять по акту возврата
+    const vehicleId = createInspectionDto.vehicleId ?? contract.vehicleId;
+    const assigned =
+      vehicleId === contract.vehicleId ||
+      contract.vehicleAssignments.some(
+        (assignment) => assignment.vehicleId === vehicleId,
+      );
+
+    if (!assigned) {
+      throw new BadRequestException(
+        'Vehicle was not assigned to this contract',
+      );
+    }
+
+    if (type === InspectionType.RETURN) {
+      const handover = await this.prisma.vehicleInspection.findUnique({
+        where: {
+          contractId_vehicleId_type: {
+            contractId,
+            vehicleId,
+            type: InspectionType.HANDOVER,
+          },
+        },
+        select: { odometer: true },
+      });
+
+      if (handover && odometer < handover.odometer) {
+        throw new BadRequestException(
+          `Odometer reading is lower than at handover (${handover.odometer} km)`,
+        );
+      }
+    }
+
+    try {
+      const inspection = await this.prisma.vehicleInspection.create({
+        data: {
+          type,
+          odometer,
+          fuelLevel,
+          notes,
+          contractId,
+          vehicleId,
+          createdById: currentUser.id,
+          damages: {
+            create: damages.map((damage) => ({
+              zone: damage.zone,
+              type: damage.type,
+              description: damage.description,
+              repairCost: damage.repairCost,
+            })),
+          },
+        },
+        include: inspectionInclude,
+      });
+
+      this.logger.log(
+        `📋 Акт ${type} по контракту ${contractId}: пробег ${odometer} км, топливо ${fuelLevel}%, ` +
+          `повреждений ${damages.length}`,
+      );
+
+      return inspection;
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          `${type} inspection for this vehicle already exists`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  async uploadPhoto(
+    contractId: string,
+    id: string,
+    file: Express.Multer.File,
+    uploadInspectionPhotoDto: UploadInspectionPhotoDto,
+    currentUser: CurrentUser,
+  ) {
+    const inspection = await this.findOne(contractId, id, currentUser);
+    this.assertDraft(inspection);
+
+    // Формат - по содержимому файла, а не по заявленному клиентом Content-Type
+    const contentType = detectImageType(file.buffer);
+    const extension = contentType ? PHOTO_EXTENSIONS[contentType] : undefined;
+    if (!contentType || !extension) {
+      throw new BadRequestException('Photo must be a JPEG, PNG or WebP image');
+    }
+
+    const stored = await this.storage.save(
+      `inspections/${inspection.id}/${randomUUID()}.${extension}`,
+      file.buffer,
+    );
+
+    try {
+      return await this.prisma.inspectionPhoto.create({
+        data: {
+          inspectionId: inspection.id,
+          zone: uploadInspectionPhotoDto.zone,
+          storageKey: stored.key,
+          contentType,
+          size: stored.size,
+          uploadedById: currentUser.id,
+        },
+        select: {
+          id: true,
+          zone: true,
+          contentType: true,
+          size: true,
+          createdAt: true,
+        },
+      });
+    } catch (error) {
+      await this.storage.delete(stored.key);
+      throw error;
+    }
+  }
+
+  async getPhoto(
+    contractId: string,
+    id: string,
+    photoId: string,
+    currentUser: CurrentUser,
+  ) {
+    await this.findContract(contractId, currentUser);
+
+    const photo = await this.prisma.inspectionPhoto.findFirst({
+      where: { id: photoId, inspectionId: id, inspection: { contractId } },
+    });
+
+    if (!photo) {
+      throw new NotFoundException(`Photo with ID ${photoId} not found`);
+    }
+
+    return { photo, data: await this.storage.read(photo.storageKey) };
+  }
+
+  /**
+   * Подписание акта водителем и менеджером (текущим пользователем). После подписания акт не изменяется
+   */
+  async sign(
+    contractId: string,
+    id: string,
+    signInspectionDto: SignInspectionDto,
+    currentUser: CurrentUser,
+  ) {
+    const inspection = await this.findOne(contractId, id, currentUser);
+    this.assertDraft(inspection);
+
+    const contract = await this.prisma.contract.findUniqueOrThrow({
+      where: { id: contractId },
+      select: { companyId: true, driverId: true },
+    });
+
+    const driverSignature = await this.saveSignature(
+      inspection.id,
+      'driver',
+      signInspectionDto.driverSignature,
+    );
+    const managerSignature = await this.saveSignature(
+      inspection.id,
+      'manager',
+      signInspectionDto.managerSignature,
+    );
+
+    const { count } = await this.prisma.vehicleInspection.updateMany({
+      where: { id: inspection.id, status: InspectionStatus.DRAFT },
+      data: {
+        status: InspectionStatus.SIGNED,
+        driverSignatureKey: driverSignature,
+        managerSignatureKey: managerSignature,
+        signedAt: new Date(),
+        signedById: currentUser.id,
+      },
+    });
+
+    if (count === 0) {
+      await Promise.all([
+        this.storage.delete(driverSignature),
+        this.storage.delete(managerSignature),
+      ]);
+      throw new ConflictException('Inspection is already signed');
+    }
+
+    this.eventEmitter.emit(
+      'inspection.signed',
+      new InspectionSignedEvent(
+        inspection.id,
+        inspection.type,
+        contractId,
+        contract.companyId,
+        contract.driverId,
+        inspection.vehicleId,
+        currentUser.id,
+      ),
+    );
+
+    return this.findOne(contractId, id, currentUser);
+  }
+
+  /**
+   * Сравнение акта возврата автомобиля с актом выдачи: пробег, недолив и новые повреждения
+   */
+  async compare(
+    contractId: string,
+    currentUser: CurrentUser,
+    vehicleId?: string,
+  ) {
+    const contract = await this.findContract(contractId, currentUser);
+    const targetVehicleId = vehicleId ?? contract.vehicleId;
+
+    const [inspections, company] = await Promise.all([
+      this.prisma.vehicleInspection.findMany({
+        where: { contractId, vehicleId: targetVehicleId },
+        include: inspectionInclude,
+      }),
+      this.prisma.company.findUniqueOrThrow({
+        where: { id: contract.companyId },
+        select: { fuelChargePerPercent: true },
+      }),
+    ]);
+
+    const handover =
+      inspections.find(
+        (inspection) => inspection.type === InspectionType.HANDOVER,
+      ) ?? null;
+    const returned =
+      inspections.find(
+        (inspection) => inspection.type === InspectionType.RETURN,
+      ) ?? null;
+
+    if (!returned) {
+      throw new NotFoundException(
+        'Return inspection for this vehicle not found',
+      );
+    }
+
+    const comparison = compareInspections(
+      handover,
+      returned,
+      company.fuelChargePerPercent,
+    );
+
+    return {
+      handover,
+      return: returned,
+      comparison: this.toComparisonResponse(comparison),
+    };
+  }
+
+  /**
+   * Закрыть контракт можно только после подписания актов возврата
+   */
+  async assertReturnsSigned(
+    client: Prisma.TransactionClient,
+    contractId: string,
+  ) {
+    const draft = await client.vehicleInspection.count({
+      where: {
+        contractId,
+        type: InspectionType.RETURN,
+        status: InspectionStatus.DRAFT,
+      },
+    });
+
+    if (draft > 0) {
+      throw new BadRequestException(
+        'Return inspection must be signed before the contract is closed',
+      );
+    }
+  }
+
+  /**
+   * Начисления по подписанным и еще не учтенным актам возврата. Сравнение - с подписанным
+   * актом выдачи того же автомобиля: неподписанный акт выдачи водитель не подтверждал
+   */
+  async getReturnCharges(
+    client: Prisma.TransactionClient,
+    contract: { id: string; companyId: string },
+  ): Promise<InspectionCharge[]> {
+    const [inspections, company] = await Promise.all([
+      client.vehicleInspection.findMany({
+        where: { contractId: contract.id, status: InspectionStatus.SIGNED },
+        include: { damages: true },
+      }),
+      client.company.findUniqueOrThrow({
+        where: { id: contract.companyId },
+        select: { fuelChargePerPercent: true },
+      }),
+    ]);
+
+    return inspections
+      .filter(
+        (inspection) =>
+          inspection.type === InspectionType.RETURN && !inspection.chargedAt,
+      )
+      .map((returned) => {
+        const handover = inspections.find(
+          (inspection) =>
+            inspection.type === InspectionType.HANDOVER &&
+            inspection.vehicleId === returned.vehicleId,
+        );
+
+        return {
+          inspectionId: returned.id,
+          vehicleId: returned.vehicleId,
+          comparison: compareInspections(
+            handover ?? null,
+            returned,
+            company.fuelChargePerPercent,
+          ),
+        };
+      });
+  }
+
+  private toComparisonResponse(comparison: InspectionComparison) {
+    return {
+      ...comparison,
+      newDamages: comparison.newDamages.map((damage) => ({
+        ...damage,
+        repairCost: damage.repairCost ? moneyToNumber(damage.repairCost) : null,
+      })),
+      fuelCharge: moneyToNumber(comparison.fuelCharge),
+      damageCharge: moneyToNumber(comparison.damageCharge),
+      totalCharge: moneyToNumber(comparison.totalCharge),
+    };
+  }
+
+  private assertDraft(inspection: { status: InspectionStatus }) {
+    if (inspection.status !== InspectionStatus.DRAFT) {
+      throw new ConflictException('Signed inspection cannot be changed');
+    }
+  }
+
+  private async saveSignature(
+    inspectionId: string,
+    signer: 'driver' | 'manager',
+    dataUrl: string,
+  ): Promise<string> {
+    const [header, base64] = dataUrl.split(',');
+    const data = Buffer.from(base64, 'base64');
+
+    if (data.length > MAX_SIGNATURE_SIZE) {
+      throw new BadRequestException(`${signer} signature image is too large`);
+    }
+
+    // Уникальный ключ: параллельное подписание, проигравшее гонку, удаляет только свои файлы
+    const extension = header.includes('image/png') ? 'png' : 'jpg';
+    const stored = await this.storage.save(
+      `inspections/${inspectionId}/${signer}-signature-${randomUUID()}.${extension}`,
+      data,
+    );
+
+    return stored.key;
+  }
+
+  private async findContract(contractId: string, currentUser: CurrentUser) {
+    const contract = await this.prisma.contract.findUnique({
+      where: { id: contractId },
+      include: { vehicleAssignments: { select: { vehicleId: true } } },
+    });
+
+    if (!contract) {
+      throw new NotFoundException(`Contract with ID ${contractId} not found`);
+    }
+
+    if (currentUser.role === UserRole.SUPER_ADMIN) {
+      return contract;
+    }
+
+    if (
+      currentUser.userType === 'driver' &&
+      contract.driverId !== currentUser.id
+    ) {
+      throw new ForbiddenException(
+        'Drivers can only access their own contracts',
+      );
+    }
+
+    if (
+      currentUser.userType !== 'driver' &&
+      contract.companyId !== currentUser.companyId
+    ) {
+      throw new ForbiddenException('Access denied to this contract');
+    }
+
+    return contract;
+  }
+}
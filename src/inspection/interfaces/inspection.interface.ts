@@ -0,0 +1,32 @@
+import { DamageType, Prisma, VehicleBodyZone } from '@prisma/client';
+
+export interface InspectionDamageItem {
+  zone: VehicleBodyZone;
+  type: DamageType;
+  description: string | null;
+  repairCost: Prisma.Decimal | null;
+}
+
+export interface InspectionReading {
+  odometer: number;
+  fuelLevel: number;
+  damages: InspectionDamageItem[];
+}
+
+// Сравнение акта возврата с актом выдачи того же автомобиля
+export interface InspectionComparison {
+  hasHandover: boolean; // Без акта выдачи пробег и топливо не сравниваются
+  mileage: number | null; // Пробег за время аренды, км
+  fuelShortfall: number; // Недолив, % бака
+  newDamages: InspectionDamageItem[];
+  fuelCharge: Prisma.Decimal;
+  damageCharge: Prisma.Decimal;
+  totalCharge: Prisma.Decimal;
+}
+
+// Начисление по подписанному акту возврата при расчете по контракту
+export interface InspectionCharge {
+  inspectionId: string;
+  vehicleId: string;
+  comparison: InspectionComparison;
+}
@@ -0,0 +1,19 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { InspectionSignedEvent } from '../events/inspection.events';
+
+@Injectable()
+export class InspectionEventListener {
+  private readonly logger = new Logger(InspectionEventListener.name);
+
+  @OnEvent('inspection.signed')
+  handleInspectionSigned(event: InspectionSignedEvent) {
+    this.logger.log(
+      `✍️ Подписан акт ${event.type}: Контракт ${event.contractId}, Водитель ${event.driverId}, ` +
+        `Автомобиль ${event.vehicleId}`,
+    );
+
+    // Здесь можно добавить:
+    // - отправку копии акта водителю
+  }
+}
@@ -0,0 +1,46 @@
+import { detectImageType } from './image-type.util';
+
+const bytes = (...values: number[]) => Buffer.from(values);
+
+describe('detectImageType', () => {
+  it('detects JPEG, PNG and WebP by signature', () => {
+    expect(detectImageType(bytes(0xff, 0xd8, 0xff, 0xe0, 0x00))).toBe(
+      'image/jpeg',
+    );
+    expect(
+      detectImageType(
+        bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00),
+      ),
+    ).toBe('image/png');
+    expect(
+      detectImageType(
+        Buffer.concat([
+          Buffer.from('RIFF'),
+          bytes(0x24, 0x10, 0x00, 0x00),
+          Buffer.from('WEBPVP8 '),
+        ]),
+      ),
+    ).toBe('image/webp');
+  });
+
+  it('rejects other content regardless of the declared type', () => {
+    expect(
+      detectImageType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>')),
+    ).toBeNull();
+    expect(detectImageType(Buffer.from('%PDF-1.7'))).toBeNull();
+    expect(
+      detectImageType(
+        Buffer.concat([
+          Buffer.from('RIFF'),
+          bytes(0, 0, 0, 0),
+          Buffer.from('WAVE'),
+        ]),
+      ),
+    ).toBeNull();
+  });
+
+  it('rejects files shorter than the signature', () => {
+    expect(detectImageType(bytes(0xff, 0xd8))).toBeNull();
+    expect(detectImageType(Buffer.alloc(0))).toBeNull();
+  });
+});
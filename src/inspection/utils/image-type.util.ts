@@ -0,0 +1,40 @@
+/**
+ * Тип изображения по сигнатуре файла. Content-Type из запроса задает клиент,
+ * поэтому формат фото определяется по первым байтам содержимого
+ */
+
+const SIGNATURES: { contentType: string; bytes: (number | null)[] }[] = [
+  { contentType: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  {
+    contentType: 'image/png',
+    bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  },
+  // RIFF....WEBP, байты 4-7 - размер файла
+  {
+    contentType: 'image/webp',
+    bytes: [
+      0x52,
+      0x49,
+      0x46,
+      0x46,
+      null,
+      null,
+      null,
+      null,
+      0x57,
+      0x45,
+      0x42,
+      0x50,
+    ],
+  },
+];
+
+export function detectImageType(buffer: Buffer): string | null {
+  const signature = SIGNATURES.find(
+    ({ bytes }) =>
+      buffer.length >= bytes.length &&
+      bytes.every((byte, index) => byte === null || buffer[index] === byte),
+  );
+
+  return signature?.contentType ?? null;
+}
@@ -0,0 +1,187 @@
+import { DamageType, Prisma, VehicleBodyZone } from '@prisma/client';
+import {
+  InspectionDamageItem,
+  InspectionReading,
+} from '../interfaces/inspection.interface';
+import { compareInspections } from './inspection-diff.util';
+
+const damage = (
+  zone: VehicleBodyZone,
+  type: DamageType,
+  repairCost: number | null = null,
+): InspectionDamageItem => ({
+  zone,
+  type,
+  description: null,
+  repairCost: repairCost === null ? null : new Prisma.Decimal(repairCost),
+});
+
+const reading = (
+  odometer: number,
+  fuelLevel: number,
+  damages: InspectionDamageItem[] = [],
+): InspectionReading => ({
+  odometer,
+  fuelLevel,
+  damages,
+});
+
+const fuelRate = new Prisma.Decimal('12.50');
+
+describe('compareInspections', () => {
+  it('charges nothing without a handover inspection', () => {
+    const returned = reading(50000, 10, [
+      damage(VehicleBodyZone.HOOD, DamageType.DENT, 3000),
+    ]);
+    const comparison = compareInspections(null, returned, fuelRate);
+
+    expect(comparison.hasHandover).toBe(false);
+    expect(comparison.mileage).toBeNull();
+    expect(comparison.newDamages).toEqual([]);
+    expect(comparison.totalCharge.isZero()).toBe(true);
+  });
+
+  it('calculates mileage and charges the fuel shortfall', () => {
+    const comparison = compareInspections(
+      reading(50000, 80),
+      reading(51234, 55),
+      fuelRate,
+    );
+
+    expect(comparison.mileage).toBe(1234);
+    expect(comparison.fuelShortfall).toBe(25);
+    expect(comparison.fuelCharge.toFixed(2)).toBe('312.50');
+    expect(comparison.totalCharge.toFixed(2)).toBe('312.50');
+  });
+
+  it('does not charge for a fuller tank on return', () => {
+    const comparison = compareInspections(
+      reading(50000, 40),
+      reading(50100, 100),
+      fuelRate,
+    );
+
+    expect(comparison.fuelShortfall).toBe(0);
+    expect(comparison.fuelCharge.isZero()).toBe(true);
+  });
+
+  it('does not charge fuel when the company has no fuel rate', () => {
+    const comparison = compareInspections(
+      reading(50000, 80),
+      reading(50100, 20),
+      null,
+    );
+
+    expect(comparison.fuelShortfall).toBe(60);
+    expect(comparison.fuelCharge.isZero()).toBe(true);
+  });
+
+  it('ignores damages already present at handover', () => {
+    const handover = reading(50000, 50, [
+      damage(VehicleBodyZone.FRONT_BUMPER, DamageType.SCRATCH),
+    ]);
+    const returned = reading(50100, 50, [
+      damage(VehicleBodyZone.FRONT_BUMPER, DamageType.SCRATCH, 1500),
+    ]);
+
+    const comparison = compareInspections(handover, returned, fuelRate);
+
+    expect(comparison.newDamages).toEqual([]);
+    expect(comparison.totalCharge.isZero()).toBe(true);
+  });
+
+  it('treats a different damage type in the same zone as new', () => {
+    const handover = reading(50000, 50, [
+      damage(VehicleBodyZone.FRONT_BUMPER, DamageType.SCRATCH),
+    ]);
+    const dent = damage(VehicleBodyZone.FRONT_BUMPER, DamageType.DENT, 2000);
+
+    const comparison = compareInspections(
+      handover,
+      reading(50100, 50, [dent]),
+      fuelRate,
+    );
+
+    expect(comparison.newDamages).toEqual([dent]);
+    expect(comparison.damageCharge.toFixed(2)).toBe('2000.00');
+  });
+
+  it('treats the same damage type in another zone as new', () => {
+    const handover = reading(50000, 50, [
+      damage(VehicleBodyZone.FRONT_LEFT_DOOR, DamageType.SCRATCH),
+    ]);
+    const scratch = damage(
+      VehicleBodyZone.FRONT_RIGHT_DOOR,
+      DamageType.SCRATCH,
+      800,
+    );
+
+    const comparison = compareInspections(
+      handover,
+      reading(50100, 50, [scratch]),
+      fuelRate,
+    );
+
+    expect(comparison.newDamages).toEqual([scratch]);
+  });
+
+  it('matches each handover damage to one returned damage', () => {
+    const handover = reading(50000, 50, [
+      damage(VehicleBodyZone.HOOD, DamageType.CHIP),
+    ]);
+    const returned = reading(50100, 50, [
+      damage(VehicleBodyZone.HOOD, DamageType.CHIP, 500),
+      damage(VehicleBodyZone.HOOD, DamageType.CHIP, 700),
+    ]);
+
+    const comparison = compareInspections(handover, returned, fuelRate);
+
+    expect(comparison.newDamages).toHaveLength(1);
+    expect(comparison.damageCharge.toFixed(2)).toBe('700.00');
+  });
+
+  it('ignores handover damages missing on return', () => {
+    const handover = reading(50000, 50, [
+      damage(VehicleBodyZone.WINDSHIELD, DamageType.CRACK),
+    ]);
+
+    const comparison = compareInspections(
+      handover,
+      reading(50100, 50),
+      fuelRate,
+    );
+
+    expect(comparison.newDamages).toEqual([]);
+  });
+
+  it('sums repair costs and fuel, treating an unknown repair cost as zero', () => {
+    const handover = reading(50000, 60);
+    const returned = reading(50500, 50, [
+      damage(VehicleBodyZone.REAR_BUMPER, DamageType.DENT, 2500.5),
+      damage(VehicleBodyZone.MIRRORS, DamageType.BROKEN),
+    ]);
+
+    const comparison = compareInspections(
+      handover,
+      returned,
+      new Prisma.Decimal('10.555'),
+    );
+
+    expect(comparison.newDamages).toHaveLength(2);
+    expect(comparison.damageCharge.toFixed(2)).toBe('2500.50');
+    // 10 % по 10.555 = 105.55
+    expect(comparison.fuelCharge.toFixed(2)).toBe('105.55');
+    expect(comparison.totalCharge.toFixed(2)).toBe('2606.05');
+  });
+
+  it('rounds the fuel charge to tyiyn', () => {
+    const comparison = compareInspections(
+      reading(0, 50),
+      reading(0, 47),
+      new Prisma.Decimal('3.335'),
+    );
+
+    // 3 % по 3.335 = 10.005
+    expect(comparison.fuelCharge.toFixed(2)).toBe('10.01');
+  });
+});
@@ -0,0 +1,72 @@
+import { Prisma } from '@prisma/client';
+import { roundMoney, sumMoney } from '../../currency/utils/money.util';
+import {
+  InspectionComparison,
+  InspectionDamageItem,
+  InspectionReading,
+} from '../interfaces/inspection.interface';
+
+/**
+ * Сравнение акта возврата с актом выдачи. Повреждение считается новым, если при выдаче
+ * в той же зоне не было повреждения того же типа (каждое повреждение выдачи покрывает одно при возврате).
+ * Без акта выдачи нечем подтвердить, что повреждение или недолив возникли за время аренды - начислений нет
+ */
+export function compareInspections(
+  handover: InspectionReading | null,
+  returned: InspectionReading,
+  fuelChargePerPercent: Prisma.Decimal | null,
+): InspectionComparison {
+  const zero = new Prisma.Decimal(0);
+
+  if (!handover) {
+    return {
+      hasHandover: false,
+      mileage: null,
+      fuelShortfall: 0,
+      newDamages: [],
+      fuelCharge: zero,
+      damageCharge: zero,
+      totalCharge: zero,
+    };
+  }
+
+  const newDamages = findNewDamages(handover.damages, returned.damages);
+  const fuelShortfall = Math.max(handover.fuelLevel - returned.fuelLevel, 0);
+
+  const fuelCharge = fuelChargePerPercent
+    ? roundMoney(fuelChargePerPercent.mul(fuelShortfall))
+    : zero;
+  const damageCharge = sumMoney(newDamages.map((damage) => damage.repairCost));
+
+  return {
+    hasHandover: true,
+    mileage: returned.odometer - handover.odometer,
+    fuelShortfall,
+    newDamages,
+    fuelCharge,
+    damageCharge,
+    totalCharge: fuelCharge.add(damageCharge),
+  };
+}
+
+function findNewDamages(
+  before: InspectionDamageItem[],
+  after: InspectionDamageItem[],
+): InspectionDamageItem[] {
+  const known = new Map<string, number>();
+  for (const damage of before) {
+    const key = `${damage.zone}:${damage.type}`;
+    known.set(key, (known.get(key) ?? 0) + 1);
+  }
+
+  return after.filter((damage) => {
+    const key = `${damage.zone}:${damage.type}`;
+    const count = known.get(key) ?? 0;
+
+    if (count > 0) {
+      known.set(key, count - 1);
+      return false;
+    }
+    return true;
+  });
+}
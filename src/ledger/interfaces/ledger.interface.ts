@@ -0,0 +1,53 @@
+import {
+  LedgerAccountType,
+  LedgerSide,
+  LedgerTransactionType,
+  Prisma,
+} from '@prisma/client';
+
+export interface LedgerTransactionHeader {
+  type: LedgerTransactionType;
+  companyId: string;
+  driverId: string;
+  description: string;
+  contractId?: string | null;
+  paymentId?: string | null;
+  createdById?: string | null;
+}
+
+// Движение средств водителя: одна проводка "дебет - кредит" на сумму amount.
+// Отрицательная сумма проводится в обратную сторону
+export interface LedgerMovement extends LedgerTransactionHeader {
+  amount: Prisma.Decimal | number;
+  debit: LedgerAccountType;
+  credit: LedgerAccountType;
+}
+
+// Сторнирование проводок платежа: счета и суммы берутся из исходных проводок
+export type LedgerReversal = Pick<
+  LedgerTransactionHeader,
+  'type' | 'description' | 'paymentId' | 'createdById'
+>;
+
+export interface LedgerEntryInput {
+  side: LedgerSide;
+  account: LedgerAccountType;
+  amount: Prisma.Decimal;
+}
+
+export interface LedgerAccountReconciliation {
+  account: LedgerAccountType;
+  stored: number; // Значение в таблице водителя
+  ledger: number; // Остаток по журналу (кредит - дебет)
+  difference: number;
+  matches: boolean;
+}
+
+export interface DriverLedgerReconciliation {
+  driverId: string;
+  driverName: string;
+  accounts: LedgerAccountReconciliation[];
+  unbalancedTransactions: string[]; // Проводки, в которых дебет не равен кредиту
+  reconciled: boolean;
+  checkedAt: Date;
+}
@@ -0,0 +1,98 @@
+import {
+  Controller,
+  DefaultValuePipe,
+  Get,
+  Param,
+  ParseIntPipe,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { LedgerService } from './ledger.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { User, CurrentUser } from '../auth/decorators/current-user.decorator';
+
+@ApiTags('📒 Ledger - Бухгалтерский журнал')
+@ApiBearerAuth()
+@Controller('ledger')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class LedgerController {
+  constructor(private readonly ledgerService: LedgerService) {}
+
+  @Get('drivers/:driverId/reconciliation')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @ApiOperation({
+    summary: '⚖️ Сверка баланса водителя с журналом',
+    description:
+      'Сравнивает баланс, доступный и заблокированный депозит водителя с остатками по журналу ' +
+      'и проверяет, что в каждой проводке дебет равен кредиту',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Результат сверки',
+    schema: {
+      example: {
+        driverId: 'driver_id',
+        driverName: 'Иван Петров',
+        accounts: [
+          {
+            account: 'DRIVER_RECEIVABLE',
+            stored: -450,
+            ledger: -450,
+            difference: 0,
+            matches: true,
+          },
+          {
+            account: 'DRIVER_DEPOSIT',
+            stored: 0,
+            ledger: 0,
+            difference: 0,
+            matches: true,
+          },
+          {
+            account: 'DRIVER_DEPOSIT_BLOCKED',
+            stored: 5000,
+            ledger: 5000,
+            difference: 0,
+            matches: true,
+          },
+        ],
+        unbalancedTransactions: [],
+        reconciled: true,
+        checkedAt: '2025-07-25T10:00:00.000Z',
+      },
+    },
+  })
+  async reconcileDriver(
+    @Param('driverId') driverId: string,
+    @User() user: CurrentUser,
+  ) {
+    return await this.ledgerService.reconcileDriver(driverId, user);
+  }
+
+  @Get('drivers/:driverId/transactions')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @ApiOperation({
+    summary: '📒 Проводки водителя',
+    description: 'Последние проводки журнала по счетам водителя',
+  })
+  async getDriverTransactions(
+    @Param('driverId') driverId: string,
+    @User() user: CurrentUser,
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number,
+  ) {
+    return await this.ledgerService.getDriverTransactions(
+      driverId,
+      user,
+      limit,
+    );
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { LedgerService } from './ledger.service';
+import { LedgerController } from './ledger.controller';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [LedgerController],
+  providers: [LedgerService],
+  exports: [LedgerService],
+})
+export class LedgerModule {}
@@ -0,0 +1,263 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  LedgerAccountType,
+  LedgerSide,
+  LedgerTransactionType,
+  Prisma,
+} from '@prisma/client';
+import { LedgerService } from './ledger.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { LedgerMovement } from './interfaces/ledger.interface';
+
+interface CreatedEntry {
+  side: LedgerSide;
+  amount: Prisma.Decimal;
+  accountId: string;
+}
+
+const createClient = () => ({
+  $queryRaw: jest.fn().mockResolvedValue([]),
+  ledgerAccount: {
+    upsert: jest.fn(({ where }: { where: { key: string } }) =>
+      Promise.resolve({ id: where.key }),
+    ),
+  },
+  ledgerTransaction: {
+    findMany: jest.fn().mockResolvedValue([]),
+    create: jest.fn().mockResolvedValue({ id: 'transaction-1' }),
+  },
+  driver: {
+    update: jest.fn().mockResolvedValue({}),
+  },
+});
+
+const movement = (
+  amount: number,
+  debit: LedgerAccountType,
+  credit: LedgerAccountType,
+): LedgerMovement => ({
+  type: LedgerTransactionType.TOP_UP,
+  description: 'Пополнение баланса',
+  companyId: 'company-1',
+  driverId: 'driver-1',
+  paymentId: 'payment-1',
+  amount,
+  debit,
+  credit,
+});
+
+const createdEntries = (tx: ReturnType<typeof createClient>) => {
+  const [[{ data }]] = tx.ledgerTransaction.create.mock.calls as [
+    [{ data: { entries: { create: CreatedEntry[] } } }],
+  ];
+
+  return data.entries.create.map((entry) => ({
+    side: entry.side,
+    account: entry.accountId,
+    amount: entry.amount.toNumber(),
+  }));
+};
+
+const driverChange = (tx: ReturnType<typeof createClient>) => {
+  const [[{ data }]] = tx.driver.update.mock.calls as [
+    [
+      {
+        data: {
+          balance: { increment: Prisma.Decimal };
+          deposit: { increment: Prisma.Decimal };
+        };
+      },
+    ],
+  ];
+
+  return {
+    balance: data.balance.increment.toNumber(),
+    deposit: data.deposit.increment.toNumber(),
+  };
+};
+
+describe('LedgerService', () => {
+  let service: LedgerService;
+  let tx: ReturnType<typeof createClient>;
+
+  beforeEach(() => {
+    service = new LedgerService({} as PrismaService);
+    tx = createClient();
+  });
+
+  const client = () => tx as unknown as Prisma.TransactionClient;
+
+  describe('post', () => {
+    it('records a balanced debit and credit and increments the driver balance', async () => {
+      await service.post(
+        client(),
+        movement(
+          1500,
+          LedgerAccountType.COMPANY_CASH,
+          LedgerAccountType.DRIVER_RECEIVABLE,
+        ),
+      );
+
+      expect(createdEntries(tx)).toEqual([
+        {
+          side: LedgerSide.DEBIT,
+          account: 'company-1:COMPANY_CASH',
+          amount: 1500,
+        },
+        {
+          side: LedgerSide.CREDIT,
+          account: 'company-1:DRIVER_RECEIVABLE:driver-1',
+          amount: 1500,
+        },
+      ]);
+      expect(driverChange(tx)).toEqual({ balance: 1500, deposit: 0 });
+    });
+
+    it('locks the driver row before writing entries', async () => {
+      await service.post(
+        client(),
+        movement(
+          100,
+          LedgerAccountType.COMPANY_CASH,
+          LedgerAccountType.DRIVER_RECEIVABLE,
+        ),
+      );
+
+      expect(tx.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+        tx.ledgerTransaction.create.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('posts a negative amount in the opposite direction', async () => {
+      await service.post(
+        client(),
+        movement(
+          -300,
+          LedgerAccountType.COMPANY_CASH,
+          LedgerAccountType.DRIVER_RECEIVABLE,
+        ),
+      );
+
+      expect(createdEntries(tx)).toEqual([
+        {
+          side: LedgerSide.DEBIT,
+          account: 'company-1:DRIVER_RECEIVABLE:driver-1',
+          amount: 300,
+        },
+        {
+          side: LedgerSide.CREDIT,
+          account: 'company-1:COMPANY_CASH',
+          amount: 300,
+        },
+      ]);
+      expect(driverChange(tx)).toEqual({ balance: -300, deposit: 0 });
+    });
+
+    it('moves money between the balance and the deposit', async () => {
+      await service.post(
+        client(),
+        movement(
+          200,
+          LedgerAccountType.DRIVER_DEPOSIT,
+          LedgerAccountType.DRIVER_RECEIVABLE,
+        ),
+      );
+
+      expect(driverChange(tx)).toEqual({ balance: 200, deposit: -200 });
+    });
+
+    it('does not touch the driver for company-only accounts', async () => {
+      await service.post(
+        client(),
+        movement(
+          50,
+          LedgerAccountType.COMPANY_CASH,
+          LedgerAccountType.COMPANY_REVENUE,
+        ),
+      );
+
+      expect(tx.ledgerTransaction.create).toHaveBeenCalledTimes(1);
+      expect(tx.driver.update).not.toHaveBeenCalled();
+    });
+
+    it('skips zero amounts', async () => {
+      const result = await service.post(
+        client(),
+        movement(
+          0,
+          LedgerAccountType.COMPANY_CASH,
+          LedgerAccountType.DRIVER_RECEIVABLE,
+        ),
+      );
+
+      expect(result).toBeNull();
+      expect(tx.$queryRaw).not.toHaveBeenCalled();
+      expect(tx.ledgerTransaction.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reversePayment', () => {
+    const reversal = {
+      type: LedgerTransactionType.REVERSAL,
+      description: 'Сторно платежа payment-1',
+      paymentId: 'reversal-1',
+      createdById: 'manager-1',
+    };
+
+    const entry = (
+      side: LedgerSide,
+      type: LedgerAccountType,
+      amount: number,
+    ) => ({
+      side,
+      amount: new Prisma.Decimal(amount),
+      account: { type },
+    });
+
+    it('repeats every entry of the payment on the opposite side', async () => {
+      tx.ledgerTransaction.findMany.mockResolvedValue([
+        {
+          companyId: 'company-1',
+          driverId: 'driver-1',
+          contractId: 'contract-1',
+          entries: [
+            entry(LedgerSide.DEBIT, LedgerAccountType.DRIVER_RECEIVABLE, 900),
+            entry(LedgerSide.CREDIT, LedgerAccountType.COMPANY_REVENUE, 900),
+          ],
+        },
+      ]);
+
+      await service.reversePayment(client(), 'payment-1', reversal);
+
+      expect(tx.ledgerTransaction.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { paymentId: 'payment-1' } }),
+      );
+      expect(createdEntries(tx)).toEqual([
+        {
+          side: LedgerSide.CREDIT,
+          account: 'company-1:DRIVER_RECEIVABLE:driver-1',
+          amount: 900,
+        },
+        {
+          side: LedgerSide.DEBIT,
+          account: 'company-1:COMPANY_REVENUE',
+          amount: 900,
+        },
+      ]);
+      expect(driverChange(tx)).toEqual({ balance: 900, deposit: 0 });
+
+      const [[{ data }]] = tx.ledgerTransaction.create.mock.calls as [
+        [{ data: { paymentId: string; contractId: string } }],
+      ];
+      expect(data.paymentId).toBe('reversal-1');
+      expect(data.contractId).toBe('contract-1');
+    });
+
+    it('rejects a payment without ledger entries', async () => {
+      await expect(
+        service.reversePayment(client(), 'payment-1', reversal),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(tx.ledgerTransaction.create).not.toHaveBeenCalled();
+    });
+  });
+});
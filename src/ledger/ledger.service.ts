@@ -0,0 +1,395 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ContractStatus,
+  LedgerAccountType,
+  LedgerSide,
+  Prisma,
+  RepaymentPlanStatus,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import {
+  DriverLedgerReconciliation,
+  LedgerAccountReconciliation,
+  LedgerEntryInput,
+  LedgerMovement,
+  LedgerReversal,
+  LedgerTransactionHeader,
+} from './interfaces/ledger.interface';
+
+// Счета, которые заводятся отдельно на каждого водителя
+const DRIVER_ACCOUNT_TYPES: LedgerAccountType[] = [
+  LedgerAccountType.DRIVER_RECEIVABLE,
+  LedgerAccountType.DRIVER_DEPOSIT,
+  LedgerAccountType.DRIVER_DEPOSIT_BLOCKED,
+  LedgerAccountType.DRIVER_REPAYMENT_PLAN,
+];
+
+/**
+ * Бухгалтерский журнал (двойная запись) за балансом и депозитом водителя.
+ * Driver.balance и Driver.deposit изменяются только проводками журнала (post / reversePayment)
+ */
+@Injectable()
+export class LedgerService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Проводка внутри транзакции вызывающего кода: записи по дебету и кредиту
+   * и соответствующее изменение баланса / депозита водителя
+   */
+  async post(tx: Prisma.TransactionClient, movement: LedgerMovement) {
+    let amount = new Prisma.Decimal(movement.amount);
+    let { debit, credit } = movement;
+
+    if (amount.isZero()) {
+      return null;
+    }
+
+    if (amount.isNegative()) {
+      amount = amount.neg();
+      [debit, credit] = [credit, debit];
+    }
+
+    return await this.record(tx, movement, [
+      { side: LedgerSide.DEBIT, account: debit, amount },
+      { side: LedgerSide.CREDIT, account: credit, amount },
+    ]);
+  }
+
+  /**
+   * Сторнирование всех проводок платежа: записи повторяются с обратной стороны,
+   * баланс и депозит водителя возвращаются к состоянию до платежа
+   */
+  async reversePayment(
+    tx: Prisma.TransactionClient,
+    paymentId: string,
+    reversal: LedgerReversal,
+  ) {
+    const transactions = await tx.ledgerTransaction.findMany({
+      where: { paymentId },
+      include: {
+        entries: {
+          include: { account: { select: { type: true } } },
+        },
+      },
+    });
+
+    if (transactions.length === 0) {
+      throw new BadRequestException(
+        'Payment has no ledger entries and cannot be reversed',
+      );
+    }
+
+    const [original] = transactions;
+    const entries = transactions
+      .flatMap((transaction) => transaction.entries)
+      .map((entry) => ({
+        side:
+          entry.side === LedgerSide.DEBIT
+            ? LedgerSide.CREDIT
+            : LedgerSide.DEBIT,
+        account: entry.account.type,
+        amount: entry.amount,
+      }));
+
+    return await this.record(
+      tx,
+      {
+        ...reversal,
+        companyId: original.companyId,
+        driverId: original.driverId,
+        contractId: original.contractId,
+      },
+      entries,
+    );
+  }
+
+  /**
+   * Сверка баланса, доступного и заблокированного депозита водителя с журналом
+   */
+  async reconcileDriver(
+    driverId: string,
+    currentUser: CurrentUser,
+  ): Promise<DriverLedgerReconciliation> {
+    const driver = await this.findDriver(driverId, currentUser);
+
+    const [blocked, plans, accounts] = await Promise.all([
+      this.prisma.contract.aggregate({
+        where: {
+          driverId,
+          status: {
+            notIn: [ContractStatus.COMPLETED, ContractStatus.TERMINATED],
+          },
+        },
+        _sum: { deposit: true },
+      }),
+      this.prisma.repaymentPlan.aggregate({
+        where: { driverId, status: RepaymentPlanStatus.ACTIVE },
+        _sum: { totalAmount: true, chargedAmount: true },
+      }),
+      this.getDriverAccountBalances(driverId),
+    ]);
+
+    const stored: Record<string, Prisma.Decimal> = {
+      [LedgerAccountType.DRIVER_RECEIVABLE]: driver.balance,
+      [LedgerAccountType.DRIVER_DEPOSIT]: driver.deposit,
+      [LedgerAccountType.DRIVER_DEPOSIT_BLOCKED]:
+        blocked._sum.deposit ?? new Prisma.Decimal(0),
+      // Долг, перенесенный на план погашения и еще не начисленный взносами
+      [LedgerAccountType.DRIVER_REPAYMENT_PLAN]: new Prisma.Decimal(
+        plans._sum.chargedAmount ?? 0,
+      ).sub(plans._sum.totalAmount ?? 0),
+    };
+
+    const reconciliation: LedgerAccountReconciliation[] =
+      DRIVER_ACCOUNT_TYPES.map((account) => {
+        const ledger = accounts.get(account) ?? new Prisma.Decimal(0);
+        const difference = stored[account].sub(ledger);
+
+        return {
+          account,
+          stored: stored[account].toNumber(),
+          ledger: ledger.toNumber(),
+          difference: difference.toNumber(),
+          matches: difference.isZero(),
+        };
+      });
+
+    const unbalancedTransactions =
+      await this.findUnbalancedTransactions(driverId);
+
+    return {
+      driverId,
+      driverName: `${driver.firstName} ${driver.lastName}`,
+      accounts: reconciliation,
+      unbalancedTransactions,
+      reconciled:
+        reconciliation.every((a) => a.matches) &&
+        unbalancedTransactions.length === 0,
+      checkedAt: new Date(),
+    };
+  }
+
+  async getDriverTransactions(
+    driverId: string,
+    currentUser: CurrentUser,
+    limit = 50,
+  ) {
+    await this.findDriver(driverId, currentUser);
+
+    return await this.prisma.ledgerTransaction.findMany({
+      where: { driverId },
+      include: {
+        entries: {
+          select: {
+            side: true,
+            amount: true,
+            account: { select: { type: true } },
+          },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  private async record(
+    tx: Prisma.TransactionClient,
+    header: LedgerTransactionHeader,
+    entries: LedgerEntryInput[],
+  ) {
+    // Блокировка строки водителя до конца транзакции: движения по одному водителю
+    // (пополнение кассиром, ночное списание, сторно) проводятся строго последовательно
+    await tx.$queryRaw`SELECT "id" FROM "drivers" WHERE "id" = ${header.driverId} FOR UPDATE`;
+
+    const accountIds: string[] = [];
+    for (const entry of entries) {
+      const account = await this.getAccount(
+        tx,
+        header.companyId,
+        entry.account,
+        header.driverId,
+      );
+      accountIds.push(account.id);
+    }
+
+    const transaction = await tx.ledgerTransaction.create({
+      data: {
+        type: header.type,
+        description: header.description,
+        companyId: header.companyId,
+        driverId: header.driverId,
+        contractId: header.contractId ?? null,
+        paymentId: header.paymentId ?? null,
+        createdById: header.createdById ?? null,
+        entries: {
+          create: entries.map((entry, index) => ({
+            side: entry.side,
+            amount: entry.amount,
+            accountId: accountIds[index],
+          })),
+        },
+      },
+    });
+
+    const balanceChange = this.getDriverChange(
+      LedgerAccountType.DRIVER_RECEIVABLE,
+      entries,
+    );
+    const depositChange = this.getDriverChange(
+      LedgerAccountType.DRIVER_DEPOSIT,
+      entries,
+    );
+
+    if (!balanceChange.isZero() || !depositChange.isZero()) {
+      await tx.driver.update({
+        where: { id: header.driverId },
+        data: {
+          balance: { increment: balanceChange },
+          deposit: { increment: depositChange },
+        },
+      });
+    }
+
+    return transaction;
+  }
+
+  /**
+   * Счет компании или водителя; создается при первой проводке
+   */
+  private async getAccount(
+    tx: Prisma.TransactionClient,
+    companyId: string,
+    type: LedgerAccountType,
+    driverId: string,
+  ) {
+    const isDriverAccount = DRIVER_ACCOUNT_TYPES.includes(type);
+    const key = isDriverAccount
+      ? `${companyId}:${type}:${driverId}`
+      : `${companyId}:${type}`;
+
+    return await tx.ledgerAccount.upsert({
+      where: { key },
+      create: {
+        key,
+        type,
+        companyId,
+        driverId: isDriverAccount ? driverId : null,
+      },
+      update: {},
+    });
+  }
+
+  /**
+   * Изменение остатка водителя по счету: кредит увеличивает, дебет уменьшает
+   */
+  private getDriverChange(
+    type: LedgerAccountType,
+    entries: LedgerEntryInput[],
+  ): Prisma.Decimal {
+    return entries
+      .filter((entry) => entry.account === type)
+      .reduce(
+        (change, entry) =>
+          entry.side === LedgerSide.CREDIT
+            ? change.add(entry.amount)
+            : change.sub(entry.amount),
+        new Prisma.Decimal(0),
+      );
+  }
+
+  /**
+   * Остатки по счетам водителя (кредит - дебет)
+   */
+  private async getDriverAccountBalances(driverId: string) {
+    const accounts = await this.prisma.ledgerAccount.findMany({
+      where: { driverId },
+      select: { id: true, type: true },
+    });
+
+    const totals = await this.prisma.ledgerEntry.groupBy({
+      by: ['accountId', 'side'],
+      where: { accountId: { in: accounts.map((a) => a.id) } },
+      _sum: { amount: true },
+    });
+
+    const balances = new Map<LedgerAccountType, Prisma.Decimal>();
+
+    for (const total of totals) {
+      const { type } = accounts.find((a) => a.id === total.accountId)!;
+      const amount = total._sum.amount ?? new Prisma.Decimal(0);
+      const current = balances.get(type) ?? new Prisma.Decimal(0);
+
+      balances.set(
+        type,
+        total.side === LedgerSide.CREDIT
+          ? current.add(amount)
+          : current.sub(amount),
+      );
+    }
+
+    return balances;
+  }
+
+  private async findUnbalancedTransactions(
+    driverId: string,
+  ): Promise<string[]> {
+    const totals = await this.prisma.ledgerEntry.groupBy({
+      by: ['transactionId', 'side'],
+      where: { transaction: { driverId } },
+      _sum: { amount: true },
+    });
+
+    const differences = new Map<string, Prisma.Decimal>();
+
+    for (const total of totals) {
+      const amount = total._sum.amount ?? new Prisma.Decimal(0);
+      const current =
+        differences.get(total.transactionId) ?? new Prisma.Decimal(0);
+
+      differences.set(
+        total.transactionId,
+        total.side === LedgerSide.DEBIT
+          ? current.add(amount)
+          : current.sub(amount),
+      );
+    }
+
+    return [...differences]
+      .filter(([, difference]) => !difference.isZero())
+      .map(([transactionId]) => transactionId);
+  }
+
+  private async findDriver(driverId: string, currentUser: CurrentUser) {
+    const driver = await this.prisma.driver.findUnique({
+      where: { id: driverId },
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        balance: true,
+        deposit: true,
+        companyId: true,
+      },
+    });
+
+    if (!driver) {
+      throw new NotFoundException(`Driver with ID ${driverId} not found`);
+    }
+
+    if (
+      currentUser.role !== UserRole.SUPER_ADMIN &&
+      driver.companyId !== currentUser.companyId
+    ) {
+      throw new ForbiddenException('Access denied to this driver');
+    }
+
+    return driver;
+  }
+}
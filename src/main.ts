@@ -4,7 +4,8 @@ import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // rawBody - для проверки подписи вебхуков платежных провайдеров
+  const app = await NestFactory.create(AppModule, { rawBody: true });
 
   // Validation pipe
   app.useGlobalPipes(new ValidationPipe({
@@ -0,0 +1,63 @@
+import { Body, Controller, Get, Post, UseInterceptors } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { PaymentGatewayService } from './payment-gateway.service';
+import { IdempotencyInterceptor } from '../idempotency/idempotency.interceptor';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { User, CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CreateTopUpDto } from './dto/create-top-up.dto';
+
+// Маршруты водителя /drivers/me/* для онлайн-пополнения: живут в модуле оплаты,
+// чтобы DriverModule не зависел от PaymentGatewayModule, который сам использует DriverService
+@ApiTags('🌐 Payment Gateway - Онлайн-оплата')
+@ApiBearerAuth()
+@Controller('drivers/me')
+export class DriverTopUpController {
+  constructor(private readonly paymentGatewayService: PaymentGatewayService) {}
+
+  @Roles(UserRole.DRIVER)
+  @Post('top-up')
+  @UseInterceptors(IdempotencyInterceptor)
+  @ApiOperation({
+    summary: '💳 Пополнить баланс онлайн',
+    description:
+      'Создает счет у платежного провайдера и возвращает ссылку на оплату. Баланс пополняется после подтверждения оплаты',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Счет создан',
+    schema: {
+      example: {
+        id: 'online_payment_id',
+        provider: 'fake',
+        amount: '1500',
+        method: 'QR',
+        status: 'PENDING',
+        paymentUrl:
+          'http://localhost:3000/payment-gateway/fake/checkout/fake_...',
+        expiresAt: '2025-07-30T09:30:00.000Z',
+      },
+    },
+  })
+  async createTopUp(
+    @Body() createTopUpDto: CreateTopUpDto,
+    @User() user: CurrentUser,
+  ) {
+    return await this.paymentGatewayService.createTopUp(createTopUpDto, user);
+  }
+
+  @Roles(UserRole.DRIVER)
+  @Get('top-ups')
+  @ApiOperation({
+    summary: '📋 Мои онлайн-пополнения',
+    description: 'Последние 20 счетов и их статусы',
+  })
+  async findMyTopUps(@User() user: CurrentUser) {
+    return await this.paymentGatewayService.findMyTopUps(user);
+  }
+}
@@ -0,0 +1,13 @@
+import { IsNumber, Max, Min } from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreateTopUpDto {
+  @ApiProperty({ example: 1500, description: 'Сумма пополнения' })
+  @Transform(({ value }) => parseFloat(value))
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(1)
+  @Max(1000000)
+  amount: number;
+}
@@ -0,0 +1,19 @@
+import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class FakeCheckoutDto {
+  @ApiProperty({
+    required: false,
+    enum: ['succeeded', 'failed'],
+    default: 'succeeded',
+  })
+  @IsOptional()
+  @IsIn(['succeeded', 'failed'])
+  status?: 'succeeded' | 'failed' = 'succeeded';
+
+  @ApiProperty({ required: false, example: 'Insufficient funds' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  failureReason?: string;
+}
@@ -0,0 +1,33 @@
+export class OnlineTopUpCreatedEvent {
+  constructor(
+    public readonly onlinePaymentId: string,
+    public readonly driverId: string,
+    public readonly provider: string,
+    public readonly amount: number,
+    public readonly currency: string,
+    public readonly timestamp: Date = new Date(),
+  ) {}
+}
+
+export class OnlineTopUpSucceededEvent {
+  constructor(
+    public readonly onlinePaymentId: string,
+    public readonly paymentId: string,
+    public readonly driverId: string,
+    public readonly companyId: string,
+    public readonly provider: string,
+    public readonly amount: number,
+    public readonly currency: string,
+    public readonly timestamp: Date = new Date(),
+  ) {}
+}
+
+export class OnlineTopUpFailedEvent {
+  constructor(
+    public readonly onlinePaymentId: string,
+    public readonly driverId: string,
+    public readonly provider: string,
+    public readonly reason: string,
+    public readonly timestamp: Date = new Date(),
+  ) {}
+}
@@ -0,0 +1,4 @@
+export interface WebhookResult {
+  received: true;
+  duplicate: boolean; // Уведомление уже обработано ранее, повторно не применяется
+}
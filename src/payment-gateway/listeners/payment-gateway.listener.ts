@@ -0,0 +1,39 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import {
+  OnlineTopUpCreatedEvent,
+  OnlineTopUpFailedEvent,
+  OnlineTopUpSucceededEvent,
+} from '../events/payment-gateway.events';
+import { formatMoney } from '../../currency/utils/currency.util';
+
+@Injectable()
+export class PaymentGatewayEventListener {
+  private readonly logger = new Logger(PaymentGatewayEventListener.name);
+
+  @OnEvent('payment-gateway.top-up.created')
+  handleTopUpCreated(event: OnlineTopUpCreatedEvent) {
+    this.logger.log(
+      `🔗 Водитель ${event.driverId} создал счет на пополнение ${formatMoney(event.amount, event.currency)} ` +
+        `(${event.provider}, ${event.onlinePaymentId})`,
+    );
+  }
+
+  @OnEvent('payment-gateway.top-up.succeeded')
+  handleTopUpSucceeded(event: OnlineTopUpSucceededEvent) {
+    this.logger.log(
+      `💰 Онлайн-пополнение ${event.onlinePaymentId} оплачено: водитель ${event.driverId}, ` +
+        `${formatMoney(event.amount, event.currency)} (платеж ${event.paymentId})`,
+    );
+
+    // Здесь можно добавить:
+    // - Push уведомление водителю о зачислении
+  }
+
+  @OnEvent('payment-gateway.top-up.failed')
+  handleTopUpFailed(event: OnlineTopUpFailedEvent) {
+    this.logger.warn(
+      `❌ Онлайн-пополнение ${event.onlinePaymentId} не прошло (${event.provider}): ${event.reason}`,
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import {
+  Body,
+  Controller,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Req,
+} from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
+import type { Request } from 'express';
+import { ApiTags, ApiOperation, ApiResponse } from '@nestjs/swagger';
+import { PaymentGatewayService } from './payment-gateway.service';
+import { Public } from '../auth/decorators/public.decorator';
+import { FakeCheckoutDto } from './dto/fake-checkout.dto';
+import type { WebhookHeaders } from './providers/payment-provider.interface';
+
+@ApiTags('🌐 Payment Gateway - Онлайн-оплата')
+@Controller('payment-gateway')
+export class PaymentGatewayController {
+  constructor(private readonly paymentGatewayService: PaymentGatewayService) {}
+
+  @Public()
+  @Post('webhooks/:provider')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '📨 Вебхук провайдера',
+    description:
+      'Подписанное уведомление об оплате счета. Повторная доставка того же уведомления ' +
+      'возвращает duplicate: true и не пополняет баланс второй раз',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Уведомление принято',
+    schema: { example: { received: true, duplicate: false } },
+  })
+  @ApiResponse({ status: 401, description: 'Неверная подпись' })
+  async webhook(
+    @Param('provider') provider: string,
+    @Req() request: RawBodyRequest<Request>,
+    @Headers() headers: WebhookHeaders,
+  ) {
+    return await this.paymentGatewayService.handleWebhook(
+      provider,
+      request.rawBody,
+      headers,
+    );
+  }
+
+  @Public()
+  @Post('fake/checkout/:externalId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '🧪 Оплата счета локального провайдера',
+    description:
+      'Эмулирует страницу оплаты: отправляет подписанный вебхук. Недоступно в production',
+  })
+  async fakeCheckout(
+    @Param('externalId') externalId: string,
+    @Body() fakeCheckoutDto: FakeCheckoutDto,
+  ) {
+    return await this.paymentGatewayService.fakeCheckout(
+      externalId,
+      fakeCheckoutDto,
+    );
+  }
+}
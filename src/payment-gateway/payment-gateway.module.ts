@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { PaymentGatewayService } from './payment-gateway.service';
+import { PaymentGatewayController } from './payment-gateway.controller';
+import { DriverTopUpController } from './driver-top-up.controller';
+import { PaymentGatewayEventListener } from './listeners/payment-gateway.listener';
+import { PaymentProviderRegistry } from './payment-provider.registry';
+import { FakePaymentProvider } from './providers/fake-payment.provider';
+import {
+  PAYMENT_PROVIDERS,
+  PaymentProvider,
+} from './providers/payment-provider.interface';
+import { PrismaModule } from '../prisma/prisma.module';
+import { DriverModule } from '../driver/driver.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+
+@Module({
+  imports: [PrismaModule, DriverModule, IdempotencyModule],
+  controllers: [PaymentGatewayController, DriverTopUpController],
+  providers: [
+    FakePaymentProvider,
+    {
+      // Подключенные провайдеры; выбор для новых счетов - PAYMENT_PROVIDER
+      provide: PAYMENT_PROVIDERS,
+      useFactory: (fake: FakePaymentProvider): PaymentProvider[] => [fake],
+      inject: [FakePaymentProvider],
+    },
+    PaymentProviderRegistry,
+    PaymentGatewayService,
+    PaymentGatewayEventListener,
+  ],
+})
+export class PaymentGatewayModule {}
@@ -0,0 +1,174 @@
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  OnlinePaymentStatus,
+  PaymentMethod,
+  PaymentType,
+  Prisma,
+} from '@prisma/client';
+import { PaymentGatewayService } from './payment-gateway.service';
+import { PaymentProviderRegistry } from './payment-provider.registry';
+import {
+  FAKE_SIGNATURE_HEADER,
+  FakePaymentProvider,
+} from './providers/fake-payment.provider';
+import { PrismaService } from '../prisma/prisma.service';
+import { DriverService } from '../driver/driver.service';
+import { OnlineTopUpSucceededEvent } from './events/payment-gateway.events';
+
+const onlinePayment = {
+  id: 'online-1',
+  provider: 'fake',
+  externalId: 'fake_1',
+  amount: new Prisma.Decimal(500),
+  method: PaymentMethod.QR,
+  status: OnlinePaymentStatus.PENDING,
+  driverId: 'driver-1',
+  companyId: 'company-1',
+};
+
+const createClient = () => ({
+  onlinePayment: {
+    findUnique: jest.fn().mockResolvedValue(onlinePayment),
+    updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    update: jest.fn().mockResolvedValue({
+      ...onlinePayment,
+      status: OnlinePaymentStatus.SUCCEEDED,
+      payment: { id: 'payment-1', currency: 'KGS' },
+    }),
+  },
+});
+
+const createPrisma = () => {
+  const client = createClient();
+
+  return {
+    ...client,
+    $transaction: jest.fn((callback: (tx: typeof client) => unknown) =>
+      callback(client),
+    ),
+  };
+};
+
+describe('PaymentGatewayService', () => {
+  let prisma: ReturnType<typeof createPrisma>;
+  let driverService: { postBalancePayment: jest.Mock };
+  let eventEmitter: { emit: jest.Mock };
+  let provider: FakePaymentProvider;
+  let service: PaymentGatewayService;
+
+  beforeEach(() => {
+    const configService = {
+      get: jest.fn((_key: string, defaultValue?: string) => defaultValue),
+    } as unknown as ConfigService;
+
+    prisma = createPrisma();
+    driverService = {
+      postBalancePayment: jest.fn().mockResolvedValue({ id: 'payment-1' }),
+    };
+    eventEmitter = { emit: jest.fn() };
+    provider = new FakePaymentProvider(configService);
+
+    service = new PaymentGatewayService(
+      prisma as unknown as PrismaService,
+      driverService as unknown as DriverService,
+      new PaymentProviderRegistry([provider], configService),
+      provider,
+      eventEmitter as unknown as EventEmitter2,
+    );
+  });
+
+  const webhook = (status: 'succeeded' | 'failed', amount = 500) =>
+    provider.buildWebhook({
+      externalId: onlinePayment.externalId,
+      status,
+      amount,
+      failureReason: status === 'failed' ? 'Card declined' : undefined,
+    });
+
+  describe('handleWebhook', () => {
+    it('credits the driver balance for a signed payment notification', async () => {
+      const { body, headers } = webhook('succeeded');
+
+      const result = await service.handleWebhook('fake', body, headers);
+
+      expect(result).toEqual({ received: true, duplicate: false });
+      expect(driverService.postBalancePayment).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.objectContaining({
+          driverId: 'driver-1',
+          amount: 500,
+          type: PaymentType.PAYMENT,
+          method: PaymentMethod.QR,
+        }),
+      );
+      expect(eventEmitter.emit).toHaveBeenCalledWith(
+        'payment-gateway.top-up.succeeded',
+        expect.any(OnlineTopUpSucceededEvent),
+      );
+    });
+
+    it('rejects a notification whose body was changed after signing', async () => {
+      const { headers } = webhook('succeeded');
+      const { body } = webhook('succeeded', 50000);
+
+      await expect(
+        service.handleWebhook('fake', body, headers),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      expect(prisma.onlinePayment.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('rejects a notification without a signature or body', async () => {
+      const { body, headers } = webhook('succeeded');
+
+      await expect(
+        service.handleWebhook('fake', body, {}),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      await expect(
+        service.handleWebhook('fake', body, {
+          [FAKE_SIGNATURE_HEADER]: 'abc',
+        }),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+      await expect(
+        service.handleWebhook('fake', undefined, headers),
+      ).rejects.toBeInstanceOf(UnauthorizedException);
+    });
+
+    it('does not credit the balance twice for a repeated notification', async () => {
+      prisma.onlinePayment.updateMany.mockResolvedValue({ count: 0 });
+      const { body, headers } = webhook('succeeded');
+
+      const result = await service.handleWebhook('fake', body, headers);
+
+      expect(result).toEqual({ received: true, duplicate: true });
+      expect(driverService.postBalancePayment).not.toHaveBeenCalled();
+      expect(eventEmitter.emit).not.toHaveBeenCalled();
+    });
+
+    it('rejects an amount that differs from the invoice', async () => {
+      const { body, headers } = webhook('succeeded', 499.99);
+
+      await expect(
+        service.handleWebhook('fake', body, headers),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('marks a pending invoice failed without touching the balance', async () => {
+      const { body, headers } = webhook('failed');
+
+      const result = await service.handleWebhook('fake', body, headers);
+
+      expect(result).toEqual({ received: true, duplicate: false });
+      expect(prisma.onlinePayment.updateMany).toHaveBeenCalledWith({
+        where: { id: onlinePayment.id, status: OnlinePaymentStatus.PENDING },
+        data: {
+          status: OnlinePaymentStatus.FAILED,
+          failureReason: 'Card declined',
+        },
+      });
+      expect(driverService.postBalancePayment).not.toHaveBeenCalled();
+    });
+  });
+});
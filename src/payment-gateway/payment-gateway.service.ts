@@ -0,0 +1,307 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  OnlinePayment,
+  OnlinePaymentStatus,
+  PaymentType,
+  Prisma,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { DriverService } from '../driver/driver.service';
+import { PaymentProviderRegistry } from './payment-provider.registry';
+import { FakePaymentProvider } from './providers/fake-payment.provider';
+import {
+  ProviderWebhookEvent,
+  WebhookHeaders,
+} from './providers/payment-provider.interface';
+import { CreateTopUpDto } from './dto/create-top-up.dto';
+import { FakeCheckoutDto } from './dto/fake-checkout.dto';
+import { WebhookResult } from './interfaces/payment-gateway.interface';
+import {
+  OnlineTopUpCreatedEvent,
+  OnlineTopUpFailedEvent,
+  OnlineTopUpSucceededEvent,
+} from './events/payment-gateway.events';
+
+const INVOICE_TTL_MS = 30 * 60 * 1000; // Счет действителен 30 минут
+
+const onlinePaymentSelect = {
+  id: true,
+  provider: true,
+  amount: true,
+  method: true,
+  status: true,
+  paymentUrl: true,
+  qrPayload: true,
+  expiresAt: true,
+  paidAt: true,
+  failureReason: true,
+  createdAt: true,
+} satisfies Prisma.OnlinePaymentSelect;
+
+@Injectable()
+export class PaymentGatewayService {
+  private readonly logger = new Logger(PaymentGatewayService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly driverService: DriverService,
+    private readonly providerRegistry: PaymentProviderRegistry,
+    private readonly fakeProvider: FakePaymentProvider,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Счет на пополнение баланса водителем: ссылка на оплату и QR-код провайдера
+   */
+  async createTopUp(createTopUpDto: CreateTopUpDto, currentUser: CurrentUser) {
+    const driver = await this.prisma.driver.findUnique({
+      where: { id: currentUser.id },
+      include: { company: { select: { baseCurrency: true } } },
+    });
+
+    if (!driver) {
+      throw new NotFoundException(`Driver with ID ${currentUser.id} not found`);
+    }
+
+    if (!driver.isActive) {
+      throw new BadRequestException('Driver is inactive');
+    }
+
+    const provider = this.providerRegistry.getDefaultProvider();
+    const expiresAt = new Date(Date.now() + INVOICE_TTL_MS);
+
+    const invoice = await provider.createInvoice({
+      amount: createTopUpDto.amount,
+      description: `Balance top-up: ${driver.firstName} ${driver.lastName}`,
+      expiresAt,
+    });
+
+    const onlinePayment = await this.prisma.onlinePayment.create({
+      data: {
+        provider: provider.name,
+        externalId: invoice.externalId,
+        amount: createTopUpDto.amount,
+        method: provider.method,
+        paymentUrl: invoice.paymentUrl,
+        qrPayload: invoice.qrPayload,
+        expiresAt,
+        driverId: driver.id,
+        companyId: driver.companyId,
+      },
+      select: onlinePaymentSelect,
+    });
+
+    this.eventEmitter.emit(
+      'payment-gateway.top-up.created',
+      new OnlineTopUpCreatedEvent(
+        onlinePayment.id,
+        driver.id,
+        provider.name,
+        createTopUpDto.amount,
+        driver.company.baseCurrency,
+      ),
+    );
+
+    return onlinePayment;
+  }
+
+  async findMyTopUps(currentUser: CurrentUser) {
+    return this.prisma.onlinePayment.findMany({
+      where: { driverId: currentUser.id },
+      select: onlinePaymentSelect,
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+    });
+  }
+
+  /**
+   * Уведомление провайдера об оплате. Подпись проверяется по сырому телу запроса.
+   * Повторные уведомления (провайдеры повторяют доставку) не зачисляют деньги второй раз
+   */
+  async handleWebhook(
+    providerName: string,
+    rawBody: Buffer | undefined,
+    headers: WebhookHeaders,
+  ): Promise<WebhookResult> {
+    const provider = this.providerRegistry.getProvider(providerName);
+
+    if (!rawBody || !provider.verifyWebhook(rawBody, headers)) {
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+
+    const event = provider.parseWebhook(rawBody);
+
+    const onlinePayment = await this.prisma.onlinePayment.findUnique({
+      where: {
+        provider_externalId: {
+          provider: provider.name,
+          externalId: event.externalId,
+        },
+      },
+    });
+
+    if (!onlinePayment) {
+      throw new NotFoundException(
+        `Online payment ${event.externalId} not found`,
+      );
+    }
+
+    return event.status === 'succeeded'
+      ? await this.confirmPayment(onlinePayment, event)
+      : await this.failPayment(onlinePayment, event);
+  }
+
+  /**
+   * Эмуляция страницы оплаты локального провайдера: отправляет подписанный вебхук
+   */
+  async fakeCheckout(
+    externalId: string,
+    fakeCheckoutDto: FakeCheckoutDto,
+  ): Promise<WebhookResult> {
+    const onlinePayment = await this.prisma.onlinePayment.findUnique({
+      where: {
+        provider_externalId: { provider: this.fakeProvider.name, externalId },
+      },
+    });
+
+    if (!onlinePayment || !this.fakeProvider.isEnabled()) {
+      throw new NotFoundException(`Online payment ${externalId} not found`);
+    }
+
+    const { body, headers } = this.fakeProvider.buildWebhook({
+      externalId,
+      status: fakeCheckoutDto.status ?? 'succeeded',
+      amount: onlinePayment.amount.toNumber(),
+      failureReason: fakeCheckoutDto.failureReason,
+    });
+
+    return await this.handleWebhook(this.fakeProvider.name, body, headers);
+  }
+
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async expireStaleTopUps() {
+    const { count } = await this.prisma.onlinePayment.updateMany({
+      where: {
+        status: OnlinePaymentStatus.PENDING,
+        expiresAt: { lt: new Date() },
+      },
+      data: { status: OnlinePaymentStatus.EXPIRED },
+    });
+
+    if (count > 0) {
+      this.logger.log(
+        `⌛ Просрочено неоплаченных счетов на пополнение: ${count}`,
+      );
+    }
+  }
+
+  private async confirmPayment(
+    onlinePayment: OnlinePayment,
+    event: ProviderWebhookEvent,
+  ): Promise<WebhookResult> {
+    if (!onlinePayment.amount.equals(event.amount)) {
+      this.logger.error(
+        `💥 Сумма вебхука ${event.amount} не совпадает со счетом ${onlinePayment.id} (${onlinePayment.amount.toFixed(2)})`,
+      );
+      throw new BadRequestException(
+        'Webhook amount does not match the invoice',
+      );
+    }
+
+    const confirmed = await this.prisma.$transaction(async (tx) => {
+      // Оплата засчитывается и после истечения срока или сообщения об ошибке:
+      // деньги уже списаны у водителя. Повторный вебхук не найдет незачисленный счет
+      const { count } = await tx.onlinePayment.updateMany({
+        where: {
+          id: onlinePayment.id,
+          status: { not: OnlinePaymentStatus.SUCCEEDED },
+        },
+        data: {
+          status: OnlinePaymentStatus.SUCCEEDED,
+          paidAt: new Date(),
+          failureReason: null,
+        },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      // Зачисление тем же путем, что и ручное пополнение баланса
+      const payment = await this.driverService.postBalancePayment(tx, {
+        driverId: onlinePayment.driverId,
+        companyId: onlinePayment.companyId,
+        amount: onlinePayment.amount.toNumber(),
+        type: PaymentType.PAYMENT,
+        method: onlinePayment.method,
+        description: `Online top-up (${onlinePayment.provider})`,
+        createdById: null,
+      });
+
+      return await tx.onlinePayment.update({
+        where: { id: onlinePayment.id },
+        data: { paymentId: payment.id },
+        include: { payment: { select: { id: true, currency: true } } },
+      });
+    });
+
+    if (!confirmed?.payment) {
+      return { received: true, duplicate: true };
+    }
+
+    this.eventEmitter.emit(
+      'payment-gateway.top-up.succeeded',
+      new OnlineTopUpSucceededEvent(
+        confirmed.id,
+        confirmed.payment.id,
+        confirmed.driverId,
+        confirmed.companyId,
+        confirmed.provider,
+        confirmed.amount.toNumber(),
+        confirmed.payment.currency,
+      ),
+    );
+
+    return { received: true, duplicate: false };
+  }
+
+  private async failPayment(
+    onlinePayment: OnlinePayment,
+    event: ProviderWebhookEvent,
+  ): Promise<WebhookResult> {
+    const reason = event.failureReason ?? 'Payment failed';
+
+    const { count } = await this.prisma.onlinePayment.updateMany({
+      where: { id: onlinePayment.id, status: OnlinePaymentStatus.PENDING },
+      data: {
+        status: OnlinePaymentStatus.FAILED,
+        failureReason: reason,
+      },
+    });
+
+    if (count === 0) {
+      return { received: true, duplicate: true };
+    }
+
+    this.eventEmitter.emit(
+      'payment-gateway.top-up.failed',
+      new OnlineTopUpFailedEvent(
+        onlinePayment.id,
+        onlinePayment.driverId,
+        onlinePayment.provider,
+        reason,
+      ),
+    );
+
+    return { received: true, duplicate: false };
+  }
+}
@@ -0,0 +1,52 @@
+import {
+  Inject,
+  Injectable,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  PAYMENT_PROVIDERS,
+  PaymentProvider,
+} from './providers/payment-provider.interface';
+
+@Injectable()
+export class PaymentProviderRegistry {
+  private readonly providers: Map<string, PaymentProvider>;
+
+  constructor(
+    @Inject(PAYMENT_PROVIDERS) providers: PaymentProvider[],
+    private readonly configService: ConfigService,
+  ) {
+    this.providers = new Map(
+      providers.map((provider) => [provider.name, provider]),
+    );
+  }
+
+  getProvider(name: string): PaymentProvider {
+    const provider = this.providers.get(name);
+
+    if (!provider || !provider.isEnabled()) {
+      throw new NotFoundException(`Payment provider ${name} not found`);
+    }
+
+    return provider;
+  }
+
+  /**
+   * Провайдер для новых счетов (PAYMENT_PROVIDER, по умолчанию fake)
+   */
+  getDefaultProvider(): PaymentProvider {
+    const provider = this.providers.get(
+      this.configService.get<string>('PAYMENT_PROVIDER', 'fake'),
+    );
+
+    if (!provider || !provider.isEnabled()) {
+      throw new ServiceUnavailableException(
+        'Online payments are not configured',
+      );
+    }
+
+    return provider;
+  }
+}
@@ -0,0 +1,106 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PaymentMethod } from '@prisma/client';
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import {
+  CreateInvoiceRequest,
+  PaymentProvider,
+  ProviderInvoice,
+  ProviderWebhookEvent,
+  WebhookHeaders,
+} from './payment-provider.interface';
+
+export const FAKE_SIGNATURE_HEADER = 'x-fake-signature';
+
+/**
+ * Локальный провайдер для разработки и тестов: счет "оплачивается" запросом к /payment-gateway/fake/checkout,
+ * который отправляет подписанный HMAC-SHA256 вебхук тем же путем, что и настоящий провайдер.
+ * В production отключен: иначе известный секрет позволил бы пополнять баланс без оплаты
+ */
+@Injectable()
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+  readonly method = PaymentMethod.QR;
+
+  constructor(private readonly configService: ConfigService) {}
+
+  isEnabled(): boolean {
+    return this.configService.get<string>('NODE_ENV') !== 'production';
+  }
+
+  createInvoice(request: CreateInvoiceRequest): Promise<ProviderInvoice> {
+    const externalId = `fake_${randomUUID()}`;
+    const baseUrl = this.configService.get<string>(
+      'APP_URL',
+      'http://localhost:3000',
+    );
+    const paymentUrl = `${baseUrl}/payment-gateway/fake/checkout/${externalId}`;
+
+    return Promise.resolve({
+      externalId,
+      paymentUrl,
+      qrPayload: `${paymentUrl}?amount=${request.amount.toFixed(2)}`,
+    });
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: WebhookHeaders): boolean {
+    const signature = headers[FAKE_SIGNATURE_HEADER];
+
+    if (typeof signature !== 'string') {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(rawBody), 'hex');
+    const received = Buffer.from(signature, 'hex');
+
+    return (
+      received.length === expected.length && timingSafeEqual(received, expected)
+    );
+  }
+
+  parseWebhook(rawBody: Buffer): ProviderWebhookEvent {
+    let payload: Partial<ProviderWebhookEvent>;
+
+    try {
+      payload = JSON.parse(
+        rawBody.toString('utf8'),
+      ) as Partial<ProviderWebhookEvent>;
+    } catch {
+      throw new BadRequestException('Malformed webhook payload');
+    }
+
+    if (
+      typeof payload.externalId !== 'string' ||
+      typeof payload.amount !== 'number' ||
+      (payload.status !== 'succeeded' && payload.status !== 'failed')
+    ) {
+      throw new BadRequestException('Malformed webhook payload');
+    }
+
+    return {
+      externalId: payload.externalId,
+      status: payload.status,
+      amount: payload.amount,
+      failureReason: payload.failureReason,
+    };
+  }
+
+  /**
+   * Тело и подпись вебхука, который отправил бы провайдер
+   */
+  buildWebhook(event: ProviderWebhookEvent): {
+    body: Buffer;
+    headers: WebhookHeaders;
+  } {
+    const body = Buffer.from(JSON.stringify(event));
+    return { body, headers: { [FAKE_SIGNATURE_HEADER]: this.sign(body) } };
+  }
+
+  private sign(rawBody: Buffer): string {
+    const secret = this.configService.get<string>(
+      'FAKE_PAYMENT_PROVIDER_SECRET',
+      'fake-provider-secret',
+    );
+    return createHmac('sha256', secret).update(rawBody).digest('hex');
+  }
+}
@@ -0,0 +1,39 @@
+import { PaymentMethod } from '@prisma/client';
+
+export const PAYMENT_PROVIDERS = 'PAYMENT_PROVIDERS';
+
+export type WebhookHeaders = Record<string, string | string[] | undefined>;
+
+export interface CreateInvoiceRequest {
+  amount: number;
+  description: string;
+  expiresAt: Date;
+}
+
+export interface ProviderInvoice {
+  externalId: string;
+  paymentUrl: string; // Ссылка на страницу оплаты
+  qrPayload?: string; // Содержимое QR-кода, если провайдер его выдает
+}
+
+export interface ProviderWebhookEvent {
+  externalId: string;
+  status: 'succeeded' | 'failed';
+  amount: number;
+  failureReason?: string;
+}
+
+/**
+ * Платежный провайдер: выставление счета и разбор подписанных уведомлений об оплате.
+ * Новый провайдер - реализация интерфейса в списке PAYMENT_PROVIDERS модуля
+ */
+export interface PaymentProvider {
+  readonly name: string; // Используется в URL вебхука: /payment-gateway/webhooks/:name
+  readonly method: PaymentMethod;
+
+  isEnabled(): boolean;
+  createInvoice(request: CreateInvoiceRequest): Promise<ProviderInvoice>;
+  // Проверка подписи по сырому телу запроса - до разбора JSON
+  verifyWebhook(rawBody: Buffer, headers: WebhookHeaders): boolean;
+  parseWebhook(rawBody: Buffer): ProviderWebhookEvent;
+}
@@ -0,0 +1,124 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { PaymentMethod, PaymentStatus, PaymentType } from '@prisma/client';
+
+export class PaymentQueryDto {
+  @ApiProperty({ required: false, description: 'Только для SUPER_ADMIN' })
+  @IsOptional()
+  @IsString()
+  companyId?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  driverId?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  contractId?: string;
+
+  @ApiProperty({ required: false, enum: PaymentType })
+  @IsOptional()
+  @IsEnum(PaymentType)
+  type?: PaymentType;
+
+  @ApiProperty({
+    required: false,
+    enum: PaymentStatus,
+    description: 'По умолчанию - все, кроме FAILED',
+  })
+  @IsOptional()
+  @IsEnum(PaymentStatus)
+  status?: PaymentStatus;
+
+  @ApiProperty({
+    required: false,
+    description: 'Кто провел платеж (пользователь)',
+  })
+  @IsOptional()
+  @IsString()
+  createdById?: string;
+
+  @ApiProperty({ required: false, enum: PaymentMethod })
+  @IsOptional()
+  @IsEnum(PaymentMethod)
+  method?: PaymentMethod;
+
+  @ApiProperty({ required: false, description: 'Кассовая смена' })
+  @IsOptional()
+  @IsString()
+  cashShiftId?: string;
+
+  @ApiProperty({
+    required: false,
+    example: '2025-07-01T00:00:00.000Z',
+    description: 'Дата платежа от (включительно)',
+  })
+  @IsOptional()
+  @IsDateString()
+  dateFrom?: string;
+
+  @ApiProperty({
+    required: false,
+    example: '2025-08-01T00:00:00.000Z',
+    description: 'Дата платежа до (не включительно)',
+  })
+  @IsOptional()
+  @IsDateString()
+  dateTo?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @Transform(({ value }) => parseFloat(value))
+  @Type(() => Number)
+  @IsNumber()
+  minAmount?: number;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @Transform(({ value }) => parseFloat(value))
+  @Type(() => Number)
+  @IsNumber()
+  maxAmount?: number;
+
+  @ApiProperty({
+    required: false,
+    enum: ['date', 'amount', 'createdAt'],
+    default: 'date',
+  })
+  @IsOptional()
+  @IsEnum(['date', 'amount', 'createdAt'])
+  sortBy?: 'date' | 'amount' | 'createdAt' = 'date';
+
+  @ApiProperty({ required: false, enum: ['asc', 'desc'], default: 'desc' })
+  @IsOptional()
+  @IsEnum(['asc', 'desc'])
+  sortOrder?: 'asc' | 'desc' = 'desc';
+
+  @ApiProperty({
+    required: false,
+    description: 'ID последнего платежа предыдущей страницы (nextCursor)',
+  })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  @ApiProperty({ required: false, default: 50, maximum: 200 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number = 50;
+}
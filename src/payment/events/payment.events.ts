@@ -0,0 +1,16 @@
+import { PaymentType } from '@prisma/client';
+
+export class PaymentReversedEvent {
+  constructor(
+    public readonly paymentId: string,
+    public readonly reversalId: string,
+    public readonly companyId: string,
+    public readonly driverId: string,
+    public readonly type: PaymentType,
+    public readonly amount: number,
+    public readonly reversedById: string | null,
+    public readonly reason: string,
+    public readonly currency: string,
+    public readonly timestamp: Date = new Date(),
+  ) {}
+}
@@ -0,0 +1,13 @@
+import { PaymentType } from '@prisma/client';
+
+export interface PaymentTypeTotal {
+  type: PaymentType;
+  count: number;
+  amount: number;
+}
+
+export interface PaymentPage<T> {
+  items: T[];
+  nextCursor: string | null; // null - последняя страница
+  totals: PaymentTypeTotal[]; // По всей выборке, а не только по странице
+}
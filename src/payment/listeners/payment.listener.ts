@@ -0,0 +1,21 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { PaymentReversedEvent } from '../events/payment.events';
+import { formatMoney } from '../../currency/utils/currency.util';
+
+@Injectable()
+export class PaymentEventListener {
+  private readonly logger = new Logger(PaymentEventListener.name);
+
+  @OnEvent('payment.reversed')
+  handlePaymentReversed(event: PaymentReversedEvent) {
+    this.logger.log(
+      `↩️ Платеж ${event.paymentId} (${event.type}, ${formatMoney(event.amount, event.currency)}) сторнирован ` +
+        `пользователем ${event.reversedById ?? 'system'}: ${event.reason}`,
+    );
+
+    // Здесь можно добавить:
+    // - Уведомление водителя об изменении баланса
+    // - Журнал аудита для бухгалтерии
+  }
+}
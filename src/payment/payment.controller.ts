@@ -0,0 +1,125 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { PaymentService } from './payment.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { User, CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CompanyFilter } from '../billing/common/decorators/company-filter.decorator';
+import { ReversePaymentDto } from './dto/reverse-payment.dto';
+import { PaymentQueryDto } from './dto/payment-query.dto';
+
+@ApiTags('💳 Payments - Платежи')
+@ApiBearerAuth()
+@Controller('payments')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class PaymentController {
+  constructor(private readonly paymentService: PaymentService) {}
+
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @ApiOperation({
+    summary: '🔎 Поиск платежей',
+    description:
+      'Фильтры по водителю, контракту, типу, периоду, сумме и автору. ' +
+      'Курсорная пагинация (nextCursor) и итоги по типам для всей выборки',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Страница платежей',
+    schema: {
+      example: {
+        items: [
+          {
+            id: 'payment_id',
+            amount: '150',
+            type: 'DAILY_RENT',
+            status: 'SUCCEEDED',
+            date: '2025-07-12T01:00:00.000Z',
+            driver: { id: 'driver_id', firstName: 'Иван', lastName: 'Петров' },
+          },
+        ],
+        nextCursor: 'payment_id',
+        totals: [
+          { type: 'DAILY_RENT', count: 120, amount: 18000 },
+          { type: 'PAYMENT', count: 40, amount: 16500 },
+        ],
+      },
+    },
+  })
+  async findAll(
+    @CompanyFilter() companyId: string,
+    @Query() query: PaymentQueryDto,
+  ) {
+    return await this.paymentService.findAll(companyId, query);
+  }
+
+  @Get('export')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @ApiOperation({
+    summary: '📤 Выгрузка платежей в CSV',
+    description: 'Те же фильтры и сортировка, что и в поиске, без пагинации',
+  })
+  exportCsv(
+    @CompanyFilter() companyId: string,
+    @Query() query: PaymentQueryDto,
+  ) {
+    return new StreamableFile(this.paymentService.exportCsv(companyId, query), {
+      type: 'text/csv; charset=utf-8',
+      disposition: 'attachment; filename="payments.csv"',
+    });
+  }
+
+  @Get(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @ApiOperation({
+    summary: '💳 Платеж',
+    description: 'Платеж вместе со сторно и автором',
+  })
+  async findOne(@Param('id') id: string, @User() user: CurrentUser) {
+    return await this.paymentService.findOne(id, user);
+  }
+
+  @Post(':id/reverse')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '↩️ Сторнировать платеж',
+    description:
+      'Создает связанную сторнирующую запись и восстанавливает баланс или депозит водителя. ' +
+      'Исходный платеж и сторно получают статус REVERSED и не учитываются в доходах',
+  })
+  @ApiResponse({ status: 200, description: 'Платеж сторнирован' })
+  @ApiResponse({
+    status: 400,
+    description: 'Платеж уже сторнирован или не может быть сторнирован',
+  })
+  async reverse(
+    @Param('id') id: string,
+    @Body() reversePaymentDto: ReversePaymentDto,
+    @User() user: CurrentUser,
+  ) {
+    return await this.paymentService.reverse(
+      id,
+      reversePaymentDto.reason,
+      user,
+    );
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { PaymentService } from './payment.service';
+import { PaymentController } from './payment.controller';
+import { PaymentEventListener } from './listeners/payment.listener';
+import { PrismaModule } from '../prisma/prisma.module';
+import { LedgerModule } from '../ledger/ledger.module';
+
+@Module({
+  imports: [PrismaModule, LedgerModule],
+  controllers: [PaymentController],
+  providers: [PaymentService, PaymentEventListener],
+  exports: [PaymentService],
+})
+export class PaymentModule {}
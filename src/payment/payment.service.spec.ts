@@ -0,0 +1,242 @@
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  LedgerTransactionType,
+  Payment,
+  PaymentStatus,
+  PaymentType,
+  Prisma,
+  UserRole,
+} from '@prisma/client';
+import { PaymentService } from './payment.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { LedgerService } from '../ledger/ledger.service';
+import { PaymentReversedEvent } from './events/payment.events';
+
+const manager: CurrentUser = {
+  id: 'manager-1',
+  email: 'manager-1@example.com',
+  firstName: 'Нурлан',
+  lastName: 'Токтогулов',
+  role: UserRole.COMPANY_MANAGER,
+  companyId: 'company-1',
+};
+
+const createPayment = (overrides: Partial<Payment> = {}) =>
+  ({
+    id: 'payment-1',
+    amount: new Prisma.Decimal(1500),
+    currency: 'KGS',
+    type: PaymentType.PAYMENT,
+    status: PaymentStatus.SUCCEEDED,
+    billingDate: null,
+    driverId: 'driver-1',
+    contractId: null,
+    companyId: 'company-1',
+    ...overrides,
+  }) as Payment;
+
+const createClient = (deposit = 0) => ({
+  payment: {
+    updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+    create: jest.fn().mockResolvedValue({ id: 'reversal-1' }),
+    findUniqueOrThrow: jest.fn().mockResolvedValue({
+      ...createPayment({ status: PaymentStatus.REVERSED }),
+      reversal: { id: 'reversal-1' },
+    }),
+  },
+  driver: {
+    findUniqueOrThrow: jest
+      .fn()
+      .mockResolvedValue({ deposit: new Prisma.Decimal(deposit) }),
+  },
+});
+
+describe('PaymentService', () => {
+  let ledgerService: { reversePayment: jest.Mock };
+  let eventEmitter: { emit: jest.Mock };
+
+  const createService = (prisma: unknown = {}) =>
+    new PaymentService(
+      prisma as PrismaService,
+      ledgerService as unknown as LedgerService,
+      eventEmitter as unknown as EventEmitter2,
+    );
+
+  beforeEach(() => {
+    ledgerService = { reversePayment: jest.fn().mockResolvedValue({}) };
+    eventEmitter = { emit: jest.fn() };
+  });
+
+  describe('reverseInTransaction', () => {
+    it('marks the payment reversed and creates a linked negative entry', async () => {
+      const tx = createClient();
+      const payment = createPayment();
+
+      await createService().reverseInTransaction(
+        tx as unknown as Prisma.TransactionClient,
+        payment,
+        'Ошибка кассира',
+        'manager-1',
+      );
+
+      expect(tx.payment.updateMany).toHaveBeenCalledWith({
+        where: { id: payment.id, status: PaymentStatus.SUCCEEDED },
+        data: expect.objectContaining({
+          status: PaymentStatus.REVERSED,
+          reversedById: 'manager-1',
+          reversalReason: 'Ошибка кассира',
+        }) as unknown,
+      });
+
+      const [[{ data }]] = tx.payment.create.mock.calls as [
+        [
+          {
+            data: {
+              amount: Prisma.Decimal;
+              status: PaymentStatus;
+              reversalOfId: string;
+              currency: string;
+            };
+          },
+        ],
+      ];
+      expect(data.amount.toNumber()).toBe(-1500);
+      expect(data.status).toBe(PaymentStatus.REVERSED);
+      expect(data.reversalOfId).toBe(payment.id);
+      expect(data.currency).toBe('KGS');
+
+      expect(ledgerService.reversePayment).toHaveBeenCalledWith(
+        tx,
+        payment.id,
+        expect.objectContaining({
+          type: LedgerTransactionType.REVERSAL,
+          paymentId: 'reversal-1',
+          createdById: 'manager-1',
+        }),
+      );
+    });
+
+    it('rejects a payment reversed by a concurrent request', async () => {
+      const tx = createClient();
+      tx.payment.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        createService().reverseInTransaction(
+          tx as unknown as Prisma.TransactionClient,
+          createPayment(),
+          'Дубль',
+          'manager-1',
+        ),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(tx.payment.create).not.toHaveBeenCalled();
+      expect(ledgerService.reversePayment).not.toHaveBeenCalled();
+    });
+
+    it.each([PaymentStatus.REVERSED, PaymentStatus.FAILED])(
+      'rejects a payment in status %s',
+      async (status) => {
+        const tx = createClient();
+
+        await expect(
+          createService().reverseInTransaction(
+            tx as unknown as Prisma.TransactionClient,
+            createPayment({ status }),
+            'Дубль',
+            'manager-1',
+          ),
+        ).rejects.toBeInstanceOf(BadRequestException);
+        expect(tx.payment.updateMany).not.toHaveBeenCalled();
+      },
+    );
+
+    it('rejects a reversal that leaves the deposit negative', async () => {
+      const tx = createClient(-200);
+
+      await expect(
+        createService().reverseInTransaction(
+          tx as unknown as Prisma.TransactionClient,
+          createPayment({ type: PaymentType.DEPOSIT }),
+          'Ошибка кассира',
+          'manager-1',
+        ),
+      ).rejects.toThrow('Insufficient deposit balance to reverse this payment');
+    });
+  });
+
+  describe('reverse', () => {
+    const createPrisma = (payment: unknown) => {
+      const tx = createClient();
+
+      return {
+        tx,
+        prisma: {
+          payment: { findUnique: jest.fn().mockResolvedValue(payment) },
+          $transaction: jest.fn((callback: (client: unknown) => unknown) =>
+            callback(tx),
+          ),
+        },
+      };
+    };
+
+    it('emits payment.reversed with the payment currency', async () => {
+      const { prisma } = createPrisma({ ...createPayment(), lateFee: null });
+
+      await createService(prisma).reverse(
+        'payment-1',
+        'Ошибка кассира',
+        manager,
+      );
+
+      expect(eventEmitter.emit).toHaveBeenCalledWith(
+        'payment.reversed',
+        expect.any(PaymentReversedEvent),
+      );
+
+      const [[, event]] = eventEmitter.emit.mock.calls as [
+        [string, PaymentReversedEvent],
+      ];
+      expect(event.reversalId).toBe('reversal-1');
+      expect(event.amount).toBe(1500);
+      expect(event.currency).toBe('KGS');
+    });
+
+    it('rejects late fees, which are waived instead', async () => {
+      const { prisma } = createPrisma({
+        ...createPayment({ type: PaymentType.FINE }),
+        lateFee: { id: 'fee-1' },
+      });
+
+      await expect(
+        createService(prisma).reverse('payment-1', 'Отмена', manager),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('rejects contract deposit movements', async () => {
+      const { prisma } = createPrisma({
+        ...createPayment({
+          type: PaymentType.DEPOSIT,
+          contractId: 'contract-1',
+        }),
+        lateFee: null,
+      });
+
+      await expect(
+        createService(prisma).reverse('payment-1', 'Отмена', manager),
+      ).rejects.toThrow('Contract deposit movements cannot be reversed');
+    });
+
+    it('denies access to payments of another company', async () => {
+      const { prisma } = createPrisma({
+        ...createPayment({ companyId: 'company-2' }),
+        lateFee: null,
+      });
+
+      await expect(
+        createService(prisma).reverse('payment-1', 'Отмена', manager),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+    });
+  });
+});
@@ -0,0 +1,412 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Readable } from 'stream';
+import {
+  LedgerTransactionType,
+  Payment,
+  PaymentStatus,
+  PaymentType,
+  Prisma,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { LedgerService } from '../ledger/ledger.service';
+import { PaymentReversedEvent } from './events/payment.events';
+import { PaymentQueryDto } from './dto/payment-query.dto';
+import { PaymentPage } from './interfaces/payment.interface';
+import { toCsvRow } from './utils/csv.util';
+
+const EXPORT_BATCH_SIZE = 1000;
+
+const paymentListInclude = {
+  driver: {
+    select: { id: true, firstName: true, lastName: true },
+  },
+  contract: {
+    select: { id: true, status: true },
+  },
+  createdBy: {
+    select: { id: true, firstName: true, lastName: true, email: true },
+  },
+} satisfies Prisma.PaymentInclude;
+
+type PaymentListItem = Prisma.PaymentGetPayload<{
+  include: typeof paymentListInclude;
+}>;
+
+@Injectable()
+export class PaymentService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly ledgerService: LedgerService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  /**
+   * Поиск платежей с фильтрами и курсорной пагинацией.
+   * Итоги по типам считаются по всей отфильтрованной выборке
+   */
+  async findAll(
+    companyId: string | undefined,
+    query: PaymentQueryDto,
+  ): Promise<PaymentPage<PaymentListItem>> {
+    const whereClause = this.buildWhereClause(companyId, query);
+    const limit = query.limit ?? 50;
+
+    const [payments, totals] = await Promise.all([
+      this.prisma.payment.findMany({
+        where: whereClause,
+        include: paymentListInclude,
+        orderBy: this.buildOrderBy(query),
+        take: limit + 1,
+        ...(query.cursor && {
+          cursor: { id: query.cursor },
+          skip: 1,
+        }),
+      }),
+      this.prisma.payment.groupBy({
+        by: ['type'],
+        where: whereClause,
+        _sum: { amount: true },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const hasMore = payments.length > limit;
+    const items = hasMore ? payments.slice(0, limit) : payments;
+
+    return {
+      items,
+      nextCursor: hasMore ? items[items.length - 1].id : null,
+      totals: totals.map((total) => ({
+        type: total.type,
+        count: total._count._all,
+        amount: total._sum.amount?.toNumber() ?? 0,
+      })),
+    };
+  }
+
+  async findOne(id: string, currentUser: CurrentUser) {
+    const payment = await this.prisma.payment.findUnique({
+      where: { id },
+      include: {
+        ...paymentListInclude,
+        reversal: true,
+        reversalOf: true,
+        reversedBy: {
+          select: { id: true, firstName: true, lastName: true },
+        },
+      },
+    });
+
+    if (!payment) {
+      throw new NotFoundException(`Payment with ID ${id} not found`);
+    }
+
+    this.checkPaymentAccess(payment, currentUser);
+
+    return payment;
+  }
+
+  /**
+   * Выгрузка в CSV по тому же запросу, что и поиск (без пагинации).
+   * Строки отдаются потоком по мере чтения пачек
+   */
+  exportCsv(companyId: string | undefined, query: PaymentQueryDto): Readable {
+    return Readable.from(this.generateCsv(companyId, query));
+  }
+
+  private async *generateCsv(
+    companyId: string | undefined,
+    query: PaymentQueryDto,
+  ): AsyncGenerator<string> {
+    const whereClause = this.buildWhereClause(companyId, query);
+    const orderBy = this.buildOrderBy(query);
+
+    // BOM - чтобы Excel корректно открыл кириллицу
+    yield '\uFEFF' +
+      toCsvRow([
+        'id',
+        'date',
+        'type',
+        'status',
+        'amount',
+        'method',
+        'description',
+        'billingDate',
+        'driverId',
+        'driverName',
+        'contractId',
+        'createdBy',
+        'reversalOfId',
+        'cashShiftId',
+      ]) +
+      '\r\n';
+
+    let cursor: string | undefined;
+
+    // Выгружаем пачками, чтобы не держать в памяти всю выборку вместе со связями
+    while (true) {
+      const batch = await this.prisma.payment.findMany({
+        where: whereClause,
+        include: paymentListInclude,
+        orderBy,
+        take: EXPORT_BATCH_SIZE,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+      yield batch
+        .map(
+          (payment) =>
+            toCsvRow([
+              payment.id,
+              payment.date,
+              payment.type,
+              payment.status,
+              payment.amount.toFixed(2),
+              payment.method,
+              payment.description,
+              payment.billingDate?.toISOString().split('T')[0],
+              payment.driverId,
+              `${payment.driver.firstName} ${payment.driver.lastName}`,
+              payment.contractId,
+              payment.createdBy?.email,
+              payment.reversalOfId,
+              payment.cashShiftId,
+            ]) + '\r\n',
+        )
+        .join('');
+
+      if (batch.length < EXPORT_BATCH_SIZE) {
+        break;
+      }
+      cursor = batch[batch.length - 1].id;
+    }
+  }
+
+  /**
+   * Сторнирование ошибочного платежа: создается связанная сторнирующая запись,
+   * баланс или депозит водителя восстанавливается проводками журнала
+   */
+  async reverse(id: string, reason: string, currentUser: CurrentUser) {
+    const payment = await this.prisma.payment.findUnique({
+      where: { id },
+      include: { lateFee: { select: { id: true } } },
+    });
+
+    if (!payment) {
+      throw new NotFoundException(`Payment with ID ${id} not found`);
+    }
+
+    this.checkPaymentAccess(payment, currentUser);
+
+    if (payment.lateFee) {
+      throw new BadRequestException(
+        'Late fees must be waived via /debt/late-fees/:id/waive',
+      );
+    }
+
+    // Движения депозита по контракту управляются жизненным циклом контракта
+    if (
+      payment.type === PaymentType.DEPOSIT_OFFSET ||
+      (payment.contractId &&
+        (payment.type === PaymentType.DEPOSIT ||
+          payment.type === PaymentType.REFUND))
+    ) {
+      throw new BadRequestException(
+        'Contract deposit movements cannot be reversed',
+      );
+    }
+
+    const reversed = await this.prisma.$transaction(async (tx) => {
+      return await this.reverseInTransaction(
+        tx,
+        payment,
+        reason,
+        currentUser.id,
+      );
+    });
+
+    this.eventEmitter.emit(
+      'payment.reversed',
+      new PaymentReversedEvent(
+        reversed.id,
+        reversed.reversal!.id,
+        reversed.companyId,
+        reversed.driverId,
+        reversed.type,
+        reversed.amount.toNumber(),
+        currentUser.id,
+        reason,
+        reversed.currency,
+      ),
+    );
+
+    return reversed;
+  }
+
+  /**
+   * Сторнирование внутри транзакции вызывающего кода (в том числе при списании пени).
+   * Исходный платеж и сторнирующая запись получают статус REVERSED и не учитываются в доходах
+   */
+  async reverseInTransaction(
+    tx: Prisma.TransactionClient,
+    payment: Payment,
+    reason: string,
+    reversedById: string | null,
+    ledgerType: LedgerTransactionType = LedgerTransactionType.REVERSAL,
+  ) {
+    if (payment.status === PaymentStatus.REVERSED) {
+      throw new BadRequestException('Payment is already reversed');
+    }
+
+    if (payment.status !== PaymentStatus.SUCCEEDED) {
+      throw new BadRequestException('Only succeeded payments can be reversed');
+    }
+
+    // Условие по статусу защищает от повторного сторнирования при параллельных запросах
+    const { count } = await tx.payment.updateMany({
+      where: { id: payment.id, status: PaymentStatus.SUCCEEDED },
+      data: {
+        status: PaymentStatus.REVERSED,
+        reversedAt: new Date(),
+        reversedById,
+        reversalReason: reason,
+      },
+    });
+
+    if (count === 0) {
+      throw new BadRequestException('Payment is already reversed');
+    }
+
+    const description = `Reversal of payment ${payment.id}: ${reason}`;
+
+    const reversal = await tx.payment.create({
+      data: {
+        amount: payment.amount.neg(),
+        currency: payment.currency,
+        type: payment.type,
+        status: PaymentStatus.REVERSED,
+        description,
+        billingDate: payment.billingDate,
+        reversalOfId: payment.id,
+        driverId: payment.driverId,
+        contractId: payment.contractId,
+        companyId: payment.companyId,
+        createdById: reversedById,
+      },
+    });
+
+    await this.ledgerService.reversePayment(tx, payment.id, {
+      type: ledgerType,
+      description,
+      paymentId: reversal.id,
+      createdById: reversedById,
+    });
+
+    const driver = await tx.driver.findUniqueOrThrow({
+      where: { id: payment.driverId },
+      select: { deposit: true },
+    });
+
+    if (driver.deposit.isNegative()) {
+      throw new BadRequestException(
+        'Insufficient deposit balance to reverse this payment',
+      );
+    }
+
+    return await tx.payment.findUniqueOrThrow({
+      where: { id: payment.id },
+      include: {
+        reversal: true,
+        reversedBy: {
+          select: { id: true, firstName: true, lastName: true },
+        },
+      },
+    });
+  }
+
+  private buildWhereClause(
+    companyId: string | undefined,
+    query: PaymentQueryDto,
+  ): Prisma.PaymentWhereInput {
+    const whereClause: Prisma.PaymentWhereInput = {
+      // Неудачные попытки списания показываем только по явному запросу
+      status: query.status ?? { not: PaymentStatus.FAILED },
+    };
+
+    if (companyId) {
+      whereClause.companyId = companyId;
+    }
+
+    if (query.driverId) {
+      whereClause.driverId = query.driverId;
+    }
+
+    if (query.contractId) {
+      whereClause.contractId = query.contractId;
+    }
+
+    if (query.type) {
+      whereClause.type = query.type;
+    }
+
+    if (query.createdById) {
+      whereClause.createdById = query.createdById;
+    }
+
+    if (query.method) {
+      whereClause.method = query.method;
+    }
+
+    if (query.cashShiftId) {
+      whereClause.cashShiftId = query.cashShiftId;
+    }
+
+    if (query.dateFrom || query.dateTo) {
+      whereClause.date = {
+        ...(query.dateFrom && { gte: new Date(query.dateFrom) }),
+        ...(query.dateTo && { lt: new Date(query.dateTo) }),
+      };
+    }
+
+    if (query.minAmount !== undefined || query.maxAmount !== undefined) {
+      whereClause.amount = {
+        ...(query.minAmount !== undefined && { gte: query.minAmount }),
+        ...(query.maxAmount !== undefined && { lte: query.maxAmount }),
+      };
+    }
+
+    return whereClause;
+  }
+
+  /**
+   * Сортировка с id в качестве второго ключа - стабильный порядок для курсора
+   */
+  private buildOrderBy(
+    query: PaymentQueryDto,
+  ): Prisma.PaymentOrderByWithRelationInput[] {
+    const sortOrder = query.sortOrder ?? 'desc';
+
+    return [{ [query.sortBy ?? 'date']: sortOrder }, { id: sortOrder }];
+  }
+
+  private checkPaymentAccess(
+    payment: { companyId: string },
+    currentUser: CurrentUser,
+  ) {
+    if (currentUser.role === UserRole.SUPER_ADMIN) {
+      return;
+    }
+
+    if (payment.companyId !== currentUser.companyId) {
+      throw new ForbiddenException('Access denied to this payment');
+    }
+  }
+}
@@ -0,0 +1,55 @@
+import { escapeCsvValue, toCsvRow } from './csv.util';
+
+describe('csv.util', () => {
+  describe('escapeCsvValue', () => {
+    it('leaves plain values as they are', () => {
+      expect(escapeCsvValue('Оплата аренды')).toBe('Оплата аренды');
+      expect(escapeCsvValue(1500)).toBe('1500');
+      expect(escapeCsvValue(true)).toBe('true');
+    });
+
+    it('writes empty cells for missing values', () => {
+      expect(escapeCsvValue(null)).toBe('');
+      expect(escapeCsvValue(undefined)).toBe('');
+    });
+
+    it('writes dates in ISO format', () => {
+      expect(escapeCsvValue(new Date('2025-07-28T10:00:00Z'))).toBe(
+        '2025-07-28T10:00:00.000Z',
+      );
+    });
+
+    it('quotes delimiters, quotes and line breaks', () => {
+      expect(escapeCsvValue('Аренда, июль')).toBe('"Аренда, июль"');
+      expect(escapeCsvValue('Договор "А-1"')).toBe('"Договор ""А-1"""');
+      expect(escapeCsvValue('строка 1\r\nстрока 2')).toBe(
+        '"строка 1\r\nстрока 2"',
+      );
+    });
+
+    it.each(['=HYPERLINK("http://evil")', '+1+1', '-2+3', '@SUM(A1)', '\tcmd'])(
+      'prefixes a formula-like value %j with an apostrophe',
+      (value) => {
+        expect(escapeCsvValue(value).replace(/^"/, '')).toMatch(/^'/);
+      },
+    );
+
+    it('quotes a formula-like value that starts with a line break', () => {
+      expect(escapeCsvValue('\r=1+1')).toBe('"\'\r=1+1"');
+    });
+
+    it('keeps negative and signed amounts numeric', () => {
+      expect(escapeCsvValue('-500.00')).toBe('-500.00');
+      expect(escapeCsvValue('+12')).toBe('+12');
+      expect(escapeCsvValue(-250)).toBe('-250');
+    });
+  });
+
+  describe('toCsvRow', () => {
+    it('joins escaped values with commas', () => {
+      expect(toCsvRow(['id', 'Аренда, июль', '=1+1', -10, null])).toBe(
+        'id,"Аренда, июль",\'=1+1,-10,',
+      );
+    });
+  });
+});
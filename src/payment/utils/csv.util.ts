@@ -0,0 +1,29 @@
+/**
+ * Формирование CSV (RFC 4180): значения с разделителем, кавычками или переводом строки
+ * заключаются в кавычки
+ */
+
+export type CsvValue = string | number | boolean | Date | null | undefined;
+
+// Текст с этих символов Excel выполняет как формулу (описания платежей приходят из выписок и от менеджеров)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NUMBER = /^[+-]?\d+(\.\d+)?$/;
+
+export function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+
+  // Апостроф - текстовая ячейка; суммы вида "-500.00" остаются числами
+  if (FORMULA_PREFIX.test(text) && !NUMBER.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvRow(values: CsvValue[]): string {
+  return values.map(escapeCsvValue).join(',');
+}
@@ -0,0 +1,81 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { ApiProperty } from '@nestjs/swagger';
+import { BillingCycle } from '@prisma/client';
+
+export class CreateRepaymentPlanDto {
+  @ApiProperty({ example: 'driver_id' })
+  @IsString()
+  driverId: string;
+
+  @ApiProperty({
+    required: false,
+    example: 12000,
+    description:
+      'Сумма долга, переносимая на план. По умолчанию - весь текущий долг водителя',
+  })
+  @IsOptional()
+  @Transform(({ value }) => parseFloat(value))
+  @Type(() => Number)
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0.01)
+  totalAmount?: number;
+
+  @ApiProperty({ example: 6, description: 'Количество взносов' })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  installmentCount: number;
+
+  @ApiProperty({
+    enum: BillingCycle,
+    required: false,
+    default: BillingCycle.WEEKLY,
+    description: 'Периодичность взносов',
+  })
+  @IsOptional()
+  @IsEnum(BillingCycle)
+  frequency?: BillingCycle = BillingCycle.WEEKLY;
+
+  @ApiProperty({
+    required: false,
+    example: '2025-08-01',
+    description:
+      'День первого взноса (по часовому поясу компании). По умолчанию - завтра',
+  })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiProperty({
+    required: false,
+    default: 3,
+    description:
+      'После стольких пропущенных взносов план расторгается, остаток долга возвращается на баланс',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  maxMissedInstallments?: number = 3;
+
+  @ApiProperty({
+    required: false,
+    example: 'Рассрочка после ремонта автомобиля',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  note?: string;
+}
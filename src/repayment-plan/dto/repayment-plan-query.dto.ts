@@ -0,0 +1,20 @@
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import { RepaymentPlanStatus } from '@prisma/client';
+
+export class RepaymentPlanQueryDto {
+  @ApiProperty({ required: false, description: 'Фильтр по водителю' })
+  @IsOptional()
+  @IsString()
+  driverId?: string;
+
+  @ApiProperty({ required: false, enum: RepaymentPlanStatus })
+  @IsOptional()
+  @IsEnum(RepaymentPlanStatus)
+  status?: RepaymentPlanStatus;
+
+  @ApiProperty({ required: false, description: 'Только для SUPER_ADMIN' })
+  @IsOptional()
+  @IsString()
+  companyId?: string;
+}
@@ -0,0 +1,40 @@
+import { RepaymentPlanStatus } from '@prisma/client';
+
+export class RepaymentPlanCreatedEvent {
+  constructor(
+    public readonly planId: string,
+    public readonly companyId: string,
+    public readonly driverId: string,
+    public readonly totalAmount: number,
+    public readonly installmentCount: number,
+    public readonly currency: string,
+    public readonly timestamp: Date = new Date(),
+  ) {}
+}
+
+export class InstallmentMissedEvent {
+  constructor(
+    public readonly planId: string,
+    public readonly installmentId: string,
+    public readonly companyId: string,
+    public readonly driverId: string,
+    public readonly amount: number,
+    public readonly balance: number,
+    public readonly missedCount: number,
+    public readonly currency: string,
+    public readonly timestamp: Date = new Date(),
+  ) {}
+}
+
+export class RepaymentPlanClosedEvent {
+  constructor(
+    public readonly planId: string,
+    public readonly companyId: string,
+    public readonly driverId: string,
+    public readonly status: RepaymentPlanStatus,
+    public readonly returnedAmount: number, // Остаток, возвращенный на баланс водителя
+    public readonly reason: string | null,
+    public readonly currency: string,
+    public readonly timestamp: Date = new Date(),
+  ) {}
+}
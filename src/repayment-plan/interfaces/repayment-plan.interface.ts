@@ -0,0 +1,25 @@
+import { RepaymentPlanStatus } from '@prisma/client';
+
+/**
+ * Прогресс активного плана погашения (для списка должников и статистики водителя)
+ */
+export interface RepaymentPlanProgress {
+  planId: string;
+  status: RepaymentPlanStatus;
+  totalAmount: number;
+  chargedAmount: number; // Начислено взносами
+  remainingAmount: number; // Еще не начислено
+  installmentCount: number;
+  paidInstallments: number;
+  missedInstallments: number;
+  nextDueDate: string | null; // YYYY-MM-DD
+  nextAmount: number | null;
+}
+
+// Итоги начисления взносов в прогоне списания
+export interface InstallmentChargeSummary {
+  charged: number;
+  missed: number;
+  defaulted: number; // Планов расторгнуто из-за пропусков
+  amount: number;
+}
@@ -0,0 +1,51 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { RepaymentPlanStatus } from '@prisma/client';
+import {
+  InstallmentMissedEvent,
+  RepaymentPlanClosedEvent,
+  RepaymentPlanCreatedEvent,
+} from '../events/repayment-plan.events';
+import { formatMoney } from '../../currency/utils/currency.util';
+
+@Injectable()
+export class RepaymentPlanEventListener {
+  private readonly logger = new Logger(RepaymentPlanEventListener.name);
+
+  @OnEvent('repayment-plan.created')
+  handlePlanCreated(event: RepaymentPlanCreatedEvent) {
+    this.logger.log(
+      `🗓️ План погашения ${event.planId}: Водитель ${event.driverId}, ` +
+        `${formatMoney(event.totalAmount, event.currency)} на ${event.installmentCount} взносов`,
+    );
+  }
+
+  @OnEvent('repayment-plan.installment.missed')
+  handleInstallmentMissed(event: InstallmentMissedEvent) {
+    this.logger.warn(
+      `⚠️ Пропущен взнос по плану ${event.planId}: Водитель ${event.driverId}, ` +
+        `взнос ${formatMoney(event.amount, event.currency)}, баланс ${formatMoney(event.balance, event.currency)} ` +
+        `(пропусков: ${event.missedCount})`,
+    );
+
+    // Здесь можно добавить:
+    // - SMS напоминание водителю
+    // - Уведомление менеджера о риске расторжения плана
+  }
+
+  @OnEvent('repayment-plan.closed')
+  handlePlanClosed(event: RepaymentPlanClosedEvent) {
+    if (event.status === RepaymentPlanStatus.COMPLETED) {
+      this.logger.log(
+        `🎉 План погашения ${event.planId} выполнен: Водитель ${event.driverId}`,
+      );
+      return;
+    }
+
+    this.logger.warn(
+      `⛔ План погашения ${event.planId} закрыт (${event.status}): Водитель ${event.driverId}, ` +
+        `на баланс возвращено ${formatMoney(event.returnedAmount, event.currency)}` +
+        (event.reason ? `, причина: ${event.reason}` : ''),
+    );
+  }
+}
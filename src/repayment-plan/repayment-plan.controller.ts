@@ -0,0 +1,107 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+} from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { RepaymentPlanService } from './repayment-plan.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { User, CurrentUser } from '../auth/decorators/current-user.decorator';
+import { CompanyFilter } from '../billing/common/decorators/company-filter.decorator';
+import { CreateRepaymentPlanDto } from './dto/create-repayment-plan.dto';
+import { RepaymentPlanQueryDto } from './dto/repayment-plan-query.dto';
+import { CancelRepaymentPlanDto } from './dto/cancel-repayment-plan.dto';
+
+@ApiTags('🗓️ Repayment Plans - Планы погашения долга')
+@ApiBearerAuth()
+@Controller('repayment-plans')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class RepaymentPlanController {
+  constructor(private readonly repaymentPlanService: RepaymentPlanService) {}
+
+  @Post()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN)
+  @ApiOperation({
+    summary: '🗓️ Создать план погашения',
+    description:
+      'Переносит долг водителя (весь или часть) с баланса на план с графиком взносов. ' +
+      'Взносы начисляются на баланс в ночном прогоне списания вместе с арендой',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'План создан, долг перенесен на план',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'У водителя нет долга или сумма плана больше долга',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'У водителя уже есть активный план',
+  })
+  async create(
+    @Body() createRepaymentPlanDto: CreateRepaymentPlanDto,
+    @User() user: CurrentUser,
+  ) {
+    return await this.repaymentPlanService.create(createRepaymentPlanDto, user);
+  }
+
+  @Get()
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @ApiOperation({
+    summary: '📋 Планы погашения',
+    description: 'Фильтры по водителю и статусу',
+  })
+  async findAll(
+    @CompanyFilter() companyId: string,
+    @Query() query: RepaymentPlanQueryDto,
+  ) {
+    return await this.repaymentPlanService.findAll(companyId, query);
+  }
+
+  @Get(':id')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN, UserRole.COMPANY_MANAGER)
+  @ApiOperation({
+    summary: '🔍 План погашения',
+    description: 'План с графиком взносов и их статусами',
+  })
+  async findOne(@Param('id') id: string, @User() user: CurrentUser) {
+    return await this.repaymentPlanService.findOne(id, user);
+  }
+
+  @Post(':id/cancel')
+  @Roles(UserRole.SUPER_ADMIN, UserRole.COMPANY_ADMIN)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: '🚫 Отменить план',
+    description:
+      'Неначисленный остаток плана возвращается на баланс водителя, ожидающие взносы отменяются',
+  })
+  @ApiResponse({ status: 200, description: 'План отменен' })
+  @ApiResponse({ status: 400, description: 'План уже закрыт' })
+  async cancel(
+    @Param('id') id: string,
+    @Body() cancelRepaymentPlanDto: CancelRepaymentPlanDto,
+    @User() user: CurrentUser,
+  ) {
+    return await this.repaymentPlanService.cancel(
+      id,
+      cancelRepaymentPlanDto.reason,
+      user,
+    );
+  }
+}
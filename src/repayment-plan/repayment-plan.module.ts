@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { RepaymentPlanService } from './repayment-plan.service';
+import { RepaymentPlanController } from './repayment-plan.controller';
+import { RepaymentPlanEventListener } from './listeners/repayment-plan.listener';
+import { PrismaModule } from '../prisma/prisma.module';
+import { LedgerModule } from '../ledger/ledger.module';
+
+@Module({
+  imports: [PrismaModule, LedgerModule],
+  controllers: [RepaymentPlanController],
+  providers: [RepaymentPlanService, RepaymentPlanEventListener],
+  exports: [RepaymentPlanService],
+})
+export class RepaymentPlanModule {}
@@ -0,0 +1,647 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import {
+  BillingCycle,
+  InstallmentStatus,
+  LedgerAccountType,
+  LedgerTransactionType,
+  Prisma,
+  RepaymentPlan,
+  RepaymentPlanStatus,
+  UserRole,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { LedgerService } from '../ledger/ledger.service';
+import {
+  addDays,
+  fromDateOnly,
+  getLocalDate,
+  toDateOnly,
+} from '../billing/common/utils/billing-date.util';
+import {
+  getCyclePeriod,
+  getDefaultAnchorDay,
+} from '../billing/common/utils/billing-cycle.util';
+import { CreateRepaymentPlanDto } from './dto/create-repayment-plan.dto';
+import { RepaymentPlanQueryDto } from './dto/repayment-plan-query.dto';
+import {
+  InstallmentChargeSummary,
+  RepaymentPlanProgress,
+} from './interfaces/repayment-plan.interface';
+import {
+  InstallmentMissedEvent,
+  RepaymentPlanClosedEvent,
+  RepaymentPlanCreatedEvent,
+} from './events/repayment-plan.events';
+
+const repaymentPlanInclude = {
+  driver: {
+    select: { id: true, firstName: true, lastName: true, balance: true },
+  },
+  createdBy: {
+    select: { id: true, firstName: true, lastName: true },
+  },
+  installments: {
+    orderBy: { number: 'asc' },
+  },
+} satisfies Prisma.RepaymentPlanInclude;
+
+// Базовая валюта компании для сумм в событиях плана
+const planCurrencyInclude = {
+  company: { select: { baseCurrency: true } },
+} satisfies Prisma.RepaymentPlanInclude;
+
+type RepaymentPlanWithCurrency = Prisma.RepaymentPlanGetPayload<{
+  include: typeof planCurrencyInclude;
+}>;
+
+/**
+ * Планы погашения долга. Долг переносится с баланса водителя на счет плана
+ * и возвращается на баланс взносами по графику в ночном прогоне списания.
+ * Взнос считается пропущенным, если после его начисления баланс водителя отрицательный
+ */
+@Injectable()
+export class RepaymentPlanService {
+  private readonly logger = new Logger(RepaymentPlanService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly ledgerService: LedgerService,
+    private readonly eventEmitter: EventEmitter2,
+  ) {}
+
+  async create(
+    createRepaymentPlanDto: CreateRepaymentPlanDto,
+    currentUser: CurrentUser,
+  ) {
+    const {
+      driverId,
+      installmentCount,
+      frequency = BillingCycle.WEEKLY,
+    } = createRepaymentPlanDto;
+
+    const driver = await this.prisma.driver.findUnique({
+      where: { id: driverId },
+      select: {
+        id: true,
+        companyId: true,
+        company: { select: { timezone: true, baseCurrency: true } },
+      },
+    });
+
+    if (!driver) {
+      throw new NotFoundException(`Driver with ID ${driverId} not found`);
+    }
+
+    if (
+      currentUser.role !== UserRole.SUPER_ADMIN &&
+      driver.companyId !== currentUser.companyId
+    ) {
+      throw new ForbiddenException('Access denied to this driver');
+    }
+
+    const today = getLocalDate(new Date(), driver.company.timezone);
+    const startDate =
+      createRepaymentPlanDto.startDate?.slice(0, 10) ?? addDays(today, 1);
+
+    if (startDate < today) {
+      throw new BadRequestException('Repayment plan cannot start in the past');
+    }
+
+    let plan: Prisma.RepaymentPlanGetPayload<{
+      include: typeof repaymentPlanInclude;
+    }>;
+
+    try {
+      plan = await this.prisma.$transaction(async (tx) => {
+        // Долг проверяется под блокировкой строки водителя: параллельное пополнение
+        // не должно уменьшить его между проверкой и переносом на план
+        await tx.$queryRaw`SELECT "id" FROM "drivers" WHERE "id" = ${driverId} FOR UPDATE`;
+        const { balance } = await tx.driver.findUniqueOrThrow({
+          where: { id: driverId },
+          select: { balance: true },
+        });
+
+        if (!balance.isNegative()) {
+          throw new BadRequestException('Driver has no debt to restructure');
+        }
+
+        const debt = balance.neg();
+        const totalAmount = new Prisma.Decimal(
+          createRepaymentPlanDto.totalAmount ?? debt,
+        );
+
+        if (totalAmount.gt(debt)) {
+          throw new BadRequestException(
+            `Plan amount exceeds the driver debt (${debt.toFixed(2)})`,
+          );
+        }
+
+        const created = await tx.repaymentPlan.create({
+          data: {
+            totalAmount,
+            installmentCount,
+            frequency,
+            maxMissedInstallments: createRepaymentPlanDto.maxMissedInstallments,
+            note: createRepaymentPlanDto.note,
+            activePlanKey: driverId,
+            driverId,
+            companyId: driver.companyId,
+            createdById: currentUser.id,
+            installments: {
+              create: this.buildSchedule(
+                totalAmount,
+                installmentCount,
+                frequency,
+                startDate,
+              ),
+            },
+          },
+          include: repaymentPlanInclude,
+        });
+
+        await this.ledgerService.post(tx, {
+          type: LedgerTransactionType.REPAYMENT_PLAN,
+          companyId: driver.companyId,
+          driverId,
+          amount: totalAmount,
+          debit: LedgerAccountType.DRIVER_REPAYMENT_PLAN,
+          credit: LedgerAccountType.DRIVER_RECEIVABLE,
+          description: `Перенос долга на план погашения (${installmentCount} взносов)`,
+          createdById: currentUser.id,
+        });
+
+        // Баланс в ответе - после переноса долга
+        return {
+          ...created,
+          driver: { ...created.driver, balance: balance.add(totalAmount) },
+        };
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          'Driver already has an active repayment plan',
+        );
+      }
+      throw error;
+    }
+
+    this.eventEmitter.emit(
+      'repayment-plan.created',
+      new RepaymentPlanCreatedEvent(
+        plan.id,
+        plan.companyId,
+        plan.driverId,
+        plan.totalAmount.toNumber(),
+        plan.installmentCount,
+        driver.company.baseCurrency,
+      ),
+    );
+
+    return plan;
+  }
+
+  async findAll(companyId: string | undefined, query: RepaymentPlanQueryDto) {
+    const whereClause: Prisma.RepaymentPlanWhereInput = {};
+
+    if (companyId) whereClause.companyId = companyId;
+    if (query.driverId) whereClause.driverId = query.driverId;
+    if (query.status) whereClause.status = query.status;
+
+    return this.prisma.repaymentPlan.findMany({
+      where: whereClause,
+      include: {
+        driver: repaymentPlanInclude.driver,
+        _count: { select: { installments: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async findOne(id: string, currentUser: CurrentUser) {
+    const plan = await this.prisma.repaymentPlan.findUnique({
+      where: { id },
+      include: repaymentPlanInclude,
+    });
+
+    if (!plan) {
+      throw new NotFoundException(`Repayment plan with ID ${id} not found`);
+    }
+
+    this.checkPlanAccess(plan, currentUser);
+
+    return plan;
+  }
+
+  /**
+   * Отмена плана менеджером: неначисленный остаток возвращается на баланс водителя
+   */
+  async cancel(id: string, reason: string, currentUser: CurrentUser) {
+    const plan = await this.findOne(id, currentUser);
+
+    if (plan.status !== RepaymentPlanStatus.ACTIVE) {
+      throw new BadRequestException(
+        `Repayment plan is already ${plan.status.toLowerCase()}`,
+      );
+    }
+
+    const closed = await this.prisma.$transaction(async (tx) =>
+      this.closePlan(
+        tx,
+        plan,
+        RepaymentPlanStatus.CANCELLED,
+        reason,
+        currentUser.id,
+      ),
+    );
+
+    if (!closed) {
+      throw new BadRequestException('Repayment plan is no longer active');
+    }
+
+    this.emitPlanClosed(closed.plan, closed.returnedAmount);
+
+    return await this.findOne(id, currentUser);
+  }
+
+  /**
+   * Начисление взносов, срок которых наступил к дню списания (вызывается из прогона списания).
+   * Каждый взнос начисляется отдельной транзакцией и не больше одного раза
+   */
+  async chargeDueInstallments(
+    companyId: string,
+    billingDate: string,
+  ): Promise<InstallmentChargeSummary> {
+    const summary: InstallmentChargeSummary = {
+      charged: 0,
+      missed: 0,
+      defaulted: 0,
+      amount: 0,
+    };
+
+    const installments = await this.prisma.repaymentInstallment.findMany({
+      where: {
+        status: InstallmentStatus.PENDING,
+        dueDate: { lte: toDateOnly(billingDate) },
+        plan: { companyId, status: RepaymentPlanStatus.ACTIVE },
+      },
+      select: { id: true, planId: true },
+      orderBy: [{ dueDate: 'asc' }, { number: 'asc' }],
+    });
+
+    for (const installment of installments) {
+      try {
+        const result = await this.chargeInstallment(
+          installment.id,
+          installment.planId,
+        );
+
+        if (!result) {
+          continue;
+        }
+
+        summary.charged++;
+        summary.amount = new Prisma.Decimal(summary.amount)
+          .add(result.amount)
+          .toNumber();
+        if (result.missed) summary.missed++;
+        if (result.closed?.plan.status === RepaymentPlanStatus.DEFAULTED)
+          summary.defaulted++;
+      } catch (error) {
+        this.logger.error(
+          `❌ Не удалось начислить взнос ${installment.id}: ${error.message}`,
+        );
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Прогресс активных планов водителей
+   */
+  async getProgress(
+    driverIds: string[],
+  ): Promise<Map<string, RepaymentPlanProgress>> {
+    const plans = await this.prisma.repaymentPlan.findMany({
+      where: {
+        driverId: { in: driverIds },
+        status: RepaymentPlanStatus.ACTIVE,
+      },
+      include: { installments: repaymentPlanInclude.installments },
+    });
+
+    const progress = new Map<string, RepaymentPlanProgress>();
+
+    for (const plan of plans) {
+      const next = plan.installments.find(
+        (i) => i.status === InstallmentStatus.PENDING,
+      );
+
+      progress.set(plan.driverId, {
+        planId: plan.id,
+        status: plan.status,
+        totalAmount: plan.totalAmount.toNumber(),
+        chargedAmount: plan.chargedAmount.toNumber(),
+        remainingAmount: plan.totalAmount.sub(plan.chargedAmount).toNumber(),
+        installmentCount: plan.installmentCount,
+        paidInstallments: plan.installments.filter(
+          (i) => i.status === InstallmentStatus.PAID,
+        ).length,
+        missedInstallments: plan.installments.filter(
+          (i) => i.status === InstallmentStatus.MISSED,
+        ).length,
+        nextDueDate: next ? fromDateOnly(next.dueDate) : null,
+        nextAmount: next ? next.amount.toNumber() : null,
+      });
+    }
+
+    return progress;
+  }
+
+  /**
+   * Неначисленный остаток долга по активному плану водителя
+   */
+  async getActivePlanDebt(
+    client: Prisma.TransactionClient,
+    driverId: string,
+  ): Promise<Prisma.Decimal> {
+    const plan = await client.repaymentPlan.findFirst({
+      where: { driverId, status: RepaymentPlanStatus.ACTIVE },
+      select: { totalAmount: true, chargedAmount: true },
+    });
+
+    return plan
+      ? plan.totalAmount.sub(plan.chargedAmount)
+      : new Prisma.Decimal(0);
+  }
+
+  /**
+   * Закрытие активного плана водителя при расчете по контракту (в транзакции расчета):
+   * остаток долга возвращается на баланс и покрывается депозитом вместе с остальным долгом
+   */
+  async closeForSettlement(
+    tx: Prisma.TransactionClient,
+    driverId: string,
+    reason: string,
+    closedById: string | null,
+  ) {
+    const plan = await tx.repaymentPlan.findFirst({
+      where: { driverId, status: RepaymentPlanStatus.ACTIVE },
+    });
+
+    if (!plan) {
+      return null;
+    }
+
+    return await this.closePlan(
+      tx,
+      plan,
+      RepaymentPlanStatus.CANCELLED,
+      reason,
+      closedById ?? undefined,
+    );
+  }
+
+  private async chargeInstallment(installmentId: string, planId: string) {
+    const result = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.repaymentInstallment.updateMany({
+        where: { id: installmentId, status: InstallmentStatus.PENDING },
+        data: { status: InstallmentStatus.PAID, chargedAt: new Date() },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      const installment = await tx.repaymentInstallment.findUniqueOrThrow({
+        where: { id: installmentId },
+        include: { plan: { include: planCurrencyInclude } },
+      });
+      const { plan } = installment;
+
+      await this.ledgerService.post(tx, {
+        type: LedgerTransactionType.INSTALLMENT,
+        companyId: plan.companyId,
+        driverId: plan.driverId,
+        amount: installment.amount,
+        debit: LedgerAccountType.DRIVER_RECEIVABLE,
+        credit: LedgerAccountType.DRIVER_REPAYMENT_PLAN,
+        description: `Взнос ${installment.number}/${plan.installmentCount} по плану погашения долга`,
+      });
+
+      const { balance } = await tx.driver.findUniqueOrThrow({
+        where: { id: plan.driverId },
+        select: { balance: true },
+      });
+      const missed = balance.isNegative();
+
+      await tx.repaymentInstallment.update({
+        where: { id: installmentId },
+        data: {
+          balanceAfter: balance,
+          ...(missed && { status: InstallmentStatus.MISSED }),
+        },
+      });
+
+      const updatedPlan = await tx.repaymentPlan.update({
+        where: { id: planId },
+        data: {
+          chargedAmount: { increment: installment.amount },
+          ...(missed && { missedCount: { increment: 1 } }),
+        },
+      });
+
+      let closed: {
+        plan: RepaymentPlanWithCurrency;
+        returnedAmount: Prisma.Decimal;
+      } | null = null;
+
+      if (updatedPlan.chargedAmount.gte(updatedPlan.totalAmount)) {
+        closed = await this.closePlan(
+          tx,
+          updatedPlan,
+          RepaymentPlanStatus.COMPLETED,
+          null,
+        );
+      } else if (updatedPlan.missedCount >= updatedPlan.maxMissedInstallments) {
+        closed = await this.closePlan(
+          tx,
+          updatedPlan,
+          RepaymentPlanStatus.DEFAULTED,
+          `Пропущено взносов: ${updatedPlan.missedCount}`,
+        );
+      }
+
+      return {
+        installment,
+        balance,
+        missed,
+        updatedPlan,
+        closed,
+        amount: installment.amount,
+        currency: plan.company.baseCurrency,
+      };
+    });
+
+    if (!result) {
+      return null;
+    }
+
+    if (result.missed) {
+      this.eventEmitter.emit(
+        'repayment-plan.installment.missed',
+        new InstallmentMissedEvent(
+          result.updatedPlan.id,
+          installmentId,
+          result.updatedPlan.companyId,
+          result.updatedPlan.driverId,
+          result.amount.toNumber(),
+          result.balance.toNumber(),
+          result.updatedPlan.missedCount,
+          result.currency,
+        ),
+      );
+    }
+
+    if (result.closed) {
+      this.emitPlanClosed(result.closed.plan, result.closed.returnedAmount);
+    }
+
+    return result;
+  }
+
+  /**
+   * Закрытие плана внутри транзакции: неначисленный остаток возвращается
+   * на баланс водителя, ожидающие взносы отменяются
+   */
+  private async closePlan(
+    tx: Prisma.TransactionClient,
+    plan: RepaymentPlan,
+    status: RepaymentPlanStatus,
+    reason: string | null,
+    closedById?: string,
+  ) {
+    const { count } = await tx.repaymentPlan.updateMany({
+      where: { id: plan.id, status: RepaymentPlanStatus.ACTIVE },
+      data: {
+        status,
+        closeReason: reason,
+        closedAt: new Date(),
+        closedById: closedById ?? null,
+        activePlanKey: null,
+      },
+    });
+
+    if (count === 0) {
+      return null;
+    }
+
+    const current = await tx.repaymentPlan.findUniqueOrThrow({
+      where: { id: plan.id },
+      include: planCurrencyInclude,
+    });
+    const returnedAmount = current.totalAmount.sub(current.chargedAmount);
+
+    if (returnedAmount.gt(0)) {
+      await this.ledgerService.post(tx, {
+        type: LedgerTransactionType.REPAYMENT_PLAN,
+        companyId: current.companyId,
+        driverId: current.driverId,
+        amount: returnedAmount.neg(),
+        debit: LedgerAccountType.DRIVER_REPAYMENT_PLAN,
+        credit: LedgerAccountType.DRIVER_RECEIVABLE,
+        description: `Возврат остатка долга с плана погашения на баланс (${reason ?? status})`,
+        createdById: closedById ?? null,
+      });
+    }
+
+    await tx.repaymentInstallment.updateMany({
+      where: { planId: plan.id, status: InstallmentStatus.PENDING },
+      data: { status: InstallmentStatus.CANCELLED },
+    });
+
+    return { plan: current, returnedAmount };
+  }
+
+  /**
+   * График взносов: равные суммы, остаток от округления - в последнем взносе.
+   * Первый взнос - в день начала, следующие - через период frequency
+   */
+  private buildSchedule(
+    totalAmount: Prisma.Decimal,
+    installmentCount: number,
+    frequency: BillingCycle,
+    startDate: string,
+  ): Prisma.RepaymentInstallmentCreateWithoutPlanInput[] {
+    const amount = totalAmount
+      .div(installmentCount)
+      .toDecimalPlaces(2, Prisma.Decimal.ROUND_DOWN);
+
+    if (amount.lte(0)) {
+      throw new BadRequestException('Installment amount is too small');
+    }
+
+    const anchorDay = getDefaultAnchorDay(frequency, startDate);
+    const schedule: Prisma.RepaymentInstallmentCreateWithoutPlanInput[] = [];
+    let dueDate = startDate;
+
+    for (let number = 1; number <= installmentCount; number++) {
+      const isLast = number === installmentCount;
+
+      schedule.push({
+        number,
+        dueDate: toDateOnly(dueDate),
+        amount: isLast
+          ? totalAmount.sub(amount.mul(installmentCount - 1))
+          : amount,
+      });
+
+      dueDate = getCyclePeriod(dueDate, frequency, anchorDay).end;
+    }
+
+    return schedule;
+  }
+
+  private emitPlanClosed(
+    plan: RepaymentPlanWithCurrency,
+    returnedAmount: Prisma.Decimal,
+  ) {
+    this.eventEmitter.emit(
+      'repayment-plan.closed',
+      new RepaymentPlanClosedEvent(
+        plan.id,
+        plan.companyId,
+        plan.driverId,
+        plan.status,
+        returnedAmount.toNumber(),
+        plan.closeReason,
+        plan.company.baseCurrency,
+      ),
+    );
+  }
+
+  private checkPlanAccess(
+    entity: { companyId: string },
+    currentUser: CurrentUser,
+  ) {
+    if (currentUser.role === UserRole.SUPER_ADMIN) {
+      return;
+    }
+
+    if (entity.companyId !== currentUser.companyId) {
+      throw new ForbiddenException('Access denied to this repayment plan');
+    }
+  }
+}
@@ -0,0 +1,16 @@
+export const FILE_STORAGE = 'FILE_STORAGE';
+
+export interface StoredFile {
+  key: string;
+  size: number;
+}
+
+/**
+ * Файловое хранилище (фото, подписи). Файлы адресуются ключом вида "inspections/<id>/<name>".
+ * Другое хранилище (S3 и т.п.) - реализация интерфейса, подключенная в StorageModule
+ */
+export interface FileStorage {
+  save(key: string, data: Buffer): Promise<StoredFile>;
+  read(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+}
@@ -0,0 +1,60 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import { FileStorage, StoredFile } from './file-storage.interface';
+
+/**
+ * Хранение файлов на локальном диске в каталоге STORAGE_DIR (по умолчанию ./uploads)
+ */
+@Injectable()
+export class LocalFileStorage implements FileStorage {
+  private readonly logger = new Logger(LocalFileStorage.name);
+  private readonly root: string;
+
+  constructor(private readonly configService: ConfigService) {
+    this.root = resolve(
+      this.configService.get<string>('STORAGE_DIR', 'uploads'),
+    );
+  }
+
+  async save(key: string, data: Buffer): Promise<StoredFile> {
+    const path = this.resolvePath(key);
+
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, data);
+
+    return { key, size: data.length };
+  }
+
+  async read(key: string): Promise<Buffer> {
+    try {
+      return await readFile(this.resolvePath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new NotFoundException('File not found');
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await rm(this.resolvePath(key), { force: true });
+    } catch (error) {
+      // Файл без записи в базе не мешает работе - только занимает место
+      this.logger.warn(`⚠️ Не удалось удалить файл ${key}: ${error.message}`);
+    }
+  }
+
+  // Ключ не должен выводить за пределы каталога хранилища
+  private resolvePath(key: string): string {
+    const path = resolve(this.root, key);
+
+    if (!path.startsWith(this.root + sep)) {
+      throw new NotFoundException('File not found');
+    }
+
+    return path;
+  }
+}
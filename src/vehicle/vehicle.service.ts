@@ -9,7 +9,24 @@ import { PrismaService } from '../prisma/prisma.service';
 import { CreateVehicleDto } from './dto/create-vehicle.dto';
 import { UpdateVehicleDto } from './dto/update-vehicle.dto';
 import { UpdateStatusDto } from './dto/update-status.dto';
-import { UserRole, VehicleStatus } from '@prisma/client';
+import {
+  ContractStatus,
+  PaymentStatus,
+  PaymentType,
+  Prisma,
+  UserRole,
+  VehicleStatus,
+} from '@prisma/client';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import { moneyToNumber, sumMoney } from '../currency/utils/money.util';
+import {
+  diffDays,
+  getLocalDate,
+} from '../billing/common/utils/billing-date.util';
+import {
+  splitByVehicle,
+  splitRentByVehicle,
+} from '../billing/common/utils/vehicle-assignment.util';
 
 @Injectable()
 export class VehicleService {
@@ -259,7 +276,7 @@ export class VehicleService {
       include: {
         contracts: {
           where: {
-            status: 'ACTIVE',
+            status: { in: [ContractStatus.ACTIVE, ContractStatus.SCHEDULED] },
           },
         },
       },
@@ -272,15 +289,30 @@ export class VehicleService {
     // Проверка доступа
     this.checkVehicleAccess(vehicle, currentUser);
 
+    const hasActive = vehicle.contracts.some(
+      (contract) => contract.status === ContractStatus.ACTIVE,
+    );
+    const hasScheduled = vehicle.contracts.some(
+      (contract) => contract.status === ContractStatus.SCHEDULED,
+    );
+
     // Валидация статусов
     if (status === VehicleStatus.AVAILABLE && vehicle.contracts.length > 0) {
-      throw new BadRequestException('Cannot set vehicle as AVAILABLE while it has active contracts');
+      throw new BadRequestException(
+        'Cannot set vehicle as AVAILABLE while it has active or scheduled contracts',
+      );
     }
 
-    if (status === VehicleStatus.RENTED && vehicle.contracts.length === 0) {
+    if (status === VehicleStatus.RENTED && !hasActive) {
       throw new BadRequestException('Cannot set vehicle as RENTED without active contracts');
     }
 
+    if (status === VehicleStatus.RESERVED && !hasScheduled) {
+      throw new BadRequestException(
+        'Cannot set vehicle as RESERVED without scheduled contracts',
+      );
+    }
+
     return this.prisma.vehicle.update({
       where: { id },
       data: { 
@@ -319,10 +351,16 @@ export class VehicleService {
     // Проверка доступа
     this.checkVehicleAccess(vehicle, currentUser);
 
-    // Проверяем, нет ли активных контрактов
-    const activeContracts = vehicle.contracts.filter(contract => contract.status === 'ACTIVE');
+    // Проверяем, нет ли активных и запланированных контрактов
+    const activeContracts = vehicle.contracts.filter(
+      (contract) =>
+        contract.status === ContractStatus.ACTIVE ||
+        contract.status === ContractStatus.SCHEDULED,
+    );
     if (activeContracts.length > 0) {
-      throw new BadRequestException('Cannot delete vehicle with active contracts');
+      throw new BadRequestException(
+        'Cannot delete vehicle with active or scheduled contracts',
+      );
     }
 
     return this.prisma.vehicle.delete({
@@ -330,29 +368,33 @@ export class VehicleService {
     });
   }
 
-  async getVehicleStats(id: string, currentUser: any) {
+  async getVehicleStats(id: string, currentUser: CurrentUser) {
     const vehicle = await this.findOne(id, currentUser);
 
+    // Контракты, в которых автомобиль был закреплен хотя бы часть срока
+    const vehicleContracts: Prisma.ContractWhereInput = {
+      OR: [
+        { vehicleId: id },
+        { vehicleAssignments: { some: { vehicleId: id } } },
+      ],
+    };
+
     const [totalContracts, activeContracts, totalRevenue, utilizationRate] = await Promise.all([
       this.prisma.contract.count({
-        where: { vehicleId: id },
+        where: vehicleContracts,
       }),
+      // Активный контракт, в котором водитель сейчас ездит на этом автомобиле
       this.prisma.contract.count({
-        where: { 
-          vehicleId: id,
-          status: 'ACTIVE',
-        },
-      }),
-      this.prisma.payment.aggregate({
         where: {
-          contract: {
-            vehicleId: id,
-          },
-          type: 'DAILY_RENT',
+          status: ContractStatus.ACTIVE,
+          OR: [
+            { vehicleId: id, vehicleAssignments: { none: {} } },
+            { vehicleAssignments: { some: { vehicleId: id, toDay: null } } },
+          ],
         },
-        _sum: { amount: true },
       }),
-      this.calculateUtilizationRate(id),
+      this.calculateVehicleRevenue(id, vehicleContracts),
+      this.calculateUtilizationRate(id, vehicleContracts),
     ]);
 
     return {
@@ -360,7 +402,7 @@ export class VehicleService {
       stats: {
         totalContracts,
         activeContracts,
-        totalRevenue: totalRevenue._sum.amount || 0,
+        totalRevenue: moneyToNumber(totalRevenue),
         utilizationRate: Math.round(utilizationRate * 100) / 100, // Округляем до 2 знаков
         isRented: vehicle.status === VehicleStatus.RENTED,
         isAvailable: vehicle.status === VehicleStatus.AVAILABLE,
@@ -395,41 +437,110 @@ export class VehicleService {
     });
   }
 
-  private async calculateUtilizationRate(vehicleId: string): Promise<number> {
-    // Упрощенный расчет: процент дней в аренде за последний месяц
-    const oneMonthAgo = new Date();
-    oneMonthAgo.setMonth(oneMonthAgo.getMonth() - 1);
-
-    // Проверяем есть ли активные контракты за последний месяц
-    const activeContracts = await this.prisma.contract.findMany({
+  private async calculateVehicleRevenue(
+    vehicleId: string,
+    vehicleContracts: Prisma.ContractWhereInput,
+  ) {
+    // Автомобилю относится доля списания за дни, когда водитель ездил на нем
+    const rentPayments = await this.prisma.payment.findMany({
       where: {
-        vehicleId,
-        status: 'ACTIVE',
-        startDate: {
-          gte: oneMonthAgo,
+        type: PaymentType.DAILY_RENT,
+        status: PaymentStatus.SUCCEEDED,
+        contract: vehicleContracts,
+      },
+      select: {
+        amount: true,
+        metadata: true,
+        billingDate: true,
+        createdAt: true,
+        contract: {
+          select: {
+            vehicleId: true,
+            vehicleAssignments: {
+              select: { vehicleId: true, fromDay: true, toDay: true },
+              orderBy: { fromDay: 'asc' },
+            },
+          },
         },
       },
     });
 
-    // Простой расчет - если есть активные контракты, возвращаем 80%
-    // В будущем можно будет улучшить логику подсчета реальных дней
-    if (activeContracts.length > 0) {
-      return 80.0;
+    return sumMoney(
+      rentPayments.flatMap((payment) =>
+        payment.contract
+          ? splitRentByVehicle(
+              payment,
+              payment.contract.vehicleAssignments,
+              payment.contract.vehicleId,
+            )
+              .filter((share) => share.vehicleId === vehicleId)
+              .map((share) => share.amount)
+          : [],
+      ),
+    );
+  }
+
+  private async calculateUtilizationRate(
+    vehicleId: string,
+    vehicleContracts: Prisma.ContractWhereInput,
+  ): Promise<number> {
+    // Процент дней за последний месяц, когда водитель ездил на автомобиле
+    const vehicle = await this.prisma.vehicle.findUnique({
+      where: { id: vehicleId },
+      select: { company: { select: { timezone: true } } },
+    });
+    if (!vehicle) {
+      return 0;
     }
 
-    // Проверяем завершенные контракты за месяц
-    const completedContracts = await this.prisma.contract.count({
+    const timezone = vehicle.company.timezone;
+    const today = getLocalDate(new Date(), timezone);
+    const monthAgo = new Date();
+    monthAgo.setMonth(monthAgo.getMonth() - 1);
+    const periodStart = getLocalDate(monthAgo, timezone);
+    const periodDays = diffDays(periodStart, today);
+
+    const contracts = await this.prisma.contract.findMany({
       where: {
-        vehicleId,
-        status: 'COMPLETED',
-        endDate: {
-          gte: oneMonthAgo,
+        status: { not: ContractStatus.SCHEDULED },
+        startDate: { lt: new Date() },
+        OR: [{ endDate: null }, { endDate: { gte: monthAgo } }],
+        AND: [vehicleContracts],
+      },
+      select: {
+        startDate: true,
+        endDate: true,
+        vehicleId: true,
+        vehicleAssignments: {
+          select: { vehicleId: true, fromDay: true, toDay: true },
+          orderBy: { fromDay: 'asc' },
         },
       },
     });
 
-    // Если были завершенные контракты, возвращаем меньший процент
-    return completedContracts > 0 ? 60.0 : 0.0;
+    let rentedDays = 0;
+    for (const contract of contracts) {
+      const startDay = getLocalDate(contract.startDate, timezone);
+      const endDay = contract.endDate
+        ? getLocalDate(contract.endDate, timezone)
+        : today;
+      const from = startDay > periodStart ? startDay : periodStart;
+      const to = endDay < today ? endDay : today;
+      if (from >= to) {
+        continue;
+      }
+
+      if (contract.vehicleAssignments.length === 0) {
+        rentedDays += contract.vehicleId === vehicleId ? diffDays(from, to) : 0;
+        continue;
+      }
+
+      rentedDays += splitByVehicle(contract.vehicleAssignments, from, to)
+        .filter((share) => share.vehicleId === vehicleId)
+        .reduce((sum, share) => sum + share.days, 0);
+    }
+
+    return periodDays > 0 ? Math.min((rentedDays / periodDays) * 100, 100) : 0;
   }
 
   private checkVehicleAccess(vehicle: any, currentUser: any) {